@@ -26,6 +26,7 @@ import AppNavigator from './src/navigation/AppNavigator';
 import {useStore} from './src/store';
 import NotificationService from './src/services/notificationService';
 import GeolocationService from './src/services/geolocationService';
+import {startOfflineQueue} from './src/services/api/offlineQueue';
 import './src/i18n'; // Initialize i18n
 // OneSignal removed - using Firebase FCM
 
@@ -92,8 +93,12 @@ const App = () => {
       console.error('Error initializing notifications:', error);
     });
 
+    // Replay requests saved while offline whenever connectivity returns
+    const stopOfflineQueue = startOfflineQueue();
+
     // Cleanup
     return () => {
+      stopOfflineQueue();
       if (typeof global.removeEventListener === 'function') {
         global.removeEventListener('unhandledrejection', rejectionHandler);
       }
@@ -9,7 +9,7 @@ module.exports = {
         safe: false,
         allowUndefined: true,
         blocklist: null,
-        allowlist: ['OPEN_AI_API_KEY', 'OPENAI_API_KEY', 'RAZORPAY_KEY_ID', 'PAYMENT_API_URL_DEV', 'PAYMENT_API_URL_PROD', 'APP_NAME', 'COPYRIGHT_OWNER', 'AGORA_APP_ID', 'GOOGLE_MAPS_API_KEY'],
+        allowlist: ['OPEN_AI_API_KEY', 'OPENAI_API_KEY', 'RAZORPAY_KEY_ID', 'PAYMENT_API_URL_DEV', 'PAYMENT_API_URL_PROD', 'APP_NAME', 'COPYRIGHT_OWNER', 'AGORA_APP_ID', 'GOOGLE_MAPS_API_KEY', 'FIREBASE_STORAGE_EMULATOR_HOST'],
         verbose: true,
       },
     ],
@@ -53,6 +53,53 @@ if (!admin.apps.length) {
   }
 }
 
+/**
+ * Require a Firebase ID token in the Authorization header
+ * Sets req.uid to the caller's uid
+ */
+const requireFirebaseAuth = async (req, res, next) => {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+  if (!match) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authorization header with a Firebase ID token is required',
+    });
+  }
+
+  try {
+    const decodedToken = await admin.auth().verifyIdToken(match[1]);
+    req.uid = decodedToken.uid;
+    next();
+  } catch (error) {
+    console.warn('Rejected request with an invalid ID token:', error.message);
+    res.status(401).json({
+      success: false,
+      error: 'Invalid or expired ID token',
+    });
+  }
+};
+
+/**
+ * Load a service request the caller takes part in
+ * Responds with 404 or 403 and resolves with null when it is not theirs
+ */
+const loadCallerServiceRequest = async (req, res, serviceRequestId, { allowProvider = false } = {}) => {
+  const requestDoc = await admin.firestore().collection('serviceRequests').doc(String(serviceRequestId)).get();
+  if (!requestDoc.exists) {
+    res.status(404).json({ success: false, error: 'Service request not found' });
+    return null;
+  }
+
+  const serviceRequest = requestDoc.data();
+  const isCustomer = serviceRequest.customerId === req.uid;
+  const isProvider = allowProvider && !!serviceRequest.providerId && serviceRequest.providerId === req.uid;
+  if (!isCustomer && !isProvider) {
+    res.status(403).json({ success: false, error: 'Not allowed for this service request' });
+    return null;
+  }
+  return serviceRequest;
+};
+
 // Health check endpoint
 app.get('/', (req, res) => {
   res.json({status: 'ok', message: 'Push Notification Server is running'});
@@ -404,6 +451,383 @@ app.post('/emit-booking', (req, res) => {
   }
 });
 
+/**
+ * Emit a schedule change (new time or proposed time) via WebSocket
+ * POST /emit-schedule-change
+ * Requires the Firebase ID token of the request's customer or assigned provider;
+ * only the request's own customer and provider can be notified
+ * Body: {
+ *   providerId: 'provider123',   // optional
+ *   customerId: 'customer123',   // optional
+ *   scheduleData: { consultationId: '123', status: 'rescheduled', scheduledTime: '...' }
+ * }
+ */
+app.post('/emit-schedule-change', requireFirebaseAuth, async (req, res) => {
+  try {
+    const { providerId, customerId, scheduleData } = req.body;
+
+    if ((!providerId && !customerId) || !scheduleData || !scheduleData.consultationId) {
+      return res.status(400).json({
+        success: false,
+        error: 'providerId or customerId, and scheduleData with consultationId are required',
+      });
+    }
+
+    const serviceRequest = await loadCallerServiceRequest(req, res, scheduleData.consultationId, {
+      allowProvider: true,
+    });
+    if (!serviceRequest) {
+      return;
+    }
+    if (
+      (customerId && customerId !== serviceRequest.customerId) ||
+      (providerId && providerId !== serviceRequest.providerId)
+    ) {
+      return res.status(403).json({
+        success: false,
+        error: 'Schedule changes can only be sent to the request\'s customer and provider',
+      });
+    }
+
+    const roomNames = [
+      providerId && `provider-${providerId}`,
+      customerId && `customer-${customerId}`,
+    ].filter(Boolean);
+
+    roomNames.forEach((roomName) => {
+      const room = io.sockets.adapter.rooms.get(roomName);
+      const roomSize = room ? room.size : 0;
+
+      console.log(`📤 Emitting schedule change to room: ${roomName}`, {
+        consultationId: scheduleData.consultationId,
+        status: scheduleData.status,
+      });
+      io.to(roomName).emit('schedule-changed', scheduleData);
+
+      if (roomSize === 0) {
+        console.warn(`⚠️ Warning: Nobody connected to room ${roomName}. Schedule change may not be received.`);
+      }
+    });
+
+    res.json({
+      success: true,
+      message: 'Schedule change emitted',
+      rooms: roomNames,
+    });
+  } catch (error) {
+    console.error('Error emitting schedule change:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to emit schedule change',
+    });
+  }
+});
+
+/**
+ * Matching escalation
+ * A pending service request is offered to more and more providers until one
+ * accepts: first the best-ranked provider nearby, then every provider within
+ * widening radius rings, then all online providers in the category.
+ * Each step is reported to the customer room as a 'matching-progress' event.
+ */
+const parseRadii = (value) =>
+  String(value)
+    .split(',')
+    .map(Number)
+    .filter((radius) => radius > 0);
+
+const MATCHING_DEFAULTS = {
+  targetedOfferMs: Number(process.env.MATCHING_TARGETED_OFFER_MS) || 60000,
+  ringRadiiKm: parseRadii(process.env.MATCHING_RING_RADII_KM || '5,10,20'),
+  ringTimeoutMs: Number(process.env.MATCHING_RING_TIMEOUT_MS) || 90000,
+  broadcastTimeoutMs: Number(process.env.MATCHING_BROADCAST_TIMEOUT_MS) || 300000,
+};
+
+// Bounds for a request's own overrides of the defaults
+const MATCHING_LIMITS_MS = {
+  targetedOfferMs: [15000, 5 * 60000],
+  ringTimeoutMs: [30000, 10 * 60000],
+  broadcastTimeoutMs: [60000, 30 * 60000],
+};
+const MAX_RING_RADIUS_KM = 50;
+const MAX_RINGS = 5;
+
+const clamp = (value, min, max) => Math.min(Math.max(value, min), max);
+
+/**
+ * Matching settings for one request: the defaults with the caller's
+ * overrides, limited to the known fields and clamped to the bounds above
+ */
+const resolveMatchingConfig = (overrides) => {
+  const config = { ...MATCHING_DEFAULTS };
+  if (!overrides || typeof overrides !== 'object') {
+    return config;
+  }
+
+  Object.entries(MATCHING_LIMITS_MS).forEach(([field, [min, max]]) => {
+    const value = Number(overrides[field]);
+    if (overrides[field] !== undefined && Number.isFinite(value)) {
+      config[field] = clamp(value, min, max);
+    }
+  });
+
+  if (Array.isArray(overrides.ringRadiiKm)) {
+    const radii = overrides.ringRadiiKm
+      .map(Number)
+      .filter((radius) => Number.isFinite(radius) && radius > 0)
+      .map((radius) => Math.min(radius, MAX_RING_RADIUS_KM))
+      // Rings only ever widen
+      .sort((a, b) => a - b)
+      .slice(0, MAX_RINGS);
+    if (radii.length > 0) {
+      config.ringRadiiKm = radii;
+    }
+  }
+
+  return config;
+};
+
+// serviceRequestId -> { timer, customerId, config, ... }
+const activeMatches = new Map();
+
+// Haversine distance in kilometers
+const distanceKm = (from, to) => {
+  const toRadians = (degrees) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+const hasCoordinates = (location) =>
+  !!location && typeof location.latitude === 'number' && typeof location.longitude === 'number';
+
+const offersServiceType = (provider, serviceType) => {
+  const target = String(serviceType || '').toLowerCase();
+  const categories = [
+    ...(Array.isArray(provider.serviceCategories) ? provider.serviceCategories : []),
+    provider.specialization,
+    provider.specialty,
+  ];
+  return categories.some((category) => category && String(category).toLowerCase() === target);
+};
+
+/**
+ * Online, approved providers for the service type, ranked by rating and
+ * then distance; providers without a known location go last
+ */
+const loadMatchCandidates = async (serviceType, customerLocation) => {
+  const snapshot = await admin.firestore().collection('providers').where('isOnline', '==', true).get();
+
+  return snapshot.docs
+    .map((doc) => ({ id: doc.id, ...doc.data() }))
+    .filter((provider) => provider.approvalStatus === 'approved' && offersServiceType(provider, serviceType))
+    .map((provider) => {
+      const location = provider.currentLocation || provider.location;
+      return {
+        id: provider.id,
+        rating: provider.rating || 0,
+        distanceKm:
+          hasCoordinates(customerLocation) && hasCoordinates(location)
+            ? distanceKm(customerLocation, location)
+            : null,
+      };
+    })
+    .sort((a, b) => {
+      if ((a.distanceKm === null) !== (b.distanceKm === null)) {
+        return a.distanceKm === null ? 1 : -1;
+      }
+      return b.rating - a.rating || (a.distanceKm || 0) - (b.distanceKm || 0);
+    });
+};
+
+const buildMatchingStages = (config) => [
+  { stage: 'targeted', radiusKm: config.ringRadiiKm[0], timeoutMs: config.targetedOfferMs },
+  ...config.ringRadiiKm.map((radiusKm) => ({ stage: 'radius', radiusKm, timeoutMs: config.ringTimeoutMs })),
+  { stage: 'broadcast', timeoutMs: config.broadcastTimeoutMs },
+];
+
+const selectStageProviders = (stage, candidates) => {
+  if (stage.stage === 'broadcast') {
+    return candidates;
+  }
+  const inRange = candidates.filter((candidate) => candidate.distanceKm !== null && candidate.distanceKm <= stage.radiusKm);
+  return stage.stage === 'targeted' ? inRange.slice(0, 1) : inRange;
+};
+
+const emitMatchingProgress = (customerId, progress) => {
+  console.log(`📡 Matching progress for ${progress.consultationId}:`, progress.stage, progress.radiusKm || '');
+  io.to(`customer-${customerId}`).emit('matching-progress', progress);
+};
+
+const stopMatching = (serviceRequestId) => {
+  const match = activeMatches.get(serviceRequestId);
+  if (match) {
+    clearTimeout(match.timer);
+    activeMatches.delete(serviceRequestId);
+  }
+  return !!match;
+};
+
+const runMatchingStage = async (match, stages, index) => {
+  const { serviceRequestId, customerId, serviceType, customerLocation, bookingData, offeredTo } = match;
+  if (activeMatches.get(serviceRequestId) !== match) {
+    return;
+  }
+
+  try {
+    // Stop as soon as a provider has accepted or the customer cancelled
+    const requestDoc = await admin.firestore().collection('serviceRequests').doc(serviceRequestId).get();
+    if (!requestDoc.exists || requestDoc.data().status !== 'pending') {
+      console.log(`✅ Matching finished for ${serviceRequestId} (no longer pending)`);
+      stopMatching(serviceRequestId);
+      return;
+    }
+
+    if (index >= stages.length) {
+      emitMatchingProgress(customerId, { consultationId: serviceRequestId, stage: 'exhausted', providerCount: offeredTo.size });
+      stopMatching(serviceRequestId);
+      return;
+    }
+
+    const stage = stages[index];
+    const candidates = await loadMatchCandidates(serviceType, customerLocation);
+    const newProviders = selectStageProviders(stage, candidates).filter((candidate) => !offeredTo.has(candidate.id));
+
+    // Nothing new to offer in this ring - widen straight away
+    if (newProviders.length === 0 && stage.stage !== 'broadcast') {
+      runMatchingStage(match, stages, index + 1);
+      return;
+    }
+
+    newProviders.forEach((candidate) => {
+      offeredTo.add(candidate.id);
+      io.to(`provider-${candidate.id}`).emit('new-booking', { ...bookingData, matchingStage: stage.stage });
+    });
+
+    emitMatchingProgress(customerId, {
+      consultationId: serviceRequestId,
+      stage: stage.stage,
+      radiusKm: stage.radiusKm,
+      providerCount: offeredTo.size,
+      nextStageAt: new Date(Date.now() + stage.timeoutMs).toISOString(),
+    });
+
+    match.timer = setTimeout(() => runMatchingStage(match, stages, index + 1), stage.timeoutMs);
+  } catch (error) {
+    console.error(`❌ Matching stage failed for ${serviceRequestId}:`, error);
+    // Retry the same stage rather than dropping the request
+    match.timer = setTimeout(() => runMatchingStage(match, stages, index), match.config.ringTimeoutMs);
+  }
+};
+
+/**
+ * Start matching escalation for a pending service request
+ * POST /start-matching
+ * Requires the customer's Firebase ID token (Authorization: Bearer <token>)
+ * Body: {
+ *   serviceRequestId: '123',
+ *   customerId: 'customer123',
+ *   serviceType: 'Plumber',
+ *   customerLocation: { latitude: 12.9, longitude: 77.6 },   // optional
+ *   bookingData: { ... },                                    // sent to providers as 'new-booking'
+ *   config: { targetedOfferMs, ringRadiiKm, ringTimeoutMs, broadcastTimeoutMs }   // optional overrides, clamped to MATCHING_LIMITS_MS
+ * }
+ */
+app.post('/start-matching', requireFirebaseAuth, async (req, res) => {
+  try {
+    const { serviceRequestId, customerId, serviceType, customerLocation, bookingData, config } = req.body;
+
+    if (!serviceRequestId || !customerId || !serviceType || !bookingData) {
+      return res.status(400).json({
+        success: false,
+        error: 'serviceRequestId, customerId, serviceType and bookingData are required',
+      });
+    }
+
+    // Only the customer who made the request can start matching for it
+    if (customerId !== req.uid) {
+      return res.status(403).json({
+        success: false,
+        error: 'customerId does not match the signed-in user',
+      });
+    }
+    if (!(await loadCallerServiceRequest(req, res, serviceRequestId))) {
+      return;
+    }
+
+    const matchingConfig = resolveMatchingConfig(config);
+
+    // Restarting (e.g. after a re-request) replaces any earlier run
+    stopMatching(serviceRequestId);
+    const match = {
+      serviceRequestId,
+      customerId,
+      serviceType,
+      customerLocation,
+      bookingData,
+      config: matchingConfig,
+      offeredTo: new Set(),
+      timer: null,
+    };
+    activeMatches.set(serviceRequestId, match);
+
+    console.log(`🔎 Starting matching for ${serviceRequestId}:`, matchingConfig);
+    runMatchingStage(match, buildMatchingStages(matchingConfig), 0);
+
+    res.json({
+      success: true,
+      message: 'Matching started',
+      config: matchingConfig,
+    });
+  } catch (error) {
+    console.error('Error starting matching:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to start matching',
+    });
+  }
+});
+
+/**
+ * Stop matching escalation (request accepted, cancelled or re-requested)
+ * POST /stop-matching
+ * Requires the Firebase ID token of the request's customer or assigned provider
+ * Body: { serviceRequestId: '123' }
+ */
+app.post('/stop-matching', requireFirebaseAuth, async (req, res) => {
+  try {
+    const { serviceRequestId } = req.body;
+
+    if (!serviceRequestId) {
+      return res.status(400).json({
+        success: false,
+        error: 'serviceRequestId is required',
+      });
+    }
+
+    if (!(await loadCallerServiceRequest(req, res, serviceRequestId, { allowProvider: true }))) {
+      return;
+    }
+
+    res.json({
+      success: true,
+      stopped: stopMatching(serviceRequestId),
+    });
+  } catch (error) {
+    console.error('Error stopping matching:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to stop matching',
+    });
+  }
+});
+
 // Cloud Run uses PORT env variable (defaults to 8080)
 // Default to 3000 for local development
 const PORT = process.env.PORT || 3000;
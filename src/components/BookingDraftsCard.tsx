@@ -0,0 +1,109 @@
+/**
+ * Booking Drafts Card
+ * Lists unfinished bookings so the customer can pick up where they left off
+ */
+
+import React from 'react';
+import {View, Text, StyleSheet, TouchableOpacity} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {useStore, isOwnBookingDraft, type BookingDraft} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import useTranslation from '../hooks/useTranslation';
+import type {ServiceCategory} from '../services/serviceCategoriesService';
+
+interface BookingDraftsCardProps {
+  // Used for the category names and icons
+  categories: ServiceCategory[];
+  onResume: (draft: BookingDraft) => void;
+}
+
+const BookingDraftsCard: React.FC<BookingDraftsCardProps> = ({categories, onResume}) => {
+  const {isDarkMode, language, currentUser, bookingDrafts, clearBookingDraft} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const {t} = useTranslation();
+
+  // Newest first, and only this user's drafts for categories that can still be booked
+  const drafts = Object.values(bookingDrafts)
+    .filter(draft => isOwnBookingDraft(draft, currentUser?.id))
+    .filter(draft => categories.some(category => category.name === draft.serviceType))
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  if (drafts.length === 0) {
+    return null;
+  }
+
+  const formatSavedAt = (date: Date) => {
+    const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+    if (minutes < 1) return t('notifications.justNow');
+    if (minutes < 60) return t('notifications.minutesAgo', {minutes});
+    if (minutes < 24 * 60) return t('notifications.hoursAgo', {hours: Math.floor(minutes / 60)});
+    return t('notifications.daysAgo', {days: Math.floor(minutes / (24 * 60))});
+  };
+
+  return (
+    <View style={[styles.container, {backgroundColor: theme.card, borderColor: theme.border}]}>
+      <Text style={[styles.title, {color: theme.text}]}>{t('serviceRequest.resumeDraft')}</Text>
+      {drafts.map(draft => {
+        const category = categories.find(c => c.name === draft.serviceType)!;
+        const name = language === 'hi' && category.nameHi ? category.nameHi : category.name;
+        return (
+          <TouchableOpacity
+            key={draft.serviceType}
+            style={[styles.row, {borderTopColor: theme.border}]}
+            onPress={() => onResume(draft)}>
+            <Icon name={category.icon} size={20} color={category.color} />
+            <View style={styles.rowContent}>
+              <Text style={[styles.label, {color: theme.text}]}>{name}</Text>
+              <Text style={[styles.savedAt, {color: theme.textSecondary}]}>
+                {t('serviceRequest.draftSaved', {time: formatSavedAt(draft.updatedAt)})}
+              </Text>
+            </View>
+            <TouchableOpacity style={styles.action} onPress={() => clearBookingDraft(draft.serviceType)}>
+              <Icon name="close" size={20} color={theme.textSecondary} />
+            </TouchableOpacity>
+            <Icon name="chevron-right" size={20} color={theme.textSecondary} />
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    borderRadius: 12,
+    marginHorizontal: 16,
+    marginVertical: 8,
+    paddingHorizontal: 12,
+    paddingTop: 12,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderTopWidth: StyleSheet.hairlineWidth,
+    paddingVertical: 10,
+  },
+  rowContent: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  savedAt: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  action: {
+    padding: 6,
+    marginLeft: 4,
+  },
+});
+
+export default BookingDraftsCard;
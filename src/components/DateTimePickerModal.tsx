@@ -0,0 +1,247 @@
+import React, {useEffect, useState} from 'react';
+import {Modal, View, Text, StyleSheet, TouchableOpacity} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import useTranslation from '../hooks/useTranslation';
+
+interface DateTimePickerModalProps {
+  visible: boolean;
+  title?: string;
+  // Initial value each time the modal opens
+  value: Date;
+  minimumDate?: Date;
+  // The parent closes the modal; it can keep it open to reject the value
+  onConfirm: (date: Date) => void;
+  onClose: () => void;
+}
+
+/**
+ * Bottom sheet for picking a date and a time of day
+ * Android has no combined picker, so date and time are picked separately
+ */
+const DateTimePickerModal: React.FC<DateTimePickerModalProps> = ({
+  visible,
+  title,
+  value,
+  minimumDate,
+  onConfirm,
+  onClose,
+}) => {
+  const {isDarkMode} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const {t} = useTranslation();
+  const [tempDate, setTempDate] = useState<Date>(value);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [showTimePicker, setShowTimePicker] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setTempDate(value);
+    }
+  }, [visible]);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={[styles.dateTimeModal, {backgroundColor: theme.card}]}>
+          <View style={styles.dateTimeModalHeader}>
+            <Text style={[styles.dateTimeModalTitle, {color: theme.text}]}>
+              {title || t('common.selectDateTime')}
+            </Text>
+            <TouchableOpacity onPress={onClose} style={styles.modalCloseButton}>
+              <Icon name="close" size={24} color={theme.text} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.dateTimeModalContent}>
+            {/* Date Picker */}
+            <View style={styles.dateTimePickerSection}>
+              <Text style={[styles.dateTimePickerLabel, {color: theme.text}]}>
+                {t('common.selectDate')}
+              </Text>
+              <TouchableOpacity
+                style={[
+                  styles.dateTimePickerButton,
+                  {backgroundColor: theme.background, borderColor: theme.border},
+                ]}
+                onPress={() => setShowDatePicker(true)}>
+                <Icon name="calendar-today" size={20} color={theme.primary} />
+                <Text style={[styles.dateTimePickerButtonText, {color: theme.text}]}>
+                  {tempDate.toLocaleDateString('en-US', {
+                    weekday: 'long',
+                    year: 'numeric',
+                    month: 'long',
+                    day: 'numeric',
+                  })}
+                </Text>
+              </TouchableOpacity>
+              {showDatePicker && (
+                <DateTimePicker
+                  value={tempDate}
+                  mode="date"
+                  minimumDate={minimumDate}
+                  display="default"
+                  onChange={(event, selectedDate) => {
+                    setShowDatePicker(false);
+                    if (selectedDate) {
+                      // Preserve the time when changing date
+                      const newDate = new Date(selectedDate);
+                      newDate.setHours(tempDate.getHours());
+                      newDate.setMinutes(tempDate.getMinutes());
+                      setTempDate(newDate);
+                    }
+                  }}
+                />
+              )}
+            </View>
+
+            {/* Time Picker */}
+            <View style={styles.dateTimePickerSection}>
+              <Text style={[styles.dateTimePickerLabel, {color: theme.text}]}>
+                {t('common.selectTime')}
+              </Text>
+              <TouchableOpacity
+                style={[
+                  styles.dateTimePickerButton,
+                  {backgroundColor: theme.background, borderColor: theme.border},
+                ]}
+                onPress={() => setShowTimePicker(true)}>
+                <Icon name="access-time" size={20} color={theme.primary} />
+                <Text style={[styles.dateTimePickerButtonText, {color: theme.text}]}>
+                  {tempDate.toLocaleTimeString('en-US', {
+                    hour: '2-digit',
+                    minute: '2-digit',
+                    hour12: true,
+                  })}
+                </Text>
+              </TouchableOpacity>
+              {showTimePicker && (
+                <DateTimePicker
+                  value={tempDate}
+                  mode="time"
+                  is24Hour={false}
+                  display="default"
+                  onChange={(event, selectedTime) => {
+                    setShowTimePicker(false);
+                    if (selectedTime) {
+                      // Preserve the date when changing time
+                      const newDate = new Date(tempDate);
+                      newDate.setHours(selectedTime.getHours());
+                      newDate.setMinutes(selectedTime.getMinutes());
+                      setTempDate(newDate);
+                    }
+                  }}
+                />
+              )}
+            </View>
+
+            {/* Action Buttons */}
+            <View style={styles.dateTimeModalActions}>
+              <TouchableOpacity
+                style={[styles.dateTimeModalCancelButton, {borderColor: theme.border}]}
+                onPress={onClose}>
+                <Text style={[styles.dateTimeModalCancelText, {color: theme.text}]}>
+                  {t('common.cancel')}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.dateTimeModalConfirmButton, {backgroundColor: theme.primary}]}
+                onPress={() => onConfirm(tempDate)}>
+                <Text style={styles.dateTimeModalConfirmText}>{t('common.confirm')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  dateTimeModal: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 20,
+    paddingBottom: 40,
+    maxHeight: '80%',
+  },
+  dateTimeModalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+  },
+  dateTimeModalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  modalCloseButton: {
+    padding: 4,
+  },
+  dateTimeModalContent: {
+    padding: 20,
+  },
+  dateTimePickerSection: {
+    marginBottom: 24,
+  },
+  dateTimePickerLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 12,
+  },
+  dateTimePickerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 12,
+  },
+  dateTimePickerButtonText: {
+    fontSize: 16,
+    flex: 1,
+  },
+  dateTimeModalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  dateTimeModalCancelButton: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  dateTimeModalCancelText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  dateTimeModalConfirmButton: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  dateTimeModalConfirmText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default DateTimePickerModal;
@@ -0,0 +1,91 @@
+/**
+ * Media Thumbnail
+ * Preview of a picked photo with its upload progress, a retry action when
+ * the upload failed and a remove button
+ */
+
+import React from 'react';
+import {View, Text, StyleSheet, TouchableOpacity, Image} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import type {MediaItem} from '../hooks/useMediaUpload';
+
+interface MediaThumbnailProps {
+  item: MediaItem;
+  onRemove: () => void;
+  onRetry?: () => void;
+}
+
+const MediaThumbnail: React.FC<MediaThumbnailProps> = ({item, onRemove, onRetry}) => (
+  <View style={styles.wrapper}>
+    <Image source={{uri: item.uri}} style={styles.photo} />
+
+    {item.status === 'uploading' && (
+      <View style={styles.overlay}>
+        <Text style={styles.progressText}>{Math.round(item.progress * 100)}%</Text>
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressFill, {width: `${Math.round(item.progress * 100)}%`}]} />
+        </View>
+      </View>
+    )}
+
+    {item.status === 'failed' && (
+      <TouchableOpacity style={styles.overlay} onPress={onRetry} disabled={!onRetry}>
+        <Icon name="refresh" size={28} color="#fff" />
+      </TouchableOpacity>
+    )}
+
+    <TouchableOpacity style={styles.removeButton} onPress={onRemove}>
+      <Icon name="close" size={20} color="#fff" />
+    </TouchableOpacity>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  wrapper: {
+    position: 'relative',
+    width: 100,
+    height: 100,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  photo: {
+    width: '100%',
+    height: '100%',
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.45)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  progressText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  progressTrack: {
+    width: '70%',
+    height: 4,
+    borderRadius: 2,
+    marginTop: 6,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 4,
+    backgroundColor: '#fff',
+  },
+  removeButton: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 12,
+    width: 24,
+    height: 24,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
+
+export default MediaThumbnail;
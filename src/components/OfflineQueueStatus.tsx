@@ -0,0 +1,143 @@
+/**
+ * Offline Queue Status
+ * Lists requests saved while offline with their delivery state
+ */
+
+import React from 'react';
+import {View, Text, StyleSheet, TouchableOpacity} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import useTranslation from '../hooks/useTranslation';
+import {useOfflineQueue} from '../hooks/useOfflineQueue';
+import type {QueuedRequest} from '../services/api/offlineQueue';
+
+interface OfflineQueueStatusProps {
+  // Also list requests that were already delivered
+  showSent?: boolean;
+}
+
+const OfflineQueueStatus: React.FC<OfflineQueueStatusProps> = ({showSent = false}) => {
+  const {isDarkMode} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const {t} = useTranslation();
+  const {queuedRequests, retry, remove} = useOfflineQueue();
+
+  const items = queuedRequests.filter(item => showSent || item.status !== 'sent');
+  if (items.length === 0) {
+    return null;
+  }
+
+  const getStatusColor = (status: QueuedRequest['status']) => {
+    switch (status) {
+      case 'queued':
+        return theme.warning;
+      case 'sending':
+        return theme.primary;
+      case 'sent':
+        return theme.success;
+      case 'failed':
+        return theme.error;
+      default:
+        return theme.textSecondary;
+    }
+  };
+
+  const getStatusIcon = (status: QueuedRequest['status']) => {
+    switch (status) {
+      case 'queued':
+        return 'cloud-queue';
+      case 'sending':
+        return 'cloud-upload';
+      case 'sent':
+        return 'cloud-done';
+      case 'failed':
+        return 'cloud-off';
+      default:
+        return 'cloud-queue';
+    }
+  };
+
+  return (
+    <View style={[styles.container, {backgroundColor: theme.card, borderColor: theme.border}]}>
+      <Text style={[styles.title, {color: theme.text}]}>
+        {t('services.offlineQueueTitle')}
+      </Text>
+      {items.map(item => {
+        const color = getStatusColor(item.status);
+        return (
+          <View key={item.id} style={[styles.row, {borderTopColor: theme.border}]}>
+            <Icon name={getStatusIcon(item.status)} size={20} color={color} />
+            <View style={styles.rowContent}>
+              <Text style={[styles.label, {color: theme.text}]}>
+                {t(`services.offlineQueueKind_${item.kind}`)}
+              </Text>
+              <Text style={[styles.status, {color}]}>
+                {t(`services.offlineQueueStatus_${item.status}`)}
+              </Text>
+              {item.status === 'failed' && item.lastError ? (
+                <Text style={[styles.error, {color: theme.textSecondary}]} numberOfLines={2}>
+                  {item.lastError}
+                </Text>
+              ) : null}
+            </View>
+            {item.status === 'failed' && (
+              <TouchableOpacity style={styles.action} onPress={() => retry(item.id)}>
+                <Icon name="refresh" size={20} color={theme.primary} />
+              </TouchableOpacity>
+            )}
+            {(item.status === 'failed' || item.status === 'queued') && (
+              <TouchableOpacity style={styles.action} onPress={() => remove(item.id)}>
+                <Icon name="close" size={20} color={theme.textSecondary} />
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    borderRadius: 12,
+    marginHorizontal: 16,
+    marginVertical: 8,
+    paddingHorizontal: 12,
+    paddingTop: 12,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderTopWidth: StyleSheet.hairlineWidth,
+    paddingVertical: 10,
+  },
+  rowContent: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  status: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  error: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  action: {
+    padding: 6,
+    marginLeft: 4,
+  },
+});
+
+export default OfflineQueueStatus;
@@ -0,0 +1,173 @@
+import React, {useState} from 'react';
+import {View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Linking, Platform} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import useTranslation from '../hooks/useTranslation';
+import {getErrorMessage} from '../utils/errorMessages';
+import {serviceRequestsApi} from '../services/api/serviceRequestsApi';
+import type {OnBehalfContact} from '../types/domain';
+
+interface OnBehalfContactCardProps {
+  serviceRequestId: string;
+  contact: OnBehalfContact;
+  serviceType: string;
+  bookerName: string;
+  // Verification PIN, once the job card has one
+  pin?: string;
+}
+
+// iOS separates the body with '&', Android with '?'
+const buildSmsUrl = (phone: string, body: string) =>
+  `sms:${phone}${Platform.OS === 'ios' ? '&' : '?'}body=${encodeURIComponent(body)}`;
+
+/**
+ * The person a request was booked for, with shortcuts to call them and to
+ * send them the status link and the verification PIN
+ */
+const OnBehalfContactCard: React.FC<OnBehalfContactCardProps> = ({
+  serviceRequestId,
+  contact,
+  serviceType,
+  bookerName,
+  pin,
+}) => {
+  const {isDarkMode} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const {t} = useTranslation();
+  const [sharingLink, setSharingLink] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleShareStatusLink = async () => {
+    setSharingLink(true);
+    setError('');
+    try {
+      const link = await serviceRequestsApi.createStatusLink(serviceRequestId);
+      console.log('🔗 Status link created for', contact.name);
+      await Linking.openURL(
+        buildSmsUrl(
+          contact.phone,
+          t('onBehalf.statusLinkMessage', {name: contact.name, booker: bookerName, serviceType, url: link.url}),
+        ),
+      );
+    } catch (shareError) {
+      console.error('Error sharing status link:', shareError);
+      setError(getErrorMessage(shareError, 'onBehalf.statusLinkError'));
+    } finally {
+      setSharingLink(false);
+    }
+  };
+
+  const handleSendPin = () => {
+    if (!pin) {
+      return;
+    }
+    Linking.openURL(
+      buildSmsUrl(contact.phone, t('onBehalf.pinMessage', {name: contact.name, serviceType, pin})),
+    ).catch(sendError => console.error('Error opening SMS composer:', sendError));
+  };
+
+  return (
+    <View style={[styles.card, {backgroundColor: theme.card}]}>
+      <View style={styles.header}>
+        <Icon name="people" size={24} color={theme.primary} />
+        <View style={styles.headerText}>
+          <Text style={[styles.title, {color: theme.text}]}>
+            {t('onBehalf.bookedFor', {name: contact.name})}
+          </Text>
+          <Text style={[styles.subtitle, {color: theme.textSecondary}]}>
+            {t(`onBehalf.relationship_${contact.relationship}`)} · {contact.phone}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.actionButton, {borderColor: theme.border}]}
+          onPress={() => Linking.openURL(`tel:${contact.phone}`)}>
+          <Icon name="call" size={18} color={theme.primary} />
+          <Text style={[styles.actionText, {color: theme.primary}]}>{t('onBehalf.call')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, {borderColor: theme.border}]}
+          onPress={handleShareStatusLink}
+          disabled={sharingLink}>
+          {sharingLink ? (
+            <ActivityIndicator size="small" color={theme.primary} />
+          ) : (
+            <Icon name="link" size={18} color={theme.primary} />
+          )}
+          <Text style={[styles.actionText, {color: theme.primary}]}>
+            {t('onBehalf.shareStatusLink')}
+          </Text>
+        </TouchableOpacity>
+        {pin ? (
+          <TouchableOpacity
+            style={[styles.actionButton, {borderColor: theme.border}]}
+            onPress={handleSendPin}>
+            <Icon name="lock" size={18} color={theme.primary} />
+            <Text style={[styles.actionText, {color: theme.primary}]}>{t('onBehalf.sendPin')}</Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    padding: 16,
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderRadius: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 1},
+    shadowOpacity: 0.22,
+    shadowRadius: 2.22,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  subtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  errorText: {
+    color: '#FF3B30',
+    fontSize: 13,
+    marginTop: 8,
+  },
+});
+
+export default OnBehalfContactCard;
@@ -0,0 +1,171 @@
+import React from 'react';
+import {View, Text, StyleSheet, TouchableOpacity, TextInput} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import useTranslation from '../hooks/useTranslation';
+import type {ContactRelationship, OnBehalfContact} from '../types/domain';
+
+interface OnBehalfOfSectionProps {
+  // null when booking for themselves
+  value: OnBehalfContact | null;
+  onChange: (value: OnBehalfContact | null) => void;
+}
+
+const RELATIONSHIPS: ContactRelationship[] = [
+  'parent',
+  'spouse',
+  'child',
+  'sibling',
+  'relative',
+  'friend',
+  'other',
+];
+
+const EMPTY_CONTACT: OnBehalfContact = {name: '', phone: '', relationship: 'parent'};
+
+/**
+ * Check the contact a booking is made for
+ * Returns a localized message, or null when the contact is valid
+ */
+export const validateOnBehalfContact = (
+  contact: OnBehalfContact,
+  t: (key: string) => string,
+): string | null => {
+  if (!contact.name.trim()) {
+    return t('onBehalf.nameRequired');
+  }
+  if (contact.phone.replace(/\D/g, '').length !== 10) {
+    return t('onBehalf.phoneInvalid');
+  }
+  return null;
+};
+
+/**
+ * "Booking for someone else" toggle with the contact's details
+ */
+const OnBehalfOfSection: React.FC<OnBehalfOfSectionProps> = ({value, onChange}) => {
+  const {isDarkMode} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const {t} = useTranslation();
+
+  const update = (updates: Partial<OnBehalfContact>) => {
+    onChange({...(value || EMPTY_CONTACT), ...updates});
+  };
+
+  return (
+    <View>
+      <TouchableOpacity
+        style={styles.toggleRow}
+        onPress={() => onChange(value ? null : EMPTY_CONTACT)}>
+        <Icon
+          name={value ? 'check-box' : 'check-box-outline-blank'}
+          size={24}
+          color={value ? theme.primary : theme.textSecondary}
+        />
+        <View style={styles.toggleText}>
+          <Text style={[styles.toggleLabel, {color: theme.text}]}>
+            {t('onBehalf.bookingForSomeoneElse')}
+          </Text>
+          <Text style={[styles.hint, {color: theme.textSecondary}]}>
+            {t('onBehalf.bookingForSomeoneElseHint')}
+          </Text>
+        </View>
+      </TouchableOpacity>
+
+      {value && (
+        <View style={styles.fields}>
+          <TextInput
+            style={[styles.input, {backgroundColor: theme.card, color: theme.text, borderColor: theme.border}]}
+            value={value.name}
+            onChangeText={name => update({name})}
+            placeholder={t('onBehalf.contactName')}
+            placeholderTextColor={theme.textSecondary}
+          />
+          <TextInput
+            style={[styles.input, {backgroundColor: theme.card, color: theme.text, borderColor: theme.border}]}
+            value={value.phone}
+            onChangeText={phone => update({phone})}
+            placeholder={t('onBehalf.contactPhone')}
+            placeholderTextColor={theme.textSecondary}
+            keyboardType="phone-pad"
+            maxLength={15}
+          />
+          <Text style={[styles.relationshipLabel, {color: theme.textSecondary}]}>
+            {t('onBehalf.relationship')}
+          </Text>
+          <View style={styles.chips}>
+            {RELATIONSHIPS.map(relationship => {
+              const isSelected = value.relationship === relationship;
+              return (
+                <TouchableOpacity
+                  key={relationship}
+                  style={[
+                    styles.chip,
+                    {borderColor: isSelected ? theme.primary : theme.border},
+                    isSelected && {backgroundColor: theme.primary},
+                  ]}
+                  onPress={() => update({relationship})}>
+                  <Text style={[styles.chipText, {color: isSelected ? '#fff' : theme.text}]}>
+                    {t(`onBehalf.relationship_${relationship}`)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  toggleText: {
+    flex: 1,
+  },
+  toggleLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 13,
+    marginTop: 2,
+    lineHeight: 18,
+  },
+  fields: {
+    marginTop: 12,
+    gap: 10,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 16,
+  },
+  relationshipLabel: {
+    fontSize: 14,
+    marginTop: 4,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
+
+export default OnBehalfOfSection;
@@ -0,0 +1,125 @@
+import React, {useState} from 'react';
+import {View, Text, StyleSheet, TouchableOpacity} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import useTranslation from '../hooks/useTranslation';
+import type {PriceEstimate, PriceEstimateLine} from '../types/domain';
+import type {QuestionnaireQuestion} from '../services/serviceCategoriesService';
+
+interface PriceEstimateCardProps {
+  estimate: PriceEstimate;
+  // Used to label the answer lines of the breakdown
+  questionnaire: QuestionnaireQuestion[];
+}
+
+/**
+ * Estimated price range with an expandable breakdown
+ */
+const PriceEstimateCard: React.FC<PriceEstimateCardProps> = ({estimate, questionnaire}) => {
+  const {isDarkMode, language} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const {t} = useTranslation();
+  const [expanded, setExpanded] = useState(false);
+
+  const getLineLabel = (line: PriceEstimateLine) => {
+    switch (line.type) {
+      case 'base':
+        return t('serviceRequest.estimateBase');
+      case 'immediate':
+        return t('serviceRequest.estimateImmediate');
+      case 'night':
+        return t('serviceRequest.estimateNight');
+      default: {
+        const question = questionnaire.find(q => q.id === line.questionId);
+        if (!question) {
+          return t('serviceRequest.estimateExtras');
+        }
+        return language === 'hi' && question.questionHi ? question.questionHi : question.question;
+      }
+    }
+  };
+
+  return (
+    <View style={[styles.card, {backgroundColor: theme.primary + '10', borderColor: theme.primary + '40'}]}>
+      <TouchableOpacity style={styles.header} onPress={() => setExpanded(!expanded)}>
+        <Icon name="receipt" size={24} color={theme.primary} />
+        <View style={styles.headerText}>
+          <Text style={[styles.title, {color: theme.textSecondary}]}>
+            {t('serviceRequest.estimatedPrice')}
+          </Text>
+          <Text style={[styles.range, {color: theme.text}]}>
+            ₹{estimate.min} – ₹{estimate.max}
+          </Text>
+        </View>
+        <Icon name={expanded ? 'expand-less' : 'expand-more'} size={24} color={theme.textSecondary} />
+      </TouchableOpacity>
+
+      {expanded && (
+        <View style={[styles.breakdown, {borderTopColor: theme.border}]}>
+          {estimate.lines.map((line, index) => (
+            <View key={`${line.type}-${line.questionId || index}`} style={styles.lineRow}>
+              <Text style={[styles.lineLabel, {color: theme.text}]} numberOfLines={1}>
+                {getLineLabel(line)}
+              </Text>
+              <Text style={[styles.lineAmount, {color: theme.text}]}>₹{line.amount}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <Text style={[styles.disclaimer, {color: theme.textSecondary}]}>
+        {t('serviceRequest.estimateDisclaimer')}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 13,
+  },
+  range: {
+    fontSize: 22,
+    fontWeight: '700',
+    marginTop: 2,
+  },
+  breakdown: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    gap: 6,
+  },
+  lineRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  lineLabel: {
+    flex: 1,
+    fontSize: 14,
+  },
+  lineAmount: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  disclaimer: {
+    fontSize: 12,
+    marginTop: 10,
+  },
+});
+
+export default PriceEstimateCard;
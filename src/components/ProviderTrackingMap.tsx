@@ -0,0 +1,198 @@
+/**
+ * Provider Tracking Map
+ * The provider's live position and trail on the way to the service address,
+ * with the ETA and a warning when the provider's location has gone stale
+ */
+
+import React, {useEffect, useRef} from 'react';
+import {View, Text, StyleSheet, Platform} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {GOOGLE_MAPS_API_KEY} from '@env';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import useTranslation from '../hooks/useTranslation';
+import {formatDistance} from '../services/providerLocationService';
+import type {TrackingPoint} from '../hooks/useProviderTracking';
+
+// Maps are optional - callers fall back to the text distance view without them
+let MapView: any = null;
+let Marker: any = null;
+let Polyline: any = null;
+
+try {
+  const maps = require('react-native-maps');
+  MapView = maps.default || maps.MapView;
+  Marker = maps.Marker || maps.default?.Marker;
+  Polyline = maps.Polyline || maps.default?.Polyline;
+} catch (e) {
+  console.log('Provider tracking map unavailable - react-native-maps not installed');
+}
+
+// Android needs a Google Maps key; iOS uses Apple Maps
+export const isTrackingMapAvailable =
+  !!MapView && !!Marker && !!Polyline && (Platform.OS === 'ios' || !!GOOGLE_MAPS_API_KEY);
+
+interface ProviderTrackingMapProps {
+  providerLocation: TrackingPoint;
+  trail: TrackingPoint[];
+  destination: TrackingPoint;
+  distanceKm: number | null;
+  etaMinutes: number | null;
+  isStale: boolean;
+  minutesSinceUpdate: number | null;
+}
+
+const EDGE_PADDING = {top: 80, right: 50, bottom: 120, left: 50};
+
+const ProviderTrackingMap: React.FC<ProviderTrackingMapProps> = ({
+  providerLocation,
+  trail,
+  destination,
+  distanceKm,
+  etaMinutes,
+  isStale,
+  minutesSinceUpdate,
+}) => {
+  const {isDarkMode} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const {t} = useTranslation();
+  const mapRef = useRef<any>(null);
+
+  // Keep the provider and the service address in view as the provider moves
+  const fitToRoute = () => {
+    try {
+      mapRef.current?.fitToCoordinates([providerLocation, destination], {
+        edgePadding: EDGE_PADDING,
+        animated: true,
+      });
+    } catch (error) {
+      console.error('Error fitting tracking map:', error);
+    }
+  };
+
+  useEffect(() => {
+    fitToRoute();
+  }, [providerLocation.latitude, providerLocation.longitude, destination.latitude, destination.longitude]);
+
+  const providerColor = isStale ? '#8E8E93' : '#34C759';
+
+  return (
+    <View style={styles.container}>
+      <MapView
+        ref={mapRef}
+        style={styles.map}
+        initialRegion={{
+          latitude: providerLocation.latitude,
+          longitude: providerLocation.longitude,
+          latitudeDelta: 0.05,
+          longitudeDelta: 0.05,
+        }}
+        onMapReady={fitToRoute}>
+        {/* Where the provider has been */}
+        {trail.length > 1 && (
+          <Polyline coordinates={trail} strokeColor={theme.primary} strokeWidth={4} />
+        )}
+
+        {/* Straight line still to go */}
+        <Polyline
+          coordinates={[providerLocation, destination]}
+          strokeColor={theme.textSecondary}
+          strokeWidth={2}
+          lineDashPattern={[6, 6]}
+        />
+
+        <Marker coordinate={destination} title={t('jobCard.serviceAddress')}>
+          <View style={[styles.marker, {borderColor: '#007AFF'}]}>
+            <Icon name="home" size={22} color="#007AFF" />
+          </View>
+        </Marker>
+
+        <Marker coordinate={providerLocation} title={t('activeService.providerLocation')}>
+          <View style={[styles.marker, {borderColor: providerColor}]}>
+            <Icon name="person" size={22} color={providerColor} />
+          </View>
+        </Marker>
+      </MapView>
+
+      <View style={[styles.infoCard, {backgroundColor: theme.card}]}>
+        {isStale ? (
+          <View style={styles.infoRow}>
+            <Icon name="location-disabled" size={20} color="#FF9500" />
+            <Text style={[styles.staleText, {color: theme.text}]}>
+              {t('activeService.locationStale', {minutes: minutesSinceUpdate ?? 0})}
+            </Text>
+          </View>
+        ) : (
+          <View style={styles.infoRow}>
+            {etaMinutes !== null && (
+              <View style={styles.infoItem}>
+                <Icon name="schedule" size={20} color="#FF9500" />
+                <Text style={[styles.infoValue, {color: theme.text}]}>
+                  {etaMinutes} {t('activeService.min')}
+                </Text>
+              </View>
+            )}
+            {distanceKm !== null && (
+              <View style={styles.infoItem}>
+                <Icon name="straighten" size={20} color={theme.primary} />
+                <Text style={[styles.infoValue, {color: theme.text}]}>
+                  {formatDistance(distanceKm)} {t('activeService.away')}
+                </Text>
+              </View>
+            )}
+          </View>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  map: {
+    flex: 1,
+  },
+  marker: {
+    backgroundColor: '#fff',
+    borderRadius: 20,
+    padding: 4,
+    borderWidth: 2,
+  },
+  infoCard: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 16,
+    padding: 12,
+    borderRadius: 12,
+    elevation: 3,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 2},
+    shadowOpacity: 0.15,
+    shadowRadius: 3,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-around',
+    gap: 8,
+  },
+  infoItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  infoValue: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  staleText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
+
+export default ProviderTrackingMap;
@@ -0,0 +1,519 @@
+import React, {useRef, useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Image,
+  PanResponder,
+  type LayoutChangeEvent,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import {launchImageLibrary} from 'react-native-image-picker';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import useTranslation from '../hooks/useTranslation';
+import type {QuestionnaireQuestion} from '../services/serviceCategoriesService';
+import {MEDIA_PICKER_OPTIONS} from '../services/mediaUploadService';
+import {
+  getVisibleQuestions,
+  parseDateAnswer,
+  toDateAnswer,
+  type QuestionnaireAnswers,
+  type YesNoDetailsAnswer,
+} from '../utils/questionnaire';
+
+interface QuestionnaireFormProps {
+  questions: QuestionnaireQuestion[];
+  answers: QuestionnaireAnswers;
+  onChange: (questionId: string, answer: any) => void;
+  // Validation messages keyed by question id
+  errors?: Record<string, string>;
+}
+
+const DEFAULT_MAX_PHOTOS = 3;
+
+interface RangeInputProps {
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  color: string;
+  trackColor: string;
+  onChange: (value: number) => void;
+}
+
+/**
+ * Horizontal slider snapping to `step`
+ */
+const RangeInput: React.FC<RangeInputProps> = ({value, min, max, step, color, trackColor, onChange}) => {
+  const [width, setWidth] = useState(0);
+  const widthRef = useRef(0);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const toValue = (x: number) => {
+    if (widthRef.current === 0) {
+      return min;
+    }
+    const ratio = Math.min(1, Math.max(0, x / widthRef.current));
+    const stepped = Math.round((ratio * (max - min)) / step) * step + min;
+    return Math.min(max, Math.max(min, stepped));
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderGrant: event => onChangeRef.current(toValue(event.nativeEvent.locationX)),
+      onPanResponderMove: event => onChangeRef.current(toValue(event.nativeEvent.locationX)),
+    }),
+  ).current;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    widthRef.current = event.nativeEvent.layout.width;
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const position = max > min ? ((value - min) / (max - min)) * width : 0;
+
+  return (
+    <View style={styles.rangeTouchArea} onLayout={handleLayout} {...panResponder.panHandlers}>
+      <View style={[styles.rangeTrack, {backgroundColor: trackColor}]} pointerEvents="none">
+        <View style={[styles.rangeFill, {width: position, backgroundColor: color}]} />
+      </View>
+      <View
+        pointerEvents="none"
+        style={[styles.rangeThumb, {left: position - 12, backgroundColor: color}]}
+      />
+    </View>
+  );
+};
+
+/**
+ * Renders a service category questionnaire
+ * Only questions whose conditions match the current answers are shown
+ */
+const QuestionnaireForm: React.FC<QuestionnaireFormProps> = ({questions, answers, onChange, errors = {}}) => {
+  const {isDarkMode, language} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const {t} = useTranslation();
+  const [datePickerQuestionId, setDatePickerQuestionId] = useState<string | null>(null);
+
+  const visibleQuestions = getVisibleQuestions(questions, answers);
+
+  const getQuestionText = (q: QuestionnaireQuestion): string =>
+    language === 'hi' && q.questionHi ? q.questionHi : q.question;
+
+  const getPlaceholderText = (q: QuestionnaireQuestion, defaultPlaceholder: string): string => {
+    if (language === 'hi' && q.placeholderHi) {
+      return q.placeholderHi;
+    }
+    return q.placeholder || defaultPlaceholder;
+  };
+
+  const getOptions = (q: QuestionnaireQuestion): string[] => {
+    if (language === 'hi' && q.optionsHi && q.optionsHi.length > 0) {
+      return q.optionsHi;
+    }
+    return q.options || [];
+  };
+
+  const getDetailsPrompt = (q: QuestionnaireQuestion): string => {
+    if (language === 'hi' && q.detailsPromptHi) {
+      return q.detailsPromptHi;
+    }
+    return q.detailsPrompt || t('questionnaire.detailsPlaceholder');
+  };
+
+  const handleAddPhotos = async (question: QuestionnaireQuestion) => {
+    const current: string[] = Array.isArray(answers[question.id]) ? answers[question.id] : [];
+    const limit = (question.max ?? DEFAULT_MAX_PHOTOS) - current.length;
+    if (limit <= 0) {
+      return;
+    }
+    try {
+      const result = await launchImageLibrary({...MEDIA_PICKER_OPTIONS, selectionLimit: limit});
+      if (result.didCancel || !result.assets) {
+        return;
+      }
+      const uris = result.assets.filter(asset => asset.uri).map(asset => asset.uri!);
+      onChange(question.id, [...current, ...uris]);
+    } catch (error) {
+      console.error('Error picking questionnaire photo:', error);
+    }
+  };
+
+  const renderYesNo = (selected: boolean | undefined, onSelect: (value: boolean) => void) => (
+    <View style={styles.booleanButtons}>
+      {[true, false].map(option => (
+        <TouchableOpacity
+          key={String(option)}
+          style={[
+            styles.booleanButton,
+            {borderColor: theme.border},
+            selected === option && {backgroundColor: theme.primary},
+          ]}
+          onPress={() => onSelect(option)}>
+          <Text style={[styles.booleanButtonText, {color: selected === option ? '#fff' : theme.text}]}>
+            {option ? t('common.yes') : t('common.no')}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderInput = (question: QuestionnaireQuestion) => {
+    const answer = answers[question.id];
+
+    switch (question.type) {
+      case 'text':
+      case 'number':
+        return (
+          <TextInput
+            style={[
+              styles.questionInput,
+              {backgroundColor: theme.card, color: theme.text, borderColor: theme.border},
+            ]}
+            value={answer || ''}
+            onChangeText={text => onChange(question.id, text)}
+            placeholder={getPlaceholderText(
+              question,
+              question.type === 'number' ? t('services.enterANumber') : t('services.enterYourAnswer'),
+            )}
+            placeholderTextColor={theme.textSecondary}
+            keyboardType={question.type === 'number' ? 'numeric' : 'default'}
+            multiline={question.type === 'text'}
+          />
+        );
+
+      case 'boolean':
+        return renderYesNo(answer, value => onChange(question.id, value));
+
+      case 'yesNoDetails': {
+        const current = answer as YesNoDetailsAnswer | undefined;
+        return (
+          <>
+            {renderYesNo(current?.value, value =>
+              onChange(question.id, {value, details: value ? current?.details : undefined}),
+            )}
+            {current?.value === true && (
+              <TextInput
+                style={[
+                  styles.questionInput,
+                  styles.detailsInput,
+                  {backgroundColor: theme.card, color: theme.text, borderColor: theme.border},
+                ]}
+                value={current.details || ''}
+                onChangeText={details => onChange(question.id, {value: true, details})}
+                placeholder={getDetailsPrompt(question)}
+                placeholderTextColor={theme.textSecondary}
+                multiline
+              />
+            )}
+          </>
+        );
+      }
+
+      case 'select':
+      case 'multiselect': {
+        const isMulti = question.type === 'multiselect';
+        return (
+          <View style={styles.selectOptions}>
+            {getOptions(question).map((option, optIdx) => {
+              // Hindi options are stored as their English option for backward compatibility
+              const englishOption = question.options?.[optIdx] || option;
+              const isSelected = isMulti
+                ? Array.isArray(answer) && answer.includes(englishOption)
+                : answer === englishOption;
+              const icon = isMulti
+                ? isSelected ? 'check-box' : 'check-box-outline-blank'
+                : isSelected ? 'radio-button-checked' : 'radio-button-unchecked';
+              return (
+                <TouchableOpacity
+                  key={optIdx}
+                  style={[
+                    styles.selectOption,
+                    {borderColor: theme.border},
+                    isSelected && {backgroundColor: theme.primary + '20', borderColor: theme.primary},
+                  ]}
+                  onPress={() => {
+                    if (!isMulti) {
+                      onChange(question.id, englishOption);
+                      return;
+                    }
+                    const current: string[] = Array.isArray(answer) ? answer : [];
+                    onChange(
+                      question.id,
+                      isSelected ? current.filter(v => v !== englishOption) : [...current, englishOption],
+                    );
+                  }}>
+                  <Icon name={icon} size={20} color={isSelected ? theme.primary : theme.textSecondary} />
+                  <Text style={[styles.selectOptionText, {color: theme.text}]}>{option}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        );
+      }
+
+      case 'date': {
+        const selectedDate = answer ? parseDateAnswer(answer) : null;
+        const today = new Date();
+        const offsetDate = (days?: number) => {
+          if (days === undefined) {
+            return undefined;
+          }
+          const date = new Date(today);
+          date.setDate(date.getDate() + days);
+          return date;
+        };
+        return (
+          <>
+            <TouchableOpacity
+              style={[styles.dateButton, {backgroundColor: theme.card, borderColor: theme.border}]}
+              onPress={() => setDatePickerQuestionId(question.id)}>
+              <Icon name="calendar-today" size={20} color={theme.primary} />
+              <Text style={[styles.dateButtonText, {color: selectedDate ? theme.text : theme.textSecondary}]}>
+                {selectedDate ? selectedDate.toLocaleDateString() : t('questionnaire.selectDate')}
+              </Text>
+            </TouchableOpacity>
+            {datePickerQuestionId === question.id && (
+              <DateTimePicker
+                value={selectedDate || today}
+                mode="date"
+                minimumDate={offsetDate(question.min)}
+                maximumDate={offsetDate(question.max)}
+                display="default"
+                onChange={(event, date) => {
+                  setDatePickerQuestionId(null);
+                  if (date) {
+                    onChange(question.id, toDateAnswer(date));
+                  }
+                }}
+              />
+            )}
+          </>
+        );
+      }
+
+      case 'range': {
+        const min = question.min ?? 0;
+        const max = question.max ?? 10;
+        const value = answer === undefined || answer === null || answer === '' ? min : Number(answer);
+        return (
+          <View>
+            <View style={styles.rangeLabels}>
+              <Text style={[styles.rangeLabel, {color: theme.textSecondary}]}>{min}</Text>
+              <Text style={[styles.rangeValue, {color: theme.primary}]}>{value}</Text>
+              <Text style={[styles.rangeLabel, {color: theme.textSecondary}]}>{max}</Text>
+            </View>
+            <RangeInput
+              value={value}
+              min={min}
+              max={max}
+              step={question.step || 1}
+              color={theme.primary}
+              trackColor={theme.border}
+              onChange={newValue => onChange(question.id, newValue)}
+            />
+          </View>
+        );
+      }
+
+      case 'photo': {
+        const photos: string[] = Array.isArray(answer) ? answer : [];
+        const maxPhotos = question.max ?? DEFAULT_MAX_PHOTOS;
+        return (
+          <View style={styles.photoRow}>
+            {photos.map((uri, index) => (
+              <View key={uri} style={styles.photoWrapper}>
+                <Image source={{uri}} style={styles.photo} />
+                <TouchableOpacity
+                  style={styles.removePhotoButton}
+                  onPress={() => onChange(question.id, photos.filter((_, i) => i !== index))}>
+                  <Icon name="close" size={16} color="#fff" />
+                </TouchableOpacity>
+              </View>
+            ))}
+            {photos.length < maxPhotos && (
+              <TouchableOpacity
+                style={[styles.addPhotoButton, {borderColor: theme.border}]}
+                onPress={() => handleAddPhotos(question)}>
+                <Icon name="add-a-photo" size={24} color={theme.primary} />
+                <Text style={[styles.addPhotoText, {color: theme.textSecondary}]}>
+                  {t('questionnaire.addPhoto')}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      }
+
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <>
+      {visibleQuestions.map((question, index) => (
+        <View key={question.id} style={styles.questionContainer}>
+          <Text style={[styles.questionText, {color: theme.text}]}>
+            {index + 1}. {getQuestionText(question)}
+            {question.required && <Text style={styles.requiredStar}> *</Text>}
+          </Text>
+          {renderInput(question)}
+          {errors[question.id] && <Text style={styles.errorText}>{errors[question.id]}</Text>}
+        </View>
+      ))}
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  questionContainer: {
+    marginBottom: 20,
+  },
+  questionText: {
+    fontSize: 15,
+    fontWeight: '500',
+    marginBottom: 12,
+    lineHeight: 22,
+  },
+  requiredStar: {
+    color: '#FF3B30',
+    fontWeight: 'bold',
+  },
+  questionInput: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 16,
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  detailsInput: {
+    marginTop: 12,
+  },
+  errorText: {
+    color: '#FF3B30',
+    fontSize: 13,
+    marginTop: 6,
+  },
+  booleanButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  booleanButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1.5,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  booleanButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  selectOptions: {
+    gap: 10,
+  },
+  selectOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1.5,
+    gap: 12,
+  },
+  selectOptionText: {
+    fontSize: 15,
+    flex: 1,
+  },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 12,
+  },
+  dateButtonText: {
+    fontSize: 16,
+  },
+  rangeLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  rangeLabel: {
+    fontSize: 13,
+  },
+  rangeValue: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  rangeTouchArea: {
+    height: 40,
+    justifyContent: 'center',
+  },
+  rangeTrack: {
+    height: 4,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  rangeFill: {
+    height: 4,
+  },
+  rangeThumb: {
+    position: 'absolute',
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    top: 8,
+  },
+  photoRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  photoWrapper: {
+    position: 'relative',
+  },
+  photo: {
+    width: 80,
+    height: 80,
+    borderRadius: 8,
+  },
+  removePhotoButton: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    backgroundColor: '#FF3B30',
+    borderRadius: 12,
+    width: 24,
+    height: 24,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  addPhotoButton: {
+    width: 80,
+    height: 80,
+    borderRadius: 8,
+    borderWidth: 1.5,
+    borderStyle: 'dashed',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+  },
+  addPhotoText: {
+    fontSize: 11,
+  },
+});
+
+export default QuestionnaireForm;
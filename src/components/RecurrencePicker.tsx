@@ -0,0 +1,289 @@
+import React, {useState} from 'react';
+import {View, Text, StyleSheet, TouchableOpacity, TextInput} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import useTranslation from '../hooks/useTranslation';
+import type {RecurrenceFrequency, RecurrenceRule} from '../types/domain';
+import {generateOccurrences, validateRecurrenceRule} from '../utils/recurrence';
+
+// The first visit comes from the booking's scheduled date
+export type RecurrenceSettings = Omit<RecurrenceRule, 'startDate' | 'exceptions'>;
+
+type EndType = 'never' | 'count' | 'date';
+
+interface RecurrencePickerProps {
+  // null when the booking does not repeat
+  value: RecurrenceSettings | null;
+  startDate: Date | null;
+  onChange: (value: RecurrenceSettings | null) => void;
+}
+
+const FREQUENCIES: (RecurrenceFrequency | 'none')[] = ['none', 'daily', 'weekly', 'monthly', 'interval'];
+
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
+const DEFAULT_OCCURRENCE_COUNT = 4;
+
+const PREVIEW_COUNT = 3;
+
+/**
+ * Repeat settings for a scheduled booking, with a preview of the first visits
+ */
+const RecurrencePicker: React.FC<RecurrencePickerProps> = ({value, startDate, onChange}) => {
+  const {isDarkMode} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const {t} = useTranslation();
+  const [showEndDatePicker, setShowEndDatePicker] = useState(false);
+
+  const endType: EndType = value?.occurrenceCount ? 'count' : value?.endDate ? 'date' : 'never';
+  const rule: RecurrenceRule | null = value && startDate ? {...value, startDate} : null;
+  const error = rule ? validateRecurrenceRule(rule) : null;
+  const preview = rule && !error ? generateOccurrences(rule, {limit: PREVIEW_COUNT}) : [];
+
+  const frequencyLabel = (frequency: RecurrenceFrequency | 'none') =>
+    frequency === 'none' ? t('recurrence.doesNotRepeat') : t(`recurrence.${frequency}`);
+
+  const handleSelectFrequency = (frequency: RecurrenceFrequency | 'none') => {
+    if (frequency === 'none') {
+      onChange(null);
+      return;
+    }
+    onChange({
+      frequency,
+      weekdays: frequency === 'weekly' ? [(startDate || new Date()).getDay()] : undefined,
+      intervalDays: frequency === 'interval' ? value?.intervalDays || 2 : undefined,
+      occurrenceCount: value ? value.occurrenceCount : DEFAULT_OCCURRENCE_COUNT,
+      endDate: value?.endDate,
+    });
+  };
+
+  const handleToggleWeekday = (day: number) => {
+    if (!value) {
+      return;
+    }
+    const weekdays = value.weekdays || [];
+    onChange({
+      ...value,
+      weekdays: weekdays.includes(day) ? weekdays.filter(d => d !== day) : [...weekdays, day],
+    });
+  };
+
+  const handleSelectEndType = (type: EndType) => {
+    if (!value) {
+      return;
+    }
+    if (type === 'date') {
+      setShowEndDatePicker(true);
+      return;
+    }
+    onChange({
+      ...value,
+      occurrenceCount: type === 'count' ? value.occurrenceCount || DEFAULT_OCCURRENCE_COUNT : undefined,
+      endDate: undefined,
+    });
+  };
+
+  const parseNumber = (text: string) => {
+    const parsed = parseInt(text.replace(/[^0-9]/g, ''), 10);
+    return isNaN(parsed) ? undefined : parsed;
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: selected ? theme.primary : theme.card,
+          borderColor: selected ? theme.primary : theme.border,
+        },
+      ]}
+      onPress={onPress}>
+      <Text style={[styles.chipText, {color: selected ? '#fff' : theme.text}]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      <Text style={[styles.label, {color: theme.text}]}>{t('recurrence.repeat')}</Text>
+      <View style={styles.chipRow}>
+        {FREQUENCIES.map(frequency =>
+          renderChip(
+            frequency,
+            frequencyLabel(frequency),
+            (value?.frequency || 'none') === frequency,
+            () => handleSelectFrequency(frequency),
+          ),
+        )}
+      </View>
+
+      {value?.frequency === 'weekly' && (
+        <>
+          <Text style={[styles.subLabel, {color: theme.textSecondary}]}>
+            {t('recurrence.repeatOn')}
+          </Text>
+          <View style={styles.chipRow}>
+            {WEEKDAYS.map(day =>
+              renderChip(
+                String(day),
+                t(`recurrence.weekdayShort${day}`),
+                !!value.weekdays?.includes(day),
+                () => handleToggleWeekday(day),
+              ),
+            )}
+          </View>
+        </>
+      )}
+
+      {value?.frequency === 'interval' && (
+        <View style={styles.inlineRow}>
+          <Text style={[styles.subLabel, {color: theme.textSecondary}]}>
+            {t('recurrence.repeatEvery')}
+          </Text>
+          <TextInput
+            style={[styles.numberInput, {color: theme.text, borderColor: theme.border}]}
+            keyboardType="number-pad"
+            value={value.intervalDays ? String(value.intervalDays) : ''}
+            onChangeText={text => onChange({...value, intervalDays: parseNumber(text)})}
+            maxLength={3}
+          />
+          <Text style={[styles.subLabel, {color: theme.textSecondary}]}>{t('recurrence.days')}</Text>
+        </View>
+      )}
+
+      {value && (
+        <>
+          <Text style={[styles.subLabel, {color: theme.textSecondary}]}>{t('recurrence.ends')}</Text>
+          <View style={styles.chipRow}>
+            {renderChip('never', t('recurrence.endsNever'), endType === 'never', () =>
+              handleSelectEndType('never'),
+            )}
+            {renderChip('count', t('recurrence.endsAfter'), endType === 'count', () =>
+              handleSelectEndType('count'),
+            )}
+            {renderChip(
+              'date',
+              value.endDate ? value.endDate.toLocaleDateString() : t('recurrence.endsOn'),
+              endType === 'date',
+              () => handleSelectEndType('date'),
+            )}
+          </View>
+
+          {endType === 'count' && (
+            <View style={styles.inlineRow}>
+              <TextInput
+                style={[styles.numberInput, {color: theme.text, borderColor: theme.border}]}
+                keyboardType="number-pad"
+                value={value.occurrenceCount ? String(value.occurrenceCount) : ''}
+                onChangeText={text => onChange({...value, occurrenceCount: parseNumber(text) || 0})}
+                maxLength={3}
+              />
+              <Text style={[styles.subLabel, {color: theme.textSecondary}]}>
+                {t('recurrence.visits')}
+              </Text>
+            </View>
+          )}
+
+          {showEndDatePicker && (
+            <DateTimePicker
+              value={value.endDate || startDate || new Date()}
+              mode="date"
+              minimumDate={startDate || new Date()}
+              display="default"
+              onChange={(event, selectedDate) => {
+                setShowEndDatePicker(false);
+                if (selectedDate) {
+                  onChange({...value, occurrenceCount: undefined, endDate: selectedDate});
+                }
+              }}
+            />
+          )}
+
+          {error ? (
+            <Text style={styles.errorText}>{t(error)}</Text>
+          ) : preview.length > 0 ? (
+            <View style={[styles.preview, {backgroundColor: theme.primary + '10'}]}>
+              <Text style={[styles.subLabel, {color: theme.textSecondary}]}>
+                {t('recurrence.upcomingVisits')}
+              </Text>
+              {preview.map(occurrence => (
+                <View key={occurrence.index} style={styles.previewRow}>
+                  <Icon name="event" size={16} color={theme.primary} />
+                  <Text style={[styles.previewText, {color: theme.text}]}>
+                    {occurrence.scheduledTime.toLocaleString()}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          ) : null}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  subLabel: {
+    fontSize: 14,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  inlineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  numberInput: {
+    width: 64,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginTop: 4,
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  errorText: {
+    color: '#FF3B30',
+    fontSize: 13,
+    marginTop: 12,
+  },
+  preview: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  previewText: {
+    fontSize: 14,
+  },
+});
+
+export default RecurrencePicker;
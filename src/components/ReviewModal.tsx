@@ -14,17 +14,21 @@ import {
   TextInput,
   ScrollView,
   ActivityIndicator,
-  Image,
   Alert,
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import {launchImageLibrary} from 'react-native-image-picker';
-import storage from '@react-native-firebase/storage';
 import {createReview} from '../services/reviewService';
+import {RequestQueuedError} from '../services/api/offlineQueue';
+import {isCancelledError} from '../services/api/apiErrors';
+import {MEDIA_PICKER_OPTIONS} from '../services/mediaUploadService';
+import {useMediaUpload} from '../hooks/useMediaUpload';
+import {getErrorMessage} from '../utils/errorMessages';
 import {lightTheme, darkTheme} from '../utils/theme';
 import {useStore} from '../store';
 import AlertModal from './AlertModal';
 import ConfirmationModal from './ConfirmationModal';
+import MediaThumbnail from './MediaThumbnail';
 
 interface ReviewModalProps {
   visible: boolean;
@@ -49,8 +53,8 @@ export default function ReviewModal({
   const [rating, setRating] = useState(0);
   const [comment, setComment] = useState('');
   const [selectedSuggestions, setSelectedSuggestions] = useState<string[]>([]);
-  const [photos, setPhotos] = useState<string[]>([]);
-  const [uploading, setUploading] = useState(false);
+  const media = useMediaUpload();
+  const photoFolder = `review_photos/${jobCardId}`;
   const [submitting, setSubmitting] = useState(false);
   const [alertModal, setAlertModal] = useState<{
     visible: boolean;
@@ -119,48 +123,36 @@ export default function ReviewModal({
     }
   };
 
+  const showUploadError = (error: unknown) => {
+    if (isCancelledError(error)) {
+      return;
+    }
+    setAlertModal({
+      visible: true,
+      title: 'Upload Failed',
+      message: getErrorMessage(error, 'errors.uploadFailed'),
+      type: 'error',
+    });
+  };
+
   const handleAddPhoto = async () => {
     try {
       const result = await launchImageLibrary({
-        mediaType: 'photo',
-        quality: 0.8,
-        selectionLimit: 3 - photos.length,
+        ...MEDIA_PICKER_OPTIONS,
+        selectionLimit: 3 - media.items.length,
       });
 
       if (result.didCancel || !result.assets || result.assets.length === 0) {
         return;
       }
 
-      setUploading(true);
-      const uploadedUrls: string[] = [];
-
-      for (const asset of result.assets) {
-        if (asset.uri) {
-          const filename = `review_photos/${jobCardId}/${Date.now()}_${Math.random().toString(36).substring(7)}.jpg`;
-          const reference = storage().ref(filename);
-          await reference.putFile(asset.uri);
-          const url = await reference.getDownloadURL();
-          uploadedUrls.push(url);
-        }
-      }
-
-      setPhotos([...photos, ...uploadedUrls]);
-      setUploading(false);
+      media.add(result.assets.filter(asset => asset.uri).map(asset => asset.uri!));
+      await media.upload(photoFolder);
     } catch (error: any) {
-      setUploading(false);
-      setAlertModal({
-        visible: true,
-        title: 'Error',
-        message: 'Failed to upload photo. Please try again.',
-        type: 'error',
-      });
+      showUploadError(error);
     }
   };
 
-  const handleRemovePhoto = (index: number) => {
-    setPhotos(photos.filter((_, i) => i !== index));
-  };
-
   const handleSubmit = async () => {
     if (rating === 0) {
       setAlertModal({
@@ -174,6 +166,15 @@ export default function ReviewModal({
 
     try {
       setSubmitting(true);
+
+      // Finish photos that are still uploading or failed earlier
+      let photos: string[];
+      try {
+        photos = await media.upload(photoFolder);
+      } catch (error) {
+        showUploadError(error);
+        return;
+      }
       
       // Combine suggestions and comment
       let finalComment = comment.trim();
@@ -204,13 +205,30 @@ export default function ReviewModal({
         setRating(0);
         setComment('');
         setSelectedSuggestions([]);
-        setPhotos([]);
+        media.reset([]);
       }, 1500);
     } catch (error: any) {
+      if (error instanceof RequestQueuedError) {
+        // Review is saved offline and will be sent once connectivity returns
+        setAlertModal({
+          visible: true,
+          title: 'Saved Offline',
+          message: 'Your review has been saved and will be submitted when you are back online.',
+          type: 'info',
+        });
+        setTimeout(() => {
+          onReviewSubmitted();
+          setRating(0);
+          setComment('');
+          setSelectedSuggestions([]);
+          media.reset([]);
+        }, 1500);
+        return;
+      }
       setAlertModal({
         visible: true,
         title: 'Error',
-        message: error.message || 'Failed to submit review. Please try again.',
+        message: getErrorMessage(error, 'errors.generic'),
         type: 'error',
       });
     } finally {
@@ -342,18 +360,18 @@ export default function ReviewModal({
             </View>
 
             {/* Photos */}
-            {photos.length < 3 && (
+            {media.items.length < 3 && (
               <TouchableOpacity
                 style={[styles.addPhotoButton, {borderColor: theme.border}]}
                 onPress={handleAddPhoto}
-                disabled={uploading}>
-                {uploading ? (
+                disabled={media.uploading}>
+                {media.uploading ? (
                   <ActivityIndicator color={theme.primary} />
                 ) : (
                   <>
                     <Icon name="add-photo-alternate" size={24} color={theme.primary} />
                     <Text style={[styles.addPhotoText, {color: theme.primary}]}>
-                      Add Photo ({photos.length}/3)
+                      Add Photo ({media.items.length}/3)
                     </Text>
                   </>
                 )}
@@ -361,17 +379,15 @@ export default function ReviewModal({
             )}
 
             {/* Photo Preview */}
-            {photos.length > 0 && (
+            {media.items.length > 0 && (
               <View style={styles.photosContainer}>
-                {photos.map((photo, index) => (
-                  <View key={index} style={styles.photoWrapper}>
-                    <Image source={{uri: photo}} style={styles.photo} />
-                    <TouchableOpacity
-                      style={styles.removePhotoButton}
-                      onPress={() => handleRemovePhoto(index)}>
-                      <Icon name="close" size={20} color="#fff" />
-                    </TouchableOpacity>
-                  </View>
+                {media.items.map(item => (
+                  <MediaThumbnail
+                    key={item.id}
+                    item={item}
+                    onRemove={() => media.remove(item.id)}
+                    onRetry={() => media.upload(photoFolder, [item.id]).catch(showUploadError)}
+                  />
                 ))}
               </View>
             )}
@@ -550,28 +566,6 @@ const styles = StyleSheet.create({
     gap: 12,
     marginBottom: 20,
   },
-  photoWrapper: {
-    position: 'relative',
-    width: 100,
-    height: 100,
-    borderRadius: 8,
-    overflow: 'hidden',
-  },
-  photo: {
-    width: '100%',
-    height: '100%',
-  },
-  removePhotoButton: {
-    position: 'absolute',
-    top: 4,
-    right: 4,
-    backgroundColor: 'rgba(0, 0, 0, 0.6)',
-    borderRadius: 12,
-    width: 24,
-    height: 24,
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
   actionsContainer: {
     flexDirection: 'row',
     gap: 12,
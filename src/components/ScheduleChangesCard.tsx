@@ -0,0 +1,178 @@
+/**
+ * Schedule Changes Card
+ * A new time waiting to be confirmed (accept / decline, or withdraw when
+ * the customer asked for it) and the earlier times of a scheduled booking
+ */
+
+import React from 'react';
+import {View, Text, StyleSheet, TouchableOpacity, ActivityIndicator} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import useTranslation from '../hooks/useTranslation';
+import type {RescheduleProposal, ScheduleChange} from '../types/domain';
+
+interface ScheduleChangesCardProps {
+  proposal?: RescheduleProposal;
+  history?: ScheduleChange[];
+  onRespond: (accept: boolean) => void;
+  responding: boolean;
+}
+
+export const formatScheduleTime = (date: Date) =>
+  date.toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const ScheduleChangesCard: React.FC<ScheduleChangesCardProps> = ({
+  proposal,
+  history = [],
+  onRespond,
+  responding,
+}) => {
+  const {isDarkMode} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const {t} = useTranslation();
+
+  if (!proposal && history.length === 0) {
+    return null;
+  }
+
+  const fromProvider = proposal?.proposedBy === 'provider';
+
+  return (
+    <View style={[styles.card, {backgroundColor: theme.card}]}>
+      {proposal && (
+        <View style={styles.proposal}>
+          <View style={styles.row}>
+            <Icon name="event-repeat" size={22} color="#FF9500" />
+            <Text style={[styles.proposalText, {color: theme.text}]}>
+              {fromProvider
+                ? t('activeService.providerProposedTime', {time: formatScheduleTime(proposal.scheduledTime)})
+                : t('activeService.waitingForTimeConfirmation', {time: formatScheduleTime(proposal.scheduledTime)})}
+            </Text>
+          </View>
+          {proposal.reason ? (
+            <Text style={[styles.reason, {color: theme.textSecondary}]}>{proposal.reason}</Text>
+          ) : null}
+          <View style={styles.actions}>
+            {responding ? (
+              <ActivityIndicator size="small" color={theme.primary} />
+            ) : fromProvider ? (
+              <>
+                <TouchableOpacity
+                  style={[styles.button, {backgroundColor: theme.primary}]}
+                  onPress={() => onRespond(true)}>
+                  <Text style={styles.buttonText}>{t('activeService.acceptNewTime')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, styles.outlineButton, {borderColor: theme.border}]}
+                  onPress={() => onRespond(false)}>
+                  <Text style={[styles.buttonText, {color: theme.text}]}>
+                    {t('activeService.declineNewTime')}
+                  </Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <TouchableOpacity
+                style={[styles.button, styles.outlineButton, {borderColor: theme.border}]}
+                onPress={() => onRespond(false)}>
+                <Text style={[styles.buttonText, {color: theme.text}]}>
+                  {t('activeService.withdrawNewTime')}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      )}
+
+      {history.length > 0 && (
+        <View style={proposal ? styles.historyWithProposal : undefined}>
+          <Text style={[styles.historyTitle, {color: theme.text}]}>
+            {t('activeService.scheduleHistory')}
+          </Text>
+          {/* Newest first */}
+          {[...history].reverse().map(change => (
+            <View key={change.changedAt.toISOString()} style={styles.row}>
+              <Icon name="history" size={18} color={theme.textSecondary} />
+              <Text style={[styles.historyText, {color: theme.textSecondary}]}>
+                {change.changedBy === 'provider'
+                  ? t('activeService.scheduleChangedByProvider', {from: formatScheduleTime(change.previousTime)})
+                  : t('activeService.scheduleChangedByYou', {from: formatScheduleTime(change.previousTime)})}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    padding: 16,
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderRadius: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 1},
+    shadowOpacity: 0.22,
+    shadowRadius: 2.22,
+  },
+  proposal: {
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  proposalText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  reason: {
+    fontSize: 14,
+    marginLeft: 30,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 4,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  outlineButton: {
+    borderWidth: 1,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  historyWithProposal: {
+    marginTop: 16,
+  },
+  historyTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  historyText: {
+    flex: 1,
+    fontSize: 14,
+  },
+});
+
+export default ScheduleChangesCard;
@@ -0,0 +1,125 @@
+/**
+ * Service Timeline
+ * A job's progress as a vertical list of timestamped steps, each with who took it
+ */
+
+import React from 'react';
+import {View, Text, StyleSheet} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import useTranslation from '../hooks/useTranslation';
+import type {ServiceEvent, ServiceEventType} from '../types/domain';
+
+interface ServiceTimelineProps {
+  // Oldest first, as returned by buildServiceTimeline
+  events: ServiceEvent[];
+}
+
+const EVENT_ICONS: Record<ServiceEventType, string> = {
+  requested: 'assignment',
+  offered: 'campaign',
+  accepted: 'how-to-reg',
+  'en-route': 'directions-car',
+  arrived: 'where-to-vote',
+  started: 'lock-open',
+  'materials-added': 'inventory',
+  completed: 'check-circle',
+  verified: 'verified',
+  reviewed: 'star',
+};
+
+const formatEventTime = (date: Date) =>
+  date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const ServiceTimeline: React.FC<ServiceTimelineProps> = ({events}) => {
+  const {isDarkMode} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const {t} = useTranslation();
+
+  if (events.length === 0) {
+    return null;
+  }
+
+  return (
+    <View>
+      {events.map((event, index) => {
+        const isLatest = index === events.length - 1;
+        const color = isLatest ? theme.primary : theme.textSecondary;
+        return (
+          <View key={`${event.type}-${event.at.getTime()}`} style={styles.row}>
+            <View style={styles.rail}>
+              <View style={[styles.dot, {backgroundColor: color + '20', borderColor: color}]}>
+                <Icon name={EVENT_ICONS[event.type]} size={14} color={color} />
+              </View>
+              {!isLatest && <View style={[styles.line, {backgroundColor: theme.border}]} />}
+            </View>
+            <View style={styles.content}>
+              <Text style={[styles.label, {color: theme.text}, isLatest && styles.latestLabel]}>
+                {t(`timeline.events.${event.type}`)}
+              </Text>
+              <Text style={[styles.meta, {color: theme.textSecondary}]}>
+                {t(`timeline.actors.${event.actor}`)} • {formatEventTime(event.at)}
+              </Text>
+              {event.note ? (
+                <Text style={[styles.note, {color: theme.textSecondary}]}>{event.note}</Text>
+              ) : null}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  rail: {
+    alignItems: 'center',
+    width: 28,
+  },
+  dot: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 1.5,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    minHeight: 12,
+    marginVertical: 2,
+  },
+  content: {
+    flex: 1,
+    paddingBottom: 16,
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: '500',
+    marginTop: 4,
+  },
+  latestLabel: {
+    fontWeight: '700',
+  },
+  meta: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  note: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+});
+
+export default ServiceTimeline;
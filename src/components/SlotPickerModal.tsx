@@ -0,0 +1,321 @@
+import React, {useEffect, useState} from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import useTranslation from '../hooks/useTranslation';
+import {getErrorMessage} from '../utils/errorMessages';
+import {availabilityApi, type AvailabilitySlot} from '../services/api/availabilityApi';
+import {isCancelledError} from '../services/api/apiErrors';
+
+interface SlotPickerModalProps {
+  visible: boolean;
+  serviceType: string;
+  pincode: string;
+  // Limit the slots to one provider's availability
+  providerId?: string;
+  selectedSlotId?: string;
+  // Holds the slot; the parent closes the modal once it resolves
+  onSelect: (slot: AvailabilitySlot) => Promise<void>;
+  onClose: () => void;
+}
+
+const DAYS_AHEAD = 7;
+
+// Same notice as before slots: at least an hour ahead
+const MIN_NOTICE_MS = 60 * 60 * 1000;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Bottom sheet with a day strip and a grid of bookable time slots
+ * Slots no provider can take are shown greyed out
+ */
+const SlotPickerModal: React.FC<SlotPickerModalProps> = ({
+  visible,
+  serviceType,
+  pincode,
+  providerId,
+  selectedSlotId,
+  onSelect,
+  onClose,
+}) => {
+  const {isDarkMode} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const {t} = useTranslation();
+  const [selectedDay, setSelectedDay] = useState<Date>(startOfDay(new Date()));
+  const [slots, setSlots] = useState<AvailabilitySlot[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [holdingSlotId, setHoldingSlotId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const days = Array.from({length: DAYS_AHEAD}, (_, index) => {
+    const day = startOfDay(new Date());
+    day.setDate(day.getDate() + index);
+    return day;
+  });
+
+  const loadSlots = async (day: Date, signal?: AbortSignal) => {
+    setLoading(true);
+    setError('');
+    try {
+      const daySlots = await availabilityApi.getSlots(
+        {serviceType, pincode, providerId, from: day, days: 1},
+        {signal},
+      );
+      setSlots(daySlots);
+    } catch (loadError) {
+      if (isCancelledError(loadError)) {
+        return;
+      }
+      console.error('Error loading available slots:', loadError);
+      setSlots([]);
+      setError(getErrorMessage(loadError, 'serviceRequest.slotsLoadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    const controller = new AbortController();
+    loadSlots(selectedDay, controller.signal);
+    return () => controller.abort();
+  }, [visible, selectedDay, serviceType, pincode, providerId]);
+
+  const handleSelect = async (slot: AvailabilitySlot) => {
+    setHoldingSlotId(slot.id);
+    setError('');
+    try {
+      await onSelect(slot);
+    } catch (holdError) {
+      console.error('Error holding slot:', holdError);
+      setError(getErrorMessage(holdError, 'serviceRequest.slotsLoadError'));
+      // Someone else may have taken it - show the current picture
+      loadSlots(selectedDay);
+    } finally {
+      setHoldingSlotId(null);
+    }
+  };
+
+  const getDayLabel = (day: Date, index: number) => {
+    if (index === 0) {
+      return t('serviceRequest.today');
+    }
+    if (index === 1) {
+      return t('serviceRequest.tomorrow');
+    }
+    return day.toLocaleDateString('en-US', {weekday: 'short'});
+  };
+
+  const formatSlotTime = (date: Date) =>
+    date.toLocaleTimeString('en-US', {hour: '2-digit', minute: '2-digit', hour12: true});
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={[styles.sheet, {backgroundColor: theme.card}]}>
+          <View style={styles.header}>
+            <Text style={[styles.title, {color: theme.text}]}>{t('serviceRequest.chooseSlot')}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Icon name="close" size={24} color={theme.text} />
+            </TouchableOpacity>
+          </View>
+
+          {/* Day strip */}
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.dayStrip}>
+            {days.map((day, index) => {
+              const isSelected = day.getTime() === selectedDay.getTime();
+              return (
+                <TouchableOpacity
+                  key={day.toISOString()}
+                  style={[
+                    styles.dayButton,
+                    {
+                      backgroundColor: isSelected ? theme.primary : theme.background,
+                      borderColor: isSelected ? theme.primary : theme.border,
+                    },
+                  ]}
+                  onPress={() => setSelectedDay(day)}>
+                  <Text style={[styles.dayLabel, {color: isSelected ? '#fff' : theme.textSecondary}]}>
+                    {getDayLabel(day, index)}
+                  </Text>
+                  <Text style={[styles.dayNumber, {color: isSelected ? '#fff' : theme.text}]}>
+                    {day.getDate()}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+          {/* Slot grid */}
+          {loading ? (
+            <View style={styles.centerContent}>
+              <ActivityIndicator size="large" color={theme.primary} />
+            </View>
+          ) : slots.length === 0 ? (
+            <View style={styles.centerContent}>
+              <Icon name="event-busy" size={48} color={theme.textSecondary} />
+              <Text style={[styles.emptyText, {color: theme.textSecondary}]}>
+                {t('serviceRequest.noSlots')}
+              </Text>
+            </View>
+          ) : (
+            <ScrollView contentContainerStyle={styles.slotGrid}>
+              {slots.map(slot => {
+                const isFull =
+                  slot.availableProviders <= 0 || slot.start.getTime() < Date.now() + MIN_NOTICE_MS;
+                const isSelected = slot.id === selectedSlotId;
+                return (
+                  <TouchableOpacity
+                    key={slot.id}
+                    style={[
+                      styles.slotButton,
+                      {
+                        backgroundColor: isSelected ? theme.primary : theme.background,
+                        borderColor: isSelected ? theme.primary : theme.border,
+                      },
+                      isFull && styles.slotButtonFull,
+                    ]}
+                    disabled={isFull || holdingSlotId !== null}
+                    onPress={() => handleSelect(slot)}>
+                    {holdingSlotId === slot.id ? (
+                      <ActivityIndicator size="small" color={isSelected ? '#fff' : theme.primary} />
+                    ) : (
+                      <>
+                        <Text
+                          style={[
+                            styles.slotTime,
+                            {color: isSelected ? '#fff' : isFull ? theme.textSecondary : theme.text},
+                          ]}>
+                          {formatSlotTime(slot.start)}
+                        </Text>
+                        {isFull && (
+                          <Text style={[styles.slotFullText, {color: theme.textSecondary}]}>
+                            {t('serviceRequest.slotFull')}
+                          </Text>
+                        )}
+                      </>
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 20,
+    paddingBottom: 40,
+    maxHeight: '80%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  dayStrip: {
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    gap: 8,
+  },
+  dayButton: {
+    width: 64,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  dayLabel: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  dayNumber: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  errorText: {
+    color: '#FF3B30',
+    fontSize: 14,
+    paddingHorizontal: 20,
+    marginBottom: 8,
+  },
+  centerContent: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 40,
+    paddingHorizontal: 20,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  slotGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: 16,
+    gap: 10,
+  },
+  slotButton: {
+    width: '30%',
+    minHeight: 52,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  slotButtonFull: {
+    opacity: 0.45,
+  },
+  slotTime: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  slotFullText: {
+    fontSize: 11,
+    marginTop: 2,
+  },
+});
+
+export default SlotPickerModal;
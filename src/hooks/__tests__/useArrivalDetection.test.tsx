@@ -0,0 +1,112 @@
+import React from 'react';
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import TestRenderer, {act} from 'react-test-renderer';
+import {useArrivalDetection, type ArrivalDetectionOptions} from '../useArrivalDetection';
+import type {ProviderLocation} from '../../services/providerLocationService';
+import type {TrackingPoint} from '../useProviderTracking';
+
+jest.mock('@react-native-firebase/firestore', () => ({__esModule: true, default: jest.fn()}));
+jest.mock('@react-native-firebase/database', () => ({__esModule: true, default: jest.fn()}));
+jest.mock('@react-native-firebase/auth', () => ({__esModule: true, default: jest.fn()}));
+jest.mock('../../services/geolocationService', () => ({__esModule: true, default: {}}));
+
+// Degrees of latitude per metre
+const DEGREES_PER_M = 1 / 111195;
+const destination: TrackingPoint = {latitude: 12, longitude: 77};
+
+// A fix `metres` north of the destination
+const fixAt = (metres: number): ProviderLocation => ({
+  latitude: 12 + metres * DEGREES_PER_M,
+  longitude: 77,
+  updatedAt: Date.now(),
+});
+
+interface ProbeProps {
+  location: ProviderLocation | null;
+  options?: ArrivalDetectionOptions;
+}
+
+const renderArrival = (initial: ProbeProps) => {
+  const result: {current: boolean} = {current: false};
+  const Probe = ({location, options}: ProbeProps) => {
+    result.current = useArrivalDetection(location, destination, options);
+    return null;
+  };
+  let renderer: TestRenderer.ReactTestRenderer;
+  act(() => {
+    renderer = TestRenderer.create(<Probe {...initial} />);
+  });
+  const update = (props: ProbeProps) =>
+    act(() => {
+      renderer.update(<Probe {...props} />);
+    });
+  return {result, update};
+};
+
+const advance = (ms: number) =>
+  act(() => {
+    jest.advanceTimersByTime(ms);
+  });
+
+describe('useArrivalDetection', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('arrives after the dwell time inside the geofence, even without further updates', () => {
+    const {result} = renderArrival({location: fixAt(50)});
+
+    advance(59 * 1000);
+    expect(result.current).toBe(false);
+
+    advance(1000);
+    expect(result.current).toBe(true);
+  });
+
+  it('does not count driving past the address', () => {
+    const {result, update} = renderArrival({location: fixAt(50)});
+
+    advance(30 * 1000);
+    update({location: fixAt(400)});
+    advance(60 * 1000);
+
+    expect(result.current).toBe(false);
+  });
+
+  it('keeps the dwell going through jitter just outside the radius', () => {
+    const {result, update} = renderArrival({location: fixAt(90)});
+
+    advance(30 * 1000);
+    update({location: fixAt(130)});
+    advance(30 * 1000);
+
+    expect(result.current).toBe(true);
+  });
+
+  it('restarts the dwell while detection is paused', () => {
+    const {result, update} = renderArrival({location: fixAt(50)});
+
+    advance(40 * 1000);
+    update({location: fixAt(50), options: {enabled: false}});
+    advance(40 * 1000);
+    expect(result.current).toBe(false);
+
+    update({location: fixAt(50)});
+    advance(40 * 1000);
+    expect(result.current).toBe(false);
+    advance(20 * 1000);
+    expect(result.current).toBe(true);
+  });
+
+  it('stays arrived once the provider moves away', () => {
+    const {result, update} = renderArrival({location: fixAt(50), options: {dwellMs: 0}});
+    expect(result.current).toBe(true);
+
+    update({location: fixAt(1000), options: {dwellMs: 0}});
+    expect(result.current).toBe(true);
+  });
+});
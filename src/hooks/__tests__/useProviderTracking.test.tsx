@@ -0,0 +1,96 @@
+import React from 'react';
+import {afterEach, describe, expect, it, jest} from '@jest/globals';
+import TestRenderer, {act} from 'react-test-renderer';
+import {useProviderTracking, type TrackingPoint} from '../useProviderTracking';
+
+let mockEmitLocation: ((snapshot: {val: () => unknown}) => void) | null = null;
+
+jest.mock('@react-native-firebase/database', () => ({
+  __esModule: true,
+  default: () => ({
+    ref: () => ({
+      on: (_event: string, callback: (snapshot: {val: () => unknown}) => void) => {
+        mockEmitLocation = callback;
+        return callback;
+      },
+      off: () => {
+        mockEmitLocation = null;
+      },
+    }),
+  }),
+}));
+jest.mock('@react-native-firebase/firestore', () => ({__esModule: true, default: jest.fn()}));
+jest.mock('@react-native-firebase/auth', () => ({__esModule: true, default: jest.fn()}));
+jest.mock('../../services/geolocationService', () => ({__esModule: true, default: {}}));
+
+// Degrees of latitude per km
+const DEGREES_PER_KM = 1 / 111.195;
+const destination: TrackingPoint = {latitude: 12 + 5 * DEGREES_PER_KM, longitude: 77};
+
+type Tracking = ReturnType<typeof useProviderTracking>;
+
+const renderTracking = () => {
+  const result: {current: Tracking | null} = {current: null};
+  const Probe = () => {
+    result.current = useProviderTracking('provider-1', destination);
+    return null;
+  };
+  let renderer: TestRenderer.ReactTestRenderer;
+  act(() => {
+    renderer = TestRenderer.create(<Probe />);
+  });
+  return {result, unmount: () => act(() => renderer.unmount())};
+};
+
+/**
+ * Send updates every `intervalMs` for a provider heading north at `speedKmh`
+ */
+const drive = (speedKmh: number, intervalMs: number, updates: number) => {
+  const start = Date.now() - updates * intervalMs;
+  for (let i = 0; i < updates; i++) {
+    const travelledKm = (speedKmh * i * intervalMs) / 3600000;
+    act(() => {
+      mockEmitLocation?.({
+        val: () => ({latitude: 12 + travelledKm * DEGREES_PER_KM, longitude: 77, updatedAt: start + i * intervalMs}),
+      });
+    });
+  }
+};
+
+describe('useProviderTracking', () => {
+  let unmount: (() => void) | null = null;
+
+  afterEach(() => {
+    unmount?.();
+    unmount = null;
+  });
+
+  it('measures speed from updates more frequent than the minimum sample', () => {
+    const tracking = renderTracking();
+    unmount = tracking.unmount;
+
+    drive(60, 2000, 10);
+
+    expect(tracking.result.current?.speedKmh).toBeCloseTo(60, 0);
+  });
+
+  it('bases the ETA on the measured speed', () => {
+    const tracking = renderTracking();
+    unmount = tracking.unmount;
+
+    drive(60, 5000, 4);
+
+    const {distanceKm, etaMinutes} = tracking.result.current!;
+    expect(etaMinutes).toBe(Math.ceil((distanceKm! / 60) * 60));
+  });
+
+  it('has no speed until a sample can be taken', () => {
+    const tracking = renderTracking();
+    unmount = tracking.unmount;
+
+    drive(60, 2000, 2);
+
+    expect(tracking.result.current?.speedKmh).toBeNull();
+    expect(tracking.result.current?.location).not.toBeNull();
+  });
+});
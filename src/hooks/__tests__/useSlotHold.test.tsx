@@ -0,0 +1,154 @@
+import React from 'react';
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import TestRenderer, {act} from 'react-test-renderer';
+import {useSlotHold} from '../useSlotHold';
+import type {AvailabilitySlot, SlotHold} from '../../types/domain';
+
+const mockHold = jest.fn<(slotId: string, context: object) => Promise<SlotHold>>();
+const mockReleaseHold = jest.fn<(holdId: string) => Promise<void>>();
+
+jest.mock('../../services/api/availabilityApi', () => ({
+  availabilityApi: {
+    hold: (slotId: string, context: object) => mockHold(slotId, context),
+    releaseHold: (holdId: string) => mockReleaseHold(holdId),
+  },
+}));
+
+const NOW = new Date('2026-03-02T10:00:00Z').getTime();
+const context = {serviceType: 'Plumbing', pincode: '560001'};
+
+const slot = (id: string): AvailabilitySlot => ({
+  id,
+  start: new Date(NOW + 60 * 60 * 1000),
+  end: new Date(NOW + 2 * 60 * 60 * 1000),
+  availableProviders: 2,
+});
+
+// Holds last five minutes from the time they are taken
+const holdFor = (slotId: string): SlotHold => ({
+  id: `hold-${slotId}`,
+  slotId,
+  start: new Date(NOW + 60 * 60 * 1000),
+  end: new Date(NOW + 2 * 60 * 60 * 1000),
+  expiresAt: new Date(Date.now() + 5 * 60 * 1000),
+});
+
+type SlotHoldState = ReturnType<typeof useSlotHold>;
+
+const renderSlotHold = (onExpire: () => void) => {
+  const result: {current: SlotHoldState | null} = {current: null};
+  const Probe = () => {
+    result.current = useSlotHold(onExpire);
+    return null;
+  };
+  let renderer: TestRenderer.ReactTestRenderer;
+  act(() => {
+    renderer = TestRenderer.create(<Probe />);
+  });
+  return {result, unmount: () => act(() => renderer.unmount())};
+};
+
+describe('useSlotHold', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({now: NOW});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockHold.mockReset();
+    mockHold.mockImplementation(async slotId => holdFor(slotId));
+    mockReleaseHold.mockReset();
+    mockReleaseHold.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('holds a slot and counts down to its expiry', async () => {
+    const {result} = renderSlotHold(jest.fn());
+
+    await act(async () => {
+      await result.current!.holdSlot(slot('slot-1'), context);
+    });
+    expect(mockHold).toHaveBeenCalledWith('slot-1', context);
+    expect(result.current!.hold?.id).toBe('hold-slot-1');
+    expect(result.current!.secondsLeft).toBe(300);
+
+    act(() => {
+      jest.advanceTimersByTime(60 * 1000);
+    });
+    expect(result.current!.secondsLeft).toBe(240);
+  });
+
+  it('releases the previous hold when another slot is held', async () => {
+    const {result} = renderSlotHold(jest.fn());
+
+    await act(async () => {
+      await result.current!.holdSlot(slot('slot-1'), context);
+    });
+    await act(async () => {
+      await result.current!.holdSlot(slot('slot-2'), context);
+    });
+
+    expect(mockReleaseHold).toHaveBeenCalledWith('hold-slot-1');
+    expect(result.current!.hold?.id).toBe('hold-slot-2');
+  });
+
+  it('reports expiry without releasing the lapsed hold', async () => {
+    const onExpire = jest.fn();
+    const {result} = renderSlotHold(onExpire);
+
+    await act(async () => {
+      await result.current!.holdSlot(slot('slot-1'), context);
+    });
+    act(() => {
+      jest.advanceTimersByTime(5 * 60 * 1000);
+    });
+
+    expect(onExpire).toHaveBeenCalledTimes(1);
+    expect(result.current!.hold).toBeNull();
+    expect(mockReleaseHold).not.toHaveBeenCalled();
+  });
+
+  it('releases on request but not once the booking has used the hold', async () => {
+    const {result} = renderSlotHold(jest.fn());
+
+    await act(async () => {
+      await result.current!.holdSlot(slot('slot-1'), context);
+    });
+    act(() => result.current!.consume());
+    expect(mockReleaseHold).not.toHaveBeenCalled();
+
+    await act(async () => {
+      await result.current!.holdSlot(slot('slot-2'), context);
+    });
+    act(() => result.current!.release());
+    expect(mockReleaseHold).toHaveBeenCalledWith('hold-slot-2');
+    expect(result.current!.hold).toBeNull();
+  });
+
+  it('gives the slot back when the screen unmounts', async () => {
+    const {result, unmount} = renderSlotHold(jest.fn());
+
+    await act(async () => {
+      await result.current!.holdSlot(slot('slot-1'), context);
+    });
+    unmount();
+
+    expect(mockReleaseHold).toHaveBeenCalledWith('hold-slot-1');
+  });
+
+  it('keeps the current hold when the new slot is no longer free', async () => {
+    const {result} = renderSlotHold(jest.fn());
+    await act(async () => {
+      await result.current!.holdSlot(slot('slot-1'), context);
+    });
+    mockHold.mockRejectedValueOnce(new Error('Slot unavailable'));
+
+    await act(async () => {
+      await expect(result.current!.holdSlot(slot('slot-2'), context)).rejects.toThrow('Slot unavailable');
+    });
+
+    expect(result.current!.hold?.id).toBe('hold-slot-1');
+    expect(mockReleaseHold).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * Hook that ties API request cancellation to the component lifecycle
+ * Pass the returned signal to API calls; they are aborted on unmount
+ */
+
+import {useEffect, useRef} from 'react';
+
+export const useAbortSignal = (): AbortSignal => {
+  const controllerRef = useRef<AbortController | null>(null);
+  if (!controllerRef.current) {
+    controllerRef.current = new AbortController();
+  }
+
+  useEffect(() => {
+    const controller = controllerRef.current;
+    return () => {
+      controller?.abort();
+    };
+  }, []);
+
+  return controllerRef.current.signal;
+};
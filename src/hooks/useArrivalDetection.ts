@@ -0,0 +1,71 @@
+/**
+ * Hook to detect when a provider has arrived at the service address
+ * The provider must stay inside the arrival geofence for the dwell time, so
+ * driving past the address or a single jittery fix does not count
+ */
+
+import {useState, useEffect, useRef} from 'react';
+import {
+  calculateDistance,
+  isWithinArrivalGeofence,
+  ARRIVAL_RADIUS_M,
+  ARRIVAL_DWELL_MS,
+  type ProviderLocation,
+} from '../services/providerLocationService';
+import type {TrackingPoint} from './useProviderTracking';
+
+export interface ArrivalDetectionOptions {
+  radiusMeters?: number;
+  dwellMs?: number;
+  // Detection is paused (and the dwell restarted) while false
+  enabled?: boolean;
+}
+
+/**
+ * Returns true once the provider has arrived; stays true after that
+ */
+export const useArrivalDetection = (
+  location: ProviderLocation | null,
+  destination: TrackingPoint | null,
+  {radiusMeters = ARRIVAL_RADIUS_M, dwellMs = ARRIVAL_DWELL_MS, enabled = true}: ArrivalDetectionOptions = {},
+): boolean => {
+  const [arrived, setArrived] = useState(false);
+  // When the provider entered the geofence, or null while outside
+  const insideSinceRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !location || !destination) {
+      insideSinceRef.current = null;
+      return;
+    }
+    if (arrived) {
+      return;
+    }
+
+    const distanceKm = calculateDistance(
+      location.latitude,
+      location.longitude,
+      destination.latitude,
+      destination.longitude,
+    );
+    if (!isWithinArrivalGeofence(distanceKm, insideSinceRef.current !== null, radiusMeters)) {
+      insideSinceRef.current = null;
+      return;
+    }
+
+    if (insideSinceRef.current === null) {
+      insideSinceRef.current = Date.now();
+    }
+    // Updates can stop once the provider parks, so the dwell ends on a timer
+    // rather than on the next location update
+    const remainingMs = insideSinceRef.current + dwellMs - Date.now();
+    if (remainingMs <= 0) {
+      setArrived(true);
+      return;
+    }
+    const timer = setTimeout(() => setArrived(true), remainingMs);
+    return () => clearTimeout(timer);
+  }, [location, destination, enabled, arrived, radiusMeters, dwellMs]);
+
+  return arrived;
+};
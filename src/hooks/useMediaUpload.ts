@@ -0,0 +1,133 @@
+/**
+ * Hook to track photos picked for upload
+ * Keeps per-file progress and status, retries failed files and cancels
+ * uploads still running when the screen unmounts
+ */
+
+import {useState, useEffect, useRef} from 'react';
+import {isLocalMedia, uploadMedia} from '../services/mediaUploadService';
+import {isCancelledError} from '../services/api/apiErrors';
+import {generateId} from '../utils/helpers';
+
+export type MediaItemStatus = 'pending' | 'uploading' | 'uploaded' | 'failed';
+
+export interface MediaItem {
+  id: string;
+  // Shown as the preview - the local file, or the download URL once uploaded
+  uri: string;
+  url?: string;
+  progress: number;
+  status: MediaItemStatus;
+}
+
+const toItem = (uri: string): MediaItem =>
+  isLocalMedia(uri)
+    ? {id: generateId(), uri, progress: 0, status: 'pending'}
+    : {id: generateId(), uri, url: uri, progress: 1, status: 'uploaded'};
+
+export const useMediaUpload = (initialUris: string[] = []) => {
+  const [items, setItems] = useState<MediaItem[]>(() => initialUris.map(toItem));
+  const itemsRef = useRef(items);
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const inFlightRef = useRef(new Map<string, Promise<void>>());
+
+  const updateItems = (updater: (current: MediaItem[]) => MediaItem[]) => {
+    itemsRef.current = updater(itemsRef.current);
+    setItems(itemsRef.current);
+  };
+
+  const updateItem = (id: string, updates: Partial<MediaItem>) => {
+    updateItems(current => current.map(item => (item.id === id ? {...item, ...updates} : item)));
+  };
+
+  // Cancel whatever is still uploading when the screen goes away
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      controllers.forEach(controller => controller.abort());
+      controllers.clear();
+    };
+  }, []);
+
+  const add = (uris: string[]): MediaItem[] => {
+    const added = uris.map(toItem);
+    updateItems(current => [...current, ...added]);
+    return added;
+  };
+
+  // Replace every photo, e.g. when a draft is restored
+  const reset = (uris: string[]) => {
+    controllersRef.current.forEach(controller => controller.abort());
+    controllersRef.current.clear();
+    updateItems(() => uris.map(toItem));
+  };
+
+  const remove = (id: string) => {
+    controllersRef.current.get(id)?.abort();
+    controllersRef.current.delete(id);
+    updateItems(current => current.filter(item => item.id !== id));
+  };
+
+  const uploadItem = (item: MediaItem, folder: string): Promise<void> => {
+    const promise = runUpload(item, folder).finally(() => inFlightRef.current.delete(item.id));
+    inFlightRef.current.set(item.id, promise);
+    return promise;
+  };
+
+  const runUpload = async (item: MediaItem, folder: string): Promise<void> => {
+    const controller = new AbortController();
+    controllersRef.current.set(item.id, controller);
+    updateItem(item.id, {status: 'uploading', progress: 0});
+    try {
+      const {url} = await uploadMedia(item.uri, {
+        folder,
+        signal: controller.signal,
+        onProgress: progress => updateItem(item.id, {progress}),
+      });
+      updateItem(item.id, {status: 'uploaded', url, progress: 1});
+    } catch (error) {
+      if (!isCancelledError(error)) {
+        updateItem(item.id, {status: 'failed'});
+      }
+      throw error;
+    } finally {
+      controllersRef.current.delete(item.id);
+    }
+  };
+
+  /**
+   * Upload every photo not uploaded yet (or just `ids`), waiting for
+   * uploads already running
+   * Resolves with the download URLs of all photos in order; rejects with
+   * the first failure once every file has settled
+   */
+  const upload = async (folder: string, ids?: string[]): Promise<string[]> => {
+    const uploads = itemsRef.current
+      .filter(item => !ids || ids.includes(item.id))
+      .map(item => {
+        const inFlight = inFlightRef.current.get(item.id);
+        if (inFlight) {
+          return inFlight;
+        }
+        return item.status === 'pending' || item.status === 'failed' ? uploadItem(item, folder) : null;
+      })
+      .filter((promise): promise is Promise<void> => promise !== null);
+    const results = await Promise.allSettled(uploads);
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) {
+      throw failure.reason;
+    }
+    return itemsRef.current.filter(item => item.url).map(item => item.url!);
+  };
+
+  return {
+    items,
+    // Local files and download URLs, e.g. for saving a draft
+    uris: items.map(item => item.url || item.uri),
+    uploading: items.some(item => item.status === 'uploading'),
+    add,
+    reset,
+    remove,
+    upload,
+  };
+};
@@ -0,0 +1,32 @@
+/**
+ * Hook to observe the offline request queue
+ * Exposes queued mutations and actions to retry or discard them
+ */
+
+import {useState, useEffect} from 'react';
+import {
+  subscribeToQueue,
+  retryQueuedRequest,
+  removeQueuedRequest,
+  type QueuedRequest,
+} from '../services/api/offlineQueue';
+
+export const useOfflineQueue = () => {
+  const [queuedRequests, setQueuedRequests] = useState<QueuedRequest[]>([]);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToQueue(setQueuedRequests);
+    return unsubscribe;
+  }, []);
+
+  const pendingCount = queuedRequests.filter(
+    item => item.status === 'queued' || item.status === 'sending',
+  ).length;
+
+  return {
+    queuedRequests,
+    pendingCount,
+    retry: retryQueuedRequest,
+    remove: removeQueuedRequest,
+  };
+};
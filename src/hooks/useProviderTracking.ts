@@ -0,0 +1,121 @@
+/**
+ * Hook to follow an assigned provider's live location
+ * Subscribes to the provider's Realtime Database location, keeps the trail
+ * they have travelled, and derives distance, an ETA from their recent speed
+ * and whether the last update is too old to trust
+ */
+
+import {useState, useEffect, useRef} from 'react';
+import database from '@react-native-firebase/database';
+import {
+  calculateDistance,
+  calculateETA,
+  isLocationStale,
+  updateSmoothedSpeed,
+  MIN_SPEED_SAMPLE_MS,
+  type ProviderLocation,
+} from '../services/providerLocationService';
+
+export interface TrackingPoint {
+  latitude: number;
+  longitude: number;
+}
+
+// Points kept on the trail
+const MAX_TRAIL_POINTS = 100;
+// Smaller moves are GPS jitter and are not added to the trail
+const MIN_TRAIL_STEP_KM = 0.01;
+// Below this the provider is waiting (traffic, parking) rather than
+// travelling; the ETA uses this floor so it does not shoot up while they wait
+const MIN_ETA_SPEED_KMH = 10;
+// How often staleness is re-checked when no updates arrive
+const STALE_CHECK_INTERVAL_MS = 15000;
+
+const toProviderLocation = (value: any): ProviderLocation | null => {
+  if (typeof value?.latitude !== 'number' || typeof value?.longitude !== 'number') {
+    return null;
+  }
+  return {...value, updatedAt: typeof value.updatedAt === 'number' ? value.updatedAt : Date.now()};
+};
+
+export const useProviderTracking = (providerId: string | undefined, destination: TrackingPoint | null) => {
+  const [location, setLocation] = useState<ProviderLocation | null>(null);
+  const [trail, setTrail] = useState<TrackingPoint[]>([]);
+  const [speedKmh, setSpeedKmh] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const lastLocationRef = useRef<ProviderLocation | null>(null);
+  // Where the next speed sample is measured from; only moves once a sample is
+  // taken, so frequent updates still add up to a measurable step
+  const speedAnchorRef = useRef<ProviderLocation | null>(null);
+
+  useEffect(() => {
+    setLocation(null);
+    setTrail([]);
+    setSpeedKmh(null);
+    lastLocationRef.current = null;
+    speedAnchorRef.current = null;
+
+    if (!providerId) {
+      return;
+    }
+
+    const locationRef = database().ref(`providers/${providerId}/location`);
+    const unsubscribe = locationRef.on('value', snapshot => {
+      const next = toProviderLocation(snapshot.val());
+      const previous = lastLocationRef.current;
+      // Ignore repeats and out-of-order updates
+      if (!next || (previous && next.updatedAt <= previous.updatedAt)) {
+        return;
+      }
+
+      const anchor = speedAnchorRef.current;
+      if (!anchor) {
+        speedAnchorRef.current = next;
+      } else if (next.updatedAt - anchor.updatedAt >= MIN_SPEED_SAMPLE_MS) {
+        setSpeedKmh(speed => updateSmoothedSpeed(speed, anchor, next));
+        speedAnchorRef.current = next;
+      }
+      setTrail(points => {
+        const last = points[points.length - 1];
+        if (last && calculateDistance(last.latitude, last.longitude, next.latitude, next.longitude) < MIN_TRAIL_STEP_KM) {
+          return points;
+        }
+        return [...points, {latitude: next.latitude, longitude: next.longitude}].slice(-MAX_TRAIL_POINTS);
+      });
+      lastLocationRef.current = next;
+      setLocation(next);
+      setNow(Date.now());
+    });
+
+    return () => locationRef.off('value', unsubscribe);
+  }, [providerId]);
+
+  // Keep staleness current while updates have stopped
+  useEffect(() => {
+    if (!location) {
+      return;
+    }
+    const interval = setInterval(() => setNow(Date.now()), STALE_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [location]);
+
+  const distanceKm =
+    location && destination
+      ? calculateDistance(location.latitude, location.longitude, destination.latitude, destination.longitude)
+      : null;
+  const etaMinutes =
+    distanceKm !== null
+      ? calculateETA(distanceKm, speedKmh !== null ? Math.max(speedKmh, MIN_ETA_SPEED_KMH) : undefined)
+      : null;
+
+  return {
+    location,
+    trail,
+    speedKmh,
+    distanceKm,
+    etaMinutes,
+    isStale: location ? isLocationStale(location.updatedAt, now) : false,
+    // Minutes since the last update, for "last seen" messages
+    minutesSinceUpdate: location ? Math.floor((now - location.updatedAt) / 60000) : null,
+  };
+};
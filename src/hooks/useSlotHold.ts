@@ -0,0 +1,81 @@
+/**
+ * Hook to hold a time slot while the booking form is filled in
+ * Releases the hold when it is replaced or the screen unmounts, and
+ * reports expiry so the form can ask for a new slot
+ */
+
+import {useState, useEffect, useRef} from 'react';
+import {availabilityApi, type AvailabilitySlot, type SlotHold} from '../services/api/availabilityApi';
+
+export const useSlotHold = (onExpire: () => void) => {
+  const [hold, setHold] = useState<SlotHold | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const holdRef = useRef<SlotHold | null>(null);
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  const replaceHold = (next: SlotHold | null, releasePrevious: boolean) => {
+    const previous = holdRef.current;
+    if (releasePrevious && previous && previous.id !== next?.id) {
+      availabilityApi.releaseHold(previous.id);
+    }
+    holdRef.current = next;
+    setHold(next);
+  };
+
+  // Count down to expiry
+  useEffect(() => {
+    if (!hold) {
+      setSecondsLeft(0);
+      return;
+    }
+    const tick = () => {
+      const remaining = Math.max(0, Math.round((hold.expiresAt.getTime() - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+      if (remaining === 0) {
+        console.log('⏰ Slot hold expired:', hold.id);
+        replaceHold(null, false);
+        onExpireRef.current();
+      }
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [hold]);
+
+  // Give the slot back if the customer leaves without booking
+  useEffect(() => {
+    return () => {
+      if (holdRef.current) {
+        availabilityApi.releaseHold(holdRef.current.id);
+      }
+    };
+  }, []);
+
+  /**
+   * Hold `slot`, releasing any previous hold
+   * Throws SlotUnavailableError when the slot is no longer free
+   */
+  const holdSlot = async (
+    slot: AvailabilitySlot,
+    context: {serviceType: string; pincode: string},
+  ): Promise<SlotHold> => {
+    const newHold = await availabilityApi.hold(slot.id, context);
+    console.log('📌 Slot held until', newHold.expiresAt.toISOString());
+    replaceHold(newHold, true);
+    return newHold;
+  };
+
+  const release = () => replaceHold(null, true);
+
+  // The booking was created with the hold, so the backend has used it up
+  const consume = () => replaceHold(null, false);
+
+  return {
+    hold,
+    secondsLeft,
+    holdSlot,
+    release,
+    consume,
+  };
+};
@@ -18,6 +18,11 @@ import enMessages from './locales/en/messages.json';
 import enNotifications from './locales/en/notifications.json';
 import enProviders from './locales/en/providers.json';
 import enRecommendations from './locales/en/recommendations.json';
+import enRecurrence from './locales/en/recurrence.json';
+import enQuestionnaire from './locales/en/questionnaire.json';
+import enOnBehalf from './locales/en/onBehalf.json';
+import enQuotes from './locales/en/quotes.json';
+import enTimeline from './locales/en/timeline.json';
 
 // Hindi translations
 import hiCommon from './locales/hi/common.json';
@@ -35,6 +40,11 @@ import hiMessages from './locales/hi/messages.json';
 import hiNotifications from './locales/hi/notifications.json';
 import hiProviders from './locales/hi/providers.json';
 import hiRecommendations from './locales/hi/recommendations.json';
+import hiRecurrence from './locales/hi/recurrence.json';
+import hiQuestionnaire from './locales/hi/questionnaire.json';
+import hiOnBehalf from './locales/hi/onBehalf.json';
+import hiQuotes from './locales/hi/quotes.json';
+import hiTimeline from './locales/hi/timeline.json';
 
 // Merge all translations
 const en = {
@@ -53,6 +63,11 @@ const en = {
   notifications: enNotifications,
   providers: enProviders,
   recommendations: enRecommendations,
+  recurrence: enRecurrence,
+  questionnaire: enQuestionnaire,
+  onBehalf: enOnBehalf,
+  quotes: enQuotes,
+  timeline: enTimeline,
 };
 
 const hi = {
@@ -71,6 +86,11 @@ const hi = {
   notifications: hiNotifications,
   providers: hiProviders,
   recommendations: hiRecommendations,
+  recurrence: hiRecurrence,
+  questionnaire: hiQuestionnaire,
+  onBehalf: hiOnBehalf,
+  quotes: hiQuotes,
+  timeline: hiTimeline,
 };
 
 const LANGUAGE_KEY = '@app_language';
@@ -8,6 +8,8 @@ import {useStore} from '../store';
 import {lightTheme, darkTheme} from '../utils/theme';
 import NotificationService from '../services/notificationService';
 import useTranslation from '../hooks/useTranslation';
+import {onAuthExpired} from '../services/api/authEvents';
+import {navigationRef, getCurrentRedirect} from './navigationRef';
 
 // Screens
 import LoginScreen from '../screens/LoginScreen';
@@ -22,6 +24,8 @@ import HelpSupportScreen from '../screens/HelpSupportScreen';
 import ServiceRequestScreen from '../screens/ServiceRequestScreen';
 import ServiceHistoryScreen from '../screens/ServiceHistoryScreen';
 import ActiveServiceScreen from '../screens/ActiveServiceScreen';
+import BookingSeriesScreen from '../screens/BookingSeriesScreen';
+import QuotesScreen from '../screens/QuotesScreen';
 
 const Stack = createNativeStackNavigator();
 
@@ -94,6 +98,40 @@ export default function AppNavigator() {
     return unsubscribe;
   }, [initializing]);
 
+  useEffect(() => {
+    // The API layer could not refresh the ID token - send the user to Login
+    const unsubscribe = onAuthExpired(() => {
+      if (!navigationRef.isReady()) {
+        return;
+      }
+      const currentRoute = navigationRef.getCurrentRoute();
+      if (currentRoute?.name === 'Login') {
+        return;
+      }
+
+      // Keep a pending redirect; otherwise come back to the current screen,
+      // but only if the same account logs in again
+      const {currentUser, setCurrentUser, redirectAfterLogin, setRedirectAfterLogin} = useStore.getState();
+      if (!redirectAfterLogin) {
+        const redirect = getCurrentRedirect();
+        const userId = auth().currentUser?.uid || currentUser?.id;
+        setRedirectAfterLogin(redirect && userId ? {...redirect, userId} : redirect);
+      }
+      setCurrentUser(null);
+
+      auth().signOut().catch(error => {
+        console.warn('Error signing out after auth expiry:', error);
+      });
+
+      navigationRef.reset({
+        index: 0,
+        routes: [{name: 'Login'}],
+      });
+    });
+
+    return unsubscribe;
+  }, []);
+
   if (initializing) {
     return (
       <View style={styles.loadingContainer}>
@@ -116,6 +154,7 @@ export default function AppNavigator() {
 
   return (
     <NavigationContainer
+      ref={navigationRef}
       theme={{
         dark: isDarkMode,
         colors: {
@@ -176,6 +215,26 @@ export default function AppNavigator() {
             headerTintColor: theme.text,
           }}
         />
+        <Stack.Screen
+          name="BookingSeries"
+          component={BookingSeriesScreen}
+          options={{
+            headerShown: true,
+            title: t('recurrence.seriesTitle'),
+            headerStyle: {backgroundColor: theme.card},
+            headerTintColor: theme.text,
+          }}
+        />
+        <Stack.Screen
+          name="Quotes"
+          component={QuotesScreen}
+          options={{
+            headerShown: true,
+            title: t('quotes.title'),
+            headerStyle: {backgroundColor: theme.card},
+            headerTintColor: theme.text,
+          }}
+        />
         <Stack.Screen
           name="HelpSupport"
           component={HelpSupportScreen}
@@ -16,6 +16,7 @@ import ShareContactRecommendationScreen from '../screens/ShareContactRecommendat
 import ServiceRequestScreen from '../screens/ServiceRequestScreen';
 import ServiceHistoryScreen from '../screens/ServiceHistoryScreen';
 import ActiveServiceScreen from '../screens/ActiveServiceScreen';
+import BookingSeriesScreen from '../screens/BookingSeriesScreen';
 import ProvidersListScreen from '../screens/ProvidersListScreen';
 import ProviderDetailsScreen from '../screens/ProviderDetailsScreen';
 import NotificationsScreen from '../screens/NotificationsScreen';
@@ -80,6 +81,11 @@ const ServicesStack = () => {
           ),
         })}
       />
+      <Stack.Screen
+        name="BookingSeries"
+        component={BookingSeriesScreen}
+        options={{title: t('recurrence.seriesTitle')}}
+      />
       <Stack.Screen
         name="ProvidersList"
         component={ProvidersListScreen}
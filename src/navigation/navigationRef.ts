@@ -0,0 +1,96 @@
+/**
+ * Navigation Ref
+ * Allows navigating from outside React components (e.g. on auth expiry)
+ * and restoring the pending redirectAfterLogin once the user signs in again
+ */
+
+import auth from '@react-native-firebase/auth';
+import {createNavigationContainerRef} from '@react-navigation/native';
+import {useStore, type LoginRedirect} from '../store';
+
+export const navigationRef = createNavigationContainerRef<any>();
+
+type Redirect = Pick<LoginRedirect, 'route' | 'params'>;
+
+// Screens that make no sense to return to after logging in
+const AUTH_ROUTES = ['Login', 'SignUp', 'PhoneVerification'];
+
+/**
+ * Convert a (possibly nested) navigation route into a redirect target
+ * e.g. Main > Services > ActiveService becomes
+ * {route: 'Main', params: {screen: 'Services', params: {screen: 'ActiveService', params}}}
+ */
+const toRedirect = (route: any): Redirect => {
+  const nested = route.state;
+  if (nested?.routes?.length) {
+    const child = nested.routes[nested.index ?? nested.routes.length - 1];
+    const inner = toRedirect(child);
+    return {route: route.name, params: {screen: inner.route, params: inner.params}};
+  }
+  return {route: route.name, params: route.params};
+};
+
+/**
+ * Get a redirect target for the screen the user is currently on
+ */
+export const getCurrentRedirect = (): Redirect | null => {
+  if (!navigationRef.isReady()) {
+    return null;
+  }
+  const rootState = navigationRef.getRootState();
+  const currentRoute = rootState?.routes?.[rootState.index ?? 0];
+  if (!currentRoute || AUTH_ROUTES.includes(currentRoute.name)) {
+    return null;
+  }
+  return toRedirect(currentRoute);
+};
+
+/**
+ * Pending redirect for the account that just logged in
+ * A redirect saved from another account's session is discarded
+ */
+const takeRedirectAfterLogin = (): LoginRedirect | null => {
+  const {redirectAfterLogin, setRedirectAfterLogin} = useStore.getState();
+  if (!redirectAfterLogin) {
+    return null;
+  }
+  setRedirectAfterLogin(null);
+
+  const userId = auth().currentUser?.uid;
+  if (redirectAfterLogin.userId && redirectAfterLogin.userId !== userId) {
+    return null;
+  }
+  return redirectAfterLogin;
+};
+
+/**
+ * Reset the stack after a successful login
+ * Lands on the pending redirectAfterLogin when one is set, otherwise on Main
+ */
+export const navigateAfterLogin = (navigation: any): void => {
+  const redirectAfterLogin = takeRedirectAfterLogin();
+
+  if (!redirectAfterLogin) {
+    navigation.reset({
+      index: 0,
+      routes: [{name: 'Main'}],
+    });
+    return;
+  }
+
+  if (redirectAfterLogin.route === 'Main') {
+    navigation.reset({
+      index: 0,
+      routes: [{name: 'Main', params: redirectAfterLogin.params}],
+    });
+    return;
+  }
+
+  navigation.reset({
+    index: 1,
+    routes: [
+      {name: 'Main'},
+      {name: redirectAfterLogin.route, params: redirectAfterLogin.params},
+    ],
+  });
+};
@@ -4,7 +4,7 @@
  * Shows provider location, status updates, ETA
  */
 
-import React, {useState, useEffect, useRef} from 'react';
+import React, {useState, useEffect, useRef, useMemo} from 'react';
 import {
   View,
   Text,
@@ -19,56 +19,65 @@ import {
   Platform,
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
-import GeolocationService from '../services/geolocationService';
-// MapView is optional - will show simplified view if maps not available
-let MapView: any = null;
-let Marker: any = null;
-let Polyline: any = null;
-
-try {
-  // Try direct import first (for older versions)
-  const maps = require('react-native-maps');
-
-  // Handle both default export and named exports
-  if (maps.default) {
-    MapView = maps.default;
-    Marker = maps.default.Marker || maps.Marker;
-    Polyline = maps.default.Polyline || maps.Polyline;
-  } else {
-    MapView = maps.MapView;
-    Marker = maps.Marker;
-    Polyline = maps.Polyline;
-  }
-
-  // Verify components are functions/components
-  if (!MapView || typeof MapView !== 'function') {
-    throw new Error('MapView is not a valid component');
-  }
-
-  console.log('✅ react-native-maps loaded successfully');
-} catch (e: any) {
-  console.log('Using simplified distance view - maps not available');
-  MapView = null;
-  Marker = null;
-  Polyline = null;
-}
-import database from '@react-native-firebase/database';
+import GeolocationService, {type LocationData} from '../services/geolocationService';
 import auth from '@react-native-firebase/auth';
 import firestore from '@react-native-firebase/firestore';
 import {useStore} from '../store';
 import {lightTheme, darkTheme} from '../utils/theme';
 import {subscribeToJobCardStatus, verifyTaskCompletion, cancelTaskWithReason, getJobCardById} from '../services/jobCardService';
 import {jobCardsApi} from '../services/api/jobCardsApi';
-import {serviceRequestsApi} from '../services/api/serviceRequestsApi';
+import {serviceRequestsApi, DIRECT_BOOKING_RESPONSE_MS} from '../services/api/serviceRequestsApi';
+import {RequestQueuedError} from '../services/api/offlineQueue';
 import CancelTaskModal from '../components/CancelTaskModal';
-import {getDistanceToCustomer, formatDistance} from '../services/providerLocationService';
+import {
+  getDistanceToCustomer,
+  formatDistance,
+  type ProviderLocation,
+} from '../services/providerLocationService';
 import ReviewModal from '../components/ReviewModal';
+import OnBehalfContactCard from '../components/OnBehalfContactCard';
+import ScheduleChangesCard, {formatScheduleTime} from '../components/ScheduleChangesCard';
+import SlotPickerModal from '../components/SlotPickerModal';
+import type {AvailabilitySlot} from '../services/api/availabilityApi';
+import {rescheduleRequest, respondToRescheduleProposal} from '../services/rescheduleService';
 import ConfirmationModal from '../components/ConfirmationModal';
 import AlertModal from '../components/AlertModal';
 import {canCustomerReview, getJobCardReview} from '../services/reviewService';
-import {providersApi, Provider} from '../services/api/providersApi';
-import WebSocketService from '../services/websocketService';
+import {providersApi} from '../services/api/providersApi';
+import {
+  findJobCardForRequest,
+  formatAddress,
+  getProviderFromRequest,
+  type JobCard,
+  type Provider,
+  type ServiceRequest,
+  type ServiceRequestStatus,
+} from '../types/domain';
+import {
+  canReschedule,
+  getAvailableActions,
+  getTransitionEffects,
+  type LifecycleAction,
+  type LifecycleEffect,
+} from '../types/serviceLifecycle';
+import WebSocketService, {type MatchingProgressEvent} from '../services/websocketService';
 import useTranslation from '../hooks/useTranslation';
+import {getErrorMessage} from '../utils/errorMessages';
+import {InvalidTransitionError, isCancelledError} from '../services/api/apiErrors';
+import {useAbortSignal} from '../hooks/useAbortSignal';
+import {useProviderTracking} from '../hooks/useProviderTracking';
+import ProviderTrackingMap, {isTrackingMapAvailable} from '../components/ProviderTrackingMap';
+import {useArrivalDetection} from '../hooks/useArrivalDetection';
+import NotificationService from '../services/notificationService';
+import ServiceTimeline from '../components/ServiceTimeline';
+import {buildServiceTimeline} from '../utils/serviceTimeline';
+
+const MATCHING_STAGE_LABELS: Record<MatchingProgressEvent['stage'], string> = {
+  targeted: 'activeService.matchingTargeted',
+  radius: 'activeService.matchingRadius',
+  broadcast: 'activeService.matchingBroadcast',
+  exhausted: 'activeService.matchingExhausted',
+};
 
 interface ActiveServiceScreenProps {
   navigation: any;
@@ -89,26 +98,34 @@ export default function ActiveServiceScreen({
   const theme = isDarkMode ? darkTheme : lightTheme;
   const currentUser = auth().currentUser;
   const {t} = useTranslation();
-
-  const [serviceRequest, setServiceRequest] = useState<any>(null);
-  const [jobCard, setJobCard] = useState<any>(null);
-  const [providerLocation, setProviderLocation] = useState<any>(null);
-  const [providerProfile, setProviderProfile] = useState<any>(null);
-  const [status, setStatus] = useState<string>('pending');
+  // Aborts in-flight API requests when the screen unmounts
+  const signal = useAbortSignal();
+
+  const [serviceRequest, setServiceRequest] = useState<ServiceRequest | null>(null);
+  const [jobCard, setJobCard] = useState<JobCard | null>(null);
+  const [providerLocation, setProviderLocation] = useState<ProviderLocation | null>(null);
+  const [providerProfile, setProviderProfile] = useState<Provider | null>(null);
+  const [status, setStatus] = useState<ServiceRequestStatus>('pending');
   const [loading, setLoading] = useState(true);
   const [isImmediateService, setIsImmediateService] = useState<boolean>(false);
-  const mapRef = useRef<any>(null);
   const [showReviewModal, setShowReviewModal] = useState(false);
   const [reviewDismissed, setReviewDismissed] = useState(false);
   const [distance, setDistance] = useState<string>('');
   const [eta, setEta] = useState<number>(0);
   const [locationPermissionGranted, setLocationPermissionGranted] = useState<boolean>(false);
-  const [customerLocation, setCustomerLocation] = useState<any>(null);
+  const [customerLocation, setCustomerLocation] = useState<LocationData | null>(null);
   const [requestCreatedAt, setRequestCreatedAt] = useState<Date | null>(null);
   const [canReRequest, setCanReRequest] = useState<boolean>(false);
+  const [matchingProgress, setMatchingProgress] = useState<MatchingProgressEvent | null>(null);
   const [showReRequestModal, setShowReRequestModal] = useState(false);
   const [availableProviders, setAvailableProviders] = useState<Provider[]>([]);
   const [loadingProviders, setLoadingProviders] = useState(false);
+  // Booked with a chosen provider who has not responded by the deadline
+  const [targetExpired, setTargetExpired] = useState(false);
+  const [targetDeadline, setTargetDeadline] = useState<Date | null>(null);
+  const [broadcasting, setBroadcasting] = useState(false);
+  const [showReschedulePicker, setShowReschedulePicker] = useState(false);
+  const [respondingToReschedule, setRespondingToReschedule] = useState(false);
 
   // Modal states
   const [showCancelModal, setShowCancelModal] = useState(false);
@@ -136,65 +153,6 @@ export default function ActiveServiceScreen({
             };
             setCustomerLocation(loc);
             console.log('✅ Customer live location obtained:', loc);
-            
-            // Update map region to show live location
-            if (mapRef.current) {
-              try {
-                const coordinates = [
-                  {latitude: loc.latitude, longitude: loc.longitude},
-                ];
-                
-                // Add service address if different
-                if (customerAddress?.latitude && customerAddress?.longitude) {
-                  const isDifferent = 
-                    Math.abs(loc.latitude - customerAddress.latitude) > 0.0001 ||
-                    Math.abs(loc.longitude - customerAddress.longitude) > 0.0001;
-                  if (isDifferent) {
-                    coordinates.push({
-                      latitude: customerAddress.latitude,
-                      longitude: customerAddress.longitude,
-                    });
-                  }
-                }
-                
-                // Add provider location if available
-                if (providerLocation?.latitude && providerLocation?.longitude) {
-                  coordinates.push({
-                    latitude: providerLocation.latitude,
-                    longitude: providerLocation.longitude,
-                  });
-                }
-                
-                if (coordinates.length > 1) {
-                  mapRef.current.fitToCoordinates(coordinates, {
-                    edgePadding: {top: 100, right: 50, bottom: 100, left: 50},
-                    animated: true,
-                  });
-                } else {
-                  // Fallback to animateToRegion
-                  mapRef.current.animateToRegion({
-                    latitude: loc.latitude,
-                    longitude: loc.longitude,
-                    latitudeDelta: 0.01,
-                    longitudeDelta: 0.01,
-                  }, 1000);
-                }
-              } catch (e) {
-                console.error('Error updating map region:', e);
-                // Fallback to animateToRegion
-                try {
-                  mapRef.current.animateToRegion({
-                    latitude: loc.latitude,
-                    longitude: loc.longitude,
-                    latitudeDelta: 0.01,
-                    longitudeDelta: 0.01,
-                  }, 1000);
-                } catch (e2) {
-                  console.error('Error animating map:', e2);
-                }
-              }
-            }
-            
             return location;
           }
         } catch (error) {
@@ -265,7 +223,14 @@ export default function ActiveServiceScreen({
           // Update jobCardId if we got it from WebSocket
           if (data.jobCardId && !jobCardId) {
             console.log('📝 [CUSTOMER] Setting jobCardId from WebSocket:', data.jobCardId);
-            setJobCard({id: data.jobCardId});
+            jobCardsApi
+              .getById(data.jobCardId, {signal})
+              .then(card => card && setJobCard(card))
+              .catch(error => {
+                if (!isCancelledError(error)) {
+                  console.error('❌ [CUSTOMER] Error loading job card from WebSocket:', error);
+                }
+              });
           }
           
           // Reset dismissed state
@@ -341,6 +306,35 @@ export default function ActiveServiceScreen({
     }
   }, [serviceRequestId, jobCardId, currentUser?.uid]);
   
+  // The provider moved the booking or proposed a new time
+  useEffect(() => {
+    const unsubscribe = WebSocketService.onScheduleChanged(data => {
+      if (data.consultationId !== serviceRequestId) {
+        return;
+      }
+      serviceRequestsApi
+        .getById(serviceRequestId, {signal})
+        .then(request => request && setServiceRequest(request))
+        .catch(error => {
+          if (!isCancelledError(error)) {
+            console.error('Error reloading rescheduled service request:', error);
+          }
+        });
+    });
+    return unsubscribe;
+  }, [serviceRequestId]);
+
+  // The server widening its search for a provider
+  useEffect(() => {
+    setMatchingProgress(null);
+    const unsubscribe = WebSocketService.onMatchingProgress(data => {
+      if (data.consultationId === serviceRequestId) {
+        setMatchingProgress(data);
+      }
+    });
+    return unsubscribe;
+  }, [serviceRequestId]);
+
   // Update customer location periodically for immediate services
   useEffect(() => {
     if (!isImmediateService) return;
@@ -363,7 +357,7 @@ export default function ActiveServiceScreen({
     // Poll every 5 seconds for status updates
     const pollInterval = setInterval(async () => {
       try {
-        const request = await serviceRequestsApi.getById(serviceRequestId);
+        const request = await serviceRequestsApi.getById(serviceRequestId, {signal});
         if (request) {
           const newStatus = request.status || 'pending';
           const newProviderId = request.providerId;
@@ -385,6 +379,9 @@ export default function ActiveServiceScreen({
           }
         }
       } catch (error) {
+        if (isCancelledError(error)) {
+          return;
+        }
         console.error('Error polling service request updates:', error);
       }
     }, 5000);
@@ -420,7 +417,17 @@ export default function ActiveServiceScreen({
   }, [jobCardId]);
 
   // Subscribe to provider location updates when provider is assigned
-  // Initial fetch from backend API, then subscribe to Firebase Realtime DB for real-time updates
+  // Initial fetch from backend API, then live updates from Firebase Realtime DB
+  const trackingCustomerAddress = serviceRequest?.customerAddress || jobCard?.customerAddress;
+  const trackingDestination = useMemo(
+    () =>
+      trackingCustomerAddress?.latitude && trackingCustomerAddress?.longitude
+        ? {latitude: trackingCustomerAddress.latitude, longitude: trackingCustomerAddress.longitude}
+        : null,
+    [trackingCustomerAddress?.latitude, trackingCustomerAddress?.longitude],
+  );
+  const tracking = useProviderTracking(jobCard?.providerId || serviceRequest?.providerId, trackingDestination);
+
   useEffect(() => {
     const providerId = jobCard?.providerId || serviceRequest?.providerId;
     
@@ -431,14 +438,17 @@ export default function ActiveServiceScreen({
     }
 
     console.log('Setting up provider location tracking for:', providerId);
+
+    // Cancelled when the provider changes or the screen unmounts
+    const locationController = new AbortController();
     
     // Initial fetch from backend API (which reads from Firebase Realtime DB)
     const fetchInitialLocation = async () => {
       try {
-        const provider = await providersApi.getById(providerId);
+        const provider = await providersApi.getById(providerId, {signal: locationController.signal});
         if (provider) {
           // Backend returns location in currentLocation field (from Firebase Realtime DB)
-          const locationData = (provider as any).currentLocation || provider.location;
+          const locationData: Provider['currentLocation'] = provider.currentLocation || provider.location;
           if (locationData && locationData.latitude && locationData.longitude) {
             const location = {
               latitude: locationData.latitude,
@@ -455,33 +465,73 @@ export default function ActiveServiceScreen({
           }
         }
       } catch (error) {
+        if (isCancelledError(error)) {
+          return;
+        }
         console.error('Error fetching initial provider location from backend API:', error);
       }
     };
 
-    // Fetch initial location from backend
+    // Fetch initial location from backend; live updates come from useProviderTracking
     fetchInitialLocation();
 
-    // Subscribe to Firebase Realtime Database for real-time updates
-    // Location is stored in Firebase Realtime DB, so we subscribe directly for efficiency
-    const locationRef = database().ref(`providers/${providerId}/location`);
-    
-    const unsubscribe = locationRef.on('value', snapshot => {
-      if (snapshot.exists()) {
-        const location = snapshot.val();
-        console.log('Provider location updated from Firebase Realtime DB:', location);
-        setProviderLocation(location);
-        calculateDistanceAndETA(location);
-      } else {
-        console.log('Provider location not available in Firebase Realtime DB');
-      }
-    });
+    return () => locationController.abort();
+  }, [jobCard?.providerId, serviceRequest?.providerId]);
 
-    return () => {
-      console.log('Unsubscribing from provider location');
-      locationRef.off('value', unsubscribe);
+  // Live updates replace the initial location; the ETA follows the provider's recent speed
+  useEffect(() => {
+    if (!tracking.location) {
+      return;
+    }
+    setProviderLocation(tracking.location);
+    if (tracking.distanceKm !== null && tracking.etaMinutes !== null) {
+      setDistance(formatDistance(tracking.distanceKm));
+      setEta(tracking.etaMinutes);
+    }
+  }, [tracking.location, tracking.distanceKm, tracking.etaMinutes]);
+
+  // Arrival is only detected once per request, on the way to the address
+  const arrivalDetected = useArrivalDetection(tracking.location, trackingDestination, {
+    enabled: status === 'accepted' && !!serviceRequest && !serviceRequest.arrivedAt,
+  });
+  const arrivalRecordedRef = useRef(false);
+
+  useEffect(() => {
+    if (!arrivalDetected || !serviceRequest || serviceRequest.arrivedAt || arrivalRecordedRef.current) {
+      return;
+    }
+    arrivalRecordedRef.current = true;
+
+    const recordArrival = async () => {
+      const providerName = providerProfile?.name || serviceRequest.providerName || jobCard?.providerName || 'Provider';
+      console.log('📍 Provider arrived at service address:', serviceRequest.id);
+      NotificationService.showServiceNotification(
+        t('activeService.providerArrivedTitle'),
+        t('activeService.providerArrivedMessage', {name: providerName}),
+        {consultationId: serviceRequest.id, status: 'arrived'},
+      );
+      const arrivedAt = new Date();
+      try {
+        setServiceRequest(await serviceRequestsApi.markArrived(serviceRequest.id, arrivedAt));
+      } catch (error) {
+        console.error('Error recording provider arrival:', error);
+        // Still show the arrival here; it is detected again next time the screen opens
+        setServiceRequest(prev => (prev && !prev.arrivedAt ? {...prev, arrivedAt} : prev));
+      }
+      if (!jobCardId) {
+        return;
+      }
+      try {
+        setJobCard(await jobCardsApi.addEvent(jobCardId, {type: 'arrived', actor: 'system', at: arrivedAt}));
+      } catch (eventError) {
+        if (!(eventError instanceof RequestQueuedError)) {
+          console.warn('⚠️ Could not add arrival to job progress:', eventError);
+        }
+      }
     };
-  }, [jobCard?.providerId, serviceRequest?.providerId]);
+
+    recordArrival();
+  }, [arrivalDetected, serviceRequest?.id, serviceRequest?.arrivedAt]);
 
   // Check if re-request is allowed (10 minutes after creation and status is pending)
   useEffect(() => {
@@ -520,10 +570,33 @@ export default function ActiveServiceScreen({
     return () => clearInterval(interval);
   }, [status, requestCreatedAt]);
 
+  // Offer to send a directly booked request to everyone once the chosen
+  // provider has let the deadline pass
+  useEffect(() => {
+    const deadline = targetDeadline || serviceRequest?.targetExpiresAt;
+    if (status !== 'pending' || !serviceRequest?.targetProviderId || !deadline) {
+      setTargetExpired(false);
+      return;
+    }
+
+    const remaining = deadline.getTime() - Date.now();
+    setTargetExpired(remaining <= 0);
+    if (remaining <= 0) {
+      return;
+    }
+    const timeout = setTimeout(() => setTargetExpired(true), remaining);
+    return () => clearTimeout(timeout);
+  }, [status, serviceRequest?.targetProviderId, serviceRequest?.targetExpiresAt, targetDeadline]);
+
   // Fetch available providers when status is pending
   useEffect(() => {
+    // Cancelled when the status or service type changes or the screen unmounts
+    const providersController = new AbortController();
+    const providersSignal = providersController.signal;
+
     const fetchAvailableProviders = async () => {
-      if (status === 'pending' && serviceRequest?.serviceType) {
+      // Quotes requests list the providers' quotes instead
+      if (status === 'pending' && serviceRequest?.serviceType && serviceRequest.bookingMode !== 'quotes') {
         try {
           setLoadingProviders(true);
           console.log('Fetching available providers for service type:', serviceRequest.serviceType);
@@ -531,14 +604,14 @@ export default function ActiveServiceScreen({
             serviceType: serviceRequest.serviceType,
             isOnline: true, // Only fetch online providers
             limit: 10
-          });
+          }, {signal: providersSignal, forceRefresh: true});
           
           // Fetch full provider details including phone numbers for each provider
           const providersWithDetails = await Promise.all(
             providers.map(async (provider) => {
               try {
                 // Get full provider details to ensure we have phone number
-                const fullProvider = await providersApi.getById(provider._id || provider.id || '');
+                const fullProvider = await providersApi.getById(provider._id || provider.id || '', {signal: providersSignal});
                 if (fullProvider) {
                   return {
                     ...provider,
@@ -553,17 +626,25 @@ export default function ActiveServiceScreen({
               }
             })
           );
-          
+
+          if (providersSignal.aborted) {
+            return;
+          }
           setAvailableProviders(providersWithDetails);
           console.log('Available providers fetched with details:', providersWithDetails.length);
           providersWithDetails.forEach(p => {
             console.log('Provider:', p.name, 'Phone:', p.phoneNumber || p.phone);
           });
         } catch (error) {
+          if (isCancelledError(error)) {
+            return;
+          }
           console.error('Error fetching available providers:', error);
           setAvailableProviders([]);
         } finally {
-          setLoadingProviders(false);
+          if (!providersSignal.aborted) {
+            setLoadingProviders(false);
+          }
         }
       } else if (status !== 'pending') {
         // Clear providers list when status changes from pending
@@ -572,14 +653,16 @@ export default function ActiveServiceScreen({
     };
 
     fetchAvailableProviders();
-  }, [status, serviceRequest?.serviceType]);
+
+    return () => providersController.abort();
+  }, [status, serviceRequest?.serviceType, serviceRequest?.bookingMode]);
 
   const loadServiceData = async () => {
     try {
       setLoading(true);
 
       // Load service request from API
-      const requestData = await serviceRequestsApi.getById(serviceRequestId);
+      const requestData = await serviceRequestsApi.getById(serviceRequestId, {signal});
 
       if (requestData) {
         // Verify user has permission to view this consultation
@@ -603,10 +686,7 @@ export default function ActiveServiceScreen({
           }
         }
         
-        setServiceRequest({
-          id: requestData._id || requestData.id,
-          ...requestData,
-        });
+        setServiceRequest(requestData);
         setStatus(requestData?.status || 'pending');
         
         // Track when the request was created for re-request feature
@@ -632,29 +712,15 @@ export default function ActiveServiceScreen({
 
         // If provider details are stored in the service request document, use them
         if (requestData.providerId) {
-          // Check if provider details are already in the document
-          if (requestData.providerName || requestData.providerPhone) {
-            setProviderProfile({
-              id: requestData.providerId,
-              name: requestData.providerName,
-              phoneNumber: requestData.providerPhone,
-              phone: requestData.providerPhone,
-              email: requestData.providerEmail,
-              specialization: requestData.providerSpecialization,
-              specialty: requestData.providerSpecialization,
-              rating: requestData.providerRating || 0,
-              profileImage: requestData.providerImage,
-              address: requestData.providerAddress,
-            });
+          const providerFromRequest = getProviderFromRequest(requestData);
+          if (providerFromRequest) {
+            setProviderProfile(providerFromRequest);
           } else {
             // Fetch provider profile from API
             try {
-              const provider = await providersApi.getById(requestData.providerId);
+              const provider = await providersApi.getById(requestData.providerId, {signal});
               if (provider) {
-                setProviderProfile({
-                  id: provider._id || provider.id,
-                  ...provider,
-                });
+                setProviderProfile(provider);
               }
             } catch (providerError) {
               console.warn('Could not fetch provider profile:', providerError);
@@ -665,31 +731,11 @@ export default function ActiveServiceScreen({
 
       // Load job card if ID provided
       if (jobCardId) {
-        const jobCardData = await jobCardsApi.getById(jobCardId);
+        const jobCardData = await jobCardsApi.getById(jobCardId, {signal});
 
         if (jobCardData) {
-          const jobCardWithPIN = {
-            id: jobCardData._id || jobCardData.id,
-            ...jobCardData,
-            createdAt: jobCardData.createdAt instanceof Date 
-              ? jobCardData.createdAt 
-              : new Date(jobCardData.createdAt),
-            updatedAt: jobCardData.updatedAt instanceof Date 
-              ? jobCardData.updatedAt 
-              : new Date(jobCardData.updatedAt),
-            scheduledTime: jobCardData.scheduledTime 
-              ? (jobCardData.scheduledTime instanceof Date 
-                  ? jobCardData.scheduledTime 
-                  : new Date(jobCardData.scheduledTime))
-              : undefined,
-            pinGeneratedAt: jobCardData.pinGeneratedAt 
-              ? (jobCardData.pinGeneratedAt instanceof Date 
-                  ? jobCardData.pinGeneratedAt 
-                  : new Date(jobCardData.pinGeneratedAt))
-              : undefined,
-            taskPIN: jobCardData.taskPIN,
-          };
-          setJobCard(jobCardWithPIN);
+          // Dates and id are already normalised by the API layer
+          setJobCard(jobCardData);
           setStatus(jobCardData?.status || 'pending');
           
           // Log PIN if available
@@ -713,16 +759,13 @@ export default function ActiveServiceScreen({
           if (jobCardData?.providerId) {
             // Fetch provider profile from API (backend will get location from Firebase Realtime DB)
             try {
-              const provider = await providersApi.getById(jobCardData.providerId);
+              const provider = await providersApi.getById(jobCardData.providerId, {signal});
               if (provider) {
-                setProviderProfile({
-                  id: provider._id || provider.id,
-                  ...provider,
-                });
+                setProviderProfile(provider);
 
                 // Get provider location from backend API (backend reads from Firebase Realtime DB)
                 // Backend returns location in currentLocation field
-                const locationData = (provider as any).currentLocation || provider.location;
+                const locationData: Provider['currentLocation'] = provider.currentLocation || provider.location;
                 if (locationData && locationData.latitude && locationData.longitude) {
                   const location = {
                     latitude: locationData.latitude,
@@ -748,31 +791,18 @@ export default function ActiveServiceScreen({
       } else if (requestData?.providerId) {
         // If no job card yet but provider is assigned in service request
         // If provider details are already in the service request document, use them
-        if (requestData.providerName || requestData.providerPhone) {
+        const providerFromRequest = getProviderFromRequest(requestData);
+        if (providerFromRequest) {
           // Provider details already stored in service request document
           if (!providerProfile) {
-            setProviderProfile({
-              id: requestData.providerId,
-              name: requestData.providerName,
-              phoneNumber: requestData.providerPhone,
-              phone: requestData.providerPhone,
-              email: requestData.providerEmail,
-              specialization: requestData.providerSpecialization,
-              specialty: requestData.providerSpecialization,
-              rating: requestData.providerRating || 0,
-              profileImage: requestData.providerImage,
-              address: requestData.providerAddress,
-            });
+            setProviderProfile(providerFromRequest);
           }
         } else {
           // Fetch provider profile from API
           try {
-            const provider = await providersApi.getById(requestData.providerId);
+            const provider = await providersApi.getById(requestData.providerId, {signal});
             if (provider) {
-              setProviderProfile({
-                id: provider._id || provider.id,
-                ...provider,
-              });
+              setProviderProfile(provider);
             }
           } catch (providerError) {
             console.warn('Could not fetch provider profile:', providerError);
@@ -782,12 +812,15 @@ export default function ActiveServiceScreen({
 
       setLoading(false);
     } catch (error: any) {
+      if (isCancelledError(error)) {
+        return;
+      }
       const errorMessage = error?.message || String(error || 'Unknown error');
       console.error('Error loading service data:', errorMessage);
       
       setAlertModalConfig({
         title: t('common.error'),
-        message: errorMessage || t('errors.generic'),
+        message: getErrorMessage(error, 'errors.generic'),
         type: 'error',
       });
       setShowAlertModal(true);
@@ -801,7 +834,7 @@ export default function ActiveServiceScreen({
     }
   };
 
-  const calculateDistanceAndETA = (providerLoc: any) => {
+  const calculateDistanceAndETA = (providerLoc: ProviderLocation | null) => {
     if (!providerLoc || !serviceRequest?.customerAddress) return;
 
     const customerLoc = serviceRequest.customerAddress;
@@ -843,19 +876,14 @@ export default function ActiveServiceScreen({
           const jobCards = await jobCardsApi.getAll({
             customerId: currentUser?.uid,
             limit: 10,
-          });
+          }, {signal});
           
-          const matchingJobCard = jobCards.find(
-            (jc: any) => jc.consultationId === serviceRequestId || jc._id === serviceRequestId || jc.id === serviceRequestId
-          );
+          const matchingJobCard = findJobCardForRequest(jobCards, serviceRequestId);
           
           if (matchingJobCard) {
-            currentJobCardId = matchingJobCard._id || matchingJobCard.id;
+            currentJobCardId = matchingJobCard.id;
             console.log('✅ Found jobCard:', currentJobCardId, 'Status:', matchingJobCard?.status);
-            setJobCard({
-              id: currentJobCardId,
-              ...matchingJobCard,
-            });
+            setJobCard(matchingJobCard);
           } else {
             console.log('⚠️ No jobCard found for consultationId:', serviceRequestId);
           }
@@ -922,6 +950,25 @@ export default function ActiveServiceScreen({
     }
   };
 
+  // Effects of customer actions that the app is responsible for
+  const lifecycleEffectHandlers: Partial<Record<LifecycleEffect, () => void>> = {
+    stopLocationTracking: () => setProviderLocation(null),
+    stopMatching: () => {
+      WebSocketService.stopMatching(serviceRequestId);
+      setMatchingProgress(null);
+    },
+    requestReview: () => {
+      setReviewDismissed(false);
+      setTimeout(() => {
+        checkReviewStatus();
+      }, 1000);
+    },
+  };
+
+  const runLifecycleEffects = (action: LifecycleAction, from: ServiceRequestStatus) => {
+    getTransitionEffects(action, from).forEach(effect => lifecycleEffectHandlers[effect]?.());
+  };
+
   const handleCancelService = () => {
     setShowCancelReasonModal(true);
   };
@@ -963,9 +1010,16 @@ export default function ActiveServiceScreen({
       try {
         await serviceRequestsApi.cancel(
           serviceRequestId,
-          'Re-requested by customer after 10 minutes'
+          'Re-requested by customer after no provider accepted',
+          {from: status},
         );
+        runLifecycleEffects('reRequest', status);
       } catch (error) {
+        if (error instanceof InvalidTransitionError) {
+          // A provider picked it up in the meantime - don't create a duplicate
+          loadServiceData();
+          throw error;
+        }
         console.warn('Could not cancel old request:', error);
         // Continue anyway
       }
@@ -994,6 +1048,10 @@ export default function ActiveServiceScreen({
         newServiceRequestData.photos = serviceRequest.photos;
       }
 
+      if (serviceRequest.onBehalfOf) {
+        newServiceRequestData.onBehalfOf = serviceRequest.onBehalfOf;
+      }
+
       // Create service request in Firestore (PRIMARY) - ensures provider can always find it
       const firestoreData = {
         ...newServiceRequestData,
@@ -1024,74 +1082,237 @@ export default function ActiveServiceScreen({
         console.warn('⚠️ MongoDB sync failed (service request is in Firestore):', apiError.message);
       }
 
-      // Notify providers via WebSocket
+      // Hand the new request to the server's matching escalation
+      try {
+        const bookingData = {
+          consultationId: newServiceRequestId,
+          id: newServiceRequestId,
+          bookingId: newServiceRequestId,
+          customerName: newServiceRequestData.customerName,
+          patientName: newServiceRequestData.customerName,
+          customerPhone: newServiceRequestData.customerPhone,
+          patientPhone: newServiceRequestData.customerPhone,
+          customerAddress: newServiceRequestData.customerAddress,
+          patientAddress: newServiceRequestData.customerAddress,
+          serviceType: serviceRequest.serviceType,
+          problem: serviceRequest.problem || '',
+          scheduledTime: serviceRequest.scheduledTime 
+            ? (serviceRequest.scheduledTime instanceof Date 
+                ? serviceRequest.scheduledTime 
+                : new Date(serviceRequest.scheduledTime))
+            : new Date(),
+          consultationFee: 0,
+          questionnaireAnswers: newServiceRequestData.questionnaireAnswers || undefined,
+          onBehalfOf: serviceRequest.onBehalfOf,
+          contactName: serviceRequest.onBehalfOf?.name,
+          contactPhone: serviceRequest.onBehalfOf?.phone,
+        };
+        const address = serviceRequest.customerAddress;
+
+        // Not awaited - a slow push server must not hold up the re-request
+        WebSocketService.startMatching({
+          serviceRequestId: newServiceRequestId,
+          customerId: authUser.uid,
+          serviceType: serviceRequest.serviceType,
+          customerLocation:
+            address?.latitude !== undefined && address?.longitude !== undefined
+              ? {latitude: address.latitude, longitude: address.longitude}
+              : undefined,
+          bookingData,
+        })
+          .then(async matchingStarted => {
+            if (matchingStarted) {
+              return;
+            }
+            // Server could not run the search - tell every online provider at once
+            const onlineProviders = await providersApi.getAll({
+              serviceType: serviceRequest.serviceType,
+              isOnline: true,
+              limit: 50,
+            }, {forceRefresh: true});
+
+            const allProviderIds = onlineProviders
+              .filter(p => p.approvalStatus === 'approved')
+              .map(p => p._id || p.id)
+              .filter((id): id is string => !!id);
+
+            const notificationPromises = allProviderIds.map(providerId => {
+              return WebSocketService.emitNewBooking(providerId, bookingData).catch(error => {
+                console.error(`Failed to notify provider ${providerId}:`, error);
+              });
+            });
+
+            await Promise.all(notificationPromises);
+          })
+          .catch(error => {
+            console.error('Error notifying providers via WebSocket:', error);
+          });
+      } catch (websocketError) {
+        console.error('Error notifying providers via WebSocket:', websocketError);
+      }
+
+      // Update the current screen with new request ID
+      setAlertModalConfig({
+        title: t('common.success'),
+        message: t('activeService.serviceReRequestedSuccess'),
+        type: 'success',
+      });
+      setShowAlertModal(true);
+      
+      // Reload with new service request ID
+      setTimeout(() => {
+        navigation.replace('ActiveService', {
+          serviceRequestId: newServiceRequestId,
+        });
+      }, 2000);
+    } catch (error: any) {
+      setAlertModalConfig({
+        title: t('common.error'),
+        message: getErrorMessage(error, 'activeService.failedToReRequest'),
+        type: 'error',
+      });
+      setShowAlertModal(true);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleKeepWaiting = () => {
+    setTargetDeadline(new Date(Date.now() + DIRECT_BOOKING_RESPONSE_MS));
+  };
+
+  // The chosen provider did not respond - let every nearby provider see the request
+  const handleBroadcastRequest = async () => {
+    if (!serviceRequest?.targetProviderId) {
+      return;
+    }
+    const targetProviderId = serviceRequest.targetProviderId;
+
+    try {
+      setBroadcasting(true);
+
+      // Firestore is primary - providers find open requests there
+      await firestore().collection('serviceRequests').doc(serviceRequestId).update({
+        targetProviderId: firestore.FieldValue.delete(),
+        targetProviderName: firestore.FieldValue.delete(),
+        targetExpiresAt: firestore.FieldValue.delete(),
+        updatedAt: firestore.FieldValue.serverTimestamp(),
+      });
+      console.log('📢 Service request opened to all providers:', serviceRequestId);
+
+      // Also try to sync to MongoDB (optional, for backend consistency)
+      try {
+        await serviceRequestsApi.broadcast(serviceRequestId);
+      } catch (apiError: any) {
+        console.warn('⚠️ MongoDB sync failed (service request is in Firestore):', apiError.message);
+      }
+
+      setServiceRequest({
+        ...serviceRequest,
+        targetProviderId: undefined,
+        targetProviderName: undefined,
+        targetExpiresAt: undefined,
+      });
+      setTargetDeadline(null);
+
+      // Notify the other online providers via WebSocket
       try {
-        // Get online providers from API
         const onlineProviders = await providersApi.getAll({
           serviceType: serviceRequest.serviceType,
           isOnline: true,
           limit: 50,
-        });
+        }, {forceRefresh: true});
 
-        const allProviderIds = onlineProviders
+        const providerIds = onlineProviders
           .filter(p => p.approvalStatus === 'approved')
           .map(p => p._id || p.id)
-          .filter((id): id is string => !!id);
+          .filter((id): id is string => !!id && id !== targetProviderId);
 
-        const notificationPromises = allProviderIds.map(providerId => {
+        const notificationPromises = providerIds.map(providerId => {
           return WebSocketService.emitNewBooking(providerId, {
-            consultationId: newServiceRequestId,
-            id: newServiceRequestId,
-            bookingId: newServiceRequestId,
-            customerName: newServiceRequestData.customerName,
-            patientName: newServiceRequestData.customerName,
-            customerPhone: newServiceRequestData.customerPhone,
-            patientPhone: newServiceRequestData.customerPhone,
-            customerAddress: newServiceRequestData.customerAddress,
-            patientAddress: newServiceRequestData.customerAddress,
+            consultationId: serviceRequestId,
+            id: serviceRequestId,
+            bookingId: serviceRequestId,
+            customerName: serviceRequest.customerName,
+            patientName: serviceRequest.customerName,
+            customerPhone: serviceRequest.customerPhone,
+            patientPhone: serviceRequest.customerPhone,
+            customerAddress: serviceRequest.customerAddress,
+            patientAddress: serviceRequest.customerAddress,
             serviceType: serviceRequest.serviceType,
             problem: serviceRequest.problem || '',
-            scheduledTime: serviceRequest.scheduledTime 
-              ? (serviceRequest.scheduledTime instanceof Date 
-                  ? serviceRequest.scheduledTime 
-                  : new Date(serviceRequest.scheduledTime))
-              : new Date(),
+            scheduledTime: serviceRequest.scheduledTime || new Date(),
             consultationFee: 0,
-            questionnaireAnswers: newServiceRequestData.questionnaireAnswers || undefined,
+            questionnaireAnswers: serviceRequest.questionnaireAnswers || undefined,
+            onBehalfOf: serviceRequest.onBehalfOf,
+            contactName: serviceRequest.onBehalfOf?.name,
+            contactPhone: serviceRequest.onBehalfOf?.phone,
           }).catch(error => {
             console.error(`Failed to notify provider ${providerId}:`, error);
           });
         });
 
         await Promise.all(notificationPromises);
+        console.log(`✅ Notified ${providerIds.length} more provider(s) about service request`);
       } catch (websocketError) {
         console.error('Error notifying providers via WebSocket:', websocketError);
       }
 
-      // Update the current screen with new request ID
       setAlertModalConfig({
         title: t('common.success'),
-        message: t('activeService.serviceReRequestedSuccess'),
+        message: t('activeService.broadcastSuccess'),
         type: 'success',
       });
       setShowAlertModal(true);
-      
-      // Reload with new service request ID
-      setTimeout(() => {
-        navigation.replace('ActiveService', {
-          serviceRequestId: newServiceRequestId,
-        });
-      }, 2000);
     } catch (error: any) {
-      const errorMessage = error?.message || String(error || 'Unknown error');
       setAlertModalConfig({
         title: t('common.error'),
-        message: errorMessage || t('activeService.failedToReRequest'),
+        message: getErrorMessage(error, 'activeService.broadcastError'),
         type: 'error',
       });
       setShowAlertModal(true);
     } finally {
-      setLoading(false);
+      setBroadcasting(false);
+    }
+  };
+
+  // Errors are shown inside the slot picker
+  const handleRescheduleSlot = async (slot: AvailabilitySlot) => {
+    if (!serviceRequest) {
+      return;
+    }
+    const updated = await rescheduleRequest(serviceRequest, slot.start);
+    setServiceRequest(updated);
+    setShowReschedulePicker(false);
+
+    const time = formatScheduleTime(slot.start);
+    setAlertModalConfig({
+      title: t('common.success'),
+      message: updated.pendingReschedule
+        ? t('activeService.rescheduleProposed', {time})
+        : t('activeService.rescheduleSuccess', {time}),
+      type: 'success',
+    });
+    setShowAlertModal(true);
+  };
+
+  const handleRespondToReschedule = async (accept: boolean) => {
+    if (!serviceRequest) {
+      return;
+    }
+    try {
+      setRespondingToReschedule(true);
+      const updated = await respondToRescheduleProposal(serviceRequest, accept);
+      setServiceRequest(updated);
+    } catch (error) {
+      setAlertModalConfig({
+        title: t('common.error'),
+        message: getErrorMessage(error, 'activeService.rescheduleResponseError'),
+        type: 'error',
+      });
+      setShowAlertModal(true);
+    } finally {
+      setRespondingToReschedule(false);
     }
   };
 
@@ -1101,6 +1322,7 @@ export default function ActiveServiceScreen({
       setShowCancelReasonModal(false);
       
       let cancelled = false;
+      let queued = false;
       
       // Cancel job card if it exists (this will notify provider)
       if (jobCardId) {
@@ -1108,6 +1330,9 @@ export default function ActiveServiceScreen({
           await cancelTaskWithReason(jobCardId, reason);
           cancelled = true;
         } catch (error: any) {
+          if (error instanceof InvalidTransitionError) {
+            throw error;
+          }
           console.error('Error cancelling job card:', error);
           // Continue to try consultation cancellation
         }
@@ -1116,14 +1341,29 @@ export default function ActiveServiceScreen({
       // Also cancel the consultation/service request if it exists
       if (serviceRequestId) {
         try {
-          await serviceRequestsApi.cancel(serviceRequestId, reason.trim());
+          await serviceRequestsApi.cancel(serviceRequestId, reason.trim(), {from: status});
           cancelled = true;
         } catch (error: any) {
-          console.error('Error cancelling service request:', error);
+          if (error instanceof RequestQueuedError) {
+            queued = true;
+          } else if (error instanceof InvalidTransitionError) {
+            throw error;
+          } else {
+            console.error('Error cancelling service request:', error);
+          }
         }
       }
       
-      if (cancelled) {
+      if (queued && !cancelled) {
+        setAlertModalConfig({
+          title: t('services.requestQueuedTitle'),
+          message: t('services.requestQueuedMessage'),
+          type: 'info',
+        });
+        setShowAlertModal(true);
+      } else if (cancelled) {
+        runLifecycleEffects('cancel', status);
+        setStatus('cancelled');
         setAlertModalConfig({
           title: t('common.success'),
           message: t('activeService.serviceCancelledSuccess'),
@@ -1141,9 +1381,13 @@ export default function ActiveServiceScreen({
       }
     } catch (error: any) {
       console.error('Error cancelling service:', error);
+      if (error instanceof InvalidTransitionError) {
+        // Status moved on since the screen last loaded it
+        loadServiceData();
+      }
       setAlertModalConfig({
         title: t('common.error'),
-        message: error.message || t('activeService.failedToCancelService'),
+        message: getErrorMessage(error, 'activeService.failedToCancelService'),
         type: 'error',
       });
       setShowAlertModal(true);
@@ -1171,19 +1415,17 @@ export default function ActiveServiceScreen({
     try {
       setLoading(true);
       await verifyTaskCompletion(jobCardId);
+      const previousStatus = status;
       setStatus('completed');
       
       // Reload job card to get updated status
       await loadServiceData();
       
-      // Show review modal after a short delay
-      setTimeout(() => {
-        checkReviewStatus();
-      }, 1000);
+      runLifecycleEffects('complete', previousStatus);
     } catch (error: any) {
       setAlertModalConfig({
         title: t('common.error'),
-        message: error.message || t('activeService.failedToVerifyCompletion'),
+        message: getErrorMessage(error, 'activeService.failedToVerifyCompletion'),
         type: 'error',
       });
       setShowAlertModal(true);
@@ -1246,13 +1488,22 @@ export default function ActiveServiceScreen({
   }
 
   const customerAddress = serviceRequest?.customerAddress || jobCard?.customerAddress;
-  const provider = jobCard || serviceRequest || {};
+  const availableActions = getAvailableActions(status, 'customer');
+  const canCallProvider = status === 'accepted' || status === 'in-progress';
+  const canMoveBooking =
+    canReschedule(status) && !isImmediateService && !!serviceRequest?.scheduledTime && !serviceRequest.pendingReschedule;
+  const customerCoordinates =
+    customerAddress?.latitude && customerAddress?.longitude
+      ? {latitude: customerAddress.latitude, longitude: customerAddress.longitude}
+      : null;
+  const timeline = buildServiceTimeline(serviceRequest, jobCard);
+  const showTrackingMap = isTrackingMapAvailable && (status === 'accepted' || status === 'in-progress');
 
   // Debug logging
   console.log('🗺️ Map rendering check:', {
-    hasMapView: !!MapView,
-    hasMarker: !!Marker,
-    hasPolyline: !!Polyline,
+    isTrackingMapAvailable,
+    trailPoints: tracking.trail.length,
+    isLocationStale: tracking.isStale,
     customerAddress: customerAddress ? {
       lat: customerAddress.latitude,
       lng: customerAddress.longitude,
@@ -1267,192 +1518,18 @@ export default function ActiveServiceScreen({
 
   return (
     <View style={[styles.container, {backgroundColor: theme.background}]}>
-      {/* Map View - Hidden since mapKey is removed - showing simplified view instead */}
-      {false ? (
+      {/* Live tracking map while the provider is on the way - simplified view otherwise */}
+      {showTrackingMap && tracking.location && customerCoordinates ? (
         <View style={styles.mapContainer}>
-          <MapView
-            ref={mapRef}
-            style={styles.map}
-            provider="google"
-            initialRegion={
-              customerLocation?.latitude && customerLocation?.longitude
-                ? {
-                    latitude: customerLocation.latitude,
-                    longitude: customerLocation.longitude,
-                    latitudeDelta: 0.05,
-                    longitudeDelta: 0.05,
-                  }
-                : customerAddress?.latitude && customerAddress?.longitude
-                ? {
-                    latitude: customerAddress.latitude,
-                    longitude: customerAddress.longitude,
-                    latitudeDelta: 0.05,
-                    longitudeDelta: 0.05,
-                  }
-                : providerLocation?.latitude && providerLocation?.longitude
-                ? {
-                    latitude: providerLocation.latitude,
-                    longitude: providerLocation.longitude,
-                    latitudeDelta: 0.05,
-                    longitudeDelta: 0.05,
-                  }
-                : {
-                    latitude: 28.6139,
-                    longitude: 77.209,
-                    latitudeDelta: 0.1,
-                    longitudeDelta: 0.1,
-                  }
-            }
-            showsUserLocation={locationPermissionGranted && isImmediateService}
-            showsMyLocationButton={locationPermissionGranted && isImmediateService}
-            mapType="standard"
-            loadingEnabled={false}
-            loadingIndicatorColor={theme.primary}
-            loadingBackgroundColor={theme.background}
-            onMapReady={() => {
-              console.log('✅ Map is ready');
-              console.log('📍 Map data:', {
-                customerAddress: customerAddress ? {lat: customerAddress.latitude, lng: customerAddress.longitude} : null,
-                customerLocation: customerLocation ? {lat: customerLocation.latitude, lng: customerLocation.longitude} : null,
-                providerLocation: providerLocation ? {lat: providerLocation.latitude, lng: providerLocation.longitude} : null,
-              });
-              
-              // Fit map to show both customer and provider locations if available
-              if (mapRef.current) {
-                const locations: Array<{latitude: number; longitude: number}> = [];
-                
-                // Add customer address (service location)
-                if (customerAddress?.latitude && customerAddress?.longitude) {
-                  locations.push({
-                    latitude: customerAddress.latitude,
-                    longitude: customerAddress.longitude,
-                  });
-                  console.log('📍 Added customer address to map:', customerAddress.latitude, customerAddress.longitude);
-                }
-                
-                // Add live customer location if available
-                if (customerLocation?.latitude && customerLocation?.longitude) {
-                  locations.push({
-                    latitude: customerLocation.latitude,
-                    longitude: customerLocation.longitude,
-                  });
-                  console.log('📍 Added customer live location to map:', customerLocation.latitude, customerLocation.longitude);
-                }
-                
-                // Add provider location if available
-                if (providerLocation?.latitude && providerLocation?.longitude) {
-                  locations.push({
-                    latitude: providerLocation.latitude,
-                    longitude: providerLocation.longitude,
-                  });
-                  console.log('📍 Added provider location to map:', providerLocation.latitude, providerLocation.longitude);
-                }
-                
-                if (locations.length > 0) {
-                  console.log('🗺️ Fitting map to', locations.length, 'locations');
-                  try {
-                    mapRef.current.fitToCoordinates(locations, {
-                      edgePadding: {top: 100, right: 50, bottom: 100, left: 50},
-                      animated: true,
-                    });
-                    console.log('✅ Map fitted to coordinates');
-                  } catch (e) {
-                    console.error('❌ Error fitting map to coordinates:', e);
-                    // Fallback to customer address or first location
-                    const fallbackLoc = locations[0];
-                    if (fallbackLoc) {
-                      console.log('📍 Falling back to animateToRegion:', fallbackLoc);
-                      mapRef.current.animateToRegion({
-                        latitude: fallbackLoc.latitude,
-                        longitude: fallbackLoc.longitude,
-                        latitudeDelta: 0.05,
-                        longitudeDelta: 0.05,
-                      }, 1000);
-                    }
-                  }
-                } else {
-                  console.warn('⚠️ No locations available to show on map');
-                }
-              }
-            }}
-            onError={(error: any) => {
-              console.error('❌ Map error:', error);
-            }}>
-            {/* Service Address Marker - Show service location */}
-            {customerAddress?.latitude && customerAddress?.longitude && (
-              <Marker
-                coordinate={{
-                  latitude: customerAddress.latitude,
-                  longitude: customerAddress.longitude,
-                }}
-                title={t('jobCard.serviceAddress')}
-                description={t('services.address')}
-                pinColor="#007AFF">
-                <View style={styles.customerMarker}>
-                  <Icon name="home" size={24} color="#007AFF" />
-                </View>
-              </Marker>
-            )}
-
-            {/* Live Customer Location Marker - Show if available for immediate services */}
-            {isImmediateService && customerLocation?.latitude && customerLocation?.longitude && (
-              <Marker
-                coordinate={{
-                  latitude: customerLocation.latitude,
-                  longitude: customerLocation.longitude,
-                }}
-                title={t('activeService.yourCurrentLocation')}
-                description={t('activeService.liveLocation')}
-                pinColor="#FF9500">
-                <View style={styles.liveLocationMarker}>
-                  <Icon name="my-location" size={20} color="#FF9500" />
-                </View>
-              </Marker>
-            )}
-
-            {/* Provider Location Marker - Show when provider is assigned (especially for immediate services) */}
-            {providerLocation?.latitude &&
-              providerLocation?.longitude &&
-              status !== 'completed' &&
-              status !== 'cancelled' &&
-              (status === 'accepted' || status === 'in-progress' || isImmediateService) && (
-                <Marker
-                  coordinate={{
-                    latitude: providerLocation.latitude,
-                    longitude: providerLocation.longitude,
-                  }}
-                  title={t('activeService.providerLocation')}
-                  description={`Provider is ${distance || 'on the way'}`}
-                  pinColor="#34C759">
-                  <View style={styles.providerMarker}>
-                    <Icon name="person" size={24} color="#34C759" />
-                  </View>
-                </Marker>
-              )}
-
-            {/* Route Line - Show route when provider location is available (especially for immediate services) */}
-            {providerLocation &&
-              customerAddress?.latitude &&
-              customerAddress?.longitude &&
-              status !== 'completed' &&
-              status !== 'cancelled' &&
-              (status === 'accepted' || status === 'in-progress' || isImmediateService) && (
-                <Polyline
-                  coordinates={[
-                    {
-                      latitude: providerLocation.latitude,
-                      longitude: providerLocation.longitude,
-                    },
-                    {
-                      latitude: customerAddress.latitude,
-                      longitude: customerAddress.longitude,
-                    },
-                  ]}
-                  strokeColor="#007AFF"
-                  strokeWidth={3}
-                />
-              )}
-          </MapView>
+          <ProviderTrackingMap
+            providerLocation={tracking.location}
+            trail={tracking.trail}
+            destination={customerCoordinates}
+            distanceKm={tracking.distanceKm}
+            etaMinutes={tracking.etaMinutes}
+            isStale={tracking.isStale}
+            minutesSinceUpdate={tracking.minutesSinceUpdate}
+          />
         </View>
       ) : (
         <View style={[styles.mapContainer, styles.simplifiedMap, {backgroundColor: theme.card}]}>
@@ -1483,6 +1560,14 @@ export default function ActiveServiceScreen({
                 <Text style={[styles.mapPlaceholderText, {color: theme.text, fontWeight: '600'}]}>
                   {t('activeService.providerIsOnTheWay')}
                 </Text>
+                {tracking.isStale && (
+                  <View style={styles.locationDetailsContainer}>
+                    <Icon name="location-disabled" size={16} color="#FF9500" />
+                    <Text style={[styles.locationDetailsText, {color: '#FF9500'}]}>
+                      {t('activeService.locationStale', {minutes: tracking.minutesSinceUpdate ?? 0})}
+                    </Text>
+                  </View>
+                )}
                 <View style={styles.distanceInfoContainer}>
                   <View style={styles.distanceItem}>
                     <Icon name="straighten" size={24} color={theme.primary} />
@@ -1655,7 +1740,21 @@ export default function ActiveServiceScreen({
                 </Text>
               </View>
             </View>
-            {status === 'accepted' && providerLocation && distance ? (
+            {status === 'accepted' && serviceRequest?.arrivedAt ? (
+              <View style={styles.arrivalBanner}>
+                <Icon name="where-to-vote" size={20} color="#34C759" />
+                <View style={styles.arrivalBannerContent}>
+                  <Text style={[styles.arrivalBannerTitle, {color: theme.text}]}>
+                    {t('activeService.providerArrivedTitle')}
+                  </Text>
+                  <Text style={[styles.arrivalBannerText, {color: theme.textSecondary}]}>
+                    {t('activeService.providerArrivedHint', {
+                      time: serviceRequest.arrivedAt.toLocaleTimeString('en-US', {hour: '2-digit', minute: '2-digit'}),
+                    })}
+                  </Text>
+                </View>
+              </View>
+            ) : status === 'accepted' && providerLocation && distance ? (
               <Text style={[styles.distanceText, {color: theme.textSecondary}]}>
                 {t('activeService.providerIsAway').replace('{0}', distance).replace('{1}', String(eta))}
               </Text>
@@ -1686,11 +1785,76 @@ export default function ActiveServiceScreen({
                 ) : null}
               </View>
             )}
-            {status === 'pending' && (
+            {status === 'pending' && serviceRequest?.targetProviderId && (
+              <View>
+                <Text style={[styles.distanceText, {color: theme.textSecondary}]}>
+                  {targetExpired
+                    ? t('activeService.targetProviderNoResponse', {name: serviceRequest.targetProviderName})
+                    : t('activeService.waitingForTargetProvider', {name: serviceRequest.targetProviderName})}
+                </Text>
+                {targetExpired && (
+                  <View style={styles.targetFallbackContainer}>
+                    <Text style={[styles.targetFallbackText, {color: theme.textSecondary}]}>
+                      {t('activeService.targetProviderNoResponseMessage')}
+                    </Text>
+                    <View style={styles.targetFallbackActions}>
+                      <TouchableOpacity
+                        style={[styles.targetFallbackButton, {backgroundColor: theme.primary}]}
+                        onPress={handleBroadcastRequest}
+                        disabled={broadcasting}>
+                        {broadcasting ? (
+                          <ActivityIndicator size="small" color="#fff" />
+                        ) : (
+                          <Text style={styles.targetFallbackButtonText}>
+                            {t('activeService.broadcastToAll')}
+                          </Text>
+                        )}
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.targetFallbackButton, {borderColor: theme.border, borderWidth: 1}]}
+                        onPress={handleKeepWaiting}
+                        disabled={broadcasting}>
+                        <Text style={[styles.targetFallbackButtonText, {color: theme.text}]}>
+                          {t('activeService.keepWaiting')}
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                )}
+              </View>
+            )}
+            {status === 'pending' && serviceRequest?.bookingMode === 'quotes' && (
+              <View>
+                <Text style={[styles.distanceText, {color: theme.textSecondary}]}>
+                  {t('quotes.waitingForQuotes')}
+                </Text>
+                <TouchableOpacity
+                  style={[styles.viewQuotesButton, {backgroundColor: theme.primary}]}
+                  onPress={() => navigation.navigate('Quotes', {serviceRequestId})}>
+                  <Text style={styles.targetFallbackButtonText}>{t('quotes.viewQuotes')}</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            {status === 'pending' && !serviceRequest?.targetProviderId && serviceRequest?.bookingMode !== 'quotes' && (
               <View>
                 <Text style={[styles.distanceText, {color: theme.textSecondary}]}>
                   {t('activeService.waitingForProviderToAccept')}
                 </Text>
+                {matchingProgress && (
+                  <View style={styles.matchingProgressRow}>
+                    {matchingProgress.stage === 'exhausted' ? (
+                      <Icon name="search-off" size={18} color={theme.textSecondary} />
+                    ) : (
+                      <ActivityIndicator size="small" color={theme.primary} />
+                    )}
+                    <Text style={[styles.matchingProgressText, {color: theme.text}]}>
+                      {t(MATCHING_STAGE_LABELS[matchingProgress.stage], {radius: matchingProgress.radiusKm})}
+                      {matchingProgress.stage !== 'exhausted' && matchingProgress.providerCount > 0
+                        ? ` ${t('activeService.matchingNotified', {count: matchingProgress.providerCount})}`
+                        : ''}
+                    </Text>
+                  </View>
+                )}
                 {loadingProviders ? (
                   <View style={styles.providersLoadingContainer}>
                     <ActivityIndicator size="small" color={theme.primary} />
@@ -1741,8 +1905,29 @@ export default function ActiveServiceScreen({
         </View>
       </View>
 
+      {/* Booked on someone's behalf */}
+      {serviceRequest?.onBehalfOf && status !== 'completed' && status !== 'cancelled' && (
+        <OnBehalfContactCard
+          serviceRequestId={serviceRequestId}
+          contact={serviceRequest.onBehalfOf}
+          serviceType={serviceRequest.serviceType}
+          bookerName={serviceRequest.customerName}
+          pin={jobCard?.taskPIN}
+        />
+      )}
+
+      {/* New time waiting for confirmation and earlier times */}
+      {serviceRequest && canReschedule(status) && (
+        <ScheduleChangesCard
+          proposal={serviceRequest.pendingReschedule}
+          history={serviceRequest.scheduleHistory}
+          onRespond={handleRespondToReschedule}
+          responding={respondingToReschedule}
+        />
+      )}
+
       {/* Provider Details Card */}
-      {(providerProfile || provider || jobCard?.providerId || serviceRequest?.providerId) && (
+      {(providerProfile || jobCard?.providerId || serviceRequest?.providerId) && (
         <ScrollView
           style={styles.detailsContainer}
           showsVerticalScrollIndicator={false}>
@@ -1759,7 +1944,7 @@ export default function ActiveServiceScreen({
               ) : (
                 <View style={styles.providerAvatar}>
                   <Text style={styles.providerInitial}>
-                    {((providerProfile?.name || serviceRequest?.providerName || jobCard?.providerName || (provider as any)?.providerName || 'P') as string).charAt(0).toUpperCase()}
+                    {((providerProfile?.name || serviceRequest?.providerName || jobCard?.providerName || 'P') as string).charAt(0).toUpperCase()}
                   </Text>
                 </View>
               )}
@@ -1768,19 +1953,19 @@ export default function ActiveServiceScreen({
                   style={[styles.providerName, {color: theme.text}]}
                   numberOfLines={1}
                   ellipsizeMode="tail">
-                  {providerProfile?.name || serviceRequest?.providerName || jobCard?.providerName || (provider as any)?.providerName || 'Provider'}
+                  {providerProfile?.name || serviceRequest?.providerName || jobCard?.providerName || 'Provider'}
                 </Text>
                 <Text 
                   style={[styles.serviceType, {color: theme.textSecondary}]}
                   numberOfLines={1}
                   ellipsizeMode="tail">
-                  {providerProfile?.specialization || providerProfile?.specialty || serviceRequest?.providerSpecialization || jobCard?.serviceType || (provider as any)?.serviceType || serviceRequest?.serviceType || 'Service'}
+                  {providerProfile?.specialization || providerProfile?.specialty || serviceRequest?.providerSpecialization || jobCard?.serviceType || serviceRequest?.serviceType || 'Service'}
                 </Text>
-                {(providerProfile?.rating || serviceRequest?.providerRating || (provider as any)?.rating) && (
+                {(providerProfile?.rating || serviceRequest?.providerRating) && (
                   <View style={styles.ratingContainer}>
                     <Icon name="star" size={16} color="#FFD700" />
                     <Text style={[styles.rating, {color: theme.text}]}>
-                      {(providerProfile?.rating || serviceRequest?.providerRating || (provider as any)?.rating || 0).toFixed(1)}
+                      {(providerProfile?.rating || serviceRequest?.providerRating || 0).toFixed(1)}
                     </Text>
                     {providerProfile?.totalConsultations ? (
                       <Text style={[styles.reviewsCount, {color: theme.textSecondary}]}>
@@ -1812,7 +1997,7 @@ export default function ActiveServiceScreen({
                   <View style={styles.contactRow}>
                     <Icon name="email" size={20} color={theme.textSecondary} />
                     <Text style={[styles.contactValue, {color: theme.text}]}>
-                      {providerProfile.email}
+                      {providerProfile?.email || serviceRequest?.providerEmail}
                     </Text>
                   </View>
                 )}
@@ -1834,23 +2019,9 @@ export default function ActiveServiceScreen({
                   <View style={styles.infoRow}>
                     <Icon name="location-on" size={18} color={theme.textSecondary} />
                     <Text style={[styles.infoText, {color: theme.text}]}>
-                      {(() => {
-                        if (providerProfile?.address) {
-                          if (typeof providerProfile.address === 'string') {
-                            return providerProfile.address;
-                          }
-                          const addr = providerProfile.address;
-                          return `${addr.address || ''}${addr.city ? `, ${addr.city}` : ''}${addr.pincode ? ` - ${addr.pincode}` : ''}`;
-                        }
-                        if (jobCard?.providerAddress) {
-                          if (typeof jobCard.providerAddress === 'string') {
-                            return jobCard.providerAddress;
-                          }
-                          const addr = jobCard.providerAddress;
-                          return `${addr.address || ''}${addr.city ? `, ${addr.city}` : ''}${addr.pincode ? ` - ${addr.pincode}` : ''}`;
-                        }
-                        return t('activeService.addressNotAvailable');
-                      })()}
+                      {formatAddress(providerProfile?.address) ||
+                        formatAddress(jobCard?.providerAddress) ||
+                        t('activeService.addressNotAvailable')}
                     </Text>
                   </View>
                 )}
@@ -1858,6 +2029,14 @@ export default function ActiveServiceScreen({
             )}
           </View>
 
+          {/* Progress */}
+          {timeline.length > 0 && (
+            <View style={[styles.card, {backgroundColor: theme.card}]}>
+              <Text style={[styles.cardTitle, {color: theme.text}]}>{t('timeline.title')}</Text>
+              <ServiceTimeline events={timeline} />
+            </View>
+          )}
+
           {/* Service Details */}
           <View style={[styles.card, {backgroundColor: theme.card}]}>
             <Text style={[styles.cardTitle, {color: theme.text}]}>
@@ -1869,7 +2048,7 @@ export default function ActiveServiceScreen({
                 {t('services.serviceType')}:
               </Text>
               <Text style={[styles.detailValue, {color: theme.text}]}>
-                {provider?.serviceType || serviceRequest?.serviceType || jobCard?.serviceType || 'N/A'}
+                {serviceRequest?.serviceType || jobCard?.serviceType || 'N/A'}
               </Text>
             </View>
             {(serviceRequest?.problem || jobCard?.problem) && (
@@ -1897,72 +2076,61 @@ export default function ActiveServiceScreen({
             )}
           </View>
 
-          {/* Action Buttons */}
+          {/* Action Buttons - derived from the service lifecycle */}
           <View style={styles.actionsContainer}>
-            {status === 'in-progress' && (
-              <>
-                <TouchableOpacity
-                  style={[styles.actionButton, {backgroundColor: '#34C759'}]}
-                  onPress={handleVerifyCompletion}>
-                  <Icon name="check-circle" size={20} color="#fff" />
-                  <Text style={styles.actionButtonText}>{t('activeService.verifyTaskCompleted')}</Text>
-                </TouchableOpacity>
-                <TouchableOpacity
-                  style={[styles.actionButton, {backgroundColor: theme.primary}]}
-                  onPress={handleCallProvider}>
-                  <Icon name="phone" size={20} color="#fff" />
-                  <Text style={styles.actionButtonText}>{t('activeService.callProvider')}</Text>
-                </TouchableOpacity>
-              </>
+            {availableActions.includes('complete') && (
+              <TouchableOpacity
+                style={[styles.actionButton, {backgroundColor: '#34C759'}]}
+                onPress={handleVerifyCompletion}
+                disabled={loading}>
+                <Icon name="check-circle" size={20} color="#fff" />
+                <Text style={styles.actionButtonText}>{t('activeService.verifyTaskCompleted')}</Text>
+              </TouchableOpacity>
             )}
 
-            {status === 'pending' && (
-              <>
-                {canReRequest && (
-                  <TouchableOpacity
-                    style={[
-                      styles.actionButton,
-                      {backgroundColor: theme.primary},
-                    ]}
-                    onPress={handleReRequest}
-                    disabled={loading}>
-                    <Icon name="refresh" size={20} color="#fff" />
-                    <Text style={styles.actionButtonText}>{t('activeService.reRequestService')}</Text>
-                  </TouchableOpacity>
-                )}
-                <TouchableOpacity
-                  style={[
-                    styles.actionButton,
-                    {backgroundColor: theme.error},
-                  ]}
-                  onPress={handleCancelService}
-                  disabled={loading}>
-                  <Icon name="cancel" size={20} color="#fff" />
-                  <Text style={styles.actionButtonText}>{t('activeService.cancelService')}</Text>
-                </TouchableOpacity>
-              </>
+            {canCallProvider && (
+              <TouchableOpacity
+                style={[styles.actionButton, {backgroundColor: theme.primary}]}
+                onPress={handleCallProvider}>
+                <Icon name="phone" size={20} color="#fff" />
+                <Text style={styles.actionButtonText}>{t('activeService.callProvider')}</Text>
+              </TouchableOpacity>
             )}
 
-            {status === 'accepted' && (
-              <>
-                <TouchableOpacity
-                  style={[styles.actionButton, {backgroundColor: theme.primary}]}
-                  onPress={handleCallProvider}>
-                  <Icon name="phone" size={20} color="#fff" />
-                  <Text style={styles.actionButtonText}>{t('activeService.callProvider')}</Text>
-                </TouchableOpacity>
+            {canMoveBooking && (
+              <TouchableOpacity
+                style={[styles.actionButton, {backgroundColor: theme.primary}]}
+                onPress={() => setShowReschedulePicker(true)}
+                disabled={loading}>
+                <Icon name="edit-calendar" size={20} color="#fff" />
+                <Text style={styles.actionButtonText}>{t('activeService.reschedule')}</Text>
+              </TouchableOpacity>
+            )}
 
-                <TouchableOpacity
-                  style={[
-                    styles.actionButton,
-                    {backgroundColor: theme.error},
-                  ]}
-                  onPress={handleCancelService}
-                  disabled={loading}>
-                  <Icon name="cancel" size={20} color="#fff" />
-                  <Text style={styles.actionButtonText}>{t('activeService.cancelService')}</Text>
-                </TouchableOpacity>
-              </>
+            {availableActions.includes('reRequest') && (canReRequest || matchingProgress?.stage === 'exhausted') && (
+              <TouchableOpacity
+                style={[
+                  styles.actionButton,
+                  {backgroundColor: theme.primary},
+                ]}
+                onPress={handleReRequest}
+                disabled={loading}>
+                <Icon name="refresh" size={20} color="#fff" />
+                <Text style={styles.actionButtonText}>{t('activeService.reRequestService')}</Text>
+              </TouchableOpacity>
+            )}
+
+            {availableActions.includes('cancel') && (
+              <TouchableOpacity
+                style={[
+                  styles.actionButton,
+                  {backgroundColor: theme.error},
+                ]}
+                onPress={handleCancelService}
+                disabled={loading}>
+                <Icon name="cancel" size={20} color="#fff" />
+                <Text style={styles.actionButtonText}>{t('activeService.cancelService')}</Text>
+              </TouchableOpacity>
             )}
 
             {status === 'completed' && (
@@ -1981,7 +2149,7 @@ export default function ActiveServiceScreen({
       {(jobCardId || jobCard?.id) && (
         <ReviewModal
           visible={showReviewModal && status === 'completed'}
-          jobCardId={jobCardId || jobCard?.id}
+          jobCardId={(jobCardId || jobCard?.id)!}
           providerName={providerProfile?.name || jobCard?.providerName || serviceRequest?.providerName || 'Provider'}
           serviceType={providerProfile?.specialization || providerProfile?.specialty || jobCard?.serviceType || serviceRequest?.serviceType || 'Service'}
           onReviewSubmitted={() => {
@@ -2023,6 +2191,18 @@ export default function ActiveServiceScreen({
         onCancel={() => setShowVerifyModal(false)}
       />
 
+      {/* Reschedule - slots the assigned provider can take */}
+      {serviceRequest && (
+        <SlotPickerModal
+          visible={showReschedulePicker}
+          serviceType={serviceRequest.serviceType}
+          pincode={serviceRequest.customerAddress?.pincode || ''}
+          providerId={serviceRequest.providerId}
+          onSelect={handleRescheduleSlot}
+          onClose={() => setShowReschedulePicker(false)}
+        />
+      )}
+
       {/* Re-Request Confirmation Modal */}
       <ConfirmationModal
         visible={showReRequestModal}
@@ -2089,11 +2269,6 @@ const styles = StyleSheet.create({
     width: '100%',
     backgroundColor: '#E5E5E5',
   },
-  map: {
-    flex: 1,
-    width: '100%',
-    height: '100%',
-  },
   simplifiedMap: {
     backgroundColor: '#F5F5F5',
     justifyContent: 'center',
@@ -2166,27 +2341,6 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
-  customerMarker: {
-    backgroundColor: '#fff',
-    borderRadius: 20,
-    padding: 4,
-    borderWidth: 2,
-    borderColor: '#007AFF',
-  },
-  liveLocationMarker: {
-    backgroundColor: '#fff',
-    borderRadius: 20,
-    padding: 4,
-    borderWidth: 2,
-    borderColor: '#FF9500',
-  },
-  providerMarker: {
-    backgroundColor: '#fff',
-    borderRadius: 20,
-    padding: 4,
-    borderWidth: 2,
-    borderColor: '#34C759',
-  },
   statusCard: {
     padding: 16,
     marginHorizontal: 16,
@@ -2198,6 +2352,26 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.25,
     shadowRadius: 4,
   },
+  arrivalBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 8,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#34C759' + '20',
+  },
+  arrivalBannerContent: {
+    flex: 1,
+  },
+  arrivalBannerTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  arrivalBannerText: {
+    fontSize: 13,
+    marginTop: 2,
+  },
   statusHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -2407,6 +2581,47 @@ const styles = StyleSheet.create({
   providersListContainer: {
     marginTop: 16,
   },
+  matchingProgressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  matchingProgressText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  targetFallbackContainer: {
+    marginTop: 12,
+  },
+  targetFallbackText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  targetFallbackActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  targetFallbackButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  targetFallbackButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  viewQuotesButton: {
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
   providersHeader: {
     fontSize: 16,
     fontWeight: '600',
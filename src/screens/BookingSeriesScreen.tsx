@@ -0,0 +1,542 @@
+/**
+ * Booking Series Screen
+ * Customer app - Manage a recurring booking
+ * Lists upcoming visits; each can be skipped, rescheduled or cancelled,
+ * or the whole series can be moved or cancelled
+ */
+
+import React, {useState, useEffect} from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import useTranslation from '../hooks/useTranslation';
+import {getErrorMessage} from '../utils/errorMessages';
+import AlertModal from '../components/AlertModal';
+import ConfirmationModal from '../components/ConfirmationModal';
+import CancelTaskModal from '../components/CancelTaskModal';
+import DateTimePickerModal from '../components/DateTimePickerModal';
+import {serviceRequestsApi, type OccurrenceChange} from '../services/api/serviceRequestsApi';
+import type {RecurrenceRule, ServiceRequest} from '../types/domain';
+import {describeRecurrence, generateOccurrences, getNextOccurrence, type Occurrence} from '../utils/recurrence';
+
+const UPCOMING_LIMIT = 12;
+
+// Same notice as a new scheduled booking: at least an hour ahead
+const isBookableTime = (date: Date) => date.getTime() > Date.now() + 60 * 60 * 1000;
+
+const STATUS_COLORS: Record<Occurrence['status'], string> = {
+  scheduled: '#007AFF',
+  rescheduled: '#FF9500',
+  skipped: '#8E8E93',
+  cancelled: '#FF3B30',
+};
+
+const STATUS_LABELS: Record<Occurrence['status'], string> = {
+  scheduled: 'recurrence.statusScheduled',
+  rescheduled: 'recurrence.statusRescheduled',
+  skipped: 'recurrence.statusSkipped',
+  cancelled: 'recurrence.statusCancelled',
+};
+
+export default function BookingSeriesScreen({navigation, route}: any) {
+  const seriesId: string = route.params.seriesId;
+  const {isDarkMode} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const {t} = useTranslation();
+
+  const [series, setSeries] = useState<ServiceRequest | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [updating, setUpdating] = useState(false);
+  // Occurrence the open modal acts on
+  const [selectedOccurrence, setSelectedOccurrence] = useState<Occurrence | null>(null);
+  const [showSkipModal, setShowSkipModal] = useState(false);
+  const [showRescheduleModal, setShowRescheduleModal] = useState(false);
+  const [showCancelVisitModal, setShowCancelVisitModal] = useState(false);
+  const [showRescheduleSeriesModal, setShowRescheduleSeriesModal] = useState(false);
+  const [showCancelSeriesModal, setShowCancelSeriesModal] = useState(false);
+  const [alertModal, setAlertModal] = useState<{
+    visible: boolean;
+    title: string;
+    message: string;
+    type: 'success' | 'error' | 'info' | 'warning';
+    onClose?: () => void;
+  }>({
+    visible: false,
+    title: '',
+    message: '',
+    type: 'info',
+  });
+
+  useEffect(() => {
+    loadSeries();
+  }, [seriesId]);
+
+  const loadSeries = async () => {
+    try {
+      const request = await serviceRequestsApi.getById(seriesId);
+      setSeries(request);
+    } catch (error: any) {
+      console.error('❌ Error loading booking series:', error);
+      setAlertModal({
+        visible: true,
+        title: t('common.error'),
+        message: getErrorMessage(error, 'recurrence.loadError'),
+        type: 'error',
+      });
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadSeries();
+  };
+
+  const rule: RecurrenceRule | undefined = series?.recurrence;
+  const isSeriesCancelled = series?.status === 'cancelled';
+  const upcoming = rule && !isSeriesCancelled ? generateOccurrences(rule, {from: new Date(), limit: UPCOMING_LIMIT}) : [];
+  const nextOccurrence = rule && !isSeriesCancelled ? getNextOccurrence(rule) : null;
+
+  const closeOccurrenceModals = () => {
+    setShowSkipModal(false);
+    setShowRescheduleModal(false);
+    setShowCancelVisitModal(false);
+    setSelectedOccurrence(null);
+  };
+
+  const applyOccurrenceChange = async (change: OccurrenceChange, successKey: string) => {
+    if (!selectedOccurrence) {
+      return;
+    }
+    setUpdating(true);
+    try {
+      const updated = await serviceRequestsApi.updateOccurrence(
+        seriesId,
+        selectedOccurrence.occurrenceDate,
+        change,
+      );
+      console.log(`✅ Occurrence ${change.action} applied:`, selectedOccurrence.occurrenceDate.toISOString());
+      setSeries(updated);
+      closeOccurrenceModals();
+      setAlertModal({
+        visible: true,
+        title: t('common.success'),
+        message: t(successKey),
+        type: 'success',
+      });
+    } catch (error: any) {
+      console.error('❌ Error updating occurrence:', error);
+      closeOccurrenceModals();
+      setAlertModal({
+        visible: true,
+        title: t('common.error'),
+        message: getErrorMessage(error, 'recurrence.updateError'),
+        type: 'error',
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleRescheduleVisit = (date: Date) => {
+    if (!isBookableTime(date)) {
+      setAlertModal({
+        visible: true,
+        title: t('common.invalidDateTime'),
+        message: t('common.invalidDateTimeMessage'),
+        type: 'warning',
+      });
+      return;
+    }
+    applyOccurrenceChange({action: 'reschedule', scheduledTime: date}, 'recurrence.visitRescheduled');
+  };
+
+  const handleCancelVisit = async (reason: string) => {
+    await applyOccurrenceChange({action: 'cancel', cancellationReason: reason}, 'recurrence.visitCancelled');
+  };
+
+  // Restart the series from the new time; visits already made count towards the total
+  const handleRescheduleSeries = async (date: Date) => {
+    if (!rule) {
+      return;
+    }
+    if (!isBookableTime(date)) {
+      setAlertModal({
+        visible: true,
+        title: t('common.invalidDateTime'),
+        message: t('common.invalidDateTimeMessage'),
+        type: 'warning',
+      });
+      return;
+    }
+    setShowRescheduleSeriesModal(false);
+    setUpdating(true);
+    try {
+      const remaining = rule.occurrenceCount && nextOccurrence
+        ? rule.occurrenceCount - nextOccurrence.index
+        : rule.occurrenceCount;
+      const updated = await serviceRequestsApi.updateRecurrence(seriesId, {
+        ...rule,
+        startDate: date,
+        weekdays: rule.frequency === 'weekly' && rule.weekdays?.length ? rule.weekdays : undefined,
+        occurrenceCount: remaining,
+        exceptions: undefined,
+      });
+      setSeries(updated);
+      setAlertModal({
+        visible: true,
+        title: t('common.success'),
+        message: t('recurrence.seriesRescheduled'),
+        type: 'success',
+      });
+    } catch (error: any) {
+      console.error('❌ Error rescheduling series:', error);
+      setAlertModal({
+        visible: true,
+        title: t('common.error'),
+        message: getErrorMessage(error, 'recurrence.updateError'),
+        type: 'error',
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  // Cancelling the series request cancels every visit that has not happened yet
+  const handleCancelSeries = async (reason: string) => {
+    try {
+      const updated = await serviceRequestsApi.cancel(seriesId, reason, {from: series?.status});
+      setSeries(updated);
+      setShowCancelSeriesModal(false);
+      setAlertModal({
+        visible: true,
+        title: t('common.success'),
+        message: t('recurrence.seriesCancelled'),
+        type: 'success',
+        onClose: () => navigation.goBack(),
+      });
+    } catch (error: any) {
+      console.error('❌ Error cancelling series:', error);
+      throw new Error(getErrorMessage(error, 'recurrence.updateError'));
+    }
+  };
+
+  if (loading && !refreshing) {
+    return (
+      <View style={[styles.container, styles.centerContent, {backgroundColor: theme.background}]}>
+        <ActivityIndicator size="large" color={theme.primary} />
+      </View>
+    );
+  }
+
+  const renderOccurrence = (occurrence: Occurrence) => {
+    const isActive = occurrence.status === 'scheduled' || occurrence.status === 'rescheduled';
+    const color = STATUS_COLORS[occurrence.status];
+
+    return (
+      <View
+        key={occurrence.occurrenceDate.toISOString()}
+        style={[styles.occurrenceCard, {backgroundColor: theme.card}]}>
+        <View style={styles.occurrenceHeader}>
+          <Icon name="event" size={20} color={isActive ? theme.primary : theme.textSecondary} />
+          <Text
+            style={[
+              styles.occurrenceDate,
+              {color: isActive ? theme.text : theme.textSecondary},
+              !isActive && styles.inactiveText,
+            ]}>
+            {occurrence.scheduledTime.toLocaleString()}
+          </Text>
+          <View style={[styles.statusBadge, {backgroundColor: color + '20'}]}>
+            <Text style={[styles.statusText, {color}]}>{t(STATUS_LABELS[occurrence.status])}</Text>
+          </View>
+        </View>
+
+        {isActive && (
+          <View style={styles.occurrenceActions}>
+            <TouchableOpacity
+              style={styles.actionButton}
+              disabled={updating}
+              onPress={() => {
+                setSelectedOccurrence(occurrence);
+                setShowSkipModal(true);
+              }}>
+              <Icon name="skip-next" size={18} color={theme.textSecondary} />
+              <Text style={[styles.actionText, {color: theme.textSecondary}]}>{t('recurrence.skip')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.actionButton}
+              disabled={updating}
+              onPress={() => {
+                setSelectedOccurrence(occurrence);
+                setShowRescheduleModal(true);
+              }}>
+              <Icon name="schedule" size={18} color={theme.primary} />
+              <Text style={[styles.actionText, {color: theme.primary}]}>{t('recurrence.reschedule')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.actionButton}
+              disabled={updating}
+              onPress={() => {
+                setSelectedOccurrence(occurrence);
+                setShowCancelVisitModal(true);
+              }}>
+              <Icon name="close" size={18} color="#FF3B30" />
+              <Text style={[styles.actionText, {color: '#FF3B30'}]}>{t('recurrence.cancelVisit')}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, {backgroundColor: theme.background}]}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}>
+        {series && rule ? (
+          <>
+            {/* Summary */}
+            <View style={[styles.summaryCard, {backgroundColor: theme.card}]}>
+              <View style={styles.summaryHeader}>
+                <Icon name="repeat" size={24} color={theme.primary} />
+                <Text style={[styles.serviceType, {color: theme.text}]}>{series.serviceType}</Text>
+              </View>
+              <Text style={[styles.ruleText, {color: theme.text}]}>{describeRecurrence(rule)}</Text>
+              <Text style={[styles.nextVisitText, {color: theme.textSecondary}]}>
+                {nextOccurrence
+                  ? t('recurrence.nextVisit', {date: nextOccurrence.scheduledTime.toLocaleString()})
+                  : t('recurrence.noUpcomingVisits')}
+              </Text>
+              {updating && <ActivityIndicator size="small" color={theme.primary} style={styles.updatingIndicator} />}
+            </View>
+
+            {/* Upcoming visits */}
+            <Text style={[styles.sectionTitle, {color: theme.text}]}>{t('recurrence.upcomingVisits')}</Text>
+            {upcoming.length > 0 ? (
+              upcoming.map(renderOccurrence)
+            ) : (
+              <Text style={[styles.emptyText, {color: theme.textSecondary}]}>
+                {t('recurrence.noUpcomingVisits')}
+              </Text>
+            )}
+
+            {/* Series actions */}
+            {!isSeriesCancelled && nextOccurrence && (
+              <View style={styles.seriesActions}>
+                <TouchableOpacity
+                  style={[styles.seriesButton, {borderColor: theme.primary}]}
+                  disabled={updating}
+                  onPress={() => setShowRescheduleSeriesModal(true)}>
+                  <Icon name="update" size={20} color={theme.primary} />
+                  <Text style={[styles.seriesButtonText, {color: theme.primary}]}>
+                    {t('recurrence.rescheduleSeries')}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.seriesButton, {borderColor: '#FF3B30'}]}
+                  disabled={updating}
+                  onPress={() => setShowCancelSeriesModal(true)}>
+                  <Icon name="event-busy" size={20} color="#FF3B30" />
+                  <Text style={[styles.seriesButtonText, {color: '#FF3B30'}]}>
+                    {t('recurrence.cancelSeries')}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </>
+        ) : (
+          <View style={styles.centerContent}>
+            <Icon name="event-repeat" size={64} color={theme.textSecondary} />
+            <Text style={[styles.emptyText, {color: theme.textSecondary}]}>
+              {t('recurrence.loadError')}
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+
+      <ConfirmationModal
+        visible={showSkipModal}
+        title={t('recurrence.skipVisitTitle')}
+        message={t('recurrence.skipVisitMessage', {
+          date: selectedOccurrence?.scheduledTime.toLocaleString() || '',
+        })}
+        confirmText={t('recurrence.skip')}
+        cancelText={t('common.cancel')}
+        type="warning"
+        icon="skip-next"
+        onConfirm={() => applyOccurrenceChange({action: 'skip'}, 'recurrence.visitSkipped')}
+        onCancel={closeOccurrenceModals}
+      />
+
+      <DateTimePickerModal
+        visible={showRescheduleModal}
+        title={t('recurrence.rescheduleVisitTitle')}
+        value={selectedOccurrence?.scheduledTime || new Date()}
+        minimumDate={new Date()}
+        onConfirm={handleRescheduleVisit}
+        onClose={closeOccurrenceModals}
+      />
+
+      <CancelTaskModal
+        visible={showCancelVisitModal}
+        onCancel={handleCancelVisit}
+        onClose={closeOccurrenceModals}
+      />
+
+      <DateTimePickerModal
+        visible={showRescheduleSeriesModal}
+        title={t('recurrence.rescheduleSeriesTitle')}
+        value={nextOccurrence?.scheduledTime || new Date()}
+        minimumDate={new Date()}
+        onConfirm={handleRescheduleSeries}
+        onClose={() => setShowRescheduleSeriesModal(false)}
+      />
+
+      <CancelTaskModal
+        visible={showCancelSeriesModal}
+        onCancel={handleCancelSeries}
+        onClose={() => setShowCancelSeriesModal(false)}
+      />
+
+      <AlertModal
+        visible={alertModal.visible}
+        title={alertModal.title}
+        message={alertModal.message}
+        type={alertModal.type}
+        onClose={() => {
+          const onClose = alertModal.onClose;
+          setAlertModal({...alertModal, visible: false});
+          onClose?.();
+        }}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingTop: 40,
+  },
+  content: {
+    padding: 16,
+  },
+  summaryCard: {
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 20,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 2},
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+  },
+  summaryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 12,
+  },
+  serviceType: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  ruleText: {
+    fontSize: 16,
+    marginBottom: 6,
+  },
+  nextVisitText: {
+    fontSize: 14,
+  },
+  updatingIndicator: {
+    marginTop: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  occurrenceCard: {
+    padding: 14,
+    borderRadius: 12,
+    marginBottom: 10,
+  },
+  occurrenceHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  occurrenceDate: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  inactiveText: {
+    textDecorationLine: 'line-through',
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  occurrenceActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 10,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  seriesActions: {
+    marginTop: 20,
+    gap: 12,
+  },
+  seriesButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  seriesButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
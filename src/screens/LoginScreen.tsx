@@ -19,6 +19,7 @@ import {DEFAULT_COUNTRY_CODE, CountryCode} from '../utils/countryCodes';
 import AlertModal from '../components/AlertModal';
 import useTranslation from '../hooks/useTranslation';
 import LanguageSwitcher from '../components/LanguageSwitcher';
+import {navigateAfterLogin} from '../navigation/navigationRef';
 
 interface LoginScreenProps {
   navigation: any;
@@ -155,10 +156,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({navigation}) => {
       }
 
       setCurrentUser(userWithRole);
-      navigation.reset({
-        index: 0,
-        routes: [{name: 'Main'}],
-      });
+      navigateAfterLogin(navigation);
     } catch (error: any) {
       console.error('Phone verification failed:', error);
       const errorMessage = error.message || 'Failed to verify code. Please try again.';
@@ -269,10 +267,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({navigation}) => {
           routes: [{name: 'PhoneVerification'}],
         });
       } else {
-        navigation.reset({
-          index: 0,
-          routes: [{name: 'Main'}],
-        });
+        navigateAfterLogin(navigation);
       }
     } catch (error: any) {
       setAlertModal({
@@ -317,10 +312,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({navigation}) => {
           routes: [{name: 'PhoneVerification'}],
         });
       } else {
-        navigation.reset({
-          index: 0,
-          routes: [{name: 'Main'}],
-        });
+        navigateAfterLogin(navigation);
       }
     } catch (error: any) {
       if (error.message?.includes('cancelled')) {
@@ -25,6 +25,7 @@ import {DEFAULT_COUNTRY_CODE, CountryCode} from '../utils/countryCodes';
 import AlertModal from '../components/AlertModal';
 import SuccessModal from '../components/SuccessModal';
 import useTranslation from '../hooks/useTranslation';
+import {navigateAfterLogin} from '../navigation/navigationRef';
 
 interface PhoneVerificationScreenProps {
   navigation: any;
@@ -243,10 +244,7 @@ export default function PhoneVerificationScreen({
         setTimeout(() => {
           setAlertModal({visible: false, title: '', message: '', type: 'info'});
           if (mode === 'initial') {
-            navigation.reset({
-              index: 0,
-              routes: [{name: 'Main'}],
-            });
+            navigateAfterLogin(navigation);
           } else {
             navigation.goBack();
           }
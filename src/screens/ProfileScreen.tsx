@@ -29,7 +29,7 @@ interface ProfileScreenProps {
 }
 
 const ProfileScreen: React.FC<ProfileScreenProps> = ({navigation}) => {
-  const {isDarkMode, currentUser, setCurrentUser} = useStore();
+  const {isDarkMode, currentUser, setCurrentUser, clearBookingDrafts} = useStore();
   const theme = isDarkMode ? darkTheme : lightTheme;
   const {t} = useTranslation();
 
@@ -534,6 +534,8 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({navigation}) => {
     try {
       await authService.logout();
       await setCurrentUser(null);
+      // Drafts hold addresses and contacts - not for the next account
+      clearBookingDrafts();
       // Navigate to Login screen
       navigation.reset({
         index: 0,
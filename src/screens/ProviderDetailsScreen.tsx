@@ -10,7 +10,6 @@ import {
 } from 'react-native';
 import Icon from 'react-native-vector-icons/Ionicons';
 import database from '@react-native-firebase/database';
-import auth from '@react-native-firebase/auth';
 import {useStore} from '../store';
 import {lightTheme, darkTheme, commonStyles} from '../utils/theme';
 import type {Provider} from '../services/api/providersApi';
@@ -20,7 +19,6 @@ import ReviewsList from '../components/ReviewsList';
 import AlertModal from '../components/AlertModal';
 import ConfirmationModal from '../components/ConfirmationModal';
 import useTranslation from '../hooks/useTranslation';
-import WebSocketService from '../services/websocketService';
 
 interface ProviderDetailsScreenProps {
   navigation: any;
@@ -141,31 +139,7 @@ const ProviderDetailsScreen: React.FC<ProviderDetailsScreenProps> = ({
       return;
     }
 
-    // Send WebSocket notification to the specific provider if approved and online
-    const providerId = (provider as any).id || (provider as any)._id || (provider as any).uid;
-    const authUser = auth().currentUser;
-    if (providerId && authUser && isApproved && isOnline && isAvailable) {
-      try {
-        // Prepare notification data (preliminary notification before service request is created)
-        const notificationData = {
-          customerId: authUser.uid,
-          customerName: (currentUser as any)?.name || 'Customer',
-          patientName: (currentUser as any)?.name || 'Customer', // For backward compatibility
-          serviceType: provider.specialization || (provider as any).specialty || 'Service',
-          message: String(t('providers.newServiceRequestNotification')),
-          timestamp: new Date().toISOString(),
-          isPreliminary: true, // Indicates this is sent before service request creation
-        };
-
-        // Send WebSocket notification to the specific provider
-        await WebSocketService.emitNewBooking(providerId, notificationData);
-        console.log('✅ WebSocket notification sent to provider:', providerId);
-      } catch (websocketError) {
-        console.warn('Could not send WebSocket notification to provider:', websocketError);
-        // Don't block navigation if WebSocket fails
-      }
-    }
-
+    // The request is sent to this provider alone once the booking is submitted
     const serializableProvider = serializeDoctorForNavigation(provider as any);
     navigation.navigate('ServiceRequest', {provider: serializableProvider});
   };
@@ -392,7 +366,7 @@ const ProviderDetailsScreen: React.FC<ProviderDetailsScreenProps> = ({
         <TouchableOpacity
           style={[styles.bookButton, {backgroundColor: theme.primary}]}
           onPress={handleRequestService}>
-          <Text style={styles.bookButtonText}>{t('providers.requestService')}</Text>
+          <Text style={styles.bookButtonText}>{t('providers.bookThisProvider')}</Text>
         </TouchableOpacity>
       </View>
 
@@ -17,13 +17,16 @@ import {
   Linking,
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
-import {providersApi} from '../services/api/providersApi';
+import {providersApi, type Provider} from '../services/api/providersApi';
 import {usersApi} from '../services/api/usersApi';
 import {useStore} from '../store';
 import {lightTheme, darkTheme} from '../utils/theme';
 import EmptyState from '../components/EmptyState';
 import {getDistanceToCustomer} from '../services/providerLocationService';
 import useTranslation from '../hooks/useTranslation';
+import {getErrorMessage} from '../utils/errorMessages';
+import {isCancelledError} from '../services/api/apiErrors';
+import {useAbortSignal} from '../hooks/useAbortSignal';
 import AlertModal from '../components/AlertModal';
 
 interface ProviderWithStatus {
@@ -55,6 +58,8 @@ export default function ProvidersListScreen({navigation}: any) {
   const {isDarkMode, currentUser, currentPincode} = useStore();
   const theme = isDarkMode ? darkTheme : lightTheme;
   const {t} = useTranslation();
+  // Aborts in-flight provider requests when the screen unmounts
+  const signal = useAbortSignal();
   
   const [alertModal, setAlertModal] = useState<{
     visible: boolean;
@@ -86,84 +91,112 @@ export default function ProvidersListScreen({navigation}: any) {
   // -----------------------------
   // Load Providers
   // -----------------------------
-  const loadOnlineProviders = async () => {
+  // Map API providers to list items with distance, online providers first
+  const buildProviderList = async (apiProviders: Provider[]): Promise<ProviderWithStatus[]> => {
+    const list: ProviderWithStatus[] = [];
+
+    for (const data of apiProviders) {
+      const providerId = data._id || data.id || '';
+      // Older profiles keep a structured address instead of location
+      const address = typeof data.address === 'object' ? data.address : undefined;
+
+      const provider: ProviderWithStatus = {
+        id: providerId,
+        name: data.name || data.displayName || 'Provider',
+        email: data.email,
+        phone: data.phone,
+        phoneNumber: data.phoneNumber,
+        specialization: data.specialization || data.specialty,
+        experience: data.experience,
+        rating: data.rating,
+        totalConsultations: data.totalConsultations,
+        profileImage: data.profileImage,
+        isOnline: data.isOnline,
+        address: {
+          latitude: data.location?.latitude || data.currentLocation?.latitude,
+          longitude: data.location?.longitude || data.currentLocation?.longitude,
+          address: data.location?.address || address?.address,
+          city: data.location?.city || address?.city,
+          state: data.location?.state || address?.state,
+          pincode: data.location?.pincode || address?.pincode,
+        },
+      };
+
+      // Distance calculation
+      if (
+        currentPincode &&
+        provider.address?.latitude &&
+        provider.address?.longitude
+      ) {
+        const customerLocation = await getCustomerLocation();
+        if (customerLocation) {
+          const distanceInfo = getDistanceToCustomer(
+            {
+              latitude: provider.address.latitude,
+              longitude: provider.address.longitude,
+              address: provider.address.address || '',
+              city: provider.address.city,
+              state: provider.address.state,
+              pincode: provider.address.pincode || '',
+              updatedAt: Date.now(),
+            },
+            customerLocation,
+          );
+          provider.distance = distanceInfo.distanceFormatted;
+          provider.eta = distanceInfo.etaMinutes;
+        }
+      }
+
+      list.push(provider);
+    }
+
+    list.sort((a, b) => {
+      if (a.isOnline && !b.isOnline) return -1;
+      if (!a.isOnline && b.isOnline) return 1;
+      if (a.eta && b.eta) return a.eta - b.eta;
+      if (a.rating && b.rating) return b.rating - a.rating;
+      return 0;
+    });
+
+    return list;
+  };
+
+  const loadOnlineProviders = async (forceRefresh: boolean = false) => {
     try {
       setLoading(true);
 
-      // Fetch approved providers from backend API
-      const apiProviders = await providersApi.getAll();
-
-      const list: ProviderWithStatus[] = [];
-
-      for (const data of apiProviders) {
-        const providerId = data._id || data.id || '';
-
-        const provider: ProviderWithStatus = {
-          id: providerId,
-          name: data.name || data.displayName || 'Provider',
-          email: data.email,
-          phone: (data as any).phone,
-          phoneNumber: data.phoneNumber,
-          specialization: data.specialization || (data as any).specialty,
-          experience: data.experience,
-          rating: data.rating,
-          totalConsultations: (data as any).totalConsultations,
-          profileImage: (data as any).profileImage,
-          isOnline: data.isOnline,
-          address: {
-            latitude: data.location?.latitude || (data as any).currentLocation?.latitude,
-            longitude: data.location?.longitude || (data as any).currentLocation?.longitude,
-            address: data.location?.address || (data as any).address?.address,
-            city: data.location?.city || (data as any).address?.city,
-            state: data.location?.state || (data as any).address?.state,
-            pincode: data.location?.pincode || (data as any).address?.pincode,
-          },
-        };
+      // Fetch approved providers from backend API (cached copy first, refreshed in background)
+      const apiProviders = await providersApi.getAll(undefined, {
+        signal,
+        forceRefresh,
+        onUpdate: updated => {
+          buildProviderList(updated)
+            .then(list => {
+              if (!signal.aborted) {
+                setProviders(list);
+              }
+            })
+            .catch(error => console.error('Error applying refreshed providers:', error));
+        },
+      });
 
-        // Distance calculation
-        if (
-          currentPincode &&
-          provider.address?.latitude &&
-          provider.address?.longitude
-        ) {
-          const customerLocation = await getCustomerLocation();
-          if (customerLocation) {
-            const distanceInfo = getDistanceToCustomer(
-              {
-                latitude: provider.address.latitude,
-                longitude: provider.address.longitude,
-                address: provider.address.address || '',
-                city: provider.address.city,
-                state: provider.address.state,
-                pincode: provider.address.pincode || '',
-                updatedAt: Date.now(),
-              },
-              customerLocation,
-            );
-            provider.distance = distanceInfo.distanceFormatted;
-            provider.eta = distanceInfo.etaMinutes;
-          }
-        }
+      const list = await buildProviderList(apiProviders);
 
-        list.push(provider);
+      if (signal.aborted) {
+        return;
       }
 
-      list.sort((a, b) => {
-        if (a.isOnline && !b.isOnline) return -1;
-        if (!a.isOnline && b.isOnline) return 1;
-        if (a.eta && b.eta) return a.eta - b.eta;
-        if (a.rating && b.rating) return b.rating - a.rating;
-        return 0;
-      });
-
       setProviders(list);
     } catch (error: any) {
+      if (isCancelledError(error)) {
+        return;
+      }
       console.error('Error loading providers:', error);
       setProviders([]);
       setAlertModal({
         visible: true,
         title: t('common.error'),
-        message: error?.message || t('providers.failedToLoad'),
+        message: getErrorMessage(error, 'providers.failedToLoad'),
         type: 'error',
       });
     } finally {
@@ -183,7 +216,7 @@ export default function ProvidersListScreen({navigation}: any) {
       if (!currentUser?.id) return null;
 
       // Get user location from API
-      const user = await usersApi.getMe();
+      const user = await usersApi.getMe({signal});
       if (user?.location?.latitude && user?.location?.longitude) {
         return {
           latitude: Number(user.location.latitude),
@@ -226,7 +259,7 @@ export default function ProvidersListScreen({navigation}: any) {
 
   const handleRefresh = async () => {
     setRefreshing(true);
-    await loadOnlineProviders();
+    await loadOnlineProviders(true);
   };
 
   const handleCallProvider = (provider: ProviderWithStatus) => {
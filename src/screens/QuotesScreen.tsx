@@ -0,0 +1,410 @@
+/**
+ * Quotes Screen
+ * Customer app - Compare the quotes providers sent for a request booked in
+ * quotes mode and accept one of them
+ */
+
+import React, {useState, useEffect} from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import useTranslation from '../hooks/useTranslation';
+import {getErrorMessage} from '../utils/errorMessages';
+import AlertModal from '../components/AlertModal';
+import ConfirmationModal from '../components/ConfirmationModal';
+import StarRating from '../components/StarRating';
+import {serviceRequestsApi} from '../services/api/serviceRequestsApi';
+import {quotesApi} from '../services/api/quotesApi';
+import type {Quote, ServiceRequest} from '../types/domain';
+
+// New quotes keep arriving while the request is pending
+const POLL_INTERVAL_MS = 10000;
+
+const formatEta = (date: Date) =>
+  date.toLocaleString('en-US', {
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export default function QuotesScreen({navigation, route}: any) {
+  const serviceRequestId: string = route.params.serviceRequestId;
+  const {isDarkMode} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const {t} = useTranslation();
+
+  const [serviceRequest, setServiceRequest] = useState<ServiceRequest | null>(null);
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [accepting, setAccepting] = useState(false);
+  // Quote the confirmation modal acts on
+  const [selectedQuote, setSelectedQuote] = useState<Quote | null>(null);
+  const [alertModal, setAlertModal] = useState<{
+    visible: boolean;
+    title: string;
+    message: string;
+    type: 'success' | 'error' | 'info' | 'warning';
+    onClose?: () => void;
+  }>({
+    visible: false,
+    title: '',
+    message: '',
+    type: 'info',
+  });
+
+  const isPending = serviceRequest?.status === 'pending';
+
+  useEffect(() => {
+    loadQuotes();
+  }, [serviceRequestId]);
+
+  useEffect(() => {
+    if (!isPending) return;
+
+    const pollInterval = setInterval(() => {
+      loadQuotes(true);
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(pollInterval);
+  }, [isPending, serviceRequestId]);
+
+  const loadQuotes = async (silent = false) => {
+    try {
+      const [request, submitted] = await Promise.all([
+        serviceRequestsApi.getById(serviceRequestId),
+        quotesApi.getAll(serviceRequestId),
+      ]);
+      setServiceRequest(request);
+      setQuotes(submitted.filter(quote => quote.status === 'submitted' || quote.status === 'accepted'));
+    } catch (error: any) {
+      console.error('❌ Error loading quotes:', error);
+      if (!silent) {
+        setAlertModal({
+          visible: true,
+          title: t('common.error'),
+          message: getErrorMessage(error, 'quotes.loadError'),
+          type: 'error',
+        });
+      }
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadQuotes();
+  };
+
+  const handleAcceptQuote = async () => {
+    const quote = selectedQuote;
+    if (!quote) {
+      return;
+    }
+    setSelectedQuote(null);
+    setAccepting(true);
+    try {
+      const jobCard = await quotesApi.accept(serviceRequestId, quote.id, {from: serviceRequest?.status});
+      console.log('✅ Quote accepted:', quote.id, 'job card:', jobCard.id);
+      setAlertModal({
+        visible: true,
+        title: t('common.success'),
+        message: t('quotes.accepted', {name: quote.providerName}),
+        type: 'success',
+        onClose: () =>
+          navigation.replace('ActiveService', {
+            serviceRequestId,
+            jobCardId: jobCard.id,
+          }),
+      });
+    } catch (error: any) {
+      console.error('❌ Error accepting quote:', error);
+      setAlertModal({
+        visible: true,
+        title: t('common.error'),
+        message: getErrorMessage(error, 'quotes.acceptError'),
+        type: 'error',
+      });
+      loadQuotes(true);
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  if (loading && !refreshing) {
+    return (
+      <View style={[styles.container, styles.centerContent, {backgroundColor: theme.background}]}>
+        <ActivityIndicator size="large" color={theme.primary} />
+      </View>
+    );
+  }
+
+  // Side by side, cheapest first
+  const sortedQuotes = [...quotes].sort((a, b) => a.price - b.price);
+  const lowestPrice = sortedQuotes.length > 0 ? sortedQuotes[0].price : null;
+  const earliestEta = quotes.length > 0 ? Math.min(...quotes.map(quote => quote.eta.getTime())) : null;
+  const invitedCount = serviceRequest?.quoteProviderIds?.length || quotes.length;
+
+  const renderQuote = (quote: Quote) => {
+    const isAccepted = quote.status === 'accepted';
+
+    return (
+      <View
+        key={quote.id}
+        style={[
+          styles.quoteColumn,
+          {backgroundColor: theme.card, borderColor: isAccepted ? '#34C759' : theme.border},
+        ]}>
+        <Text style={[styles.providerName, {color: theme.text}]} numberOfLines={2}>
+          {quote.providerName}
+        </Text>
+        {quote.providerRating !== undefined && (
+          <View style={styles.ratingRow}>
+            <StarRating rating={quote.providerRating} size={14} />
+            <Text style={[styles.ratingText, {color: theme.textSecondary}]}>
+              {quote.providerRating.toFixed(1)}
+            </Text>
+          </View>
+        )}
+
+        <View style={styles.badges}>
+          {quote.price === lowestPrice && quotes.length > 1 && (
+            <View style={[styles.badge, {backgroundColor: '#34C75920'}]}>
+              <Text style={[styles.badgeText, {color: '#34C759'}]}>{t('quotes.lowestPrice')}</Text>
+            </View>
+          )}
+          {quote.eta.getTime() === earliestEta && quotes.length > 1 && (
+            <View style={[styles.badge, {backgroundColor: '#007AFF20'}]}>
+              <Text style={[styles.badgeText, {color: '#007AFF'}]}>{t('quotes.earliest')}</Text>
+            </View>
+          )}
+        </View>
+
+        <Text style={[styles.fieldLabel, {color: theme.textSecondary}]}>{t('quotes.price')}</Text>
+        <Text style={[styles.price, {color: theme.text}]}>₹{quote.price}</Text>
+
+        <Text style={[styles.fieldLabel, {color: theme.textSecondary}]}>{t('quotes.eta')}</Text>
+        <Text style={[styles.fieldValue, {color: theme.text}]}>{formatEta(quote.eta)}</Text>
+
+        <Text style={[styles.fieldLabel, {color: theme.textSecondary}]}>{t('quotes.note')}</Text>
+        <Text style={[styles.note, {color: quote.note ? theme.text : theme.textSecondary}]}>
+          {quote.note || t('quotes.noNote')}
+        </Text>
+
+        {isPending && (
+          <TouchableOpacity
+            style={[styles.acceptButton, {backgroundColor: theme.primary}]}
+            disabled={accepting}
+            onPress={() => setSelectedQuote(quote)}>
+            <Text style={styles.acceptButtonText}>{t('quotes.accept')}</Text>
+          </TouchableOpacity>
+        )}
+        {isAccepted && <Icon name="check-circle" size={28} color="#34C759" style={styles.acceptedIcon} />}
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, {backgroundColor: theme.background}]}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}>
+        {serviceRequest ? (
+          <>
+            {/* Summary */}
+            <View style={[styles.summaryCard, {backgroundColor: theme.card}]}>
+              <View style={styles.summaryHeader}>
+                <Icon name="compare-arrows" size={24} color={theme.primary} />
+                <Text style={[styles.serviceType, {color: theme.text}]}>{serviceRequest.serviceType}</Text>
+              </View>
+              <Text style={[styles.summaryText, {color: theme.textSecondary}]}>
+                {isPending
+                  ? t('quotes.responded', {count: quotes.length, total: invitedCount})
+                  : t('quotes.closed')}
+              </Text>
+              {accepting && <ActivityIndicator size="small" color={theme.primary} style={styles.acceptingIndicator} />}
+            </View>
+
+            {quotes.length > 0 ? (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.quotesRow}>
+                {sortedQuotes.map(renderQuote)}
+              </ScrollView>
+            ) : (
+              <View style={styles.centerContent}>
+                <Icon name="hourglass-empty" size={64} color={theme.textSecondary} />
+                <Text style={[styles.emptyTitle, {color: theme.text}]}>{t('quotes.waitingForQuotes')}</Text>
+                <Text style={[styles.emptyText, {color: theme.textSecondary}]}>
+                  {t('quotes.waitingForQuotesHint')}
+                </Text>
+              </View>
+            )}
+          </>
+        ) : (
+          <View style={styles.centerContent}>
+            <Icon name="compare-arrows" size={64} color={theme.textSecondary} />
+            <Text style={[styles.emptyText, {color: theme.textSecondary}]}>{t('quotes.loadError')}</Text>
+          </View>
+        )}
+      </ScrollView>
+
+      <ConfirmationModal
+        visible={!!selectedQuote}
+        title={t('quotes.acceptTitle')}
+        message={t('quotes.acceptMessage', {
+          name: selectedQuote?.providerName || '',
+          price: selectedQuote?.price ?? '',
+        })}
+        confirmText={t('quotes.accept')}
+        cancelText={t('common.cancel')}
+        type="success"
+        icon="checkmark-circle"
+        onConfirm={handleAcceptQuote}
+        onCancel={() => setSelectedQuote(null)}
+      />
+
+      <AlertModal
+        visible={alertModal.visible}
+        title={alertModal.title}
+        message={alertModal.message}
+        type={alertModal.type}
+        onClose={() => {
+          const onClose = alertModal.onClose;
+          setAlertModal({...alertModal, visible: false});
+          onClose?.();
+        }}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingTop: 40,
+  },
+  content: {
+    padding: 16,
+  },
+  summaryCard: {
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 20,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 2},
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+  },
+  summaryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  serviceType: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  summaryText: {
+    fontSize: 14,
+  },
+  acceptingIndicator: {
+    marginTop: 12,
+  },
+  quotesRow: {
+    gap: 12,
+    paddingBottom: 8,
+  },
+  quoteColumn: {
+    width: 200,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  providerName: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  ratingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  ratingText: {
+    fontSize: 13,
+  },
+  badges: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 8,
+    minHeight: 24,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  badgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  fieldLabel: {
+    fontSize: 12,
+    marginTop: 12,
+  },
+  price: {
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  fieldValue: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  note: {
+    fontSize: 14,
+    minHeight: 40,
+  },
+  acceptButton: {
+    marginTop: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  acceptButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  acceptedIcon: {
+    marginTop: 16,
+    alignSelf: 'center',
+  },
+  emptyTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginTop: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
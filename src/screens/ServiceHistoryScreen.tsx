@@ -4,7 +4,7 @@
  * Shows completed services with review option
  */
 
-import React, {useState, useEffect, useMemo} from 'react';
+import React, {useState, useEffect, useMemo, useRef} from 'react';
 import {
   View,
   Text,
@@ -20,25 +20,52 @@ import {
 import AlertModal from '../components/AlertModal';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import auth from '@react-native-firebase/auth';
-import {useStore} from '../store';
+import {useStore, isOwnBookingDraft} from '../store';
 import {lightTheme, darkTheme} from '../utils/theme';
-import {getCustomerJobCards, JobCard} from '../services/jobCardService';
+import {getCustomerJobCardsPage, JobCard} from '../services/jobCardService';
+import {
+  getProviderPhone,
+  normalizeServiceStatus,
+  type Address,
+  type ServiceRequest,
+} from '../types/domain';
 import {getJobCardReview, getProviderReviews, Review} from '../services/reviewService';
 import ReviewModal from '../components/ReviewModal';
+import ServiceTimeline from '../components/ServiceTimeline';
+import {buildServiceTimeline} from '../utils/serviceTimeline';
 import {fetchServiceCategories, ServiceCategory} from '../services/serviceCategoriesService';
 import {providersApi} from '../services/api/providersApi';
+import {serviceRequestsApi} from '../services/api/serviceRequestsApi';
+import {isCancelledError} from '../services/api/apiErrors';
 import useTranslation from '../hooks/useTranslation';
+import {getErrorMessage} from '../utils/errorMessages';
+import {compareWithEstimate, getBillTotal} from '../utils/priceEstimate';
+import {planRebooking, type RebookPlan} from '../services/rebookService';
+import ConfirmationModal from '../components/ConfirmationModal';
 
 type FilterType = 'all' | 'pending' | 'accepted' | 'in-progress' | 'completed';
 type DateFilterType = 'all' | 'today' | 'week' | 'month';
 
+// Occurrences of a recurring booking are listed together under their series
+type HistoryRow =
+  | {type: 'single'; jobCard: JobCard}
+  | {type: 'series'; seriesId: string; jobCards: JobCard[]};
+
+const PAGE_SIZE = 20;
+
 export default function ServiceHistoryScreen({navigation}: any) {
-  const {isDarkMode, currentUser} = useStore();
+  const {isDarkMode, currentUser, bookingDrafts, saveBookingDraft} = useStore();
   const theme = isDarkMode ? darkTheme : lightTheme;
   const {t} = useTranslation();
 
   const [jobCards, setJobCards] = useState<JobCard[]>([]);
   const [loading, setLoading] = useState(true);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [totalCount, setTotalCount] = useState<number | undefined>(undefined);
+  const latestRequestRef = useRef(0);
   const [refreshing, setRefreshing] = useState(false);
   const [selectedJobCard, setSelectedJobCard] = useState<JobCard | null>(null);
   const [showReviewModal, setShowReviewModal] = useState(false);
@@ -52,11 +79,17 @@ export default function ServiceHistoryScreen({navigation}: any) {
   const [selectedCompletedService, setSelectedCompletedService] = useState<JobCard | null>(null);
   const [providerDetails, setProviderDetails] = useState<{
     phone?: string;
-    address?: any;
+    address?: string | Partial<Address>;
   } | null>(null);
   const [providerReview, setProviderReview] = useState<Review | null>(null);
+  // Original request of the completed service shown - fills in the timeline
+  const [selectedServiceRequest, setSelectedServiceRequest] = useState<ServiceRequest | null>(null);
   const [loadingProviderDetails, setLoadingProviderDetails] = useState(false);
   const [providerPhones, setProviderPhones] = useState<Record<string, string>>({});
+  // Job card whose "book again" draft is being prepared
+  const [rebookingId, setRebookingId] = useState<string | null>(null);
+  // Waiting for the customer to confirm replacing their unfinished draft
+  const [pendingRebook, setPendingRebook] = useState<{jobCard: JobCard; plan: RebookPlan} | null>(null);
   const [alertModal, setAlertModal] = useState<{
     visible: boolean;
     title: string;
@@ -70,20 +103,94 @@ export default function ServiceHistoryScreen({navigation}: any) {
   });
 
   useEffect(() => {
-    loadJobCards();
     loadServiceCategories();
   }, []);
 
-  const loadServiceCategories = async () => {
+  // Reload from the first page whenever a filter chip changes
+  useEffect(() => {
+    loadJobCards();
+  }, [filter, serviceTypeFilter, dateFilter]);
+
+  useEffect(() => {
+    setSelectedServiceRequest(null);
+    const serviceRequestId = selectedCompletedService?.consultationId || selectedCompletedService?.bookingId;
+    if (!serviceRequestId) {
+      return;
+    }
+
+    const requestController = new AbortController();
+    serviceRequestsApi
+      .getById(serviceRequestId, {signal: requestController.signal})
+      .then(setSelectedServiceRequest)
+      .catch(error => {
+        if (!isCancelledError(error)) {
+          console.warn('⚠️ Could not load original service request for timeline:', serviceRequestId, error);
+        }
+      });
+    return () => requestController.abort();
+  }, [selectedCompletedService?.id]);
+
+  const loadServiceCategories = async (forceRefresh: boolean = false) => {
     try {
-      const categories = await fetchServiceCategories();
+      const categories = await fetchServiceCategories({
+        forceRefresh,
+        onUpdate: setServiceCategories,
+      });
       setServiceCategories(categories);
     } catch (error) {
       console.error('Error loading service categories:', error);
     }
   };
 
-  const loadJobCards = async () => {
+  // Start of the selected date range - applied server-side as createdAfter
+  const getDateRangeStart = (range: DateFilterType): Date | undefined => {
+    if (range === 'all') {
+      return undefined;
+    }
+    const now = new Date();
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    if (range === 'week') {
+      today.setDate(today.getDate() - 7);
+    } else if (range === 'month') {
+      today.setMonth(today.getMonth() - 1);
+    }
+    return today;
+  };
+
+  // Fetch phone numbers for providers we have not looked up yet
+  const loadProviderPhones = async (cards: JobCard[]) => {
+    const phoneMap: Record<string, string> = {};
+    const providerIds = new Set(
+      cards.map(card => card.providerId).filter(id => id && !providerPhones[id]),
+    );
+
+    await Promise.all(
+      Array.from(providerIds).map(async (providerId) => {
+        try {
+          const provider = await providersApi.getById(providerId);
+          if (provider) {
+            const phone = getProviderPhone(provider);
+            if (phone) {
+              phoneMap[providerId] = phone;
+            }
+          } else {
+            console.warn(`Provider not found: ${providerId}`);
+          }
+        } catch (error) {
+          console.error(`Error fetching phone for provider ${providerId}:`, error);
+        }
+      })
+    );
+
+    if (Object.keys(phoneMap).length > 0) {
+      setProviderPhones(prev => ({...prev, ...phoneMap}));
+    }
+  };
+
+  const loadJobCards = async (cursor?: string) => {
+    const isNextPage = !!cursor;
+    const requestId = ++latestRequestRef.current;
+
     try {
       const user = auth().currentUser;
       if (!user) {
@@ -91,105 +198,77 @@ export default function ServiceHistoryScreen({navigation}: any) {
         return;
       }
 
-      setLoading(true);
-      console.log('📋 Loading job cards for customer:', user.uid);
-
-      // Fetch job cards by customerId
-      let cardsByCustomerId = await getCustomerJobCards(user.uid);
-      console.log(`✅ Loaded ${cardsByCustomerId.length} job cards by customerId`);
-
-      // Note: Job cards are now fetched via API which handles filtering by customerId
-      // Phone number filtering is handled by the backend API
-
-      // Use job cards from API (backend handles filtering by customerId and phone)
-      const cards = cardsByCustomerId;
-      console.log(`📊 Total cards loaded: ${cards.length}`);
-
-      // Debug: Log unique status values
-      const uniqueStatuses = new Set(cards.map(card => card.status));
-      console.log('📊 Unique status values:', Array.from(uniqueStatuses));
-
-      // Debug: Count by status
-      const statusCounts = {
-        pending: cards.filter(c => c.status === 'pending').length,
-        accepted: cards.filter(c => c.status === 'accepted').length,
-        'in-progress': cards.filter(c => c.status === 'in-progress').length,
-        completed: cards.filter(c => c.status === 'completed').length,
-      };
-      console.log('📈 Status counts (raw):', statusCounts);
-
-      // Debug: Log all accepted cards details
-      const acceptedCards = cards.filter(c => c.status === 'accepted');
-      console.log('✅ Accepted cards:', acceptedCards.length);
-      acceptedCards.forEach((card, index) => {
-        console.log(`  ${index + 1}. ID: ${card.id}, Status: "${card.status}", Provider: ${card.providerName || 'N/A'}`);
+      if (isNextPage) {
+        setLoadingMore(true);
+      } else {
+        setLoading(true);
+      }
+      console.log('📋 Loading job cards for customer:', user.uid, cursor ? `(cursor: ${cursor})` : '');
+
+      // Status, service type and date filters are applied by the backend
+      const page = await getCustomerJobCardsPage({
+        status: filter === 'all' ? undefined : filter,
+        serviceType: serviceTypeFilter === 'all' ? undefined : serviceTypeFilter,
+        createdAfter: getDateRangeStart(dateFilter),
+        cursor,
+        limit: PAGE_SIZE,
       });
 
-      // Debug: Log normalized status counts
-      const normalizedCounts = {
-        pending: cards.filter(c => normalizeStatus(c.status) === 'pending').length,
-        accepted: cards.filter(c => normalizeStatus(c.status) === 'accepted').length,
-        'in-progress': cards.filter(c => normalizeStatus(c.status) === 'in-progress').length,
-        completed: cards.filter(c => normalizeStatus(c.status) === 'completed').length,
-      };
-      console.log('📊 Status counts (normalized):', normalizedCounts);
-
-      // Use job cards directly
-      const allCards = cards;
-      
-      // Sort by createdAt descending
-      allCards.sort((a, b) => {
-        const aTime = a.createdAt.getTime();
-        const bTime = b.createdAt.getTime();
-        return bTime - aTime;
+      // Ignore pages that belong to an older filter selection
+      if (requestId !== latestRequestRef.current) {
+        return;
+      }
+
+      console.log(`✅ Loaded ${page.items.length} job cards, hasMore: ${page.hasMore}`);
+
+      setJobCards(prev => {
+        if (!isNextPage) {
+          return page.items;
+        }
+        const existingIds = new Set(prev.map(card => card.id));
+        return [...prev, ...page.items.filter(card => !existingIds.has(card.id))];
       });
-      
-      // Fetch provider phones for all cards using API
-      const phoneMap: Record<string, string> = {};
-      const providerIds = new Set(allCards.map(card => card.providerId).filter(Boolean));
-      
-      await Promise.all(
-        Array.from(providerIds).map(async (providerId) => {
-          if (providerId) {
-            try {
-              const provider = await providersApi.getById(providerId);
-              if (provider) {
-                const phone = provider.phoneNumber || (provider as any).phone || (provider as any).primaryPhone;
-                if (phone) {
-                  phoneMap[providerId] = phone;
-                  console.log(`✅ Fetched phone for provider ${providerId}: ${phone}`);
-                }
-              } else {
-                console.warn(`Provider not found: ${providerId}`);
-              }
-            } catch (error) {
-              console.error(`Error fetching phone for provider ${providerId}:`, error);
-            }
-          }
-        })
-      );
-      console.log(`✅ Fetched ${Object.keys(phoneMap).length} provider phone numbers`);
-      setProviderPhones(phoneMap);
-      
-      console.log(`✅ Total cards to display: ${allCards.length}`);
-      setJobCards(allCards);
+      setNextCursor(page.nextCursor);
+      setHasMore(page.hasMore);
+      if (!isNextPage) {
+        setTotalCount(page.total);
+      }
+
+      loadProviderPhones(page.items);
     } catch (error: any) {
+      if (requestId !== latestRequestRef.current) {
+        return;
+      }
       console.error('❌ Error loading job cards:', error);
       setAlertModal({
         visible: true,
         title: t('common.error'),
-        message: error.message || t('serviceHistory.failedToLoad'),
+        message: getErrorMessage(error, 'serviceHistory.failedToLoad'),
         type: 'error',
       });
-      setJobCards([]);
+      if (!isNextPage) {
+        setJobCards([]);
+      }
     } finally {
-      setLoading(false);
-      setRefreshing(false);
+      if (requestId === latestRequestRef.current) {
+        setLoading(false);
+        setLoadingMore(false);
+        setRefreshing(false);
+        setHasLoaded(true);
+      }
+    }
+  };
+
+  const loadMoreJobCards = () => {
+    if (!hasMore || !nextCursor || loading || loadingMore) {
+      return;
     }
+    loadJobCards(nextCursor);
   };
 
   const onRefresh = () => {
     setRefreshing(true);
+    loadServiceCategories(true);
     loadJobCards();
   };
 
@@ -203,8 +282,8 @@ export default function ServiceHistoryScreen({navigation}: any) {
       
       if (provider) {
         setProviderDetails({
-          phone: provider.phoneNumber || (provider as any).phone || (provider as any).primaryPhone,
-          address: provider.location || (provider as any).address || (provider as any).homeAddress || (provider as any).officeAddress,
+          phone: getProviderPhone(provider),
+          address: provider.location || provider.address,
         });
       }
 
@@ -258,6 +337,40 @@ export default function ServiceHistoryScreen({navigation}: any) {
       });
   };
 
+  const startRebooking = (jobCard: JobCard, plan: RebookPlan) => {
+    saveBookingDraft(plan.draft);
+    console.log('🔁 Booking again from job card:', jobCard.id, plan.provider ? 'with previous provider' : 'open to all');
+    navigation.navigate('ServiceRequest', {
+      serviceType: plan.draft.serviceType,
+      provider: plan.provider || undefined,
+      unavailableProviderName: plan.providerUnavailable ? jobCard.providerName : undefined,
+    });
+  };
+
+  // Pre-fill a new booking from a past job; the customer reviews it before submitting
+  const handleBookAgain = async (jobCard: JobCard) => {
+    setRebookingId(jobCard.id);
+    try {
+      const plan = await planRebooking(jobCard);
+      // The draft is saved per category - ask before replacing an unfinished one
+      if (isOwnBookingDraft(bookingDrafts[plan.draft.serviceType], currentUser?.id)) {
+        setPendingRebook({jobCard, plan});
+        return;
+      }
+      startRebooking(jobCard, plan);
+    } catch (error: any) {
+      console.error('Error preparing booking again:', error);
+      setAlertModal({
+        visible: true,
+        title: t('common.error'),
+        message: getErrorMessage(error, 'serviceHistory.bookAgainError'),
+        type: 'error',
+      });
+    } finally {
+      setRebookingId(null);
+    }
+  };
+
   const handleReview = async (jobCard: JobCard) => {
     // Check if review exists
     const existingReview = await getJobCardReview(jobCard.id || '');
@@ -276,7 +389,7 @@ export default function ServiceHistoryScreen({navigation}: any) {
   };
 
   const getStatusColor = (status: string) => {
-    const normalizedStatus = normalizeStatus(status);
+    const normalizedStatus = normalizeServiceStatus(status);
     switch (normalizedStatus) {
       case 'completed':
         return '#34C759';
@@ -284,6 +397,8 @@ export default function ServiceHistoryScreen({navigation}: any) {
         return '#FF6B35';
       case 'accepted':
         return '#FF9500';
+      case 'cancelled':
+        return '#FF3B30';
       case 'pending':
         return '#8E8E93';
       default:
@@ -291,33 +406,8 @@ export default function ServiceHistoryScreen({navigation}: any) {
     }
   };
 
-  const normalizeStatus = (status: string): 'pending' | 'accepted' | 'in-progress' | 'completed' => {
-    const lowerStatus = status?.toLowerCase() || '';
-
-    // Completed statuses
-    if (lowerStatus === 'completed' || lowerStatus === 'done' || lowerStatus === 'finished') {
-      return 'completed';
-    }
-
-    // In-progress statuses
-    if (lowerStatus === 'in-progress' || lowerStatus === 'in progress' ||
-        lowerStatus === 'inprogress' || lowerStatus === 'active' ||
-        lowerStatus === 'ongoing' || lowerStatus === 'started') {
-      return 'in-progress';
-    }
-
-    // Accepted statuses
-    if (lowerStatus === 'accepted' || lowerStatus === 'confirmed' ||
-        lowerStatus === 'assigned' || lowerStatus === 'provider-accepted') {
-      return 'accepted';
-    }
-
-    // Everything else (pending, waiting, new, cancelled, etc.) is treated as pending
-    return 'pending';
-  };
-
   const getStatusText = (status: string) => {
-    const normalizedStatus = normalizeStatus(status);
+    const normalizedStatus = normalizeServiceStatus(status);
     switch (normalizedStatus) {
       case 'completed':
         return t('services.completed');
@@ -325,6 +415,8 @@ export default function ServiceHistoryScreen({navigation}: any) {
         return t('services.inProgress');
       case 'accepted':
         return t('services.accepted');
+      case 'cancelled':
+        return t('services.cancelled');
       case 'pending':
         return t('services.pending');
       default:
@@ -367,79 +459,37 @@ export default function ServiceHistoryScreen({navigation}: any) {
     }
   };
 
-  // Separate active and completed cards - compute before hooks
-  const activeCards = useMemo(() => 
-    jobCards.filter(card => 
-      ['pending', 'accepted', 'in-progress'].includes(card.status)
-    ), [jobCards]);
-  
-  const completedCards = useMemo(() => 
-    jobCards.filter(card => 
-      card.status === 'completed' || card.status === 'cancelled'
-    ), [jobCards]);
-
-  // Get unique service types from job cards
+  // Offer every known category, plus any legacy service types seen in loaded pages
   const availableServiceTypes = useMemo(() => {
-    const types = new Set(jobCards.map(card => card.serviceType).filter(Boolean));
+    const types = new Set([
+      ...serviceCategories.map(cat => cat.name),
+      ...jobCards.map(card => card.serviceType),
+    ].filter(Boolean));
     return Array.from(types).sort();
+  }, [serviceCategories, jobCards]);
+
+  // Group loaded occurrences under their series, placed where the series first appears
+  const historyRows = useMemo(() => {
+    const rows: HistoryRow[] = [];
+    const seriesRows = new Map<string, {type: 'series'; seriesId: string; jobCards: JobCard[]}>();
+    jobCards.forEach(jobCard => {
+      if (!jobCard.seriesId) {
+        rows.push({type: 'single', jobCard});
+        return;
+      }
+      const existing = seriesRows.get(jobCard.seriesId);
+      if (existing) {
+        existing.jobCards.push(jobCard);
+        return;
+      }
+      const row = {type: 'series' as const, seriesId: jobCard.seriesId, jobCards: [jobCard]};
+      seriesRows.set(jobCard.seriesId, row);
+      rows.push(row);
+    });
+    return rows;
   }, [jobCards]);
 
-  // Filter cards based on all selected filters
-  const filteredCards = useMemo(() => {
-    let filtered = jobCards;
-
-    // Status filter
-    switch (filter) {
-      case 'pending':
-        filtered = jobCards.filter(card => normalizeStatus(card.status) === 'pending');
-        break;
-      case 'accepted':
-        filtered = jobCards.filter(card => normalizeStatus(card.status) === 'accepted');
-        break;
-      case 'in-progress':
-        filtered = jobCards.filter(card => normalizeStatus(card.status) === 'in-progress');
-        break;
-      case 'completed':
-        filtered = jobCards.filter(card => normalizeStatus(card.status) === 'completed');
-        break;
-      default:
-        filtered = jobCards;
-    }
-
-    // Service type filter
-    if (serviceTypeFilter !== 'all') {
-      filtered = filtered.filter(card => card.serviceType === serviceTypeFilter);
-    }
-
-    // Date filter
-    if (dateFilter !== 'all') {
-      const now = new Date();
-      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      const weekAgo = new Date(today);
-      weekAgo.setDate(weekAgo.getDate() - 7);
-      const monthAgo = new Date(today);
-      monthAgo.setMonth(monthAgo.getMonth() - 1);
-
-      filtered = filtered.filter(card => {
-        const cardDate = card.createdAt instanceof Date ? card.createdAt : new Date(card.createdAt);
-        
-        switch (dateFilter) {
-          case 'today':
-            return cardDate >= today;
-          case 'week':
-            return cardDate >= weekAgo;
-          case 'month':
-            return cardDate >= monthAgo;
-          default:
-            return true;
-        }
-      });
-    }
-
-    return filtered;
-  }, [jobCards, filter, serviceTypeFilter, dateFilter]);
-
-  if (loading && !refreshing) {
+  if (loading && !refreshing && !hasLoaded) {
     return (
       <View style={[styles.container, styles.centerContent, {backgroundColor: theme.background}]}>
         <ActivityIndicator size="large" color={theme.primary} />
@@ -450,12 +500,9 @@ export default function ServiceHistoryScreen({navigation}: any) {
     );
   }
 
-  const allCount = jobCards.length;
-  const pendingCount = jobCards.filter(card => normalizeStatus(card.status) === 'pending').length;
-  const acceptedCount = jobCards.filter(card => normalizeStatus(card.status) === 'accepted').length;
-  const inProgressCount = jobCards.filter(card => normalizeStatus(card.status) === 'in-progress').length;
-  const completedCount = jobCards.filter(card => normalizeStatus(card.status) === 'completed').length;
-  const filteredCount = filteredCards.length;
+  // Only the active chip has a known total once results are paginated
+  const getChipCount = (value: FilterType) =>
+    filter === value && totalCount !== undefined ? ` (${totalCount})` : '';
 
   const getSelectedServiceTypeName = () => {
     if (serviceTypeFilter === 'all') return t('serviceHistory.allServices');
@@ -499,7 +546,7 @@ export default function ServiceHistoryScreen({navigation}: any) {
             </Text>
 
             {/* Show provider phone for accepted and in-progress status */}
-            {(normalizeStatus(jobCard.status) === 'accepted' || normalizeStatus(jobCard.status) === 'in-progress') &&
+            {(normalizeServiceStatus(jobCard.status) === 'accepted' || normalizeServiceStatus(jobCard.status) === 'in-progress') &&
              providerPhones[jobCard.providerId] && (
               <View style={styles.providerPhoneRow}>
                 <Icon name="phone" size={14} color={theme.primary} />
@@ -518,14 +565,14 @@ export default function ServiceHistoryScreen({navigation}: any) {
             )}
 
             {/* Show PIN for in-progress status */}
-            {normalizeStatus(jobCard.status) === 'in-progress' && (jobCard as any).taskPIN && (
+            {normalizeServiceStatus(jobCard.status) === 'in-progress' && jobCard.taskPIN && (
               <View style={[styles.pinDisplayCard, {backgroundColor: theme.primary + '15', borderColor: theme.primary}]}>
                 <Icon name="lock" size={16} color={theme.primary} />
                 <Text style={[styles.pinLabel, {color: theme.textSecondary}]}>
                   {t('jobCard.yourVerificationPIN')}
                 </Text>
                 <Text style={[styles.pinValue, {color: theme.primary}]}>
-                  {(jobCard as any).taskPIN}
+                  {jobCard.taskPIN}
                 </Text>
                 <Text style={[styles.pinInstruction, {color: theme.textSecondary}]}>
                   {t('jobCard.sharePIN')}
@@ -621,6 +668,24 @@ export default function ServiceHistoryScreen({navigation}: any) {
             <Text style={styles.reviewButtonText}>{t('jobCard.review')}</Text>
           </TouchableOpacity>
         )}
+        {(jobCard.status === 'completed' || jobCard.status === 'cancelled') && (
+          <TouchableOpacity
+            style={styles.bookAgainButton}
+            disabled={rebookingId !== null}
+            onPress={(e) => {
+              e.stopPropagation();
+              handleBookAgain(jobCard);
+            }}>
+            {rebookingId === jobCard.id ? (
+              <ActivityIndicator size="small" color={theme.primary} />
+            ) : (
+              <Icon name="replay" size={16} color={theme.primary} />
+            )}
+            <Text style={[styles.bookAgainButtonText, {color: theme.primary}]}>
+              {t('serviceHistory.bookAgain')}
+            </Text>
+          </TouchableOpacity>
+        )}
         <TouchableOpacity style={styles.viewButton}>
           <Text style={[styles.viewButtonText, {color: theme.primary}]}>
             {t('jobCard.viewDetails')}
@@ -631,6 +696,34 @@ export default function ServiceHistoryScreen({navigation}: any) {
     </TouchableOpacity>
   );
 
+  const renderSeries = (seriesId: string, seriesJobCards: JobCard[]) => (
+    <View key={seriesId} style={[styles.seriesGroup, {borderColor: theme.primary + '40'}]}>
+      <View style={styles.seriesHeader}>
+        <View style={[styles.serviceTypeChip, {backgroundColor: theme.primary + '20'}]}>
+          <Text style={[styles.serviceTypeChipText, {color: theme.primary}]}>
+            {t('recurrence.recurring')}
+          </Text>
+        </View>
+        <Text style={[styles.seriesCount, {color: theme.textSecondary}]}>
+          {t('recurrence.visitCount', {count: seriesJobCards.length})}
+        </Text>
+        <TouchableOpacity
+          style={styles.viewButton}
+          onPress={() => navigation.navigate('BookingSeries', {seriesId})}>
+          <Text style={[styles.viewButtonText, {color: theme.primary}]}>
+            {t('recurrence.manageSeries')}
+          </Text>
+          <Icon name="chevron-right" size={20} color={theme.primary} />
+        </TouchableOpacity>
+      </View>
+      {seriesJobCards.map(renderServiceCard)}
+    </View>
+  );
+
+  const completedServiceTimeline = selectedCompletedService
+    ? buildServiceTimeline(selectedServiceRequest, selectedCompletedService)
+    : [];
+
   return (
     <View style={[styles.container, {backgroundColor: theme.background}]}>
       {/* Header */}
@@ -656,7 +749,7 @@ export default function ServiceHistoryScreen({navigation}: any) {
                 styles.filterButtonText,
                 {color: filter === 'all' ? '#fff' : theme.text},
               ]}>
-              {t('common.all')} ({allCount})
+              {t('common.all')}{getChipCount('all')}
             </Text>
           </TouchableOpacity>
           <TouchableOpacity
@@ -671,7 +764,7 @@ export default function ServiceHistoryScreen({navigation}: any) {
                 styles.filterButtonText,
                 {color: filter === 'pending' ? '#fff' : theme.text},
               ]}>
-              {t('services.pending')} ({pendingCount})
+              {t('services.pending')}{getChipCount('pending')}
             </Text>
           </TouchableOpacity>
           <TouchableOpacity
@@ -686,7 +779,7 @@ export default function ServiceHistoryScreen({navigation}: any) {
                 styles.filterButtonText,
                 {color: filter === 'accepted' ? '#fff' : theme.text},
               ]}>
-              {t('services.accepted')} ({acceptedCount})
+              {t('services.accepted')}{getChipCount('accepted')}
             </Text>
           </TouchableOpacity>
           <TouchableOpacity
@@ -701,7 +794,7 @@ export default function ServiceHistoryScreen({navigation}: any) {
                 styles.filterButtonText,
                 {color: filter === 'in-progress' ? '#fff' : theme.text},
               ]}>
-              {t('services.inProgress')} ({inProgressCount})
+              {t('services.inProgress')}{getChipCount('in-progress')}
             </Text>
           </TouchableOpacity>
           <TouchableOpacity
@@ -716,7 +809,7 @@ export default function ServiceHistoryScreen({navigation}: any) {
                 styles.filterButtonText,
                 {color: filter === 'completed' ? '#fff' : theme.text},
               ]}>
-              {t('services.completed')} ({completedCount})
+              {t('services.completed')}{getChipCount('completed')}
             </Text>
           </TouchableOpacity>
         </ScrollView>
@@ -760,7 +853,11 @@ export default function ServiceHistoryScreen({navigation}: any) {
       </View>
 
       {/* Service Cards List */}
-      {filteredCards.length === 0 ? (
+      {loading && !refreshing ? (
+        <View style={styles.emptyContainer}>
+          <ActivityIndicator size="large" color={theme.primary} />
+        </View>
+      ) : jobCards.length === 0 ? (
         <View style={styles.emptyContainer}>
           <Icon
             name={filter === 'pending' ? 'schedule' : filter === 'accepted' ? 'check-circle' : filter === 'completed' ? 'check-circle' : 'history'}
@@ -788,10 +885,21 @@ export default function ServiceHistoryScreen({navigation}: any) {
         </View>
       ) : (
         <FlatList
-          data={filteredCards}
-          keyExtractor={(item) => item.id || ''}
-          renderItem={({item}) => renderServiceCard(item)}
+          data={historyRows}
+          keyExtractor={(item) => (item.type === 'series' ? `series-${item.seriesId}` : item.jobCard.id || '')}
+          renderItem={({item}) =>
+            item.type === 'series' ? renderSeries(item.seriesId, item.jobCards) : renderServiceCard(item.jobCard)
+          }
           contentContainerStyle={styles.listContent}
+          onEndReached={loadMoreJobCards}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            loadingMore ? (
+              <View style={styles.listFooter}>
+                <ActivityIndicator size="small" color={theme.primary} />
+              </View>
+            ) : null
+          }
           refreshControl={
             <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
           }
@@ -941,6 +1049,22 @@ export default function ServiceHistoryScreen({navigation}: any) {
         onClose={() => setAlertModal({...alertModal, visible: false})}
       />
 
+      <ConfirmationModal
+        visible={!!pendingRebook}
+        title={t('serviceHistory.replaceDraftTitle')}
+        message={t('serviceHistory.replaceDraftMessage', {serviceType: pendingRebook?.plan.draft.serviceType || ''})}
+        confirmText={t('serviceHistory.replaceDraft')}
+        cancelText={t('serviceHistory.keepDraft')}
+        type="warning"
+        onConfirm={() => {
+          if (pendingRebook) {
+            startRebooking(pendingRebook.jobCard, pendingRebook.plan);
+          }
+          setPendingRebook(null);
+        }}
+        onCancel={() => setPendingRebook(null)}
+      />
+
       {/* Completed Service Details Modal */}
       <Modal
         visible={showCompletedServiceModal}
@@ -1046,6 +1170,19 @@ export default function ServiceHistoryScreen({navigation}: any) {
                     </View>
                   )}
 
+                  {/* Progress Card */}
+                  {completedServiceTimeline.length > 0 && (
+                    <View style={[styles.detailCard, {backgroundColor: theme.background}]}>
+                      <View style={styles.detailCardHeader}>
+                        <Icon name="timeline" size={24} color={theme.primary} />
+                        <Text style={[styles.detailCardTitle, {color: theme.text}]}>
+                          {t('timeline.title')}
+                        </Text>
+                      </View>
+                      <ServiceTimeline events={completedServiceTimeline} />
+                    </View>
+                  )}
+
                   {/* Review Card */}
                   {providerReview && (
                     <View style={[styles.detailCard, {backgroundColor: theme.background}]}>
@@ -1154,6 +1291,20 @@ export default function ServiceHistoryScreen({navigation}: any) {
                           )}
                         </View>
                       )}
+                      {selectedCompletedService.priceEstimate && (() => {
+                        const estimate = selectedCompletedService.priceEstimate;
+                        const comparison = compareWithEstimate(estimate, getBillTotal(selectedCompletedService));
+                        return (
+                          <Text style={[styles.materialsBreakdownText, {color: theme.textSecondary}]}>
+                            {String(t('serviceHistory.estimate'))}: ₹{estimate.min} – ₹{estimate.max} ·{' '}
+                            {comparison === 'below'
+                              ? t('serviceHistory.billBelowEstimate')
+                              : comparison === 'above'
+                              ? t('serviceHistory.billAboveEstimate')
+                              : t('serviceHistory.billWithinEstimate')}
+                          </Text>
+                        );
+                      })()}
                     </View>
                   ) : null}
 
@@ -1237,6 +1388,10 @@ const styles = StyleSheet.create({
   listContent: {
     padding: 16,
   },
+  listFooter: {
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
   centerContent: {
     alignItems: 'center',
     justifyContent: 'center',
@@ -1277,6 +1432,24 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.1,
     shadowRadius: 3,
   },
+  seriesGroup: {
+    marginHorizontal: 8,
+    marginTop: 10,
+    paddingBottom: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  seriesHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 10,
+  },
+  seriesCount: {
+    flex: 1,
+    fontSize: 13,
+  },
   jobCardHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1426,6 +1599,15 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#FFD700',
   },
+  bookAgainButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  bookAgainButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
   viewButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -4,7 +4,7 @@
  * Simple flow: Select service → Describe problem → Choose address → Submit
  */
 
-import React, {useState, useEffect} from 'react';
+import React, {useState, useEffect, useMemo, useRef} from 'react';
 import {
   View,
   Text,
@@ -15,15 +15,15 @@ import {
   ActivityIndicator,
   Modal,
   FlatList,
-  Image,
+  Switch,
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import {launchImageLibrary} from 'react-native-image-picker';
-import DateTimePicker from '@react-native-community/datetimepicker';
 import auth from '@react-native-firebase/auth';
 import messaging from '@react-native-firebase/messaging';
 import firestore from '@react-native-firebase/firestore';
-import {useStore} from '../store';
+import NetInfo from '@react-native-community/netinfo';
+import {useStore, isOwnBookingDraft, type BookingDraft} from '../store';
 import {lightTheme, darkTheme} from '../utils/theme';
 import {fetchServiceCategories, ServiceCategory, QuestionnaireQuestion, DEFAULT_SERVICE_CATEGORIES} from '../services/serviceCategoriesService';
 import GeolocationService from '../services/geolocationService';
@@ -36,29 +36,77 @@ import {
   type SavedAddress,
 } from '../services/addressService';
 import type {UserLocation} from '../types/common';
+import type {OnBehalfContact} from '../types/domain';
 import WebSocketService from '../services/websocketService';
 import Toast from '../components/Toast';
 import useTranslation from '../hooks/useTranslation';
+import {getErrorMessage} from '../utils/errorMessages';
 import AlertModal from '../components/AlertModal';
 import ConfirmationModal from '../components/ConfirmationModal';
-import {serviceRequestsApi} from '../services/api/serviceRequestsApi';
+import {serviceRequestsApi, DIRECT_BOOKING_RESPONSE_MS} from '../services/api/serviceRequestsApi';
 import {usersApi} from '../services/api/usersApi';
-import {providersApi} from '../services/api/providersApi';
+import {providersApi, type Provider} from '../services/api/providersApi';
+import {MAX_QUOTE_PROVIDERS} from '../services/api/quotesApi';
+import {RequestQueuedError} from '../services/api/offlineQueue';
+import OfflineQueueStatus from '../components/OfflineQueueStatus';
+import SlotPickerModal from '../components/SlotPickerModal';
+import {useSlotHold} from '../hooks/useSlotHold';
+import type {AvailabilitySlot} from '../services/api/availabilityApi';
+import PriceEstimateCard from '../components/PriceEstimateCard';
+import {estimatePrice} from '../utils/priceEstimate';
+import RecurrencePicker, {type RecurrenceSettings} from '../components/RecurrencePicker';
+import {validateRecurrenceRule} from '../utils/recurrence';
+import QuestionnaireForm from '../components/QuestionnaireForm';
+import BookingDraftsCard from '../components/BookingDraftsCard';
+import MediaThumbnail from '../components/MediaThumbnail';
+import OnBehalfOfSection, {validateOnBehalfContact} from '../components/OnBehalfOfSection';
+import {useMediaUpload} from '../hooks/useMediaUpload';
+import {MEDIA_PICKER_OPTIONS, uploadMediaBatch} from '../services/mediaUploadService';
+import {
+  getSubmittableAnswers,
+  validateAnswers,
+  type QuestionnaireAnswers,
+} from '../utils/questionnaire';
+
+// Wait for a pause in typing before saving the draft
+const DRAFT_SAVE_DELAY_MS = 1000;
 
 interface ServiceRequestScreenProps {
   navigation: any;
   route?: {
     params?: {
       serviceType?: string;
+      // Booking a provider chosen on ProviderDetails (or the one from a past job)
+      provider?: Provider;
+      // Booking a past job again whose provider cannot take it right now
+      unavailableProviderName?: string;
     };
   };
 }
 
+// Categories the chosen provider can be booked for
+const getProviderCategoryNames = (provider: Provider): string[] => {
+  if (provider.serviceCategories && provider.serviceCategories.length > 0) {
+    return provider.serviceCategories;
+  }
+  const specialization = provider.specialization || provider.specialty;
+  return specialization ? [specialization] : [];
+};
+
 export default function ServiceRequestScreen({
   navigation,
   route,
 }: ServiceRequestScreenProps) {
-  const {isDarkMode, currentUser, currentPincode, language} = useStore();
+  const {
+    isDarkMode,
+    currentUser,
+    currentPincode,
+    language,
+    bookingDrafts,
+    saveBookingDraft,
+    clearBookingDraft,
+    setRedirectAfterLogin,
+  } = useStore();
   const theme = isDarkMode ? darkTheme : lightTheme;
   const {t} = useTranslation();
   
@@ -70,22 +118,6 @@ export default function ServiceRequestScreen({
     return q.question;
   };
 
-  // Helper function to get placeholder text based on language preference
-  const getPlaceholderText = (q: QuestionnaireQuestion, defaultPlaceholder: string): string => {
-    if (language === 'hi' && q.placeholderHi) {
-      return q.placeholderHi;
-    }
-    return q.placeholder || defaultPlaceholder;
-  };
-
-  // Helper function to get options based on language preference
-  const getOptions = (q: QuestionnaireQuestion): string[] => {
-    if (language === 'hi' && q.optionsHi && q.optionsHi.length > 0) {
-      return q.optionsHi;
-    }
-    return q.options || [];
-  };
-
   const [serviceCategories, setServiceCategories] = useState<ServiceCategory[]>([]);
   const [providerCounts, setProviderCounts] = useState<Record<string, number>>({});
   const [loadingProviderCounts, setLoadingProviderCounts] = useState(false);
@@ -94,13 +126,19 @@ export default function ServiceRequestScreen({
   );
   const [selectedCategory, setSelectedCategory] = useState<ServiceCategory | null>(null);
   const [questionnaire, setQuestionnaire] = useState<QuestionnaireQuestion[]>([]);
-  const [questionnaireAnswers, setQuestionnaireAnswers] = useState<Record<string, any>>({});
+  const [questionnaireAnswers, setQuestionnaireAnswers] = useState<QuestionnaireAnswers>({});
+  const [questionnaireErrors, setQuestionnaireErrors] = useState<Record<string, string>>({});
   const [problem, setProblem] = useState('');
   const [selectedAddress, setSelectedAddress] = useState<UserLocation | null>(null);
   const [urgency, setUrgency] = useState<'immediate' | 'scheduled'>('immediate');
   const [scheduledDate, setScheduledDate] = useState<Date | null>(null);
   const [scheduledTime, setScheduledTime] = useState<string>('');
-  const [photos, setPhotos] = useState<string[]>([]);
+  const [recurrence, setRecurrence] = useState<RecurrenceSettings | null>(null);
+  const [onBehalfOf, setOnBehalfOf] = useState<OnBehalfContact | null>(null);
+  const [requestQuotes, setRequestQuotes] = useState(false);
+  // Only this provider is notified; null sends the request to everyone
+  const [targetProvider, setTargetProvider] = useState<Provider | null>(route?.params?.provider || null);
+  const media = useMediaUpload();
   const [loading, setLoading] = useState(false);
   const [loadingCategories, setLoadingCategories] = useState(true);
   const [showServiceTypeModal, setShowServiceTypeModal] = useState(false);
@@ -123,10 +161,9 @@ export default function ServiceRequestScreen({
   const [showToast, setShowToast] = useState(false);
   const [toastMessage, setToastMessage] = useState('');
   const [submittedServiceRequestId, setSubmittedServiceRequestId] = useState<string | null>(null);
-  const [showDateTimeModal, setShowDateTimeModal] = useState(false);
-  const [showDatePicker, setShowDatePicker] = useState(false);
-  const [showTimePicker, setShowTimePicker] = useState(false);
-  const [tempScheduledDate, setTempScheduledDate] = useState<Date>(new Date());
+  const [showSlotPicker, setShowSlotPicker] = useState(false);
+  // Set once the request is created so a pending auto-save doesn't bring the draft back
+  const draftSubmittedRef = useRef(false);
   const [alertModal, setAlertModal] = useState<{
     visible: boolean;
     title: string;
@@ -152,11 +189,60 @@ export default function ServiceRequestScreen({
     type: 'info',
   });
 
+  // Recomputed as answers, urgency and the visit time change
+  const priceEstimate = useMemo(
+    () =>
+      estimatePrice(selectedCategory?.rateCard, questionnaire, {
+        answers: questionnaireAnswers,
+        urgency,
+        scheduledTime: scheduledDate,
+      }),
+    [selectedCategory, questionnaire, questionnaireAnswers, urgency, scheduledDate],
+  );
+
+  // A chosen provider can only be booked for the categories they offer
+  const bookableCategories = useMemo(() => {
+    if (!targetProvider) {
+      return serviceCategories;
+    }
+    const providerCategoryNames = getProviderCategoryNames(targetProvider);
+    const offered = serviceCategories.filter(cat => providerCategoryNames.includes(cat.name));
+    return offered.length > 0 ? offered : serviceCategories;
+  }, [serviceCategories, targetProvider]);
+
+  // Scheduled bookings hold their slot until the form is submitted
+  const slotHold = useSlotHold(() => {
+    setScheduledDate(null);
+    setAlertModal({
+      visible: true,
+      title: t('serviceRequest.slotHoldExpired'),
+      message: t('serviceRequest.slotHoldExpiredMessage'),
+      type: 'warning',
+    });
+  });
+
   useEffect(() => {
     loadServiceCategories();
     loadSavedAddresses();
   }, []);
 
+  // A held slot only applies to the service, area and urgency it was picked for
+  useEffect(() => {
+    if (slotHold.hold) {
+      slotHold.release();
+      setScheduledDate(null);
+    }
+  }, [selectedServiceType, selectedAddress?.pincode, urgency]);
+
+  // Auto-save the form as a draft for the selected category
+  useEffect(() => {
+    if (!selectedServiceType) {
+      return;
+    }
+    const timer = setTimeout(saveDraft, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [selectedServiceType, questionnaireAnswers, problem, selectedAddress, urgency, recurrence, onBehalfOf, media.items]);
+
   useEffect(() => {
     // Load provider counts when service categories are loaded
     if (serviceCategories.length > 0) {
@@ -227,14 +313,14 @@ export default function ServiceRequestScreen({
       let categories;
       try {
         categories = await Promise.race([
-          fetchServiceCategories(),
+          fetchServiceCategories({onUpdate: setServiceCategories}),
           timeoutPromise,
         ]);
       } catch (timeoutError: any) {
         // On timeout, try once more with a shorter timeout
         console.warn('First attempt timed out, retrying...');
         categories = await Promise.race([
-          fetchServiceCategories(),
+          fetchServiceCategories({onUpdate: setServiceCategories}),
           new Promise<never>((_, reject) => {
             setTimeout(() => reject(new Error('Timeout loading service categories')), 15000);
           }),
@@ -244,8 +330,20 @@ export default function ServiceRequestScreen({
       setServiceCategories(categories);
 
       // If service type was pre-selected, load its questionnaire
+      // (or the draft left for it, e.g. when coming back from Login)
       if (route?.params?.serviceType) {
         const category = categories.find(cat => cat.name === route.params.serviceType);
+        const state = useStore.getState();
+        const draft = state.bookingDrafts[route.params.serviceType];
+        if (category && draft && isOwnBookingDraft(draft, state.currentUser?.id)) {
+          restoreDraft(category, draft);
+        } else if (category) {
+          handleSelectServiceType(category);
+        }
+      } else if (targetProvider) {
+        // Pre-fill the category from what the chosen provider offers
+        const providerCategoryNames = getProviderCategoryNames(targetProvider);
+        const category = categories.find(cat => providerCategoryNames.includes(cat.name));
         if (category) {
           handleSelectServiceType(category);
         }
@@ -280,7 +378,8 @@ export default function ServiceRequestScreen({
     const count = providerCounts[category.name] || 0;
     
     // Check if provider count is zero
-    if (count === 0) {
+    // (a chosen provider was online when they were picked)
+    if (count === 0 && !targetProvider) {
       const serviceName = language === 'hi' && category.nameHi ? category.nameHi : category.name;
       const messageTemplate = String(t('services.providerNotAvailableMessage'));
       const message = messageTemplate.replace('{{serviceType}}', serviceName);
@@ -293,18 +392,97 @@ export default function ServiceRequestScreen({
       return;
     }
     
+    const draft = bookingDrafts[category.name];
+    if (draft && isOwnBookingDraft(draft, currentUser?.id)) {
+      restoreDraft(category, draft);
+      setShowServiceTypeModal(false);
+      return;
+    }
+
     setSelectedServiceType(category.name);
     setSelectedCategory(category);
     setQuestionnaire(category.questionnaire || []);
     setQuestionnaireAnswers({});
+    setRequestQuotes(false);
+    setQuestionnaireErrors({});
     setShowServiceTypeModal(false);
   };
 
+  const restoreDraft = (category: ServiceCategory, draft: BookingDraft) => {
+    console.log('📝 Restoring booking draft for', category.name);
+    setSelectedServiceType(category.name);
+    setSelectedCategory(category);
+    setQuestionnaire(category.questionnaire || []);
+    setQuestionnaireAnswers(draft.questionnaireAnswers);
+    setRequestQuotes(false);
+    setQuestionnaireErrors({});
+    setProblem(draft.problem);
+    if (draft.address) {
+      setSelectedAddress(draft.address);
+    }
+    setUrgency(draft.urgency);
+    setRecurrence(draft.recurrence);
+    setOnBehalfOf(draft.onBehalfOf ?? null);
+    media.reset(draft.photos);
+  };
+
+  const handleResumeDraft = (draft: BookingDraft) => {
+    const category = serviceCategories.find(cat => cat.name === draft.serviceType);
+    if (category) {
+      restoreDraft(category, draft);
+    }
+  };
+
+  const saveDraft = () => {
+    if (!selectedServiceType || draftSubmittedRef.current) {
+      return;
+    }
+    const hasContent =
+      Object.keys(questionnaireAnswers).length > 0 || problem.trim().length > 0 || media.items.length > 0;
+    if (!hasContent) {
+      // Nothing worth resuming - don't keep an empty draft around
+      clearBookingDraft(selectedServiceType);
+      return;
+    }
+    saveBookingDraft({
+      serviceType: selectedServiceType,
+      questionnaireAnswers,
+      problem,
+      address: selectedAddress,
+      urgency,
+      recurrence,
+      onBehalfOf,
+      photos: media.uris,
+    });
+  };
+
+  // Save the draft now and come back to it once the user has logged in
+  const redirectToLogin = () => {
+    saveDraft();
+    setRedirectAfterLogin(
+      selectedServiceType || targetProvider
+        ? {
+            route: 'ServiceRequest',
+            params: {serviceType: selectedServiceType || undefined, provider: targetProvider || undefined},
+          }
+        : null,
+    );
+    navigation.navigate('Login');
+  };
+
   const handleQuestionnaireAnswer = (questionId: string, answer: any) => {
     setQuestionnaireAnswers(prev => ({
       ...prev,
       [questionId]: answer,
     }));
+    // Clear the question's error once it is edited
+    setQuestionnaireErrors(prev => {
+      if (!prev[questionId]) {
+        return prev;
+      }
+      const {[questionId]: _cleared, ...rest} = prev;
+      return rest;
+    });
   };
 
   // Helper function to clean address object (remove undefined and null values)
@@ -722,19 +900,16 @@ export default function ServiceRequestScreen({
   const handleAddPhoto = async () => {
     try {
       const result = await launchImageLibrary({
-        mediaType: 'photo',
-        quality: 0.8,
-        selectionLimit: 3 - photos.length,
+        ...MEDIA_PICKER_OPTIONS,
+        selectionLimit: 3 - media.items.length,
       });
 
       if (result.didCancel || !result.assets || result.assets.length === 0) {
         return;
       }
 
-      const newPhotos = result.assets
-        .filter(asset => asset.uri)
-        .map(asset => asset.uri!);
-      setPhotos([...photos, ...newPhotos]);
+      // Uploaded with the request, once the customer is signed in
+      media.add(result.assets.filter(asset => asset.uri).map(asset => asset.uri!));
     } catch (error) {
       setAlertModal({
         visible: true,
@@ -745,10 +920,42 @@ export default function ServiceRequestScreen({
     }
   };
 
-  const handleRemovePhoto = (index: number) => {
-    setPhotos(photos.filter((_, i) => i !== index));
+  // Photo answers are picked as local files too
+  const uploadPhotoAnswers = async (answers: QuestionnaireAnswers, folder: string) => {
+    const uploaded = {...answers};
+    for (const question of questionnaire.filter(q => q.type === 'photo')) {
+      if (Array.isArray(answers[question.id]) && answers[question.id].length > 0) {
+        uploaded[question.id] = await uploadMediaBatch(answers[question.id], {folder});
+      }
+    }
+    return uploaded;
+  };
+
+  const handleOpenSlotPicker = () => {
+    if (!selectedServiceType || !selectedAddress?.pincode) {
+      setAlertModal({
+        visible: true,
+        title: t('serviceRequest.chooseSlot'),
+        message: t('serviceRequest.slotNeedsDetails'),
+        type: 'info',
+      });
+      return;
+    }
+    setShowSlotPicker(true);
+  };
+
+  const handleSelectSlot = async (slot: AvailabilitySlot) => {
+    await slotHold.holdSlot(slot, {
+      serviceType: selectedServiceType,
+      pincode: selectedAddress!.pincode!,
+    });
+    setScheduledDate(slot.start);
+    setShowSlotPicker(false);
   };
 
+  const formatHoldTime = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
   const handleSubmit = async () => {
     if (!currentUser) {
       setAlertModal({
@@ -757,7 +964,7 @@ export default function ServiceRequestScreen({
         message: t('services.loginRequired'),
         type: 'warning',
       });
-      navigation.navigate('Login');
+      redirectToLogin();
       return;
     }
 
@@ -771,7 +978,21 @@ export default function ServiceRequestScreen({
         message: t('services.loginRequired'),
         type: 'warning',
       });
-      navigation.navigate('Login');
+      redirectToLogin();
+      return;
+    }
+
+    // Creating a request writes to Firestore, uploads photos and starts provider
+    // matching, none of which is replayed later - keep the draft and ask to reconnect
+    const network = await NetInfo.fetch();
+    if (!network.isConnected || network.isInternetReachable === false) {
+      saveDraft();
+      setAlertModal({
+        visible: true,
+        title: t('services.offlineSubmitTitle'),
+        message: t('services.offlineSubmitMessage'),
+        type: 'warning',
+      });
       return;
     }
 
@@ -843,24 +1064,31 @@ export default function ServiceRequestScreen({
 
     // Validate questionnaire answers
     if (questionnaire && questionnaire.length > 0) {
-      const missingAnswers = questionnaire
-        .filter(q => q.required)
-        .filter(q => {
-          const answer = questionnaireAnswers[q.id];
-          if (answer === undefined || answer === null || answer === '') {
-            return true;
-          }
-          if (Array.isArray(answer) && answer.length === 0) {
-            return true;
-          }
-          return false;
+      const errors = validateAnswers(questionnaire, questionnaireAnswers);
+      setQuestionnaireErrors(errors);
+      const invalidQuestions = questionnaire.filter(q => errors[q.id]);
+
+      if (invalidQuestions.length > 0) {
+        setAlertModal({
+          visible: true,
+          title: t('questionnaire.fixAnswers'),
+          message: `${t('questionnaire.fixAnswersMessage')}\n\n${invalidQuestions
+            .map(q => `• ${getQuestionText(q)}: ${errors[q.id]}`)
+            .join('\n')}`,
+          type: 'warning',
         });
+        return;
+      }
+    }
 
-      if (missingAnswers.length > 0) {
+    // Booking for someone else needs a contact the provider can reach
+    if (onBehalfOf) {
+      const contactError = validateOnBehalfContact(onBehalfOf, t);
+      if (contactError) {
         setAlertModal({
           visible: true,
-          title: t('common.requiredQuestions'),
-          message: `${t('common.requiredQuestions')}:\n\n${missingAnswers.map(q => `• ${getQuestionText(q)}`).join('\n')}`,
+          title: t('onBehalf.invalidContact'),
+          message: contactError,
           type: 'warning',
         });
         return;
@@ -898,6 +1126,20 @@ export default function ServiceRequestScreen({
       return;
     }
 
+    const recurrenceError =
+      urgency === 'scheduled' && scheduledDate && recurrence
+        ? validateRecurrenceRule({...recurrence, startDate: scheduledDate})
+        : null;
+    if (recurrenceError) {
+      setAlertModal({
+        visible: true,
+        title: t('recurrence.invalidRule'),
+        message: t(recurrenceError),
+        type: 'warning',
+      });
+      return;
+    }
+
     setLoading(true);
     try {
       // Ensure user is authenticated
@@ -909,7 +1151,7 @@ export default function ServiceRequestScreen({
           message: t('services.loginRequired'),
           type: 'warning',
         });
-        navigation.navigate('Login');
+        redirectToLogin();
         setLoading(false);
         return;
       }
@@ -957,22 +1199,92 @@ export default function ServiceRequestScreen({
         urgency: urgency,
       };
 
+      // The booker stays the customer (and gets the notifications);
+      // the provider calls and hands the PIN over to this contact
+      if (onBehalfOf) {
+        serviceRequestDataRaw.onBehalfOf = {
+          name: onBehalfOf.name.trim(),
+          phone: onBehalfOf.phone.replace(/\D/g, ''),
+          relationship: onBehalfOf.relationship,
+        };
+      }
+
+      // Booked directly - the chosen provider gets the first chance to respond
+      const targetProviderId = targetProvider ? targetProvider._id || targetProvider.id : undefined;
+      if (targetProvider && targetProviderId) {
+        serviceRequestDataRaw.targetProviderId = targetProviderId;
+        serviceRequestDataRaw.targetProviderName = targetProvider.name || targetProvider.displayName;
+        serviceRequestDataRaw.targetExpiresAt = new Date(Date.now() + DIRECT_BOOKING_RESPONSE_MS).toISOString();
+      }
+
+      // Quotes mode - only providers in the customer's pincode are asked to quote
+      const quotesMode = requestQuotes && !!selectedCategory?.quotesEnabled && !targetProviderId;
+      if (quotesMode) {
+        const pincodeProviders = await providersApi.getAll(
+          {
+            serviceType: selectedServiceType,
+            pincode: cleanAddress.pincode,
+            limit: MAX_QUOTE_PROVIDERS,
+          },
+          {forceRefresh: true},
+        );
+        const quoteProviderIds = pincodeProviders
+          .filter(p => p.approvalStatus === 'approved')
+          .map(p => p._id || p.id)
+          .filter((id): id is string => !!id)
+          .slice(0, MAX_QUOTE_PROVIDERS);
+
+        if (quoteProviderIds.length === 0) {
+          setAlertModal({
+            visible: true,
+            title: t('quotes.title'),
+            message: t('quotes.noProvidersForQuotes'),
+            type: 'warning',
+          });
+          setLoading(false);
+          return;
+        }
+        serviceRequestDataRaw.bookingMode = 'quotes';
+        serviceRequestDataRaw.quoteProviderIds = quoteProviderIds;
+      }
+
       // Handle scheduledTime
       if (urgency === 'scheduled' && scheduledDate) {
         serviceRequestDataRaw.scheduledTime = scheduledDate.toISOString();
+        serviceRequestDataRaw.slotHoldId = slotHold.hold?.id;
+
+        // Recurring booking - the scheduled date is the first visit
+        if (recurrence) {
+          serviceRequestDataRaw.recurrence = {
+            ...recurrence,
+            startDate: scheduledDate.toISOString(),
+            endDate: recurrence.endDate?.toISOString(),
+          };
+        }
       }
 
-      // Only include photos if there are any (filter out undefined/null/empty)
+      // Upload photos first - the request stores their download URLs
+      const photoFolder = `request_photos/${currentUser.id}`;
+      const photos = await media.upload(photoFolder);
       if (photos.length > 0) {
-        const validPhotos = photos.filter(photo => photo && photo !== undefined && photo !== null && photo !== '');
-        if (validPhotos.length > 0) {
-          serviceRequestDataRaw.photos = validPhotos;
-        }
+        serviceRequestDataRaw.photos = photos;
       }
 
       // Include questionnaire answers if available
-      if (questionnaire && questionnaire.length > 0 && Object.keys(questionnaireAnswers).length > 0) {
-        serviceRequestDataRaw.questionnaireAnswers = questionnaireAnswers;
+      const submittableAnswers = await uploadPhotoAnswers(
+        getSubmittableAnswers(questionnaire, questionnaireAnswers),
+        photoFolder,
+      );
+      if (questionnaire && questionnaire.length > 0 && Object.keys(submittableAnswers).length > 0) {
+        serviceRequestDataRaw.questionnaireAnswers = submittableAnswers;
+      }
+
+      // Kept with the request to compare against the final bill
+      if (priceEstimate) {
+        serviceRequestDataRaw.priceEstimate = {
+          ...priceEstimate,
+          estimatedAt: priceEstimate.estimatedAt.toISOString(),
+        };
       }
 
       // Remove all undefined values before saving
@@ -994,6 +1306,10 @@ export default function ServiceRequestScreen({
 
       const serviceRequestId = docRef.id;
       console.log('✅ Service request created in Firestore:', serviceRequestId);
+      // The booking now owns the slot
+      slotHold.consume();
+      draftSubmittedRef.current = true;
+      clearBookingDraft(selectedServiceType);
 
       // Also try to sync to MongoDB (optional, for backend consistency)
       try {
@@ -1004,75 +1320,125 @@ export default function ServiceRequestScreen({
         });
         console.log('✅ Service request also synced to MongoDB:', serviceRequestId);
       } catch (apiError: any) {
-        // MongoDB sync is optional - Firestore is primary
-        console.warn('⚠️ MongoDB sync failed (service request is in Firestore):', apiError.message);
+        if (apiError instanceof RequestQueuedError) {
+          // Offline queue replays the sync with the same idempotency key
+          console.log('📥 MongoDB sync queued until connectivity returns:', serviceRequestId);
+        } else {
+          // MongoDB sync is optional - Firestore is primary
+          console.warn('⚠️ MongoDB sync failed (service request is in Firestore):', apiError.message);
+        }
       }
 
-      // Notify nearby online providers via WebSocket
+      // Notify the chosen provider or the quoting providers directly; otherwise
+      // the server widens the search step by step until someone accepts
       try {
-        // Find online providers for this service type using API
-        const onlineProviders = await providersApi.getAll({
+        // Build WebSocket payload
+        const websocketPayload: any = {
+          consultationId: serviceRequestId,
+          id: serviceRequestId,
+          bookingId: serviceRequestId,
+          customerName: serviceRequestData.customerName,
+          patientName: serviceRequestData.customerName, // For backward compatibility
+          customerPhone: serviceRequestData.customerPhone,
+          patientPhone: serviceRequestData.customerPhone, // For backward compatibility
+          customerAddress: serviceRequestData.customerAddress,
+          patientAddress: serviceRequestData.customerAddress, // For backward compatibility
           serviceType: selectedServiceType,
-          isOnline: true,
-          limit: 50,
-        });
+          problem: problem.trim(),
+          scheduledTime: urgency === 'scheduled' && scheduledDate ? scheduledDate : new Date(),
+          consultationFee: 0, // Service requests don't have fees upfront
+        };
 
-        // Filter approved providers
-        const allProviderIds = onlineProviders
-          .filter(p => p.approvalStatus === 'approved')
-          .map(p => p._id || p.id)
-          .filter((id): id is string => !!id);
-
-        console.log(`📢 Notifying ${allProviderIds.length} provider(s) about service request: ${serviceRequestId}`);
-
-        // Emit WebSocket notification to each provider
-        const notificationPromises = Array.from(allProviderIds).map(providerId => {
-          console.log(`📤 Sending WebSocket notification to provider: ${providerId}`);
-          
-          // Build WebSocket payload
-          const websocketPayload: any = {
-            consultationId: serviceRequestId,
-            id: serviceRequestId,
-            bookingId: serviceRequestId,
-            customerName: serviceRequestData.customerName,
-            patientName: serviceRequestData.customerName, // For backward compatibility
-            customerPhone: serviceRequestData.customerPhone,
-            patientPhone: serviceRequestData.customerPhone, // For backward compatibility
-            customerAddress: serviceRequestData.customerAddress,
-            patientAddress: serviceRequestData.customerAddress, // For backward compatibility
-            serviceType: selectedServiceType,
-            problem: problem.trim(),
-            scheduledTime: urgency === 'scheduled' && scheduledDate ? scheduledDate : new Date(),
-            consultationFee: 0, // Service requests don't have fees upfront
-          };
+        // Providers reply with a quote instead of accepting
+        if (serviceRequestData.bookingMode === 'quotes') {
+          websocketPayload.bookingMode = 'quotes';
+        }
 
-          // Only include problem if it has a value AND there's no questionnaire
-          // If questionnaire exists, the problem field is optional and shouldn't be sent if empty
-          const hasQuestionnaire = questionnaire && questionnaire.length > 0 && Object.keys(questionnaireAnswers).length > 0;
-          const hasProblem = problem.trim().length > 0;
-          
-          if (hasProblem && !hasQuestionnaire) {
-            // Problem is required when no questionnaire
-            websocketPayload.problem = problem.trim();
-          } else if (hasProblem && hasQuestionnaire) {
-            // Problem is optional when questionnaire exists, only include if provided
-            websocketPayload.problem = problem.trim();
-          }
-          // If no problem and questionnaire exists, don't include problem field
+        // Who to call on site when booked for someone else
+        if (serviceRequestData.onBehalfOf) {
+          websocketPayload.onBehalfOf = serviceRequestData.onBehalfOf;
+          websocketPayload.contactName = serviceRequestData.onBehalfOf.name;
+          websocketPayload.contactPhone = serviceRequestData.onBehalfOf.phone;
+        }
 
-          // Include questionnaire answers if available
-          if (hasQuestionnaire) {
-            websocketPayload.questionnaireAnswers = serviceRequestData.questionnaireAnswers;
-          }
+        // Only include problem if it has a value AND there's no questionnaire
+        // If questionnaire exists, the problem field is optional and shouldn't be sent if empty
+        const hasQuestionnaire = questionnaire && questionnaire.length > 0 && Object.keys(questionnaireAnswers).length > 0;
+        const hasProblem = problem.trim().length > 0;
+        
+        if (hasProblem && !hasQuestionnaire) {
+          // Problem is required when no questionnaire
+          websocketPayload.problem = problem.trim();
+        } else if (hasProblem && hasQuestionnaire) {
+          // Problem is optional when questionnaire exists, only include if provided
+          websocketPayload.problem = problem.trim();
+        }
+        // If no problem and questionnaire exists, don't include problem field
+
+        // Include questionnaire answers if available
+        if (hasQuestionnaire) {
+          websocketPayload.questionnaireAnswers = serviceRequestData.questionnaireAnswers;
+        }
 
-          return WebSocketService.emitNewBooking(providerId, websocketPayload).catch(error => {
-            console.error(`Failed to notify provider ${providerId}:`, error);
-            // Don't fail the request if WebSocket notification fails
+        const notifyProviders = async (providerIds: string[]) => {
+          if (providerIds.length === 0) {
+            return;
+          }
+          console.log(`📢 Notifying ${providerIds.length} provider(s) about service request: ${serviceRequestId}`);
+
+          // Emit WebSocket notification to each provider
+          const notificationPromises = providerIds.map(providerId => {
+            console.log(`📤 Sending WebSocket notification to provider: ${providerId}`);
+            return WebSocketService.emitNewBooking(providerId, websocketPayload).catch(error => {
+              console.error(`Failed to notify provider ${providerId}:`, error);
+              // Don't fail the request if WebSocket notification fails
+            });
           });
-        });
 
-        await Promise.all(notificationPromises);
-        console.log(`✅ Notified ${allProviderIds.length} online provider(s) about new service request`);
+          await Promise.all(notificationPromises);
+          console.log(`✅ Notified ${providerIds.length} provider(s) about new service request`);
+        };
+
+        if (targetProviderId) {
+          await notifyProviders([targetProviderId]);
+        } else if (serviceRequestData.quoteProviderIds) {
+          await notifyProviders(serviceRequestData.quoteProviderIds);
+        } else {
+          // Not awaited - a slow push server must not hold up the submit
+          WebSocketService.startMatching({
+            serviceRequestId,
+            customerId: currentUser.id,
+            serviceType: selectedServiceType,
+            customerLocation:
+              cleanAddress.latitude !== undefined && cleanAddress.longitude !== undefined
+                ? {latitude: cleanAddress.latitude, longitude: cleanAddress.longitude}
+                : undefined,
+            bookingData: websocketPayload,
+          })
+            .then(async matchingStarted => {
+              if (matchingStarted) {
+                console.log(`🔎 Matching started for service request: ${serviceRequestId}`);
+                return;
+              }
+              // Server could not run the search - tell every online provider at once
+              const onlineProviders = await providersApi.getAll({
+                serviceType: selectedServiceType,
+                isOnline: true,
+                limit: 50,
+              }, {forceRefresh: true});
+
+              // Filter approved providers
+              await notifyProviders(
+                onlineProviders
+                  .filter(p => p.approvalStatus === 'approved')
+                  .map(p => p._id || p.id)
+                  .filter((id): id is string => !!id),
+              );
+            })
+            .catch(error => {
+              console.error('Error notifying providers via WebSocket:', error);
+            });
+        }
       } catch (websocketError) {
         console.error('Error notifying providers via WebSocket:', websocketError);
         // Don't fail the request if WebSocket notification fails
@@ -1080,13 +1446,19 @@ export default function ServiceRequestScreen({
 
       // Show toast notification
       setSubmittedServiceRequestId(serviceRequestId);
-      setToastMessage('Your service request has been submitted. Nearby providers will be notified.');
+      setToastMessage(
+        serviceRequestData.targetProviderName
+          ? t('serviceRequest.sentToProvider', {name: serviceRequestData.targetProviderName})
+          : serviceRequestData.quoteProviderIds
+            ? t('quotes.quotesRequested', {count: serviceRequestData.quoteProviderIds.length})
+            : 'Your service request has been submitted. Nearby providers will be notified.',
+      );
       setShowToast(true);
       
-      // Navigate to ActiveService after a short delay
+      // Navigate to ActiveService (or the quotes comparison) after a short delay
       setTimeout(() => {
         if (serviceRequestId) {
-          navigation.navigate('ActiveService', {
+          navigation.navigate(serviceRequestData.quoteProviderIds ? 'Quotes' : 'ActiveService', {
             serviceRequestId: serviceRequestId,
           });
           setSubmittedServiceRequestId(null);
@@ -1096,7 +1468,7 @@ export default function ServiceRequestScreen({
       setAlertModal({
         visible: true,
         title: t('common.error'),
-        message: error.message || t('services.submitError'),
+        message: getErrorMessage(error, 'services.submitError'),
         type: 'error',
       });
     } finally {
@@ -1118,6 +1490,52 @@ export default function ServiceRequestScreen({
         </Text>
       </View>
 
+      {/* Requests saved while offline */}
+      <OfflineQueueStatus />
+
+      {/* Unfinished bookings */}
+      {!selectedServiceType && (
+        <BookingDraftsCard categories={serviceCategories} onResume={handleResumeDraft} />
+      )}
+
+      {/* Booking a chosen provider */}
+      {targetProvider && (
+        <View style={[styles.section, styles.targetProviderCard, {backgroundColor: theme.card, borderColor: theme.primary}]}>
+          <View style={styles.targetProviderHeader}>
+            <Icon name="person" size={24} color={theme.primary} />
+            <Text style={[styles.targetProviderName, {color: theme.text}]}>
+              {t('serviceRequest.bookingProvider', {name: targetProvider.name || targetProvider.displayName})}
+            </Text>
+          </View>
+          <Text style={[styles.sectionSubheader, {color: theme.textSecondary}]}>
+            {t('serviceRequest.bookingProviderHint', {
+              name: targetProvider.name || targetProvider.displayName,
+              minutes: DIRECT_BOOKING_RESPONSE_MS / 60000,
+            })}
+          </Text>
+          <TouchableOpacity onPress={() => setTargetProvider(null)}>
+            <Text style={[styles.targetProviderAction, {color: theme.primary}]}>
+              {t('serviceRequest.sendToAllInstead')}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Booking again - the previous provider is not available */}
+      {!targetProvider && route?.params?.unavailableProviderName && (
+        <View style={[styles.section, styles.targetProviderCard, {backgroundColor: theme.card, borderColor: theme.border}]}>
+          <View style={styles.targetProviderHeader}>
+            <Icon name="person-off" size={24} color={theme.textSecondary} />
+            <Text style={[styles.targetProviderName, {color: theme.text}]}>
+              {t('serviceRequest.previousProviderUnavailable', {name: route.params.unavailableProviderName})}
+            </Text>
+          </View>
+          <Text style={[styles.sectionSubheader, {color: theme.textSecondary}]}>
+            {t('serviceRequest.previousProviderUnavailableHint')}
+          </Text>
+        </View>
+      )}
+
       {/* Service Type Selection */}
       <View style={styles.section}>
         <Text style={[styles.label, {color: theme.text}]}>
@@ -1158,150 +1576,12 @@ export default function ServiceRequestScreen({
           <Text style={[styles.sectionSubheader, {color: theme.textSecondary}]}>
             Please answer these questions to help us serve you better
           </Text>
-          {questionnaire.map((question, index) => (
-            <View key={question.id} style={styles.questionContainer}>
-              <Text style={[styles.questionText, {color: theme.text}]}>
-                {index + 1}. {getQuestionText(question)}
-                {question.required && <Text style={styles.requiredStar}> *</Text>}
-              </Text>
-
-              {/* Text Input */}
-              {question.type === 'text' && (
-                <TextInput
-                  style={[
-                    styles.questionInput,
-                    {backgroundColor: theme.card, color: theme.text, borderColor: theme.border},
-                  ]}
-                  value={questionnaireAnswers[question.id] || ''}
-                  onChangeText={(text) => handleQuestionnaireAnswer(question.id, text)}
-                  placeholder={getPlaceholderText(question, t('services.enterYourAnswer'))}
-                  placeholderTextColor={theme.textSecondary}
-                  multiline
-                />
-              )}
-
-              {/* Number Input */}
-              {question.type === 'number' && (
-                <TextInput
-                  style={[
-                    styles.questionInput,
-                    {backgroundColor: theme.card, color: theme.text, borderColor: theme.border},
-                  ]}
-                  value={questionnaireAnswers[question.id] || ''}
-                  onChangeText={(text) => handleQuestionnaireAnswer(question.id, text)}
-                  placeholder={getPlaceholderText(question, t('services.enterANumber'))}
-                  placeholderTextColor={theme.textSecondary}
-                  keyboardType="numeric"
-                />
-              )}
-
-              {/* Boolean (Yes/No) */}
-              {question.type === 'boolean' && (
-                <View style={styles.booleanButtons}>
-                  <TouchableOpacity
-                    style={[
-                      styles.booleanButton,
-                      questionnaireAnswers[question.id] === true && styles.booleanButtonSelected,
-                      {borderColor: theme.border},
-                      questionnaireAnswers[question.id] === true && {backgroundColor: theme.primary},
-                    ]}
-                    onPress={() => handleQuestionnaireAnswer(question.id, true)}>
-                    <Text style={[
-                      styles.booleanButtonText,
-                      {color: questionnaireAnswers[question.id] === true ? '#fff' : theme.text},
-                    ]}>
-                      {t('common.yes')}
-                    </Text>
-                  </TouchableOpacity>
-                  <TouchableOpacity
-                    style={[
-                      styles.booleanButton,
-                      questionnaireAnswers[question.id] === false && styles.booleanButtonSelected,
-                      {borderColor: theme.border},
-                      questionnaireAnswers[question.id] === false && {backgroundColor: theme.primary},
-                    ]}
-                    onPress={() => handleQuestionnaireAnswer(question.id, false)}>
-                    <Text style={[
-                      styles.booleanButtonText,
-                      {color: questionnaireAnswers[question.id] === false ? '#fff' : theme.text},
-                    ]}>
-                      {t('common.no')}
-                    </Text>
-                  </TouchableOpacity>
-                </View>
-              )}
-
-              {/* Select (Single choice) */}
-              {question.type === 'select' && getOptions(question).length > 0 && (
-                <View style={styles.selectOptions}>
-                  {getOptions(question).map((option, optIdx) => {
-                    // For Hindi options, use the English option as the value for backward compatibility
-                    const englishOption = question.options?.[optIdx] || option;
-                    return (
-                    <TouchableOpacity
-                      key={optIdx}
-                      style={[
-                        styles.selectOption,
-                        {borderColor: theme.border},
-                        questionnaireAnswers[question.id] === option && {
-                          backgroundColor: theme.primary + '20',
-                          borderColor: theme.primary,
-                        },
-                      ]}
-                      onPress={() => handleQuestionnaireAnswer(question.id, englishOption)}>
-                      <Icon
-                        name={questionnaireAnswers[question.id] === englishOption ? 'radio-button-checked' : 'radio-button-unchecked'}
-                        size={20}
-                        color={questionnaireAnswers[question.id] === englishOption ? theme.primary : theme.textSecondary}
-                      />
-                      <Text style={[styles.selectOptionText, {color: theme.text}]}>{option}</Text>
-                    </TouchableOpacity>
-                    );
-                  })}
-                </View>
-              )}
-
-              {/* Multi-select */}
-              {question.type === 'multiselect' && getOptions(question).length > 0 && (
-                <View style={styles.selectOptions}>
-                  {getOptions(question).map((option, optIdx) => {
-                    // For Hindi options, use the English option as the value for backward compatibility
-                    const englishOption = question.options?.[optIdx] || option;
-                    const selectedOptions = questionnaireAnswers[question.id] || [];
-                    const isSelected = Array.isArray(selectedOptions) && selectedOptions.includes(englishOption);
-                    return (
-                      <TouchableOpacity
-                        key={optIdx}
-                        style={[
-                          styles.selectOption,
-                          {borderColor: theme.border},
-                          isSelected && {
-                            backgroundColor: theme.primary + '20',
-                            borderColor: theme.primary,
-                          },
-                        ]}
-                        onPress={() => {
-                          const current = questionnaireAnswers[question.id] || [];
-                          const updated = Array.isArray(current)
-                            ? isSelected
-                              ? current.filter(v => v !== englishOption)
-                              : [...current, englishOption]
-                            : [englishOption];
-                          handleQuestionnaireAnswer(question.id, updated);
-                        }}>
-                        <Icon
-                          name={isSelected ? 'check-box' : 'check-box-outline-blank'}
-                          size={20}
-                          color={isSelected ? theme.primary : theme.textSecondary}
-                        />
-                        <Text style={[styles.selectOptionText, {color: theme.text}]}>{option}</Text>
-                      </TouchableOpacity>
-                    );
-                  })}
-                </View>
-              )}
-            </View>
-          ))}
+          <QuestionnaireForm
+            questions={questionnaire}
+            answers={questionnaireAnswers}
+            onChange={handleQuestionnaireAnswer}
+            errors={questionnaireErrors}
+          />
         </View>
       )}
 
@@ -1368,7 +1648,7 @@ export default function ServiceRequestScreen({
         <Text style={[styles.label, {color: theme.text}]}>
           {t('services.addPhotosOptional')}
         </Text>
-        {photos.length < 3 && (
+        {media.items.length < 3 && (
           <TouchableOpacity
             style={[
               styles.addPhotoButton,
@@ -1377,26 +1657,24 @@ export default function ServiceRequestScreen({
             onPress={handleAddPhoto}>
             <Icon name="add-photo-alternate" size={24} color={theme.primary} />
             <Text style={[styles.addPhotoText, {color: theme.primary}]}>
-              {t('services.addPhoto', {count: photos.length, max: 3})}
+              {t('services.addPhoto', {count: media.items.length, max: 3})}
             </Text>
           </TouchableOpacity>
         )}
-        {photos.length > 0 && (
+        {media.items.length > 0 && (
           <View style={styles.photosContainer}>
-            {photos.map((photo, index) => (
-              <View key={index} style={styles.photoWrapper}>
-                <Image source={{uri: photo}} style={styles.photo} />
-                <TouchableOpacity
-                  style={styles.removePhotoButton}
-                  onPress={() => handleRemovePhoto(index)}>
-                  <Icon name="close" size={20} color="#fff" />
-                </TouchableOpacity>
-              </View>
+            {media.items.map(item => (
+              <MediaThumbnail key={item.id} item={item} onRemove={() => media.remove(item.id)} />
             ))}
           </View>
         )}
       </View>
 
+      {/* Booking on someone's behalf */}
+      <View style={styles.section}>
+        <OnBehalfOfSection value={onBehalfOf} onChange={setOnBehalfOf} />
+      </View>
+
       {/* Address Selection */}
       <View style={styles.section}>
         <Text style={[styles.label, {color: theme.text}]}>
@@ -1515,28 +1793,56 @@ export default function ServiceRequestScreen({
               styles.dateTimeButton,
               {backgroundColor: theme.card, borderColor: theme.border},
             ]}
-            onPress={() => {
-              // Initialize with existing scheduled date, or set to at least 1 hour from now
-              if (scheduledDate) {
-                setTempScheduledDate(scheduledDate);
-              } else {
-                // Set to 1 hour from now to avoid validation errors
-                const oneHourLater = new Date();
-                oneHourLater.setHours(oneHourLater.getHours() + 1);
-                // Round to next hour for cleaner display
-                oneHourLater.setMinutes(0);
-                setTempScheduledDate(oneHourLater);
-              }
-              setShowDateTimeModal(true);
-            }}>
+            onPress={handleOpenSlotPicker}>
             <Icon name="calendar-today" size={24} color={theme.primary} />
             <Text style={[styles.dateTimeText, {color: theme.text}]}>
               {scheduledDate
                 ? scheduledDate.toLocaleString()
-                : 'Select date and time'}
+                : t('serviceRequest.chooseSlot')}
             </Text>
             <Icon name="chevron-right" size={24} color={theme.textSecondary} />
           </TouchableOpacity>
+          {slotHold.hold && (
+            <View style={styles.slotHoldRow}>
+              <Icon name="timer" size={16} color={theme.textSecondary} />
+              <Text style={[styles.slotHoldText, {color: theme.textSecondary}]}>
+                {t('serviceRequest.slotHeldFor', {time: formatHoldTime(slotHold.secondsLeft)})}
+              </Text>
+            </View>
+          )}
+        </View>
+      )}
+
+      {/* Repeat (if scheduled) */}
+      {urgency === 'scheduled' && (
+        <View style={styles.section}>
+          <RecurrencePicker value={recurrence} startDate={scheduledDate} onChange={setRecurrence} />
+        </View>
+      )}
+
+      {/* Quotes mode (categories that support it, not when booking a chosen provider) */}
+      {selectedCategory?.quotesEnabled && !targetProvider && (
+        <View style={[styles.section, styles.quotesCard, {backgroundColor: theme.card, borderColor: theme.border}]}>
+          <View style={styles.quotesHeader}>
+            <Icon name="compare-arrows" size={24} color={theme.primary} />
+            <Text style={[styles.quotesTitle, {color: theme.text}]}>{t('quotes.requestQuotes')}</Text>
+            <Switch
+              value={requestQuotes}
+              onValueChange={setRequestQuotes}
+              trackColor={{false: theme.border, true: theme.primary}}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+          <Text style={[styles.quotesHint, {color: theme.textSecondary}]}>
+            {t('quotes.requestQuotesHint', {count: MAX_QUOTE_PROVIDERS})}
+          </Text>
+        </View>
+      )}
+
+      {/* Price Estimate */}
+      {priceEstimate && (
+        <View style={styles.section}>
+          <PriceEstimateCard estimate={priceEstimate} questionnaire={questionnaire} />
         </View>
       )}
 
@@ -1588,7 +1894,7 @@ export default function ServiceRequestScreen({
               </TouchableOpacity>
             </View>
             <FlatList
-              data={serviceCategories}
+              data={bookableCategories}
               keyExtractor={item => item.id}
               renderItem={({item}) => (
                 <TouchableOpacity
@@ -2109,160 +2415,15 @@ export default function ServiceRequestScreen({
         </View>
       </Modal>
 
-      {/* Date/Time Picker Modal */}
-      <Modal
-        visible={showDateTimeModal}
-        transparent={true}
-        animationType="slide"
-        onRequestClose={() => setShowDateTimeModal(false)}>
-        <View style={styles.modalOverlay}>
-          <View style={[styles.dateTimeModal, {backgroundColor: theme.card}]}>
-            <View style={styles.dateTimeModalHeader}>
-              <Text style={[styles.dateTimeModalTitle, {color: theme.text}]}>
-                Select Date & Time
-              </Text>
-              <TouchableOpacity
-                onPress={() => setShowDateTimeModal(false)}
-                style={styles.modalCloseButton}>
-                <Icon name="close" size={24} color={theme.text} />
-              </TouchableOpacity>
-            </View>
-
-            <View style={styles.dateTimeModalContent}>
-              {/* Date Picker */}
-              <View style={styles.dateTimePickerSection}>
-                <Text style={[styles.dateTimePickerLabel, {color: theme.text}]}>
-                  Select Date
-                </Text>
-                <TouchableOpacity
-                  style={[
-                    styles.dateTimePickerButton,
-                    {backgroundColor: theme.background, borderColor: theme.border},
-                  ]}
-                  onPress={() => setShowDatePicker(true)}>
-                  <Icon name="calendar-today" size={20} color={theme.primary} />
-                  <Text style={[styles.dateTimePickerButtonText, {color: theme.text}]}>
-                    {tempScheduledDate.toLocaleDateString('en-US', {
-                      weekday: 'long',
-                      year: 'numeric',
-                      month: 'long',
-                      day: 'numeric',
-                    })}
-                  </Text>
-                </TouchableOpacity>
-                {showDatePicker && (
-                  <DateTimePicker
-                    value={tempScheduledDate}
-                    mode="date"
-                    minimumDate={new Date()}
-                    display="default"
-                    onChange={(event, selectedDate) => {
-                      setShowDatePicker(false);
-                      if (selectedDate) {
-                        // Preserve the time when changing date
-                        const newDate = new Date(selectedDate);
-                        newDate.setHours(tempScheduledDate.getHours());
-                        newDate.setMinutes(tempScheduledDate.getMinutes());
-                        
-                        // If selected date is today, ensure time is at least 1 hour from now
-                        const now = new Date();
-                        const isToday = newDate.toDateString() === now.toDateString();
-                        if (isToday) {
-                          const oneHourLater = new Date(now);
-                          oneHourLater.setHours(oneHourLater.getHours() + 1);
-                          if (newDate <= oneHourLater) {
-                            // Set time to 1 hour from now if selected time is too close
-                            newDate.setHours(oneHourLater.getHours());
-                            newDate.setMinutes(0);
-                          }
-                        }
-                        
-                        setTempScheduledDate(newDate);
-                      }
-                    }}
-                  />
-                )}
-              </View>
-
-              {/* Time Picker */}
-              <View style={styles.dateTimePickerSection}>
-                <Text style={[styles.dateTimePickerLabel, {color: theme.text}]}>
-                  Select Time
-                </Text>
-                <TouchableOpacity
-                  style={[
-                    styles.dateTimePickerButton,
-                    {backgroundColor: theme.background, borderColor: theme.border},
-                  ]}
-                  onPress={() => setShowTimePicker(true)}>
-                  <Icon name="access-time" size={20} color={theme.primary} />
-                  <Text style={[styles.dateTimePickerButtonText, {color: theme.text}]}>
-                    {tempScheduledDate.toLocaleTimeString('en-US', {
-                      hour: '2-digit',
-                      minute: '2-digit',
-                      hour12: true,
-                    })}
-                  </Text>
-                </TouchableOpacity>
-                {showTimePicker && (
-                  <DateTimePicker
-                    value={tempScheduledDate}
-                    mode="time"
-                    is24Hour={false}
-                    display="default"
-                    onChange={(event, selectedTime) => {
-                      setShowTimePicker(false);
-                      if (selectedTime) {
-                        // Preserve the date when changing time
-                        const newDate = new Date(tempScheduledDate);
-                        newDate.setHours(selectedTime.getHours());
-                        newDate.setMinutes(selectedTime.getMinutes());
-                        setTempScheduledDate(newDate);
-                      }
-                    }}
-                  />
-                )}
-              </View>
-
-              {/* Action Buttons */}
-              <View style={styles.dateTimeModalActions}>
-                <TouchableOpacity
-                  style={[
-                    styles.dateTimeModalCancelButton,
-                    {borderColor: theme.border},
-                  ]}
-                  onPress={() => setShowDateTimeModal(false)}>
-                  <Text style={[styles.dateTimeModalCancelText, {color: theme.text}]}>
-                    Cancel
-                  </Text>
-                </TouchableOpacity>
-                <TouchableOpacity
-                  style={[styles.dateTimeModalConfirmButton, {backgroundColor: theme.primary}]}
-                  onPress={() => {
-                    // Validate that selected date/time is at least 1 hour in the future
-                    const now = new Date();
-                    const oneHourLater = new Date(now);
-                    oneHourLater.setHours(oneHourLater.getHours() + 1);
-                    
-                    if (tempScheduledDate <= oneHourLater) {
-                      setAlertModal({
-                        visible: true,
-                        title: t('common.invalidDateTime') || 'Invalid Date/Time',
-                        message: t('common.invalidDateTimeMessage') || 'Please select a date and time at least 1 hour in the future for scheduled service.',
-                        type: 'warning',
-                      });
-                      return;
-                    }
-                    setScheduledDate(tempScheduledDate);
-                    setShowDateTimeModal(false);
-                  }}>
-                  <Text style={styles.dateTimeModalConfirmText}>Confirm</Text>
-                </TouchableOpacity>
-              </View>
-            </View>
-          </View>
-        </View>
-      </Modal>
+      {/* Time Slot Picker Modal */}
+      <SlotPickerModal
+        visible={showSlotPicker}
+        serviceType={selectedServiceType}
+        pincode={selectedAddress?.pincode || ''}
+        selectedSlotId={slotHold.hold?.slotId}
+        onSelect={handleSelectSlot}
+        onClose={() => setShowSlotPicker(false)}
+      />
 
       {/* Toast Notification */}
       <Toast
@@ -2375,28 +2536,6 @@ const styles = StyleSheet.create({
     gap: 12,
     marginTop: 12,
   },
-  photoWrapper: {
-    position: 'relative',
-    width: 100,
-    height: 100,
-    borderRadius: 8,
-    overflow: 'hidden',
-  },
-  photo: {
-    width: '100%',
-    height: '100%',
-  },
-  removePhotoButton: {
-    position: 'absolute',
-    top: 4,
-    right: 4,
-    backgroundColor: 'rgba(0, 0, 0, 0.6)',
-    borderRadius: 12,
-    width: 24,
-    height: 24,
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
   addressButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -2454,6 +2593,15 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     borderWidth: 1,
   },
+  slotHoldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  slotHoldText: {
+    fontSize: 13,
+  },
   dateTimeText: {
     flex: 1,
     fontSize: 16,
@@ -2788,143 +2936,56 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginTop: 8,
   },
-  dateTimeModal: {
-    borderTopLeftRadius: 20,
-    borderTopRightRadius: 20,
-    paddingTop: 20,
-    paddingBottom: 40,
-    maxHeight: '80%',
-  },
-  dateTimeModalHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    paddingHorizontal: 20,
-    paddingBottom: 20,
-    borderBottomWidth: 1,
-    borderBottomColor: '#E5E5E5',
-  },
-  dateTimeModalTitle: {
+  // Questionnaire styles
+  sectionHeader: {
     fontSize: 20,
-    fontWeight: '600',
-  },
-  modalCloseButton: {
-    padding: 4,
-  },
-  dateTimeModalContent: {
-    padding: 20,
-  },
-  dateTimePickerSection: {
-    marginBottom: 24,
+    fontWeight: '700',
+    marginBottom: 8,
   },
-  dateTimePickerLabel: {
-    fontSize: 16,
-    fontWeight: '500',
-    marginBottom: 12,
+  sectionSubheader: {
+    fontSize: 14,
+    marginBottom: 16,
   },
-  dateTimePickerButton: {
-    flexDirection: 'row',
-    alignItems: 'center',
+  targetProviderCard: {
+    marginHorizontal: 20,
     padding: 16,
     borderRadius: 12,
     borderWidth: 1,
-    gap: 12,
-  },
-  dateTimePickerButtonText: {
-    fontSize: 16,
-    flex: 1,
   },
-  dateTimeModalActions: {
+  targetProviderHeader: {
     flexDirection: 'row',
-    gap: 12,
-    marginTop: 8,
-  },
-  dateTimeModalCancelButton: {
-    flex: 1,
-    padding: 16,
-    borderRadius: 12,
-    borderWidth: 1,
     alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
   },
-  dateTimeModalCancelText: {
+  targetProviderName: {
     fontSize: 16,
     fontWeight: '600',
-  },
-  dateTimeModalConfirmButton: {
     flex: 1,
-    padding: 16,
-    borderRadius: 12,
-    alignItems: 'center',
-  },
-  dateTimeModalConfirmText: {
-    color: '#fff',
-    fontSize: 16,
-    fontWeight: '600',
-  },
-  // Questionnaire styles
-  sectionHeader: {
-    fontSize: 20,
-    fontWeight: '700',
-    marginBottom: 8,
   },
-  sectionSubheader: {
+  targetProviderAction: {
     fontSize: 14,
-    marginBottom: 16,
-  },
-  questionContainer: {
-    marginBottom: 20,
-  },
-  questionText: {
-    fontSize: 15,
-    fontWeight: '500',
-    marginBottom: 12,
-    lineHeight: 22,
-  },
-  requiredStar: {
-    color: '#FF3B30',
-    fontWeight: 'bold',
+    fontWeight: '600',
   },
-  questionInput: {
-    borderWidth: 1,
+  quotesCard: {
+    marginHorizontal: 20,
+    padding: 16,
     borderRadius: 12,
-    padding: 12,
-    fontSize: 16,
-    minHeight: 60,
-    textAlignVertical: 'top',
+    borderWidth: 1,
   },
-  booleanButtons: {
+  quotesHeader: {
     flexDirection: 'row',
-    gap: 12,
-  },
-  booleanButton: {
-    flex: 1,
-    padding: 14,
-    borderRadius: 12,
-    borderWidth: 1.5,
     alignItems: 'center',
-    justifyContent: 'center',
-  },
-  booleanButtonSelected: {
-    // Styles applied when selected
+    gap: 8,
   },
-  booleanButtonText: {
+  quotesTitle: {
     fontSize: 16,
     fontWeight: '600',
-  },
-  selectOptions: {
-    gap: 10,
-  },
-  selectOption: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    padding: 14,
-    borderRadius: 12,
-    borderWidth: 1.5,
-    gap: 12,
-  },
-  selectOptionText: {
-    fontSize: 15,
     flex: 1,
   },
+  quotesHint: {
+    fontSize: 14,
+    marginTop: 8,
+  },
 });
 
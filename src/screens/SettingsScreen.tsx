@@ -26,7 +26,7 @@ interface SettingsScreenProps {
 }
 
 const SettingsScreen: React.FC<SettingsScreenProps> = ({navigation}) => {
-  const {isDarkMode, toggleTheme, currentUser, setCurrentUser, language, setLanguage} = useStore();
+  const {isDarkMode, toggleTheme, currentUser, setCurrentUser, clearBookingDrafts, language, setLanguage} = useStore();
   const theme = isDarkMode ? darkTheme : lightTheme;
   const {t} = useTranslation();
 
@@ -111,6 +111,8 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({navigation}) => {
     try {
       await authService.logout();
       setCurrentUser(null);
+      // Drafts hold addresses and contacts - not for the next account
+      clearBookingDrafts();
       // Navigate to Login screen
       navigation.reset({
         index: 0,
@@ -20,8 +20,10 @@ import {useStore} from '../store';
 import {lightTheme, darkTheme} from '../utils/theme';
 import {fetchServiceCategories, ServiceCategory} from '../services/serviceCategoriesService';
 import useTranslation from '../hooks/useTranslation';
+import {getErrorMessage} from '../utils/errorMessages';
 import AlertModal from '../components/AlertModal';
 import {contactRecommendationsApi} from '../services/api/contactRecommendationsApi';
+import {RequestQueuedError} from '../services/api/offlineQueue';
 
 interface ShareContactRecommendationScreenProps {
   navigation: any;
@@ -61,7 +63,7 @@ export default function ShareContactRecommendationScreen({
   const loadServiceCategories = async () => {
     try {
       setLoadingCategories(true);
-      const categories = await fetchServiceCategories();
+      const categories = await fetchServiceCategories({onUpdate: setServiceCategories});
       setServiceCategories(categories);
     } catch (error: any) {
       console.error('Error loading service categories:', error);
@@ -167,11 +169,27 @@ export default function ShareContactRecommendationScreen({
         navigation.goBack();
       }, 2000);
     } catch (error: any) {
+      if (error instanceof RequestQueuedError) {
+        setAlertModal({
+          visible: true,
+          title: String(t('services.requestQueuedTitle')),
+          message: String(t('services.requestQueuedMessage')),
+          type: 'info',
+        });
+        setProviderName('');
+        setProviderPhone('');
+        setAddress('');
+        setSelectedServiceType('');
+        setTimeout(() => {
+          navigation.goBack();
+        }, 2000);
+        return;
+      }
       console.error('Error submitting recommendation:', error);
       setAlertModal({
         visible: true,
         title: String(t('common.error')),
-        message: error.message || String(t('recommendations.submitError')),
+        message: getErrorMessage(error, 'recommendations.submitError'),
         type: 'error',
       });
     } finally {
@@ -0,0 +1,69 @@
+import {describe, expect, it, jest} from '@jest/globals';
+import {
+  calculateETA,
+  isWithinArrivalGeofence,
+  updateSmoothedSpeed,
+  type ProviderLocation,
+} from '../providerLocationService';
+
+jest.mock('@react-native-firebase/firestore', () => ({__esModule: true, default: jest.fn()}));
+jest.mock('@react-native-firebase/database', () => ({__esModule: true, default: jest.fn()}));
+jest.mock('@react-native-firebase/auth', () => ({__esModule: true, default: jest.fn()}));
+jest.mock('../geolocationService', () => ({__esModule: true, default: {}}));
+
+// About 1.11 km north of the origin
+const KM_NORTH = 0.01;
+
+const at = (latitude: number, updatedAt: number): ProviderLocation => ({latitude, longitude: 77, updatedAt});
+
+describe('updateSmoothedSpeed', () => {
+  it('measures the speed of the first sample', () => {
+    // 1.11 km in 2 minutes
+    expect(updateSmoothedSpeed(null, at(12, 0), at(12 + KM_NORTH, 120000))).toBeCloseTo(33.4, 1);
+  });
+
+  it('ignores updates too close together to measure', () => {
+    expect(updateSmoothedSpeed(20, at(12, 0), at(12.0001, 2000))).toBe(20);
+    expect(updateSmoothedSpeed(null, at(12, 0), at(12.0001, 2000))).toBeNull();
+  });
+
+  it('ignores GPS jumps faster than any local trip', () => {
+    // 1.11 km in 10 seconds
+    expect(updateSmoothedSpeed(25, at(12, 0), at(12 + KM_NORTH, 10000))).toBe(25);
+  });
+
+  it('smooths a new sample into the previous speed', () => {
+    const sample = updateSmoothedSpeed(null, at(12, 0), at(12 + KM_NORTH, 120000))!;
+
+    expect(updateSmoothedSpeed(10, at(12, 0), at(12 + KM_NORTH, 120000))).toBeCloseTo(0.3 * sample + 0.7 * 10, 5);
+  });
+});
+
+describe('calculateETA', () => {
+  it('uses the given speed', () => {
+    expect(calculateETA(5, 20)).toBe(15);
+  });
+
+  it('falls back to 30 km/h and rounds up to whole minutes', () => {
+    expect(calculateETA(1)).toBe(2);
+  });
+});
+
+describe('isWithinArrivalGeofence', () => {
+  it('enters within the arrival radius', () => {
+    expect(isWithinArrivalGeofence(0.1, false)).toBe(true);
+    expect(isWithinArrivalGeofence(0.12, false)).toBe(false);
+  });
+
+  it('only leaves again beyond the wider exit radius', () => {
+    expect(isWithinArrivalGeofence(0.12, true)).toBe(true);
+    expect(isWithinArrivalGeofence(0.15, true)).toBe(true);
+    expect(isWithinArrivalGeofence(0.16, true)).toBe(false);
+  });
+
+  it('applies a custom radius', () => {
+    expect(isWithinArrivalGeofence(0.2, false, 250)).toBe(true);
+    expect(isWithinArrivalGeofence(0.3, true, 250)).toBe(true);
+    expect(isWithinArrivalGeofence(0.4, true, 250)).toBe(false);
+  });
+});
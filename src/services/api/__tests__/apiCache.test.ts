@@ -0,0 +1,167 @@
+import {beforeEach, describe, expect, it, jest} from '@jest/globals';
+
+type ApiCacheModule = typeof import('../apiCache');
+type ApiErrorsModule = typeof import('../apiErrors');
+type ApiResult = {data: unknown; etag: string | null; notModified: boolean};
+
+const mockStorage = new Map<string, string>();
+const mockLanguage = {current: 'en'};
+const mockApiRequestWithMeta = jest.fn<(endpoint: string, options: any) => Promise<ApiResult>>();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  __esModule: true,
+  default: {
+    getItem: async (key: string) => mockStorage.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      mockStorage.set(key, value);
+    },
+    getAllKeys: async () => [...mockStorage.keys()],
+    multiGet: async (keys: string[]) => keys.map(key => [key, mockStorage.get(key) ?? null]),
+    multiRemove: async (keys: string[]) => {
+      keys.forEach(key => mockStorage.delete(key));
+    },
+  },
+}));
+
+jest.mock('../../../i18n', () => ({
+  getCurrentLanguage: () => mockLanguage.current,
+}));
+
+jest.mock('../apiClient', () => ({
+  apiRequestWithMeta: (endpoint: string, options: any) => mockApiRequestWithMeta(endpoint, options),
+}));
+
+const NOW = new Date('2026-03-02T10:00:00Z').getTime();
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+type StoredEntry = {data: unknown; etag?: string | null; fetchedAt: number; language?: string};
+
+const storeEntry = (endpoint: string, entry: StoredEntry) =>
+  mockStorage.set(`@api_cache:${endpoint}`, JSON.stringify({etag: null, language: 'en', ...entry}));
+
+const flushBackground = () => jest.advanceTimersByTimeAsync(0);
+
+describe('cachedGet', () => {
+  let apiCache: ApiCacheModule;
+  let apiErrors: ApiErrorsModule;
+
+  beforeEach(() => {
+    // Fresh in-memory cache for every test
+    jest.resetModules();
+    jest.useFakeTimers({now: NOW});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockStorage.clear();
+    mockLanguage.current = 'en';
+    mockApiRequestWithMeta.mockReset();
+    apiCache = require('../apiCache');
+    apiErrors = require('../apiErrors');
+  });
+
+  it('returns a fresh entry without a request', async () => {
+    storeEntry('/providers', {data: ['cached'], fetchedAt: NOW - MINUTE});
+
+    await expect(apiCache.cachedGet('/providers')).resolves.toEqual(['cached']);
+    expect(mockApiRequestWithMeta).not.toHaveBeenCalled();
+  });
+
+  it('returns a stale entry and revalidates it in the background', async () => {
+    storeEntry('/providers', {data: ['cached'], etag: '"v1"', fetchedAt: NOW - 5 * MINUTE});
+    mockApiRequestWithMeta.mockResolvedValue({data: ['updated'], etag: '"v2"', notModified: false});
+    const onUpdate = jest.fn();
+
+    await expect(apiCache.cachedGet('/providers', {onUpdate})).resolves.toEqual(['cached']);
+    await flushBackground();
+
+    expect(mockApiRequestWithMeta.mock.calls[0][1].ifNoneMatch).toBe('"v1"');
+    expect(onUpdate).toHaveBeenCalledWith(['updated']);
+    await expect(apiCache.cachedGet('/providers')).resolves.toEqual(['updated']);
+    expect(mockApiRequestWithMeta).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the cached data on a 304 and renews its timestamp', async () => {
+    storeEntry('/providers', {data: ['cached'], etag: '"v1"', fetchedAt: NOW - 5 * MINUTE});
+    mockApiRequestWithMeta.mockResolvedValue({data: undefined, etag: '"v1"', notModified: true});
+    const onUpdate = jest.fn();
+
+    await expect(apiCache.cachedGet('/providers', {forceRefresh: true, onUpdate})).resolves.toEqual([
+      'cached',
+    ]);
+
+    expect(onUpdate).not.toHaveBeenCalled();
+    expect(JSON.parse(mockStorage.get('@api_cache:/providers') || '{}').fetchedAt).toBe(NOW);
+  });
+
+  it('waits for the network instead of serving an entry in another language', async () => {
+    storeEntry('/serviceCategories', {data: ['english'], etag: '"en"', fetchedAt: NOW - MINUTE});
+    mockLanguage.current = 'hi';
+    mockApiRequestWithMeta.mockResolvedValue({data: ['hindi'], etag: '"hi"', notModified: false});
+
+    await expect(apiCache.cachedGet('/serviceCategories')).resolves.toEqual(['hindi']);
+    // The other language's ETag must not turn into a 304 for this one
+    expect(mockApiRequestWithMeta.mock.calls[0][1].ifNoneMatch).toBeUndefined();
+  });
+
+  it('falls back to an entry in another language while offline', async () => {
+    storeEntry('/serviceCategories', {data: ['english'], fetchedAt: NOW - MINUTE});
+    mockLanguage.current = 'hi';
+    mockApiRequestWithMeta.mockRejectedValue(new apiErrors.NetworkError());
+
+    await expect(apiCache.cachedGet('/serviceCategories')).resolves.toEqual(['english']);
+  });
+
+  it('rethrows errors other than connectivity ones', async () => {
+    storeEntry('/providers', {data: ['cached'], fetchedAt: NOW - 5 * MINUTE});
+    mockApiRequestWithMeta.mockRejectedValue(new apiErrors.ServerError('Unavailable'));
+
+    await expect(apiCache.cachedGet('/providers', {forceRefresh: true})).rejects.toBeInstanceOf(
+      apiErrors.ServerError,
+    );
+  });
+});
+
+describe('pruneApiCache', () => {
+  let apiCache: ApiCacheModule;
+
+  beforeEach(() => {
+    jest.resetModules();
+    jest.useFakeTimers({now: NOW});
+    mockStorage.clear();
+    mockApiRequestWithMeta.mockReset();
+    apiCache = require('../apiCache');
+  });
+
+  it('removes expired and unreadable entries and leaves other keys alone', async () => {
+    storeEntry('/providers', {data: [], fetchedAt: NOW - DAY});
+    storeEntry('/providers?city=old', {data: [], fetchedAt: NOW - 8 * DAY});
+    mockStorage.set('@api_cache:/broken', '{not json');
+    mockStorage.set('@offline_request_queue', '[]');
+
+    await apiCache.pruneApiCache();
+
+    expect([...mockStorage.keys()].sort()).toEqual(['@api_cache:/providers', '@offline_request_queue']);
+  });
+
+  it('keeps only the most recently fetched entries beyond the limit', async () => {
+    for (let i = 0; i < 55; i++) {
+      storeEntry(`/providers?page=${i}`, {data: [], fetchedAt: NOW - i * MINUTE});
+    }
+
+    await apiCache.pruneApiCache();
+
+    const keys = [...mockStorage.keys()];
+    expect(keys).toHaveLength(50);
+    expect(keys).toContain('@api_cache:/providers?page=0');
+    expect(keys).not.toContain('@api_cache:/providers?page=54');
+  });
+
+  it('prunes on the first write of a session', async () => {
+    storeEntry('/serviceCategories', {data: [], fetchedAt: NOW - 30 * DAY});
+    mockApiRequestWithMeta.mockResolvedValue({data: ['fresh'], etag: null, notModified: false});
+
+    await apiCache.cachedGet('/providers');
+
+    expect([...mockStorage.keys()]).toEqual(['@api_cache:/providers']);
+  });
+});
@@ -0,0 +1,197 @@
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import {apiGet, apiPost} from '../apiClient';
+import {CancelledError, UnauthorizedError} from '../apiErrors';
+import {onAuthExpired} from '../authEvents';
+
+type MockUser = {getIdToken: (forceRefresh?: boolean) => Promise<string>};
+
+const mockAuth: {currentUser: MockUser | null} = {currentUser: null};
+
+jest.mock('@react-native-firebase/auth', () => ({
+  __esModule: true,
+  default: () => mockAuth,
+}));
+
+const jsonResponse = (status: number, body: unknown) => ({
+  status,
+  ok: status >= 200 && status < 300,
+  statusText: '',
+  headers: {get: () => null},
+  json: async () => body,
+});
+
+// Accepts only the given token; anything else is rejected with 401
+const acceptToken = (token: string) =>
+  jest.fn(async (_url: string, init: {headers: Record<string, string>}) =>
+    init.headers.Authorization === `Bearer ${token}`
+      ? jsonResponse(200, {success: true, data: 'ok'})
+      : jsonResponse(401, {message: 'Token expired'}),
+  );
+
+describe('apiRequest token refresh', () => {
+  const originalFetch = global.fetch;
+  let authExpired: jest.Mock;
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    authExpired = jest.fn();
+    unsubscribe = onAuthExpired(authExpired);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    global.fetch = originalFetch;
+    mockAuth.currentUser = null;
+    jest.restoreAllMocks();
+  });
+
+  it('replays a 401 once with a refreshed token', async () => {
+    const getIdToken = jest.fn(async (forceRefresh?: boolean) => (forceRefresh ? 'fresh' : 'stale'));
+    mockAuth.currentUser = {getIdToken};
+    const fetchMock = acceptToken('fresh');
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    await expect(apiGet('/providers')).resolves.toBe('ok');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(getIdToken).toHaveBeenCalledWith(true);
+    expect(authExpired).not.toHaveBeenCalled();
+  });
+
+  it('expires the session when the replay is still unauthorized', async () => {
+    mockAuth.currentUser = {getIdToken: async () => 'revoked'};
+    global.fetch = acceptToken('never') as unknown as typeof fetch;
+
+    await expect(apiGet('/providers')).rejects.toMatchObject({code: 'AUTH_EXPIRED'});
+    expect(authExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('refreshes again for a user who signs in after a refresh without a user', async () => {
+    // Signed out between the request and the refresh
+    mockAuth.currentUser = {
+      getIdToken: async () => {
+        mockAuth.currentUser = null;
+        return 'stale';
+      },
+    };
+    global.fetch = acceptToken('fresh') as unknown as typeof fetch;
+
+    const expired = apiGet('/providers');
+    await expect(expired).rejects.toBeInstanceOf(UnauthorizedError);
+    await expect(expired).rejects.toMatchObject({code: 'AUTH_EXPIRED'});
+    expect(authExpired).toHaveBeenCalledTimes(1);
+
+    const getIdToken = jest.fn(async (forceRefresh?: boolean) => (forceRefresh ? 'fresh' : 'stale'));
+    mockAuth.currentUser = {getIdToken};
+
+    await expect(apiGet('/providers')).resolves.toBe('ok');
+    expect(getIdToken).toHaveBeenCalledWith(true);
+    expect(authExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares one refresh between concurrent 401s', async () => {
+    const getIdToken = jest.fn(async (forceRefresh?: boolean) => (forceRefresh ? 'fresh' : 'stale'));
+    mockAuth.currentUser = {getIdToken};
+    global.fetch = acceptToken('fresh') as unknown as typeof fetch;
+
+    await expect(Promise.all([apiGet('/providers'), apiGet('/categories')])).resolves.toEqual(['ok', 'ok']);
+    expect(getIdToken.mock.calls.filter(([force]) => force === true)).toHaveLength(1);
+  });
+});
+
+// Responses are held until release() is called; aborting the fetch rejects it
+const heldFetch = () => {
+  const releases: (() => void)[] = [];
+  const signals: AbortSignal[] = [];
+  const fetchMock = jest.fn(
+    (_url: string, init: {signal: AbortSignal}) =>
+      new Promise((resolve, reject) => {
+        signals.push(init.signal);
+        init.signal.addEventListener('abort', () => reject(new Error('Aborted')));
+        releases.push(() => resolve(jsonResponse(200, {success: true, data: 'ok'})));
+      }),
+  );
+  return {fetchMock, signals, release: () => releases.forEach(release => release())};
+};
+
+describe('apiRequest shared GETs', () => {
+  const originalFetch = global.fetch;
+  let held: ReturnType<typeof heldFetch>;
+
+  beforeEach(() => {
+    mockAuth.currentUser = {getIdToken: async () => 'token'};
+    held = heldFetch();
+    global.fetch = held.fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    mockAuth.currentUser = null;
+  });
+
+  // Lets the requests get past the token lookup and reach fetch
+  const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  it('sends identical concurrent GETs once', async () => {
+    const first = apiGet('/providers');
+    const second = apiGet('/providers');
+    await flush();
+    held.release();
+
+    await expect(Promise.all([first, second])).resolves.toEqual(['ok', 'ok']);
+    expect(held.fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends different endpoints and non-GET requests separately', async () => {
+    const requests = Promise.all([
+      apiGet('/providers'),
+      apiGet('/serviceCategories'),
+      apiPost('/reviews', {rating: 5}),
+      apiPost('/reviews', {rating: 5}),
+    ]);
+    await flush();
+    held.release();
+
+    await expect(requests).resolves.toHaveLength(4);
+    expect(held.fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('fetches again once the shared request has settled', async () => {
+    const first = apiGet('/providers');
+    await flush();
+    held.release();
+    await first;
+
+    const second = apiGet('/providers');
+    await flush();
+    held.release();
+
+    await expect(second).resolves.toBe('ok');
+    expect(held.fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the fetch going while another caller is still waiting', async () => {
+    const controller = new AbortController();
+    const cancelled = apiGet('/providers', {signal: controller.signal});
+    const waiting = apiGet('/providers');
+    await flush();
+
+    controller.abort();
+    await expect(cancelled).rejects.toBeInstanceOf(CancelledError);
+    expect(held.signals[0].aborted).toBe(false);
+
+    held.release();
+    await expect(waiting).resolves.toBe('ok');
+  });
+
+  it('aborts the fetch once every caller has cancelled', async () => {
+    const controllers = [new AbortController(), new AbortController()];
+    const requests = controllers.map(controller => apiGet('/providers', {signal: controller.signal}));
+    await flush();
+
+    controllers.forEach(controller => controller.abort());
+
+    await expect(Promise.all(requests)).rejects.toBeInstanceOf(CancelledError);
+    expect(held.signals[0].aborted).toBe(true);
+  });
+});
@@ -0,0 +1,186 @@
+import {beforeEach, describe, expect, it, jest} from '@jest/globals';
+
+type OfflineQueueModule = typeof import('../offlineQueue');
+type ApiErrorsModule = typeof import('../apiErrors');
+
+const mockStorage = new Map<string, string>();
+const mockNetInfo = {isConnected: true, isInternetReachable: true as boolean | null};
+const mockApiRequest = jest.fn<(endpoint: string, options: any) => Promise<unknown>>();
+const mockAuth: {currentUser: {uid: string} | null} = {currentUser: null};
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  __esModule: true,
+  default: {
+    getItem: async (key: string) => mockStorage.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      mockStorage.set(key, value);
+    },
+  },
+}));
+
+jest.mock('@react-native-community/netinfo', () => ({
+  __esModule: true,
+  default: {
+    fetch: async () => ({...mockNetInfo}),
+    addEventListener: () => () => {},
+  },
+}));
+
+jest.mock('@react-native-firebase/auth', () => ({
+  __esModule: true,
+  default: () => mockAuth,
+}));
+
+jest.mock('../apiClient', () => ({
+  apiRequest: (endpoint: string, options: any) => mockApiRequest(endpoint, options),
+}));
+
+const deferred = () => {
+  let resolve!: (value: unknown) => void;
+  const promise = new Promise(res => {
+    resolve = res;
+  });
+  return {promise, resolve};
+};
+
+describe('offlineQueue', () => {
+  let offlineQueue: OfflineQueueModule;
+  let apiErrors: ApiErrorsModule;
+
+  beforeEach(() => {
+    // Fresh module state (queue, drain flags) for every test
+    jest.resetModules();
+    jest.useFakeTimers();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockStorage.clear();
+    mockNetInfo.isConnected = true;
+    mockNetInfo.isInternetReachable = true;
+    mockApiRequest.mockReset();
+    mockApiRequest.mockResolvedValue({});
+    mockAuth.currentUser = {uid: 'user-a'};
+    offlineQueue = require('../offlineQueue');
+    apiErrors = require('../apiErrors');
+  });
+
+  const statuses = async () => (await offlineQueue.getQueuedRequests()).map(item => item.status);
+
+  it('queues a request made while offline and persists it', async () => {
+    mockNetInfo.isConnected = false;
+
+    await expect(
+      offlineQueue.sendOrQueue('createReview', '/reviews', 'POST', {rating: 5}),
+    ).rejects.toBeInstanceOf(offlineQueue.RequestQueuedError);
+
+    expect(mockApiRequest).not.toHaveBeenCalled();
+    expect(await statuses()).toEqual(['queued']);
+    expect(JSON.parse(mockStorage.get('@offline_request_queue') || '[]')).toHaveLength(1);
+  });
+
+  it('queues with the same idempotency key when the connection drops mid-request', async () => {
+    mockApiRequest.mockRejectedValueOnce(new apiErrors.NetworkError());
+
+    const queued: any = await offlineQueue
+      .sendOrQueue('createReview', '/reviews', 'POST', {rating: 5})
+      .catch(error => error);
+
+    expect(queued).toBeInstanceOf(offlineQueue.RequestQueuedError);
+    expect(queued.queuedRequest.idempotencyKey).toBe(mockApiRequest.mock.calls[0][1].idempotencyKey);
+
+    await offlineQueue.drainQueue();
+    expect(mockApiRequest.mock.calls[1][1].idempotencyKey).toBe(queued.queuedRequest.idempotencyKey);
+    expect(await statuses()).toEqual(['sent']);
+  });
+
+  it('sends each item once when drains are triggered concurrently', async () => {
+    await offlineQueue.enqueueRequest('createReview', '/reviews', 'POST', {rating: 5});
+    await offlineQueue.enqueueRequest('createReview', '/reviews', 'POST', {rating: 4});
+
+    await Promise.all([offlineQueue.drainQueue(), offlineQueue.drainQueue()]);
+
+    expect(mockApiRequest).toHaveBeenCalledTimes(2);
+    expect(await statuses()).toEqual(['sent', 'sent']);
+  });
+
+  it('sends a request retried while a drain is running', async () => {
+    const rejected = await offlineQueue.enqueueRequest('createReview', '/reviews', 'POST', {});
+    mockApiRequest.mockRejectedValueOnce(new apiErrors.ValidationError('Invalid'));
+    await offlineQueue.drainQueue();
+    expect(await statuses()).toEqual(['failed']);
+
+    await offlineQueue.enqueueRequest('cancelServiceRequest', '/service-requests/1/cancel', 'POST');
+    const started = deferred();
+    const inFlight = deferred();
+    mockApiRequest.mockImplementationOnce(() => {
+      started.resolve(undefined);
+      return inFlight.promise;
+    });
+    const drain = offlineQueue.drainQueue();
+    await started.promise;
+
+    const retry = offlineQueue.retryQueuedRequest(rejected.id);
+    // Let the retry reach the running drain before the in-flight request finishes
+    await jest.advanceTimersByTimeAsync(0);
+    inFlight.resolve({});
+    await Promise.all([drain, retry]);
+
+    expect(await statuses()).toEqual(['sent', 'sent']);
+  });
+
+  it('keeps the order and retries later after a transient failure', async () => {
+    await offlineQueue.enqueueRequest('createReview', '/reviews', 'POST', {rating: 5});
+    await offlineQueue.enqueueRequest('createReview', '/reviews', 'POST', {rating: 4});
+    mockApiRequest.mockRejectedValueOnce(new apiErrors.ServerError('Unavailable'));
+
+    await offlineQueue.drainQueue();
+    expect(mockApiRequest).toHaveBeenCalledTimes(1);
+    expect(await statuses()).toEqual(['queued', 'queued']);
+
+    await jest.advanceTimersByTimeAsync(15 * 1000);
+    expect(await statuses()).toEqual(['sent', 'sent']);
+  });
+
+  it('does not drain while offline', async () => {
+    await offlineQueue.enqueueRequest('createReview', '/reviews', 'POST', {});
+    mockNetInfo.isInternetReachable = false;
+
+    await offlineQueue.drainQueue();
+
+    expect(mockApiRequest).not.toHaveBeenCalled();
+    expect(await statuses()).toEqual(['queued']);
+  });
+
+  it('only replays requests for the user who queued them', async () => {
+    await offlineQueue.enqueueRequest('createReview', '/reviews', 'POST', {rating: 5});
+
+    mockAuth.currentUser = {uid: 'user-b'};
+    await offlineQueue.drainQueue();
+    expect(mockApiRequest).not.toHaveBeenCalled();
+    expect(await offlineQueue.getQueuedRequests()).toEqual([]);
+
+    mockAuth.currentUser = {uid: 'user-a'};
+    await offlineQueue.drainQueue();
+    expect(mockApiRequest).toHaveBeenCalledTimes(1);
+    expect(await statuses()).toEqual(['sent']);
+  });
+
+  it('does not queue requests without a signed-in user', async () => {
+    mockAuth.currentUser = null;
+    mockNetInfo.isConnected = false;
+
+    await expect(offlineQueue.sendOrQueue('createReview', '/reviews', 'POST', {})).rejects.toBeInstanceOf(
+      apiErrors.UnauthorizedError,
+    );
+    expect(mockStorage.get('@offline_request_queue')).toBeUndefined();
+  });
+
+  it('drops stored requests that do not record their user', async () => {
+    mockStorage.set(
+      '@offline_request_queue',
+      JSON.stringify([{id: 'legacy', kind: 'createReview', endpoint: '/reviews', method: 'POST', status: 'queued'}]),
+    );
+
+    await offlineQueue.drainQueue();
+
+    expect(mockApiRequest).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,140 @@
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import {SchemaError} from '../apiErrors';
+import {
+  array,
+  date,
+  entity,
+  list,
+  literal,
+  number,
+  object,
+  optional,
+  parse,
+  parseCommitted,
+  string,
+} from '../schema';
+
+interface Item {
+  id: string;
+  _id?: string;
+  name: string;
+  status: 'open' | 'closed';
+  price?: number;
+  createdAt: Date;
+}
+
+const itemSchema = entity<Item>({
+  name: string,
+  status: literal('open', 'closed'),
+  price: optional(number),
+  createdAt: date,
+});
+
+const validItem = {_id: 'a1', name: 'Tap repair', status: 'open', createdAt: '2024-01-01T10:00:00.000Z'};
+
+describe('schema', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('primitives', () => {
+    it('accepts numeric strings as numbers', () => {
+      expect(number('4.5', 'rating')).toBe(4.5);
+      expect(() => number('', 'rating')).toThrow(SchemaError);
+    });
+
+    it('reads dates from ISO strings, epoch milliseconds and Firestore timestamps', () => {
+      const expected = new Date('2024-01-01T10:00:00.000Z');
+
+      expect(date('2024-01-01T10:00:00.000Z', 'at')).toEqual(expected);
+      expect(date(expected.getTime(), 'at')).toEqual(expected);
+      expect(date({_seconds: expected.getTime() / 1000}, 'at')).toEqual(expected);
+      expect(() => date('not a date', 'at')).toThrow(SchemaError);
+    });
+
+    it('turns null optional values into undefined', () => {
+      expect(optional(string)(null, 'note')).toBeUndefined();
+    });
+
+    it('reports the path of a mismatch inside an array', () => {
+      expect(() => array(string)(['a', 2], 'tags')).toThrow(expect.objectContaining({path: 'tags[1]'}));
+    });
+  });
+
+  describe('object and entity', () => {
+    it('normalises the identifier and drops missing optional fields', () => {
+      const item = parse(itemSchema, {...validItem, price: null, extra: true}, 'Item');
+
+      expect(item).toEqual({
+        id: 'a1',
+        _id: 'a1',
+        name: 'Tap repair',
+        status: 'open',
+        createdAt: new Date('2024-01-01T10:00:00.000Z'),
+        extra: true,
+      });
+      expect('price' in item).toBe(false);
+    });
+
+    it('rejects a document without an identifier', () => {
+      expect(() => parse(itemSchema, {...validItem, _id: undefined}, 'Item')).toThrow(
+        expect.objectContaining({path: 'Item.id'}),
+      );
+    });
+
+    it('throws with the path of the offending field', () => {
+      expect(() => parse(object({price: number}), {price: 'free'}, 'Quote')).toThrow(
+        expect.objectContaining({path: 'Quote.price'}),
+      );
+    });
+  });
+
+  describe('list', () => {
+    it('accepts a plain array or a {data} envelope', () => {
+      expect(parse(list(itemSchema), [validItem], 'Item[]')).toHaveLength(1);
+      expect(parse(list(itemSchema), {data: [validItem]}, 'Item[]')).toHaveLength(1);
+      expect(parse(list(itemSchema), {data: null}, 'Item[]')).toEqual([]);
+    });
+
+    it('leaves out items that do not match and keeps the rest', () => {
+      const items = parse(
+        list(itemSchema),
+        [validItem, {...validItem, _id: 'a2', status: 'lost'}, {...validItem, _id: 'a3'}],
+        'Item[]',
+      );
+
+      expect(items.map(item => item.id)).toEqual(['a1', 'a3']);
+    });
+
+    it('still rejects a body that is not a list', () => {
+      expect(() => parse(list(itemSchema), 'oops', 'Item[]')).toThrow(SchemaError);
+    });
+  });
+
+  describe('parseCommitted', () => {
+    it('keeps mismatched fields as received instead of failing', () => {
+      const item = parseCommitted(itemSchema, {...validItem, status: 'archived', price: '12'}, 'Item');
+
+      expect(item.status).toBe('archived');
+      expect(item.price).toBe(12);
+      expect(item.createdAt).toEqual(new Date('2024-01-01T10:00:00.000Z'));
+    });
+
+    it('returns the raw value when the document itself does not match', () => {
+      const raw = {name: 'No id'};
+
+      expect(parseCommitted(itemSchema, raw, 'Item')).toBe(raw);
+    });
+
+    it('goes back to strict parsing afterwards', () => {
+      parseCommitted(itemSchema, {...validItem, status: 'archived'}, 'Item');
+
+      expect(() => parse(itemSchema, {...validItem, status: 'archived'}, 'Item')).toThrow(SchemaError);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * API Cache
+ * Stale-while-revalidate cache for slow-changing GET endpoints
+ * Entries are kept in memory and persisted to AsyncStorage so screens can
+ * render instantly (and offline) while a background request refreshes them.
+ * Revalidation sends the stored ETag as If-None-Match, so an unchanged
+ * resource costs a 304 instead of a full payload.
+ * Entries fetched in another app language are treated as missing so that
+ * localised content is refetched after the language changes.
+ * Persisted entries are pruned by age and count so storage stays bounded.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {getCurrentLanguage} from '../../i18n';
+import {apiRequestWithMeta, type RequestOptions} from './apiClient';
+import {isConnectivityError} from './apiErrors';
+
+const CACHE_KEY_PREFIX = '@api_cache:';
+
+const DEFAULT_TTL_MS = 60 * 1000; // 1 minute
+
+// Persisted entries older than this are deleted, even as offline fallbacks
+const MAX_ENTRY_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+// Most persisted entries kept; the least recently fetched go first
+const MAX_ENTRIES = 50;
+
+// Per-endpoint TTLs, matched on the endpoint path prefix
+const CACHE_TTLS: {prefix: string; ttl: number}[] = [
+  {prefix: '/serviceCategories', ttl: 24 * 60 * 60 * 1000}, // 24 hours
+  {prefix: '/providers', ttl: 2 * 60 * 1000}, // 2 minutes
+];
+
+interface CacheEntry<T = any> {
+  data: T;
+  etag: string | null;
+  fetchedAt: number;
+  language: string;
+}
+
+export interface CacheOptions<T> extends Pick<RequestOptions, 'signal'> {
+  // Skip the cached copy and wait for the network (e.g. pull-to-refresh)
+  forceRefresh?: boolean;
+  // Called when a background revalidation returns different data
+  onUpdate?: (data: T) => void;
+}
+
+const memoryCache = new Map<string, CacheEntry>();
+
+// Pruned on the first write of a session and again every MAX_ENTRIES writes
+let writesSincePrune: number | null = null;
+
+function getTtl(endpoint: string): number {
+  const match = CACHE_TTLS.find(({prefix}) => endpoint.startsWith(prefix));
+  return match ? match.ttl : DEFAULT_TTL_MS;
+}
+
+function isFresh(endpoint: string, entry: CacheEntry): boolean {
+  return Date.now() - entry.fetchedAt < getTtl(endpoint);
+}
+
+/**
+ * Delete persisted entries that are too old, then the oldest ones beyond MAX_ENTRIES
+ */
+export async function pruneApiCache(now: number = Date.now()): Promise<void> {
+  try {
+    const keys = (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(CACHE_KEY_PREFIX));
+    const stored = await AsyncStorage.multiGet(keys);
+
+    const expired: string[] = [];
+    const kept: {key: string; fetchedAt: number}[] = [];
+    stored.forEach(([key, value]) => {
+      let fetchedAt = NaN;
+      try {
+        fetchedAt = value ? Number(JSON.parse(value).fetchedAt) : NaN;
+      } catch {
+        // Unreadable entries are removed below
+      }
+      if (isNaN(fetchedAt) || now - fetchedAt > MAX_ENTRY_AGE_MS) {
+        expired.push(key);
+      } else {
+        kept.push({key, fetchedAt});
+      }
+    });
+
+    const overflow = kept
+      .sort((a, b) => b.fetchedAt - a.fetchedAt)
+      .slice(MAX_ENTRIES)
+      .map(({key}) => key);
+    const removed = [...expired, ...overflow];
+
+    if (removed.length > 0) {
+      await AsyncStorage.multiRemove(removed);
+      removed.forEach(key => memoryCache.delete(key.slice(CACHE_KEY_PREFIX.length)));
+    }
+  } catch (error) {
+    console.error('Error pruning API cache:', error);
+  }
+}
+
+async function readEntry<T>(endpoint: string): Promise<CacheEntry<T> | null> {
+  const cached = memoryCache.get(endpoint);
+  if (cached) {
+    return cached;
+  }
+  try {
+    const stored = await AsyncStorage.getItem(CACHE_KEY_PREFIX + endpoint);
+    if (!stored) {
+      return null;
+    }
+    const entry: CacheEntry<T> = JSON.parse(stored);
+    memoryCache.set(endpoint, entry);
+    return entry;
+  } catch (error) {
+    console.error('Error reading API cache:', error);
+    return null;
+  }
+}
+
+async function writeEntry<T>(endpoint: string, entry: CacheEntry<T>): Promise<void> {
+  memoryCache.set(endpoint, entry);
+  try {
+    await AsyncStorage.setItem(CACHE_KEY_PREFIX + endpoint, JSON.stringify(entry));
+  } catch (error) {
+    console.error('Error writing API cache:', error);
+  }
+
+  if (writesSincePrune === null || writesSincePrune >= MAX_ENTRIES) {
+    writesSincePrune = 0;
+    await pruneApiCache();
+  }
+  writesSincePrune++;
+}
+
+/**
+ * Fetch an endpoint and store the result
+ * A 304 keeps the cached data and only renews its timestamp
+ */
+async function revalidate<T>(
+  endpoint: string,
+  cached: CacheEntry<T> | null,
+  signal?: AbortSignal,
+): Promise<T> {
+  // The ETag does not cover the language, so only send it for the same one
+  const reusable = cached && cached.language === getCurrentLanguage() ? cached : null;
+  const result = await apiRequestWithMeta<T>(endpoint, {
+    ifNoneMatch: reusable?.etag || undefined,
+    signal,
+  });
+
+  if (result.notModified && reusable) {
+    await writeEntry(endpoint, {...reusable, fetchedAt: Date.now()});
+    return reusable.data;
+  }
+
+  await writeEntry(endpoint, {
+    data: result.data,
+    etag: result.etag,
+    fetchedAt: Date.now(),
+    language: getCurrentLanguage(),
+  });
+  return result.data;
+}
+
+/**
+ * GET an endpoint through the cache
+ * - Fresh entry: returned without a request
+ * - Stale entry: returned immediately, refreshed in the background
+ *   (onUpdate is called if the data changed)
+ * - No entry, an entry in another language or forceRefresh: waits for the
+ *   network; falls back to a cached copy of any age or language when the
+ *   device is offline
+ */
+export async function cachedGet<T>(endpoint: string, options: CacheOptions<T> = {}): Promise<T> {
+  const {forceRefresh = false, onUpdate, signal} = options;
+  const cached = await readEntry<T>(endpoint);
+
+  if (cached && cached.language === getCurrentLanguage() && !forceRefresh) {
+    if (isFresh(endpoint, cached)) {
+      return cached.data;
+    }
+
+    // Not tied to the caller's signal - the refreshed entry is useful to the next reader
+    revalidate<T>(endpoint, cached)
+      .then(data => {
+        if (onUpdate && JSON.stringify(data) !== JSON.stringify(cached.data)) {
+          onUpdate(data);
+        }
+      })
+      .catch(error => {
+        if (!isConnectivityError(error)) {
+          console.error('Error revalidating API cache:', endpoint, error);
+        }
+      });
+    return cached.data;
+  }
+
+  try {
+    return await revalidate<T>(endpoint, cached, signal);
+  } catch (error) {
+    if (cached && isConnectivityError(error)) {
+      console.log('📦 Serving cached response while offline:', endpoint);
+      return cached.data;
+    }
+    throw error;
+  }
+}
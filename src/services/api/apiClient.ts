@@ -6,6 +6,15 @@
 
 import auth from '@react-native-firebase/auth';
 import {API_BASE_URL, API_TIMEOUT} from '../../config/api';
+import {
+  ApiError,
+  CancelledError,
+  NetworkError,
+  TimeoutError,
+  UnauthorizedError,
+  createApiErrorFromResponse,
+} from './apiErrors';
+import {emitAuthExpired} from './authEvents';
 
 export interface ApiResponse<T> {
   success: boolean;
@@ -14,12 +23,37 @@ export interface ApiResponse<T> {
   message?: string;
 }
 
+/**
+ * One page of a cursor-paginated list endpoint
+ */
+export interface PaginatedResult<T> {
+  items: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+  total?: number;
+}
+
 export interface RequestOptions {
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
   body?: any;
   headers?: Record<string, string>;
   timeout?: number;
   skipAuth?: boolean;
+  idempotencyKey?: string;
+  // Aborting rejects the request with CancelledError
+  signal?: AbortSignal;
+  // ETag of a cached copy; a 304 response resolves with notModified
+  ifNoneMatch?: string;
+}
+
+/**
+ * Response data together with the HTTP metadata used for caching
+ * `data` is undefined when notModified is true
+ */
+export interface ApiResult<T> {
+  data: T;
+  etag: string | null;
+  notModified: boolean;
 }
 
 /**
@@ -38,19 +72,157 @@ async function getAuthToken(): Promise<string | null> {
   }
 }
 
+// Shared so that several requests failing with 401 trigger a single refresh
+let refreshPromise: Promise<string | null> | null = null;
+
 /**
- * Make API request with authentication
+ * Force-refresh the Firebase ID token
+ * Returns null when the session can no longer be refreshed
  */
-export async function apiRequest<T>(
+async function refreshAuthToken(): Promise<string | null> {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      try {
+        const user = auth().currentUser;
+        if (!user) {
+          return null;
+        }
+        return await user.getIdToken(true);
+      } catch (error) {
+        console.error('Error refreshing auth token:', error);
+        return null;
+      }
+    })();
+    // Cleared after the assignment - without a user the body above finishes synchronously
+    const current = refreshPromise;
+    current.finally(() => {
+      if (refreshPromise === current) {
+        refreshPromise = null;
+      }
+    });
+  }
+  return refreshPromise;
+}
+
+/**
+ * Send a single HTTP request and parse the API envelope
+ * The fetch is aborted when the timeout elapses or the caller's signal fires
+ */
+async function sendRequest<T>(
+  url: string,
+  method: NonNullable<RequestOptions['method']>,
+  headers: Record<string, string>,
+  body: any,
+  timeout: number,
+  signal?: AbortSignal,
+): Promise<ApiResult<T>> {
+  if (signal?.aborted) {
+    throw new CancelledError();
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeout);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort);
+
+  // Error to throw when the request was aborted, null otherwise
+  const getAbortError = (): ApiError | null => {
+    if (timedOut) {
+      return new TimeoutError();
+    }
+    if (controller.signal.aborted) {
+      return new CancelledError();
+    }
+    return null;
+  };
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers,
+        body: body ? JSON.stringify(body) : undefined,
+        signal: controller.signal,
+      });
+    } catch {
+      // fetch only rejects when no response was received
+      throw getAbortError() || new NetworkError();
+    }
+
+    const etag = response.headers.get('etag');
+
+    // The cached copy identified by If-None-Match is still current
+    if (response.status === 304) {
+      return {data: undefined as T, etag, notModified: true};
+    }
+
+    // Check if response is ok
+    if (!response.ok) {
+      let errorData: any = {};
+      try {
+        errorData = await response.json();
+      } catch {
+        const abortError = getAbortError();
+        if (abortError) {
+          throw abortError;
+        }
+        // If JSON parsing fails, use status text
+        errorData = {message: response.statusText};
+      }
+
+      throw createApiErrorFromResponse(response, errorData);
+    }
+
+    // Parse response
+    let data: ApiResponse<T> & {code?: string; requestId?: string};
+    try {
+      data = await response.json();
+    } catch {
+      throw getAbortError() || new ApiError('Invalid response from server', {
+        status: response.status,
+        code: 'INVALID_RESPONSE',
+        requestId: response.headers.get('x-request-id') || undefined,
+      });
+    }
+
+    if (!data.success) {
+      throw new ApiError(data.message || data.error || 'API request failed', {
+        status: response.status,
+        code: data.code,
+        requestId: response.headers.get('x-request-id') || data.requestId,
+      });
+    }
+
+    return {data: data.data as T, etag, notModified: false};
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Perform an authenticated request without in-flight sharing
+ * A 401 response force-refreshes the ID token and replays the request once;
+ * if the token cannot be refreshed an auth-expired event is emitted
+ */
+async function executeRequest<T>(
   endpoint: string,
   options: RequestOptions = {},
-): Promise<T> {
+): Promise<ApiResult<T>> {
   const {
     method = 'GET',
     body,
     headers = {},
     timeout = API_TIMEOUT,
     skipAuth = false,
+    idempotencyKey,
+    signal,
+    ifNoneMatch,
   } = options;
 
   // Get auth token unless skipping auth
@@ -58,7 +230,9 @@ export async function apiRequest<T>(
   if (!skipAuth) {
     authToken = await getAuthToken();
     if (!authToken) {
-      throw new Error('User not authenticated. Please login.');
+      throw new UnauthorizedError('User not authenticated. Please login.', {
+        code: 'NOT_AUTHENTICATED',
+      });
     }
   }
 
@@ -72,63 +246,227 @@ export async function apiRequest<T>(
     requestHeaders['Authorization'] = `Bearer ${authToken}`;
   }
 
+  // Lets the backend recognise a replayed request and return the original result
+  if (idempotencyKey) {
+    requestHeaders['Idempotency-Key'] = idempotencyKey;
+  }
+
+  if (ifNoneMatch) {
+    requestHeaders['If-None-Match'] = ifNoneMatch;
+  }
+
   // Build URL
   const url = endpoint.startsWith('http')
     ? endpoint
     : `${API_BASE_URL}${endpoint.startsWith('/') ? endpoint : `/${endpoint}`}`;
 
-  // Create timeout promise
-  const timeoutPromise = new Promise<never>((_, reject) => {
-    setTimeout(() => reject(new Error('Request timeout')), timeout);
-  });
+  try {
+    return await sendRequest<T>(url, method, requestHeaders, body, timeout, signal);
+  } catch (error) {
+    // 403 means the token is valid but not allowed - refreshing would not help
+    if (skipAuth || !(error instanceof UnauthorizedError) || error.status !== 401) {
+      throw error;
+    }
+
+    const refreshedToken = await refreshAuthToken();
+    if (!refreshedToken) {
+      throw expireSession(error);
+    }
 
-  // Create fetch promise
-  const fetchPromise = fetch(url, {
-    method,
-    headers: requestHeaders,
-    body: body ? JSON.stringify(body) : undefined,
+    // Replay once with the fresh token
+    try {
+      return await sendRequest<T>(
+        url,
+        method,
+        {...requestHeaders, Authorization: `Bearer ${refreshedToken}`},
+        body,
+        timeout,
+        signal,
+      );
+    } catch (replayError) {
+      // Still rejected with a fresh token, e.g. the account was disabled
+      if (replayError instanceof UnauthorizedError && replayError.status === 401) {
+        throw expireSession(replayError);
+      }
+      throw replayError;
+    }
+  }
+}
+
+/**
+ * Send the user back to Login; returns the error to throw to the caller
+ */
+function expireSession(error: UnauthorizedError): UnauthorizedError {
+  emitAuthExpired();
+  return new UnauthorizedError('Your session has expired. Please login again.', {
+    code: 'AUTH_EXPIRED',
+    requestId: error.requestId,
   });
+}
 
-  try {
-    // Race between fetch and timeout
-    const response = await Promise.race([fetchPromise, timeoutPromise]);
+interface InFlightGet {
+  promise: Promise<ApiResult<any>>;
+  controller: AbortController;
+  // Callers still waiting for the response
+  subscribers: number;
+}
 
-    // Check if response is ok
-    if (!response.ok) {
-      let errorData: any = {};
-      try {
-        errorData = await response.json();
-      } catch {
-        // If JSON parsing fails, use status text
-        errorData = {message: response.statusText};
+// Identical GETs issued while one is already in flight share its response
+const inFlightGets = new Map<string, InFlightGet>();
+
+function getRequestKey(endpoint: string, options: RequestOptions): string {
+  return JSON.stringify([endpoint, !!options.skipAuth, options.ifNoneMatch || null, options.headers || {}]);
+}
+
+/**
+ * Join (or start) the shared in-flight GET for an endpoint
+ * A caller's signal only cancels its own wait; the underlying fetch is
+ * aborted once every caller waiting for it has cancelled
+ */
+function sharedGet<T>(endpoint: string, options: RequestOptions): Promise<ApiResult<T>> {
+  const {signal} = options;
+  if (signal?.aborted) {
+    return Promise.reject(new CancelledError());
+  }
+
+  const key = getRequestKey(endpoint, options);
+  let entry = inFlightGets.get(key);
+  if (!entry) {
+    const controller = new AbortController();
+    const created: InFlightGet = {
+      promise: executeRequest<T>(endpoint, {...options, signal: controller.signal}),
+      controller,
+      subscribers: 0,
+    };
+    const release = () => {
+      if (inFlightGets.get(key) === created) {
+        inFlightGets.delete(key);
       }
+    };
+    created.promise.then(release, release);
+    inFlightGets.set(key, created);
+    entry = created;
+  }
 
-      throw new Error(
-        errorData.message || errorData.error || `HTTP ${response.status}: ${response.statusText}`,
-      );
-    }
+  const shared = entry;
+  shared.subscribers++;
 
-    // Parse response
-    const data: ApiResponse<T> = await response.json();
+  // Without a signal the caller can never leave, so the fetch is never aborted
+  if (!signal) {
+    return shared.promise;
+  }
 
-    if (!data.success) {
-      throw new Error(data.message || data.error || 'API request failed');
-    }
+  return new Promise<ApiResult<T>>((resolve, reject) => {
+    let settled = false;
 
-    return data.data as T;
-  } catch (error: any) {
-    // Handle network errors
-    if (error.message === 'Request timeout') {
-      throw new Error('Request timed out. Please check your connection and try again.');
-    }
+    const onAbort = () => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      reject(new CancelledError());
 
-    if (error.message?.includes('Failed to fetch') || error.message?.includes('Network request failed')) {
-      throw new Error('Network error. Please check your internet connection.');
-    }
+      shared.subscribers--;
+      if (shared.subscribers === 0) {
+        // Nobody is waiting any more - stop the fetch and let the next caller start afresh
+        if (inFlightGets.get(key) === shared) {
+          inFlightGets.delete(key);
+        }
+        shared.controller.abort();
+      }
+    };
+    signal.addEventListener('abort', onAbort);
 
-    // Re-throw other errors
-    throw error;
+    shared.promise.then(
+      result => {
+        if (!settled) {
+          settled = true;
+          signal.removeEventListener('abort', onAbort);
+          resolve(result);
+        }
+      },
+      error => {
+        if (!settled) {
+          settled = true;
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      },
+    );
+  });
+}
+
+/**
+ * Make API request and return the data with its ETag
+ * Same error behaviour as apiRequest
+ */
+export async function apiRequestWithMeta<T>(
+  endpoint: string,
+  options: RequestOptions = {},
+): Promise<ApiResult<T>> {
+  if ((options.method || 'GET') === 'GET') {
+    return sharedGet<T>(endpoint, options);
   }
+  return executeRequest<T>(endpoint, options);
+}
+
+/**
+ * Make API request with authentication
+ * Throws an ApiError subclass (see ./apiErrors) on failure, or
+ * CancelledError when `signal` is aborted
+ * Identical GET requests in flight at the same time share one fetch
+ */
+export async function apiRequest<T>(
+  endpoint: string,
+  options: RequestOptions = {},
+): Promise<T> {
+  const result = await apiRequestWithMeta<T>(endpoint, options);
+  return result.data;
+}
+
+/**
+ * Build a query string from filter params
+ * Skips empty values, joins arrays with commas and serialises dates as ISO strings
+ */
+export function buildQueryString(params?: object): string {
+  const search = new URLSearchParams();
+  if (params) {
+    Object.entries(params).forEach(([key, value]) => {
+      if (value === undefined || value === null || value === '') {
+        return;
+      }
+      if (Array.isArray(value)) {
+        if (value.length > 0) {
+          search.append(key, value.join(','));
+        }
+      } else if (value instanceof Date) {
+        search.append(key, value.toISOString());
+      } else {
+        search.append(key, String(value));
+      }
+    });
+  }
+  const queryString = search.toString();
+  return queryString ? `?${queryString}` : '';
+}
+
+/**
+ * Normalise a list response into a page
+ * Older endpoints return a plain array (a single, final page)
+ */
+export function toPaginatedResult<T>(
+  response: T[] | {data?: T[]; count?: number; nextCursor?: string | null; hasMore?: boolean},
+): PaginatedResult<T> {
+  if (Array.isArray(response)) {
+    return {items: response, nextCursor: null, hasMore: false, total: response.length};
+  }
+  const nextCursor = response?.nextCursor || null;
+  return {
+    items: response?.data || [],
+    nextCursor,
+    hasMore: response?.hasMore ?? !!nextCursor,
+    total: response?.count,
+  };
 }
 
 /**
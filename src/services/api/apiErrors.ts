@@ -0,0 +1,275 @@
+/**
+ * API Errors
+ * Structured error hierarchy thrown by the API client
+ * Screens and services should branch on the error class (or `code`)
+ * instead of matching on message strings
+ */
+
+export interface ApiErrorDetails {
+  status?: number;
+  code?: string;
+  requestId?: string;
+}
+
+export type FieldErrors = Record<string, string>;
+
+/**
+ * Base class for every error thrown by apiRequest
+ * `status` is 0 when no HTTP response was received
+ */
+export class ApiError extends Error {
+  status: number;
+  code: string;
+  requestId?: string;
+
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = details.status ?? 0;
+    this.code = details.code || 'API_ERROR';
+    this.requestId = details.requestId;
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * 404 - resource does not exist
+ */
+export class NotFoundError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, {status: 404, code: 'NOT_FOUND', ...details});
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * 401/403 - missing, expired or insufficient credentials
+ */
+export class UnauthorizedError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, {status: 401, code: 'UNAUTHORIZED', ...details});
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/**
+ * 400/422 - request payload rejected, with per-field messages when provided
+ */
+export class ValidationError extends ApiError {
+  fieldErrors: FieldErrors;
+
+  constructor(message: string, fieldErrors: FieldErrors = {}, details: ApiErrorDetails = {}) {
+    super(message, {status: 400, code: 'VALIDATION_ERROR', ...details});
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * 429 - too many requests
+ * `retryAfter` is in seconds when the server sent a Retry-After header
+ */
+export class RateLimitedError extends ApiError {
+  retryAfter?: number;
+
+  constructor(message: string, retryAfter?: number, details: ApiErrorDetails = {}) {
+    super(message, {status: 429, code: 'RATE_LIMITED', ...details});
+    this.name = 'RateLimitedError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Request did not complete within the configured timeout
+ */
+export class TimeoutError extends ApiError {
+  constructor(message: string = 'Request timed out. Please check your connection and try again.') {
+    super(message, {status: 0, code: 'TIMEOUT'});
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Request never reached the server (offline, DNS, connection reset)
+ */
+export class NetworkError extends ApiError {
+  constructor(message: string = 'Network error. Please check your internet connection.') {
+    super(message, {status: 0, code: 'NETWORK_ERROR'});
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Request was aborted by the caller (e.g. the screen unmounted)
+ * Not a failure - callers should ignore it rather than show an error
+ */
+export class CancelledError extends ApiError {
+  constructor(message: string = 'Request was cancelled.') {
+    super(message, {status: 0, code: 'CANCELLED'});
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * 5xx - backend failure
+ */
+export class ServerError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, {status: 500, code: 'SERVER_ERROR', ...details});
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Response body did not match the expected schema
+ * `path` points at the offending field, e.g. `jobCards[2].customerAddress.pincode`
+ */
+export class SchemaError extends ApiError {
+  path: string;
+
+  constructor(path: string, message: string) {
+    super(`Invalid response at ${path}: ${message}`, {status: 0, code: 'SCHEMA_MISMATCH'});
+    this.name = 'SchemaError';
+    this.path = path;
+  }
+}
+
+/**
+ * Status change not allowed by the service lifecycle
+ * Thrown before the request is sent, so nothing was changed
+ */
+export class InvalidTransitionError extends ApiError {
+  from: string;
+  to: string;
+
+  constructor(from: string, to: string, actor: string) {
+    super(`A ${actor} cannot change a ${from} service to ${to}`, {status: 0, code: 'INVALID_TRANSITION'});
+    this.name = 'InvalidTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * 409 - the time slot filled up before it could be held or booked
+ */
+export class SlotUnavailableError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, {status: 409, code: 'SLOT_UNAVAILABLE', ...details});
+    this.name = 'SlotUnavailableError';
+  }
+}
+
+/**
+ * A media upload to storage failed after its retries
+ */
+export class UploadFailedError extends ApiError {
+  constructor(message: string = 'Upload failed.') {
+    super(message, {status: 0, code: 'UPLOAD_FAILED'});
+    this.name = 'UploadFailedError';
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into seconds
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds);
+  }
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, Math.round((date - Date.now()) / 1000));
+  }
+  return undefined;
+}
+
+/**
+ * Normalise the different field error shapes the backend returns
+ * ({field: message}, [{field, message}] or [{path, msg}])
+ */
+function parseFieldErrors(errors: any): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+  if (Array.isArray(errors)) {
+    errors.forEach((item: any) => {
+      const field = item?.field || item?.path || item?.param;
+      const message = item?.message || item?.msg;
+      if (field && message) {
+        fieldErrors[String(field)] = String(message);
+      }
+    });
+  } else if (errors && typeof errors === 'object') {
+    Object.entries(errors).forEach(([field, message]) => {
+      fieldErrors[field] = Array.isArray(message) ? String(message[0]) : String(message);
+    });
+  }
+  return fieldErrors;
+}
+
+/**
+ * Build the matching ApiError subclass from a non-2xx response
+ */
+export function createApiErrorFromResponse(
+  response: {status: number; statusText?: string; headers?: {get(name: string): string | null}},
+  body: any = {},
+): ApiError {
+  const {status} = response;
+  const message: string =
+    body?.message || body?.error || `HTTP ${status}: ${response.statusText || ''}`.trim();
+  const details: ApiErrorDetails = {
+    status,
+    code: typeof body?.code === 'string' ? body.code : undefined,
+    requestId: response.headers?.get('x-request-id') || body?.requestId || undefined,
+  };
+  // Drop the undefined code so each subclass keeps its default
+  if (!details.code) {
+    delete details.code;
+  }
+
+  if (status === 404) {
+    return new NotFoundError(message, details);
+  }
+  if (status === 401 || status === 403) {
+    return new UnauthorizedError(message, details);
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(
+      message,
+      parseFieldErrors(body?.fieldErrors || body?.errors),
+      details,
+    );
+  }
+  if (status === 409 && details.code === 'SLOT_UNAVAILABLE') {
+    return new SlotUnavailableError(message, details);
+  }
+  if (status === 429) {
+    return new RateLimitedError(
+      message,
+      parseRetryAfter(response.headers?.get('retry-after') ?? null),
+      details,
+    );
+  }
+  if (status >= 500) {
+    return new ServerError(message, details);
+  }
+  return new ApiError(message, details);
+}
+
+/**
+ * Check whether an error means the request never reached the server
+ */
+export function isConnectivityError(error: unknown): boolean {
+  return error instanceof NetworkError || error instanceof TimeoutError;
+}
+
+/**
+ * Check whether an error only means the caller cancelled the request
+ */
+export function isCancelledError(error: unknown): boolean {
+  return error instanceof CancelledError;
+}
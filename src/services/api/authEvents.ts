@@ -0,0 +1,37 @@
+/**
+ * Auth Events
+ * Lets the API layer signal that the session can no longer be refreshed
+ * so the navigation layer can send the user back to Login
+ */
+
+type AuthExpiredListener = () => void;
+
+const authExpiredListeners: AuthExpiredListener[] = [];
+
+/**
+ * Register a callback for auth-expired events
+ * Returns unsubscribe function
+ */
+export function onAuthExpired(listener: AuthExpiredListener): () => void {
+  authExpiredListeners.push(listener);
+
+  return () => {
+    const index = authExpiredListeners.indexOf(listener);
+    if (index > -1) {
+      authExpiredListeners.splice(index, 1);
+    }
+  };
+}
+
+/**
+ * Notify listeners that the Firebase session has expired or was revoked
+ */
+export function emitAuthExpired(): void {
+  authExpiredListeners.forEach(listener => {
+    try {
+      listener();
+    } catch (error) {
+      console.error('Error in auth expired listener:', error);
+    }
+  });
+}
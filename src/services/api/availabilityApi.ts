@@ -0,0 +1,80 @@
+/**
+ * Availability API Service
+ * Bookable time slots for scheduled services and short-lived slot holds
+ */
+
+import {apiDelete, apiGet, apiPost, buildQueryString, type RequestOptions} from './apiClient';
+import {date, entity, list, number, parse, string} from './schema';
+import type {AvailabilitySlot, SlotHold} from '../../types/domain';
+
+export type {AvailabilitySlot, SlotHold};
+
+const slotSchema = entity<AvailabilitySlot>({
+  start: date,
+  end: date,
+  availableProviders: number,
+});
+
+const slotHoldSchema = entity<SlotHold>({
+  slotId: string,
+  start: date,
+  end: date,
+  expiresAt: date,
+});
+
+const parseSlots = (value: unknown): AvailabilitySlot[] =>
+  parse(list(slotSchema), value, 'AvailabilitySlot[]');
+
+const parseSlotHold = (value: unknown): SlotHold => parse(slotHoldSchema, value, 'SlotHold');
+
+export interface AvailabilityQuery {
+  serviceType: string;
+  pincode: string;
+  // Only the slots this provider can take, e.g. to move their booking
+  providerId?: string;
+  // Start of the first day to return
+  from: Date;
+  days?: number;
+}
+
+/**
+ * Get bookable slots for a service category and pincode
+ * Full slots are included with availableProviders = 0
+ */
+export async function getAvailableSlots(
+  query: AvailabilityQuery,
+  options?: Pick<RequestOptions, 'signal'>,
+): Promise<AvailabilitySlot[]> {
+  const response = await apiGet<unknown>(`/availability/slots${buildQueryString(query)}`, options);
+  return parseSlots(response);
+}
+
+/**
+ * Hold a slot while the booking is submitted
+ * Throws SlotUnavailableError when the slot filled up in the meantime
+ */
+export async function holdSlot(
+  slotId: string,
+  context: Pick<AvailabilityQuery, 'serviceType' | 'pincode'>,
+): Promise<SlotHold> {
+  const response = await apiPost<unknown>('/availability/holds', {slotId, ...context});
+  return parseSlotHold(response);
+}
+
+/**
+ * Release a hold the customer no longer needs
+ * Holds also expire on their own, so failures are only logged
+ */
+export async function releaseSlotHold(holdId: string): Promise<void> {
+  try {
+    await apiDelete(`/availability/holds/${holdId}`);
+  } catch (error) {
+    console.warn('Error releasing slot hold:', error);
+  }
+}
+
+export const availabilityApi = {
+  getSlots: getAvailableSlots,
+  hold: holdSlot,
+  releaseHold: releaseSlotHold,
+};
@@ -3,11 +3,14 @@
  * Handles contact recommendation operations via backend API
  */
 
-import {apiGet, apiPost} from './apiClient';
+import {apiGet} from './apiClient';
+import {sendOrQueue} from './offlineQueue';
+import {date, entity, list, literal, number, object, optional, parse, string} from './schema';
 
 export interface ContactRecommendation {
+  // Same value as id - kept for callers written against raw documents
   _id?: string;
-  id?: string;
+  id: string;
   recommendedProviderName: string;
   recommendedProviderPhone: string;
   serviceType: string;
@@ -19,10 +22,38 @@ export interface ContactRecommendation {
   status: 'pending' | 'contacted' | 'registered' | 'rejected';
   pointsAwarded: number;
   adminNotes?: string;
-  createdAt: string | Date;
-  updatedAt: string | Date;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
+const contactRecommendationSchema = entity<ContactRecommendation>({
+  recommendedProviderName: string,
+  recommendedProviderPhone: string,
+  serviceType: string,
+  address: optional(string),
+  recommendedBy: string,
+  recommendedByName: optional(string),
+  recommendedByPhone: optional(string),
+  recommendedByRole: literal('customer', 'provider'),
+  status: literal('pending', 'contacted', 'registered', 'rejected'),
+  pointsAwarded: number,
+  adminNotes: optional(string),
+  createdAt: date,
+  updatedAt: date,
+});
+
+type CreateContactRecommendationResponse = {
+  data: ContactRecommendation;
+  message: string;
+  pointsAwarded: number;
+};
+
+const createContactRecommendationResponseSchema = object<CreateContactRecommendationResponse>({
+  data: contactRecommendationSchema,
+  message: string,
+  pointsAwarded: number,
+});
+
 export interface CreateContactRecommendationRequest {
   recommendedProviderName: string;
   recommendedProviderPhone: string;
@@ -32,15 +63,19 @@ export interface CreateContactRecommendationRequest {
 
 /**
  * Create a new contact recommendation
+ * Queued for later delivery when offline (throws RequestQueuedError)
  */
 export async function createContactRecommendation(
   data: CreateContactRecommendationRequest,
-): Promise<{data: ContactRecommendation; message: string; pointsAwarded: number}> {
+): Promise<CreateContactRecommendationResponse> {
   try {
-    return await apiPost<{data: ContactRecommendation; message: string; pointsAwarded: number}>(
+    const response = await sendOrQueue<unknown>(
+      'createContactRecommendation',
       '/contactRecommendations',
+      'POST',
       data,
     );
+    return parse(createContactRecommendationResponseSchema, response, 'CreateContactRecommendation');
   } catch (error) {
     console.error('Error creating contact recommendation:', error);
     throw error;
@@ -52,8 +87,8 @@ export async function createContactRecommendation(
  */
 export async function getMyContactRecommendations(): Promise<ContactRecommendation[]> {
   try {
-    const response = await apiGet<{data: ContactRecommendation[]}>('/contactRecommendations/me');
-    return Array.isArray(response) ? response : (response as any).data || [];
+    const response = await apiGet<unknown>('/contactRecommendations/me');
+    return parse(list(contactRecommendationSchema), response, 'ContactRecommendation[]');
   } catch (error) {
     console.error('Error fetching my contact recommendations:', error);
     throw error;
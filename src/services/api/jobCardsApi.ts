@@ -3,58 +3,125 @@
  * Handles all job card operations via backend API
  */
 
-import {apiGet, apiPost, apiPut, apiDelete} from './apiClient';
-
-export interface JobCard {
-  _id?: string;
-  id?: string;
-  providerId: string;
-  providerName: string;
-  providerAddress: {
-    type: 'home' | 'office';
-    address: string;
-    city?: string;
-    state?: string;
-    pincode: string;
-    latitude?: number;
-    longitude?: number;
-  };
-  customerId: string;
-  customerName: string;
-  customerPhone: string;
-  customerAddress: {
-    address: string;
-    city?: string;
-    state?: string;
-    pincode: string;
-    latitude?: number;
-    longitude?: number;
-  };
-  serviceType: string;
-  problem?: string;
-  consultationId?: string;
-  bookingId?: string;
-  status: 'pending' | 'accepted' | 'in-progress' | 'completed' | 'cancelled';
-  taskPIN?: string;
-  pinGeneratedAt?: string | Date;
-  scheduledTime?: string | Date;
-  cancellationReason?: string;
-  jobCardPdfUrl?: string;
-  serviceAmount?: number;
-  materialsUsed?: Array<{
-    description: string;
-    quantity?: number;
-    unitPrice?: number;
-    total?: number;
-  }>;
-  createdAt: string | Date;
-  updatedAt: string | Date;
-}
+import {
+  apiGet,
+  apiPost,
+  apiPut,
+  apiDelete,
+  buildQueryString,
+  toPaginatedResult,
+  type PaginatedResult,
+  type RequestOptions,
+} from './apiClient';
+import {NotFoundError} from './apiErrors';
+import {sendOrQueue} from './offlineQueue';
+import {assertStatusTransition, type StatusTransitionContext} from './statusTransitions';
+import {
+  customerAddressSchema,
+  onBehalfContactSchema,
+  priceEstimateSchema,
+  serviceStatusSchema,
+} from './serviceRequestsApi';
+import {
+  array,
+  date,
+  entity,
+  list,
+  literal,
+  number,
+  object,
+  optional,
+  parse,
+  parseCommitted,
+  string,
+} from './schema';
+import type {JobCard, ServiceEvent} from '../../types/domain';
+
+export type {JobCard};
+
+const serviceEventSchema = object<ServiceEvent>({
+  type: literal(
+    'requested',
+    'offered',
+    'accepted',
+    'en-route',
+    'arrived',
+    'started',
+    'materials-added',
+    'completed',
+    'verified',
+    'reviewed',
+  ),
+  actor: literal('customer', 'provider', 'system'),
+  at: date,
+  note: optional(string),
+});
+
+const jobCardSchema = entity<JobCard>({
+  providerId: string,
+  providerName: string,
+  providerPhone: optional(string),
+  providerAddress: object<JobCard['providerAddress']>({
+    type: literal('home', 'office'),
+    address: string,
+    city: optional(string),
+    state: optional(string),
+    pincode: string,
+    latitude: optional(number),
+    longitude: optional(number),
+  }),
+  customerId: string,
+  customerName: string,
+  customerPhone: string,
+  customerAddress: customerAddressSchema,
+  serviceType: string,
+  problem: optional(string),
+  consultationId: optional(string),
+  bookingId: optional(string),
+  status: serviceStatusSchema,
+  taskPIN: optional(string),
+  pinGeneratedAt: optional(date),
+  startedAt: optional(date),
+  completedAt: optional(date),
+  scheduledTime: optional(date),
+  cancellationReason: optional(string),
+  jobCardPdfUrl: optional(string),
+  serviceAmount: optional(number),
+  materialsUsed: optional(
+    array(
+      object<NonNullable<JobCard['materialsUsed']>[number]>({
+        description: string,
+        quantity: optional(number),
+        unitPrice: optional(number),
+        total: optional(number),
+      }),
+    ),
+  ),
+  priceEstimate: optional(priceEstimateSchema),
+  onBehalfOf: optional(onBehalfContactSchema),
+  seriesId: optional(string),
+  occurrenceDate: optional(date),
+  events: optional(array(serviceEventSchema)),
+  createdAt: date,
+  updatedAt: date,
+});
+
+// Also used for job cards returned by other endpoints, e.g. accepting a quote
+const parseJobCard = (value: unknown): JobCard => parse(jobCardSchema, value, 'JobCard');
+
+// For responses to writes - see parseCommitted
+export const parseCommittedJobCard = (value: unknown): JobCard => parseCommitted(jobCardSchema, value, 'JobCard');
+
+const parseJobCards = (value: unknown): JobCard[] => parse(list(jobCardSchema), value, 'JobCard[]');
 
 export interface JobCardFilters {
-  status?: string;
+  status?: string | string[];
   customerId?: string;
   providerId?: string;
+  serviceType?: string;
+  createdAfter?: string | Date;
+  createdBefore?: string | Date;
+  cursor?: string;
   limit?: number;
   offset?: number;
 }
@@ -62,11 +129,15 @@ export interface JobCardFilters {
 /**
  * Get job card by ID (customer endpoint)
  */
-export async function getJobCardById(jobCardId: string): Promise<JobCard | null> {
+export async function getJobCardById(
+  jobCardId: string,
+  options?: Pick<RequestOptions, 'signal'>,
+): Promise<JobCard | null> {
   try {
-    return await apiGet<JobCard>(`/customer/jobCards/${jobCardId}`);
-  } catch (error: any) {
-    if (error.message?.includes('not found') || error.message?.includes('404')) {
+    const response = await apiGet<unknown>(`/customer/jobCards/${jobCardId}`, options);
+    return parseJobCard(response);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
       return null;
     }
     throw error;
@@ -76,27 +147,16 @@ export async function getJobCardById(jobCardId: string): Promise<JobCard | null>
 /**
  * Get all job cards with optional filters
  */
-export async function getJobCards(filters?: JobCardFilters): Promise<JobCard[]> {
+export async function getJobCards(
+  filters?: JobCardFilters,
+  options?: Pick<RequestOptions, 'signal'>,
+): Promise<JobCard[]> {
   try {
-    const params = new URLSearchParams();
-    if (filters) {
-      Object.entries(filters).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          params.append(key, String(value));
-        }
-      });
-    }
+    const endpoint = `/jobCards${buildQueryString(filters)}`;
 
-    const queryString = params.toString();
-    const endpoint = queryString ? `/jobCards?${queryString}` : '/jobCards';
-
-    const response = await apiGet<{data: JobCard[]; count: number}>(endpoint);
-    // Backend returns {data: [...], count: number}, but we expect array
-    // Check if response is array or object with data property
-    if (Array.isArray(response)) {
-      return response;
-    }
-    return (response as any).data || [];
+    const response = await apiGet<unknown>(endpoint, options);
+    // Backend returns {data: [...], count: number}, older deployments a plain array
+    return parseJobCards(response);
   } catch (error) {
     console.error('Error fetching job cards:', error);
     throw error;
@@ -109,55 +169,101 @@ export async function getJobCards(filters?: JobCardFilters): Promise<JobCard[]>
 export async function getCustomerJobCards(customerId: string): Promise<JobCard[]> {
   try {
     // Customer endpoint automatically filters by authenticated user
-    const response = await apiGet<{data: JobCard[]; count: number} | JobCard[]>('/customer/jobCards');
-    if (Array.isArray(response)) {
-      return response;
-    }
-    return (response as any).data || [];
+    const response = await apiGet<unknown>('/customer/jobCards');
+    return parseJobCards(response);
   } catch (error) {
     console.error('Error fetching customer job cards:', error);
     throw error;
   }
 }
 
+/**
+ * Get one page of the authenticated customer's job cards
+ * Filters are applied server-side; pass the previous page's nextCursor to continue
+ */
+export async function getCustomerJobCardsPage(
+  filters: Omit<JobCardFilters, 'customerId' | 'providerId'> = {},
+): Promise<PaginatedResult<JobCard>> {
+  try {
+    const response = await apiGet<{data: unknown[]; count: number; nextCursor?: string | null} | unknown[]>(
+      `/customer/jobCards${buildQueryString(filters)}`,
+    );
+    const page = toPaginatedResult(response);
+    return {...page, items: parseJobCards(page.items)};
+  } catch (error) {
+    console.error('Error fetching customer job cards page:', error);
+    throw error;
+  }
+}
+
+const loadJobCardStatus = (jobCardId: string) => async () =>
+  (await getJobCardById(jobCardId))?.status;
+
 /**
  * Update job card status
+ * Throws InvalidTransitionError, without sending, if the lifecycle does not allow the change
  */
 export async function updateJobCardStatus(
   jobCardId: string,
   status: JobCard['status'],
   updates?: Partial<JobCard>,
+  transition: StatusTransitionContext = {},
 ): Promise<JobCard> {
-  return apiPut<JobCard>(`/jobCards/${jobCardId}`, {
+  await assertStatusTransition(status, transition, loadJobCardStatus(jobCardId));
+  const response = await apiPut<unknown>(`/jobCards/${jobCardId}`, {
     status,
     ...updates,
   });
+  return parseCommittedJobCard(response);
 }
 
 /**
  * Cancel job card with reason (customer endpoint)
+ * Throws InvalidTransitionError if the job card can no longer be cancelled
  */
 export async function cancelJobCard(
   jobCardId: string,
   cancellationReason: string,
+  transition: StatusTransitionContext = {},
 ): Promise<JobCard> {
-  return apiPut<JobCard>(`/customer/jobCards/${jobCardId}/cancel`, {
+  await assertStatusTransition('cancelled', transition, loadJobCardStatus(jobCardId));
+  const response = await apiPut<unknown>(`/customer/jobCards/${jobCardId}/cancel`, {
     cancellationReason,
   });
+  return parseCommittedJobCard(response);
 }
 
 /**
  * Create job card (provider/admin only)
  */
 export async function createJobCard(data: Partial<JobCard>): Promise<JobCard> {
-  return apiPost<JobCard>('/jobCards', data);
+  const response = await apiPost<unknown>('/jobCards', data);
+  return parseCommittedJobCard(response);
+}
+
+/**
+ * Add a step to the job card's progress log
+ * The backend ignores a repeat of a step that can only happen once
+ * Queued for later delivery when offline (throws RequestQueuedError)
+ */
+export async function addJobCardEvent(
+  jobCardId: string,
+  event: Omit<ServiceEvent, 'at'> & {at?: Date},
+): Promise<JobCard> {
+  const response = await sendOrQueue<unknown>('addJobCardEvent', `/jobCards/${jobCardId}/events`, 'POST', {
+    ...event,
+    at: (event.at || new Date()).toISOString(),
+  });
+  return parseCommittedJobCard(response);
 }
 
 export const jobCardsApi = {
   getById: getJobCardById,
   getAll: getJobCards,
   getCustomerJobCards,
+  getCustomerJobCardsPage,
   updateStatus: updateJobCardStatus,
   cancel: cancelJobCard,
   create: createJobCard,
+  addEvent: addJobCardEvent,
 };
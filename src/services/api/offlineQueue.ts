@@ -0,0 +1,380 @@
+/**
+ * Offline Request Queue
+ * Persists mutating API calls in AsyncStorage while the device is offline
+ * and replays them when connectivity returns.
+ * Every queued request carries an idempotency key so a replay never
+ * creates a duplicate on the backend, and the uid of the user who made it
+ * so it is only ever replayed with that user's credentials.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import auth from '@react-native-firebase/auth';
+import NetInfo, {type NetInfoState} from '@react-native-community/netinfo';
+import {apiRequest, type RequestOptions} from './apiClient';
+import {isConnectivityError, RateLimitedError, ServerError, UnauthorizedError} from './apiErrors';
+import {generateId} from '../../utils/helpers';
+
+const QUEUE_STORAGE_KEY = '@offline_request_queue';
+
+// Sent items are kept for a while so the UI can show them as synced
+const SENT_RETENTION_MS = 24 * 60 * 60 * 1000; // 24 hours
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000; // 5 minutes
+const BASE_RETRY_DELAY_MS = 15 * 1000; // 15 seconds
+
+export type QueuedRequestKind =
+  | 'createServiceRequest'
+  | 'cancelServiceRequest'
+  | 'createReview'
+  | 'createContactRecommendation'
+  | 'addJobCardEvent';
+
+export type QueuedRequestStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+export interface QueuedRequest {
+  id: string;
+  // Firebase uid of the user who made the request
+  userId: string;
+  kind: QueuedRequestKind;
+  endpoint: string;
+  method: NonNullable<RequestOptions['method']>;
+  body?: any;
+  idempotencyKey: string;
+  status: QueuedRequestStatus;
+  attempts: number;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Thrown by queued mutations when the request could not be sent now
+ * and was stored for later delivery instead
+ */
+export class RequestQueuedError extends Error {
+  queuedRequest: QueuedRequest;
+
+  constructor(queuedRequest: QueuedRequest) {
+    super('You are offline. Your request has been saved and will be sent when you are back online.');
+    this.name = 'RequestQueuedError';
+    this.queuedRequest = queuedRequest;
+  }
+}
+
+type QueueListener = (queue: QueuedRequest[]) => void;
+
+let queue: QueuedRequest[] = [];
+let loaded = false;
+let loadPromise: Promise<void> | null = null;
+let draining = false;
+// Set when requests are queued again while a drain is running
+let drainRequested = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners: QueueListener[] = [];
+
+function isOnline(state: NetInfoState): boolean {
+  return !!state.isConnected && state.isInternetReachable !== false;
+}
+
+/**
+ * Requests of the signed-in user; other accounts' requests stay stored
+ * until that account signs in again
+ */
+function getOwnRequests(): QueuedRequest[] {
+  const userId = auth().currentUser?.uid;
+  return userId ? queue.filter(item => item.userId === userId) : [];
+}
+
+async function loadQueue(): Promise<void> {
+  if (loaded) {
+    return;
+  }
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(QUEUE_STORAGE_KEY);
+        const parsed: QueuedRequest[] = stored ? JSON.parse(stored) : [];
+        const now = Date.now();
+        queue = parsed
+          // A request that was mid-flight when the app was killed is retried
+          .map(item => (item.status === 'sending' ? {...item, status: 'queued' as const} : item))
+          // Requests saved before the queue recorded their owner cannot be replayed safely
+          .filter(item => typeof item.userId === 'string')
+          .filter(item => item.status !== 'sent' || now - item.updatedAt < SENT_RETENTION_MS);
+      } catch (error) {
+        console.error('Error loading offline request queue:', error);
+        queue = [];
+      }
+      loaded = true;
+    })();
+  }
+  await loadPromise;
+}
+
+async function persistQueue(): Promise<void> {
+  try {
+    await AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    console.error('Error saving offline request queue:', error);
+  }
+}
+
+function notifyListeners(): void {
+  const snapshot = getOwnRequests();
+  listeners.forEach(listener => {
+    try {
+      listener(snapshot);
+    } catch (error) {
+      console.error('Error in offline queue listener:', error);
+    }
+  });
+}
+
+async function updateItem(id: string, updates: Partial<QueuedRequest>): Promise<void> {
+  queue = queue.map(item =>
+    item.id === id ? {...item, ...updates, updatedAt: Date.now()} : item,
+  );
+  notifyListeners();
+  await persistQueue();
+}
+
+function scheduleRetry(attempts: number): void {
+  if (retryTimer) {
+    return;
+  }
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    drainQueue().catch(error => {
+      console.error('Error draining offline request queue:', error);
+    });
+  }, delay);
+}
+
+/**
+ * Add a request to the persisted queue
+ */
+export async function enqueueRequest(
+  kind: QueuedRequestKind,
+  endpoint: string,
+  method: QueuedRequest['method'],
+  body?: any,
+  idempotencyKey: string = generateId(),
+): Promise<QueuedRequest> {
+  const userId = auth().currentUser?.uid;
+  if (!userId) {
+    throw new UnauthorizedError('User not authenticated. Please login.', {
+      code: 'NOT_AUTHENTICATED',
+    });
+  }
+
+  await loadQueue();
+
+  const now = Date.now();
+  const item: QueuedRequest = {
+    id: generateId(),
+    userId,
+    kind,
+    endpoint,
+    method,
+    body,
+    idempotencyKey,
+    status: 'queued',
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  queue = [...queue, item];
+  notifyListeners();
+  await persistQueue();
+  return item;
+}
+
+/**
+ * Send a mutating request, or queue it when the device is offline.
+ * Throws RequestQueuedError when the request was queued.
+ */
+export async function sendOrQueue<T>(
+  kind: QueuedRequestKind,
+  endpoint: string,
+  method: QueuedRequest['method'],
+  body?: any,
+): Promise<T> {
+  const idempotencyKey = generateId();
+
+  const state = await NetInfo.fetch();
+  if (isOnline(state)) {
+    try {
+      return await apiRequest<T>(endpoint, {method, body, idempotencyKey});
+    } catch (error) {
+      if (!isConnectivityError(error)) {
+        throw error;
+      }
+      // Fall through and queue with the same key - the server may have
+      // received the first attempt even though the response was lost
+    }
+  }
+
+  const item = await enqueueRequest(kind, endpoint, method, body, idempotencyKey);
+  throw new RequestQueuedError(item);
+}
+
+/**
+ * Send the signed-in user's queued requests in order
+ * Returns false when a transient failure stopped the pass and a retry was scheduled
+ */
+async function sendQueuedRequests(): Promise<boolean> {
+  const pending = getOwnRequests().filter(item => item.status === 'queued');
+  for (const item of pending) {
+    const attempts = item.attempts + 1;
+    await updateItem(item.id, {status: 'sending', attempts});
+
+    try {
+      await apiRequest(item.endpoint, {
+        method: item.method,
+        body: item.body,
+        idempotencyKey: item.idempotencyKey,
+      });
+      await updateItem(item.id, {status: 'sent', lastError: undefined});
+    } catch (error: any) {
+      if (
+        isConnectivityError(error) ||
+        error instanceof ServerError ||
+        error instanceof RateLimitedError
+      ) {
+        // Transient failure - keep the rest in order and try again later
+        await updateItem(item.id, {status: 'queued', lastError: error.message});
+        scheduleRetry(attempts);
+        return false;
+      }
+      // The server rejected the request; retrying would not help
+      await updateItem(item.id, {status: 'failed', lastError: error.message});
+    }
+  }
+  return true;
+}
+
+/**
+ * Replay all queued requests in order
+ * Only one drain runs at a time; a call during a drain makes it take
+ * another pass so requests queued meanwhile are not left behind
+ */
+export async function drainQueue(): Promise<void> {
+  // Claimed before the first await so concurrent triggers cannot send an item twice
+  if (draining) {
+    drainRequested = true;
+    return;
+  }
+  draining = true;
+
+  try {
+    await loadQueue();
+
+    const state = await NetInfo.fetch();
+    if (!isOnline(state)) {
+      return;
+    }
+
+    let completed: boolean;
+    do {
+      drainRequested = false;
+      completed = await sendQueuedRequests();
+    } while (completed && drainRequested);
+  } finally {
+    draining = false;
+    drainRequested = false;
+  }
+}
+
+/**
+ * Put a failed request back into the queue and try to send it
+ */
+export async function retryQueuedRequest(id: string): Promise<void> {
+  await loadQueue();
+  await updateItem(id, {status: 'queued', lastError: undefined});
+  await drainQueue();
+}
+
+/**
+ * Remove a request from the queue without sending it
+ */
+export async function removeQueuedRequest(id: string): Promise<void> {
+  await loadQueue();
+  queue = queue.filter(item => item.id !== id);
+  notifyListeners();
+  await persistQueue();
+}
+
+/**
+ * Get a snapshot of the signed-in user's queue
+ */
+export async function getQueuedRequests(): Promise<QueuedRequest[]> {
+  await loadQueue();
+  return getOwnRequests();
+}
+
+/**
+ * Subscribe to queue changes
+ * Returns unsubscribe function
+ */
+export function subscribeToQueue(listener: QueueListener): () => void {
+  listeners.push(listener);
+  loadQueue().then(() => listener(getOwnRequests()));
+
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+}
+
+/**
+ * Start draining the queue whenever connectivity is restored or a user
+ * signs in with requests still queued
+ * Returns unsubscribe function
+ */
+export function startOfflineQueue(): () => void {
+  let wasOnline = false;
+  const drainInBackground = () => {
+    drainQueue().catch(error => {
+      console.error('Error draining offline request queue:', error);
+    });
+  };
+
+  const unsubscribeNetInfo = NetInfo.addEventListener(state => {
+    const online = isOnline(state);
+    if (online && !wasOnline) {
+      drainInBackground();
+    }
+    wasOnline = online;
+  });
+
+  const unsubscribeAuth = auth().onAuthStateChanged(user => {
+    // Show the new account's queue instead of the previous one's
+    loadQueue().then(notifyListeners);
+    if (user) {
+      drainInBackground();
+    }
+  });
+
+  return () => {
+    unsubscribeNetInfo();
+    unsubscribeAuth();
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+}
+
+export const offlineQueue = {
+  enqueue: enqueueRequest,
+  sendOrQueue,
+  drain: drainQueue,
+  retry: retryQueuedRequest,
+  remove: removeQueuedRequest,
+  getAll: getQueuedRequests,
+  subscribe: subscribeToQueue,
+  start: startOfflineQueue,
+};
@@ -3,50 +3,80 @@
  * Handles provider operations via backend API
  */
 
-import {apiGet, apiPut} from './apiClient';
+import {apiGet, apiPut, type RequestOptions} from './apiClient';
+import {cachedGet, type CacheOptions} from './apiCache';
+import {
+  array,
+  boolean,
+  date,
+  entity,
+  list,
+  literal,
+  number,
+  object,
+  optional,
+  parse,
+  string,
+  unknown,
+  type Schema,
+} from './schema';
+import {NotFoundError} from './apiErrors';
+import type {Provider, ProviderLocationFields} from '../../types/domain';
 
-export interface Provider {
-  _id?: string;
-  id?: string;
-  name?: string;
-  displayName?: string;
-  email?: string;
-  phoneNumber?: string;
-  specialization?: string;
-  serviceCategories?: string[];
-  experience?: number;
-  serviceFee?: number;
-  approvalStatus?: 'pending' | 'approved' | 'rejected';
-  verified?: boolean;
-  rating?: number;
-  totalReviews?: number;
-  isOnline?: boolean;
-  location?: {
-    latitude?: number;
-    longitude?: number;
-    address?: string;
-    city?: string;
-    state?: string;
-    pincode?: string;
-  };
-  currentLocation?: {
-    latitude?: number;
-    longitude?: number;
-    address?: string;
-    city?: string;
-    state?: string;
-    pincode?: string;
-    updatedAt?: string | number | Date;
-  };
-  photos?: string[];
-  createdAt?: string | Date;
-  updatedAt?: string | Date;
-}
+export type {Provider};
+
+// Location timestamps are compared with Date.now(), so keep them as epoch milliseconds
+const timestamp: Schema<number> = (value, path) => date(value, path).getTime();
+
+const providerLocationShape = {
+  latitude: optional(number),
+  longitude: optional(number),
+  address: optional(string),
+  city: optional(string),
+  state: optional(string),
+  pincode: optional(string),
+};
+
+const providerSchema = entity<Provider>({
+  name: optional(string),
+  displayName: optional(string),
+  email: optional(string),
+  phoneNumber: optional(string),
+  phone: optional(string),
+  specialization: optional(string),
+  specialty: optional(string),
+  serviceCategories: optional(array(string)),
+  experience: optional(number),
+  serviceFee: optional(number),
+  approvalStatus: optional(literal('pending', 'approved', 'rejected')),
+  verified: optional(boolean),
+  rating: optional(number),
+  totalReviews: optional(number),
+  totalConsultations: optional(number),
+  profileImage: optional(string),
+  address: unknown,
+  isOnline: optional(boolean),
+  location: optional(object<ProviderLocationFields>(providerLocationShape)),
+  currentLocation: optional(
+    object<NonNullable<Provider['currentLocation']>>({
+      ...providerLocationShape,
+      updatedAt: optional(timestamp),
+    }),
+  ),
+  photos: optional(array(string)),
+  createdAt: optional(date),
+  updatedAt: optional(date),
+});
+
+const parseProvider = (value: unknown): Provider => parse(providerSchema, value, 'Provider');
+
+const parseProviders = (value: unknown): Provider[] => parse(list(providerSchema), value, 'Provider[]');
 
 export interface ProviderFilters {
   serviceType?: string;
   city?: string;
   state?: string;
+  pincode?: string;
   isOnline?: boolean;
   minRating?: number;
   limit?: number;
@@ -55,8 +85,13 @@ export interface ProviderFilters {
 
 /**
  * Get all providers with optional filters
+ * Served from the API cache; pass forceRefresh when live online status matters
  */
-export async function getProviders(filters?: ProviderFilters): Promise<Provider[]> {
+export async function getProviders(
+  filters?: ProviderFilters,
+  options: CacheOptions<Provider[]> = {},
+): Promise<Provider[]> {
+  const {onUpdate} = options;
   try {
     const params = new URLSearchParams();
     if (filters) {
@@ -70,11 +105,12 @@ export async function getProviders(filters?: ProviderFilters): Promise<Provider[
     const queryString = params.toString();
     const endpoint = queryString ? `/providers?${queryString}` : '/providers';
 
-    const response = await apiGet<{data: Provider[]; count: number}>(endpoint);
-    if (Array.isArray(response)) {
-      return response;
-    }
-    return (response as any).data || [];
+    // The cache stores the raw body; it is parsed on every read
+    const response = await cachedGet<unknown>(endpoint, {
+      ...options,
+      onUpdate: onUpdate && (updated => onUpdate(parseProviders(updated))),
+    });
+    return parseProviders(response);
   } catch (error) {
     console.error('Error fetching providers:', error);
     throw error;
@@ -84,11 +120,15 @@ export async function getProviders(filters?: ProviderFilters): Promise<Provider[
 /**
  * Get provider by ID
  */
-export async function getProviderById(providerId: string): Promise<Provider | null> {
+export async function getProviderById(
+  providerId: string,
+  options?: Pick<RequestOptions, 'signal'>,
+): Promise<Provider | null> {
   try {
-    return await apiGet<Provider>(`/providers/${providerId}`);
-  } catch (error: any) {
-    if (error.message?.includes('not found') || error.message?.includes('404')) {
+    const response = await apiGet<unknown>(`/providers/${providerId}`, options);
+    return parseProvider(response);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
       return null;
     }
     throw error;
@@ -0,0 +1,67 @@
+/**
+ * Quotes API Service
+ * Offers providers send for a request booked in quotes mode, and accepting
+ * one of them
+ */
+
+import {apiGet, apiPost, type RequestOptions} from './apiClient';
+import {parseCommittedJobCard} from './jobCardsApi';
+import {getServiceRequestById} from './serviceRequestsApi';
+import {assertStatusTransition, type StatusTransitionContext} from './statusTransitions';
+import {date, entity, list, literal, number, optional, parse, string} from './schema';
+import type {JobCard, Quote} from '../../types/domain';
+
+export type {Quote};
+
+// Most providers invited to quote on one request
+export const MAX_QUOTE_PROVIDERS = 5;
+
+const quoteSchema = entity<Quote>({
+  serviceRequestId: string,
+  providerId: string,
+  providerName: string,
+  providerRating: optional(number),
+  price: number,
+  eta: date,
+  note: optional(string),
+  status: literal('submitted', 'accepted', 'rejected', 'withdrawn'),
+  createdAt: date,
+});
+
+const parseQuotes = (value: unknown): Quote[] => parse(list(quoteSchema), value, 'Quote[]');
+
+/**
+ * Get the quotes submitted for a request so far
+ */
+export async function getQuotes(
+  serviceRequestId: string,
+  options?: Pick<RequestOptions, 'signal'>,
+): Promise<Quote[]> {
+  const response = await apiGet<unknown>(`/customer/serviceRequests/${serviceRequestId}/quotes`, options);
+  return parseQuotes(response);
+}
+
+/**
+ * Accept a quote - its provider is assigned and the job card is created;
+ * the other quotes are rejected
+ * Throws InvalidTransitionError if the request is no longer pending
+ */
+export async function acceptQuote(
+  serviceRequestId: string,
+  quoteId: string,
+  transition: StatusTransitionContext = {},
+): Promise<JobCard> {
+  await assertStatusTransition('accepted', transition, async () =>
+    (await getServiceRequestById(serviceRequestId))?.status,
+  );
+  const response = await apiPost<unknown>(
+    `/customer/serviceRequests/${serviceRequestId}/quotes/${quoteId}/accept`,
+    {},
+  );
+  return parseCommittedJobCard(response);
+}
+
+export const quotesApi = {
+  getAll: getQuotes,
+  accept: acceptQuote,
+};
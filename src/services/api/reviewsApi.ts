@@ -3,24 +3,35 @@
  * Handles all review operations via backend API
  */
 
-import {apiGet, apiPost, apiPut, apiDelete} from './apiClient';
+import {apiGet, apiPut, apiDelete} from './apiClient';
+import {NotFoundError} from './apiErrors';
+import {sendOrQueue} from './offlineQueue';
+import {array, date, entity, list, number, optional, parse, parseCommitted, string} from './schema';
+import type {Review} from '../../types/domain';
 
-export interface Review {
-  _id?: string;
-  id?: string;
-  jobCardId: string;
-  serviceRequestId?: string;
-  customerId: string;
-  customerName: string;
-  providerId: string;
-  providerName: string;
-  serviceType: string;
-  rating: number; // 1-5
-  comment?: string;
-  photos?: string[];
-  createdAt: string | Date;
-  updatedAt?: string | Date;
-}
+export type {Review};
+
+const reviewSchema = entity<Review>({
+  jobCardId: string,
+  serviceRequestId: optional(string),
+  customerId: string,
+  customerName: string,
+  providerId: string,
+  providerName: string,
+  serviceType: string,
+  rating: number,
+  comment: optional(string),
+  photos: optional(array(string)),
+  createdAt: date,
+  updatedAt: optional(date),
+});
+
+const parseReview = (value: unknown): Review => parse(reviewSchema, value, 'Review');
+
+// For responses to writes - see parseCommitted
+const parseCommittedReview = (value: unknown): Review => parseCommitted(reviewSchema, value, 'Review');
+
+const parseReviews = (value: unknown): Review[] => parse(list(reviewSchema), value, 'Review[]');
 
 export interface CreateReviewData {
   providerId: string;
@@ -52,12 +63,9 @@ export async function getReviews(filters?: {
     const queryString = params.toString();
     const endpoint = queryString ? `/reviews?${queryString}` : '/reviews';
 
-    const response = await apiGet<{data: Review[]; count: number}>(endpoint);
+    const response = await apiGet<unknown>(endpoint);
     // Handle both array response and object with data property
-    if (Array.isArray(response)) {
-      return response;
-    }
-    return (response as any).data || [];
+    return parseReviews(response);
   } catch (error) {
     console.error('Error fetching reviews:', error);
     throw error;
@@ -83,9 +91,10 @@ export async function getCustomerReviews(customerId: string): Promise<Review[]>
  */
 export async function getReviewById(reviewId: string): Promise<Review | null> {
   try {
-    return await apiGet<Review>(`/reviews/${reviewId}`);
-  } catch (error: any) {
-    if (error.message?.includes('not found') || error.message?.includes('404')) {
+    const response = await apiGet<unknown>(`/reviews/${reviewId}`);
+    return parseReview(response);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
       return null;
     }
     throw error;
@@ -110,9 +119,11 @@ export async function getJobCardReview(jobCardId: string): Promise<Review | null
 
 /**
  * Create a review
+ * Queued for later delivery when offline (throws RequestQueuedError)
  */
 export async function createReview(data: CreateReviewData): Promise<Review> {
-  return apiPost<Review>('/reviews', data);
+  const response = await sendOrQueue<unknown>('createReview', '/reviews', 'POST', data);
+  return parseCommittedReview(response);
 }
 
 /**
@@ -122,7 +133,8 @@ export async function updateReview(
   reviewId: string,
   updates: {comment?: string},
 ): Promise<Review> {
-  return apiPut<Review>(`/reviews/${reviewId}`, updates);
+  const response = await apiPut<unknown>(`/reviews/${reviewId}`, updates);
+  return parseCommittedReview(response);
 }
 
 /**
@@ -0,0 +1,230 @@
+/**
+ * Response Schemas
+ * Minimal runtime validators used by the API modules to parse backend
+ * responses once, at the edge. Parsing also normalises the data:
+ * dates become Date objects, `_id`/`id` become a single `id`, and
+ * null optional fields become undefined.
+ * A mismatch throws SchemaError with the path of the offending field,
+ * except in a list item, which is left out (see list), and in the
+ * response to a write (see parseCommitted).
+ */
+
+import {SchemaError} from './apiErrors';
+
+/**
+ * Validate `value` found at `path`, returning the normalised value
+ */
+export type Schema<T> = (value: unknown, path: string) => T;
+
+/**
+ * One schema per property; optional properties take an optional() schema
+ */
+export type ObjectShape<T> = {[K in keyof T]: Schema<T[K]>};
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (value instanceof Date) {
+    return 'Date';
+  }
+  return typeof value;
+}
+
+function fail(path: string, expected: string, value: unknown): never {
+  throw new SchemaError(path, `expected ${expected}, received ${describe(value)}`);
+}
+
+// Set while parsing the response to a committed write - a field that does
+// not match is logged and kept as received instead of failing the parse
+let salvaging = false;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export const string: Schema<string> = (value, path) =>
+  typeof value === 'string' ? value : fail(path, 'string', value);
+
+/**
+ * Numbers, also accepting numeric strings (e.g. "4.5")
+ */
+export const number: Schema<number> = (value, path) => {
+  if (typeof value === 'number' && !isNaN(value)) {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  return fail(path, 'number', value);
+};
+
+export const boolean: Schema<boolean> = (value, path) =>
+  typeof value === 'boolean' ? value : fail(path, 'boolean', value);
+
+/**
+ * Dates from ISO strings, epoch milliseconds or Firestore timestamps
+ */
+export const date: Schema<Date> = (value, path) => {
+  let parsed: Date | null = null;
+  if (value instanceof Date) {
+    parsed = value;
+  } else if (typeof value === 'string' || typeof value === 'number') {
+    parsed = new Date(value);
+  } else if (isPlainObject(value)) {
+    const seconds = value._seconds ?? value.seconds;
+    if (typeof seconds === 'number') {
+      parsed = new Date(seconds * 1000);
+    }
+  }
+  if (!parsed || isNaN(parsed.getTime())) {
+    return fail(path, 'date', value);
+  }
+  return parsed;
+};
+
+/**
+ * Any value, unchecked - for free-form payloads
+ */
+export const unknown: Schema<any> = value => value;
+
+export function literal<T extends string>(...values: T[]): Schema<T> {
+  return (value, path) =>
+    values.includes(value as T) ? (value as T) : fail(path, values.map(v => `'${v}'`).join(' | '), value);
+}
+
+/**
+ * Optional field - null and undefined both parse to undefined
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) => (value === undefined || value === null ? undefined : schema(value, path));
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      return fail(path, 'array', value);
+    }
+    return value.map((element, index) => item(element, `${path}[${index}]`));
+  };
+}
+
+/**
+ * Object with known properties
+ * Properties not in the shape are passed through unchecked
+ */
+export function object<T>(shape: ObjectShape<T>): Schema<T> {
+  return (value, path) => {
+    if (!isPlainObject(value)) {
+      return fail(path, 'object', value);
+    }
+    const result: Record<string, unknown> = {...value};
+    (Object.keys(shape) as (keyof T & string)[]).forEach(key => {
+      let parsed: unknown;
+      try {
+        parsed = shape[key](value[key], `${path}.${key}`);
+      } catch (error) {
+        if (!salvaging || !(error instanceof SchemaError)) {
+          throw error;
+        }
+        console.warn(`⚠️ Schema mismatch at ${error.path}, kept as received:`, error.message);
+        parsed = value[key];
+      }
+      if (parsed === undefined) {
+        delete result[key];
+      } else {
+        result[key] = parsed;
+      }
+    });
+    return result as T;
+  };
+}
+
+/**
+ * List endpoint body - a plain array or {data: [...]}
+ * An item that does not match is logged and left out, so one malformed
+ * document does not hide the rest of the list
+ */
+export function list<T>(item: Schema<T>): Schema<T[]> {
+  const parseItems: Schema<T[]> = (value, path) => {
+    if (!Array.isArray(value)) {
+      return fail(path, 'array', value);
+    }
+    const items: T[] = [];
+    value.forEach((element, index) => {
+      try {
+        items.push(item(element, `${path}[${index}]`));
+      } catch (error) {
+        if (!(error instanceof SchemaError)) {
+          throw error;
+        }
+        console.error(`❌ Schema mismatch at ${error.path}, item left out:`, error.message);
+      }
+    });
+    return items;
+  };
+  return (value, path) => {
+    if (isPlainObject(value)) {
+      return value.data === undefined || value.data === null ? [] : parseItems(value.data, `${path}.data`);
+    }
+    return parseItems(value, path);
+  };
+}
+
+/**
+ * Backend document with an identifier
+ * Accepts `_id` or `id` and exposes both as the same string
+ */
+export function entity<T extends {id: string; _id?: string}>(
+  shape: ObjectShape<Omit<T, 'id' | '_id'>>,
+): Schema<T> {
+  const parseFields = object(shape);
+  return (value, path) => {
+    const fields = parseFields(value, path) as Record<string, unknown>;
+    const raw = value as Record<string, unknown>;
+    const id = raw._id ?? raw.id;
+    if (typeof id !== 'string' || id === '') {
+      return fail(`${path}.id`, 'string', id);
+    }
+    return {...fields, id, _id: id} as unknown as T;
+  };
+}
+
+/**
+ * Parse a response body, logging the offending path on mismatch
+ * `label` becomes the root of the reported path
+ */
+export function parse<T>(schema: Schema<T>, value: unknown, label: string): T {
+  try {
+    return schema(value, label);
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      console.error(`❌ Schema mismatch in ${label} response at ${error.path}:`, error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse the response to a write the server has already committed
+ * Never fails on a mismatch: fields that do not match are kept as received
+ * (and logged), so the caller does not report - or retry - a write that
+ * went through
+ */
+export function parseCommitted<T>(schema: Schema<T>, value: unknown, label: string): T {
+  salvaging = true;
+  try {
+    return schema(value, label);
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      console.error(`❌ Schema mismatch in ${label} response at ${error.path}:`, error.message);
+      return value as T;
+    }
+    throw error;
+  } finally {
+    salvaging = false;
+  }
+}
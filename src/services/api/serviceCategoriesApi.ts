@@ -4,22 +4,72 @@
  */
 
 import {apiGet} from './apiClient';
+import {cachedGet, type CacheOptions} from './apiCache';
+import {NotFoundError} from './apiErrors';
+import {
+  array,
+  boolean,
+  date,
+  entity,
+  list,
+  literal,
+  number,
+  object,
+  optional,
+  parse,
+  string,
+  unknown,
+} from './schema';
+import type {RateCard} from '../../types/domain';
+
+export type QuestionType =
+  | 'text'
+  | 'number'
+  | 'select'
+  | 'multiselect'
+  | 'boolean'
+  | 'date'
+  | 'range'
+  | 'photo'
+  | 'yesNoDetails';
+
+/**
+ * Show a question only when an earlier answer matches
+ * `equals` is compared with the answer (true/false for yes/no questions);
+ * `oneOf` matches any of the listed options, including within multiselect answers
+ */
+export interface QuestionCondition {
+  questionId: string;
+  equals?: string | number | boolean;
+  oneOf?: string[];
+}
 
 export interface QuestionnaireQuestion {
   id: string;
   question: string;
   questionHi?: string;
-  type: 'text' | 'number' | 'select' | 'multiselect' | 'boolean';
+  type: QuestionType;
   options?: string[];
   optionsHi?: string[];
   required: boolean;
   placeholder?: string;
   placeholderHi?: string;
+  showIf?: QuestionCondition;
+  // number and range: value; text: length; multiselect and photo: count; date: days from today
+  min?: number;
+  max?: number;
+  step?: number; // range only
+  pattern?: string; // text only: regular expression the whole answer must match
+  patternMessage?: string;
+  patternMessageHi?: string;
+  detailsPrompt?: string; // yesNoDetails only: asked when the answer is yes
+  detailsPromptHi?: string;
 }
 
 export interface ServiceCategory {
+  // Same value as id - kept for callers written against raw documents
   _id?: string;
-  id?: string;
+  id: string;
   name: string;
   description?: string;
   descriptionHi?: string;
@@ -28,23 +78,113 @@ export interface ServiceCategory {
   order?: number;
   isActive?: boolean;
   requiresVehicle?: boolean;
+  quotesEnabled?: boolean;
   questionnaire?: QuestionnaireQuestion[];
-  createdAt?: string | Date;
-  updatedAt?: string | Date;
-  _migratedAt?: string | Date;
+  rateCard?: RateCard;
+  createdAt?: Date;
+  updatedAt?: Date;
+  _migratedAt?: unknown;
   _migratedFrom?: string;
 }
 
+const questionnaireQuestionSchema = object<QuestionnaireQuestion>({
+  id: string,
+  question: string,
+  questionHi: optional(string),
+  type: literal(
+    'text',
+    'number',
+    'select',
+    'multiselect',
+    'boolean',
+    'date',
+    'range',
+    'photo',
+    'yesNoDetails',
+  ),
+  options: optional(array(string)),
+  optionsHi: optional(array(string)),
+  required: boolean,
+  placeholder: optional(string),
+  placeholderHi: optional(string),
+  showIf: optional(
+    object<QuestionCondition>({
+      questionId: string,
+      equals: unknown,
+      oneOf: optional(array(string)),
+    }),
+  ),
+  min: optional(number),
+  max: optional(number),
+  step: optional(number),
+  pattern: optional(string),
+  patternMessage: optional(string),
+  patternMessageHi: optional(string),
+  detailsPrompt: optional(string),
+  detailsPromptHi: optional(string),
+});
+
+const rateCardSchema = object<RateCard>({
+  baseVisitCharge: number,
+  answerCharges: optional(
+    array(
+      object<NonNullable<RateCard['answerCharges']>[number]>({
+        questionId: string,
+        option: optional(string),
+        amount: number,
+      }),
+    ),
+  ),
+  immediateSurcharge: optional(number),
+  nightSurcharge: optional(
+    object<NonNullable<RateCard['nightSurcharge']>>({
+      amount: number,
+      startHour: number,
+      endHour: number,
+    }),
+  ),
+  variance: optional(number),
+});
+
+const serviceCategorySchema = entity<ServiceCategory>({
+  name: string,
+  description: optional(string),
+  descriptionHi: optional(string),
+  icon: optional(string),
+  color: optional(string),
+  order: optional(number),
+  isActive: optional(boolean),
+  requiresVehicle: optional(boolean),
+  quotesEnabled: optional(boolean),
+  questionnaire: optional(array(questionnaireQuestionSchema)),
+  rateCard: optional(rateCardSchema),
+  createdAt: optional(date),
+  updatedAt: optional(date),
+  _migratedAt: unknown,
+  _migratedFrom: optional(string),
+});
+
+const parseServiceCategory = (value: unknown): ServiceCategory =>
+  parse(serviceCategorySchema, value, 'ServiceCategory');
+
+const parseServiceCategories = (value: unknown): ServiceCategory[] =>
+  parse(list(serviceCategorySchema), value, 'ServiceCategory[]');
+
 /**
  * Get all service categories
+ * Served from the API cache; see ./apiCache for the refresh behaviour
  */
-export async function getServiceCategories(): Promise<ServiceCategory[]> {
+export async function getServiceCategories(
+  options: CacheOptions<ServiceCategory[]> = {},
+): Promise<ServiceCategory[]> {
+  const {onUpdate} = options;
   try {
-    const response = await apiGet<{data: ServiceCategory[]; count: number}>('/serviceCategories');
-    if (Array.isArray(response)) {
-      return response;
-    }
-    return (response as any).data || [];
+    // The cache stores the raw body; it is parsed on every read
+    const response = await cachedGet<unknown>('/serviceCategories', {
+      ...options,
+      onUpdate: onUpdate && (updated => onUpdate(parseServiceCategories(updated))),
+    });
+    return parseServiceCategories(response);
   } catch (error) {
     console.error('Error fetching service categories:', error);
     throw error;
@@ -56,9 +196,10 @@ export async function getServiceCategories(): Promise<ServiceCategory[]> {
  */
 export async function getServiceCategoryById(categoryId: string): Promise<ServiceCategory | null> {
   try {
-    return await apiGet<ServiceCategory>(`/serviceCategories/${categoryId}`);
-  } catch (error: any) {
-    if (error.message?.includes('not found') || error.message?.includes('404')) {
+    const response = await apiGet<unknown>(`/serviceCategories/${categoryId}`);
+    return parseServiceCategory(response);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
       return null;
     }
     throw error;
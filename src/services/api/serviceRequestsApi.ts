@@ -3,48 +3,193 @@
  * Handles all service request/consultation operations via backend API
  */
 
-import {apiGet, apiPost, apiPut} from './apiClient';
-
-export interface ServiceRequest {
-  _id?: string;
-  id?: string;
-  customerId: string;
-  customerName: string;
-  customerPhone: string;
-  customerAddress: {
-    address: string;
-    city?: string;
-    state?: string;
-    pincode: string;
-    latitude?: number;
-    longitude?: number;
-  };
-  serviceType: string;
-  problem?: string;
-  status: 'pending' | 'accepted' | 'in-progress' | 'completed' | 'cancelled';
-  urgency?: 'immediate' | 'scheduled';
-  scheduledTime?: string | Date;
-  providerId?: string;
-  providerName?: string;
-  providerPhone?: string;
-  providerEmail?: string;
-  providerSpecialization?: string;
-  providerRating?: number;
-  providerImage?: string;
-  providerAddress?: any;
-  consultationId?: string;
-  questionnaireAnswers?: any;
-  photos?: string[];
-  cancellationReason?: string;
-  createdAt: string | Date;
-  updatedAt: string | Date;
-}
+import {
+  apiGet,
+  apiPost,
+  apiPut,
+  buildQueryString,
+  toPaginatedResult,
+  type PaginatedResult,
+  type RequestOptions,
+} from './apiClient';
+import {NotFoundError} from './apiErrors';
+import {sendOrQueue} from './offlineQueue';
+import {assertStatusTransition, type StatusTransitionContext} from './statusTransitions';
+import {
+  array,
+  date,
+  entity,
+  list,
+  literal,
+  number,
+  object,
+  optional,
+  parse,
+  parseCommitted,
+  string,
+  unknown,
+  type Schema,
+} from './schema';
+import {normalizeServiceStatus} from '../../types/domain';
+import type {
+  Address,
+  OnBehalfContact,
+  PriceEstimate,
+  RecurrenceRule,
+  RescheduleProposal,
+  ScheduleChange,
+  ServiceRequest,
+  ServiceRequestStatus,
+  StatusLink,
+} from '../../types/domain';
+
+export type {ServiceRequest};
+
+// How long a provider booked directly has to respond before the customer
+// is offered to send the request to everyone
+export const DIRECT_BOOKING_RESPONSE_MS = 5 * 60 * 1000;
+
+/**
+ * Status, with the legacy values older documents store (e.g. 'ongoing',
+ * 'canceled') mapped onto the domain statuses
+ */
+export const serviceStatusSchema: Schema<ServiceRequestStatus> = (value, path) =>
+  normalizeServiceStatus(optional(string)(value, path));
+
+const addressObjectSchema = object<Address>({
+  address: string,
+  city: optional(string),
+  state: optional(string),
+  pincode: string,
+  latitude: optional(number),
+  longitude: optional(number),
+});
+
+/**
+ * Customer address - older documents store it as a single line
+ */
+export const customerAddressSchema: Schema<Address> = (value, path) =>
+  typeof value === 'string' ? {address: value, pincode: ''} : addressObjectSchema(value, path);
+
+const recurrenceSchema = object<RecurrenceRule>({
+  frequency: literal('daily', 'weekly', 'monthly', 'interval'),
+  startDate: date,
+  weekdays: optional(array(number)),
+  intervalDays: optional(number),
+  endDate: optional(date),
+  occurrenceCount: optional(number),
+  exceptions: optional(
+    array(
+      object<NonNullable<RecurrenceRule['exceptions']>[number]>({
+        occurrenceDate: date,
+        action: literal('skipped', 'rescheduled', 'cancelled'),
+        scheduledTime: optional(date),
+      }),
+    ),
+  ),
+});
+
+// Also parsed on job cards, which carry a copy of their request's estimate
+export const priceEstimateSchema = object<PriceEstimate>({
+  min: number,
+  max: number,
+  lines: array(
+    object<PriceEstimate['lines'][number]>({
+      type: literal('base', 'answer', 'immediate', 'night'),
+      questionId: optional(string),
+      amount: number,
+    }),
+  ),
+  estimatedAt: date,
+});
+
+// Also parsed on job cards, which carry a copy of their request's contact
+export const onBehalfContactSchema = object<OnBehalfContact>({
+  name: string,
+  phone: string,
+  relationship: literal('parent', 'spouse', 'child', 'sibling', 'relative', 'friend', 'other'),
+});
+
+const statusLinkSchema = object<StatusLink>({
+  url: string,
+  expiresAt: date,
+});
+
+const scheduleChangeSchema = object<ScheduleChange>({
+  previousTime: date,
+  scheduledTime: date,
+  changedBy: literal('customer', 'provider'),
+  changedAt: date,
+  reason: optional(string),
+});
+
+const rescheduleProposalSchema = object<RescheduleProposal>({
+  id: string,
+  scheduledTime: date,
+  proposedBy: literal('customer', 'provider'),
+  proposedAt: date,
+  reason: optional(string),
+});
+
+const serviceRequestSchema = entity<ServiceRequest>({
+  customerId: string,
+  customerName: string,
+  customerPhone: string,
+  customerAddress: customerAddressSchema,
+  serviceType: string,
+  problem: optional(string),
+  status: serviceStatusSchema,
+  urgency: optional(literal('immediate', 'scheduled')),
+  scheduledTime: optional(date),
+  providerId: optional(string),
+  providerName: optional(string),
+  providerPhone: optional(string),
+  providerEmail: optional(string),
+  providerSpecialization: optional(string),
+  providerRating: optional(number),
+  providerImage: optional(string),
+  providerAddress: unknown,
+  consultationId: optional(string),
+  questionnaireAnswers: unknown,
+  photos: optional(array(string)),
+  cancellationReason: optional(string),
+  priceEstimate: optional(priceEstimateSchema),
+  onBehalfOf: optional(onBehalfContactSchema),
+  targetProviderId: optional(string),
+  targetProviderName: optional(string),
+  targetExpiresAt: optional(date),
+  bookingMode: optional(literal('instant', 'quotes')),
+  quoteProviderIds: optional(array(string)),
+  acceptedQuoteId: optional(string),
+  scheduleHistory: optional(array(scheduleChangeSchema)),
+  pendingReschedule: optional(rescheduleProposalSchema),
+  arrivedAt: optional(date),
+  recurrence: optional(recurrenceSchema),
+  seriesId: optional(string),
+  occurrenceDate: optional(date),
+  createdAt: date,
+  updatedAt: date,
+});
+
+const parseServiceRequest = (value: unknown): ServiceRequest =>
+  parse(serviceRequestSchema, value, 'ServiceRequest');
+
+// For responses to writes - see parseCommitted
+const parseCommittedServiceRequest = (value: unknown): ServiceRequest =>
+  parseCommitted(serviceRequestSchema, value, 'ServiceRequest');
+
+const parseServiceRequests = (value: unknown): ServiceRequest[] =>
+  parse(list(serviceRequestSchema), value, 'ServiceRequest[]');
 
 export interface ServiceRequestFilters {
-  status?: string;
+  status?: string | string[];
   customerId?: string;
   providerId?: string;
   serviceType?: string;
+  seriesId?: string;
+  createdAfter?: string | Date;
+  createdBefore?: string | Date;
+  cursor?: string;
   limit?: number;
   offset?: number;
 }
@@ -52,11 +197,15 @@ export interface ServiceRequestFilters {
 /**
  * Get service request by ID (customer endpoint)
  */
-export async function getServiceRequestById(serviceRequestId: string): Promise<ServiceRequest | null> {
+export async function getServiceRequestById(
+  serviceRequestId: string,
+  options?: Pick<RequestOptions, 'signal'>,
+): Promise<ServiceRequest | null> {
   try {
-    return await apiGet<ServiceRequest>(`/customer/serviceRequests/${serviceRequestId}`);
-  } catch (error: any) {
-    if (error.message?.includes('not found') || error.message?.includes('404')) {
+    const response = await apiGet<unknown>(`/customer/serviceRequests/${serviceRequestId}`, options);
+    return parseServiceRequest(response);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
       return null;
     }
     throw error;
@@ -68,60 +217,191 @@ export async function getServiceRequestById(serviceRequestId: string): Promise<S
  */
 export async function getServiceRequests(filters?: ServiceRequestFilters): Promise<ServiceRequest[]> {
   try {
-    const params = new URLSearchParams();
-    if (filters) {
-      Object.entries(filters).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          params.append(key, String(value));
-        }
-      });
-    }
-
-    const queryString = params.toString();
-    const endpoint = queryString ? `/customer/serviceRequests?${queryString}` : '/customer/serviceRequests';
+    const endpoint = `/customer/serviceRequests${buildQueryString(filters)}`;
 
-    const response = await apiGet<{data: ServiceRequest[]; count: number} | ServiceRequest[]>(endpoint);
-    if (Array.isArray(response)) {
-      return response;
-    }
-    return (response as any).data || [];
+    const response = await apiGet<unknown>(endpoint);
+    return parseServiceRequests(response);
   } catch (error) {
     console.error('Error fetching service requests:', error);
     throw error;
   }
 }
 
+/**
+ * Get one page of service requests
+ * Filters are applied server-side; pass the previous page's nextCursor to continue
+ */
+export async function getServiceRequestsPage(
+  filters: ServiceRequestFilters = {},
+): Promise<PaginatedResult<ServiceRequest>> {
+  try {
+    const response = await apiGet<
+      {data: unknown[]; count: number; nextCursor?: string | null} | unknown[]
+    >(`/customer/serviceRequests${buildQueryString(filters)}`);
+    const page = toPaginatedResult(response);
+    return {...page, items: parseServiceRequests(page.items)};
+  } catch (error) {
+    console.error('Error fetching service requests page:', error);
+    throw error;
+  }
+}
+
 /**
  * Create a new service request
+ * Queued for later delivery when offline (throws RequestQueuedError)
  */
 export async function createServiceRequest(data: Partial<ServiceRequest>): Promise<ServiceRequest> {
-  return apiPost<ServiceRequest>('/customer/serviceRequests', data);
+  const response = await sendOrQueue<unknown>(
+    'createServiceRequest',
+    '/customer/serviceRequests',
+    'POST',
+    data,
+  );
+  return parseCommittedServiceRequest(response);
 }
 
+const loadServiceRequestStatus = (serviceRequestId: string) => async () =>
+  (await getServiceRequestById(serviceRequestId))?.status;
+
 /**
  * Update service request status
+ * Throws InvalidTransitionError, without sending, if the lifecycle does not allow the change
  */
 export async function updateServiceRequestStatus(
   serviceRequestId: string,
   status: ServiceRequest['status'],
   updates?: Partial<ServiceRequest>,
+  transition: StatusTransitionContext = {},
 ): Promise<ServiceRequest> {
-  return apiPut<ServiceRequest>(`/customer/serviceRequests/${serviceRequestId}`, {
+  await assertStatusTransition(status, transition, loadServiceRequestStatus(serviceRequestId));
+  const response = await apiPut<unknown>(`/customer/serviceRequests/${serviceRequestId}`, {
     status,
     ...updates,
   });
+  return parseCommittedServiceRequest(response);
 }
 
 /**
  * Cancel service request with reason
+ * Queued for later delivery when offline (throws RequestQueuedError)
+ * Cancelling the request of a recurring series cancels all its future occurrences
+ * Throws InvalidTransitionError if the request can no longer be cancelled
  */
 export async function cancelServiceRequest(
   serviceRequestId: string,
   cancellationReason: string,
+  transition: StatusTransitionContext = {},
+): Promise<ServiceRequest> {
+  await assertStatusTransition('cancelled', transition, loadServiceRequestStatus(serviceRequestId));
+  const response = await sendOrQueue<unknown>(
+    'cancelServiceRequest',
+    `/customer/serviceRequests/${serviceRequestId}/cancel`,
+    'PUT',
+    {cancellationReason},
+  );
+  return parseCommittedServiceRequest(response);
+}
+
+export type OccurrenceChange =
+  | {action: 'skip'}
+  | {action: 'reschedule'; scheduledTime: Date}
+  | {action: 'cancel'; cancellationReason: string};
+
+/**
+ * Change one occurrence of a recurring series
+ * - skip: no visit this time
+ * - reschedule: move this visit to scheduledTime
+ * - cancel: call off a visit a provider already accepted (provider is notified)
+ */
+export async function updateOccurrence(
+  seriesId: string,
+  occurrenceDate: Date,
+  change: OccurrenceChange,
+): Promise<ServiceRequest> {
+  const response = await apiPut<unknown>(
+    `/customer/serviceRequests/${seriesId}/occurrences/${encodeURIComponent(occurrenceDate.toISOString())}`,
+    change,
+  );
+  return parseCommittedServiceRequest(response);
+}
+
+/**
+ * Replace the repeat rule of a series, e.g. to move every future visit
+ * Occurrences that were already booked keep their time
+ */
+export async function updateRecurrence(
+  seriesId: string,
+  recurrence: RecurrenceRule,
+): Promise<ServiceRequest> {
+  const response = await apiPut<unknown>(`/customer/serviceRequests/${seriesId}/recurrence`, {
+    recurrence,
+  });
+  return parseCommittedServiceRequest(response);
+}
+
+/**
+ * Move a scheduled request to a new time
+ * The backend checks the time against the assigned provider's availability
+ * and throws SlotUnavailableError when they cannot take it. The new time
+ * either applies right away (the old one is added to scheduleHistory) or,
+ * when the provider has to confirm, comes back as pendingReschedule
+ */
+export async function rescheduleServiceRequest(
+  serviceRequestId: string,
+  scheduledTime: Date,
+): Promise<ServiceRequest> {
+  const response = await apiPut<unknown>(`/customer/serviceRequests/${serviceRequestId}/reschedule`, {
+    scheduledTime: scheduledTime.toISOString(),
+  });
+  return parseCommittedServiceRequest(response);
+}
+
+/**
+ * Accept or decline a proposed new time
+ * Declining the customer's own proposal withdraws it
+ */
+export async function respondToReschedule(
+  serviceRequestId: string,
+  proposalId: string,
+  accept: boolean,
+): Promise<ServiceRequest> {
+  const response = await apiPut<unknown>(
+    `/customer/serviceRequests/${serviceRequestId}/reschedule/${proposalId}`,
+    {accept},
+  );
+  return parseCommittedServiceRequest(response);
+}
+
+/**
+ * Create (or return the current) status link for a request booked on
+ * someone's behalf, so the contact can follow it without the app
+ */
+export async function createStatusLink(serviceRequestId: string): Promise<StatusLink> {
+  const response = await apiPost<unknown>(`/customer/serviceRequests/${serviceRequestId}/statusLink`, {});
+  return parse(statusLinkSchema, response, 'StatusLink');
+}
+
+/**
+ * Open a request booked with one chosen provider to every provider, e.g.
+ * when the chosen provider did not respond in time
+ */
+export async function broadcastServiceRequest(serviceRequestId: string): Promise<ServiceRequest> {
+  const response = await apiPut<unknown>(`/customer/serviceRequests/${serviceRequestId}/broadcast`, {});
+  return parseCommittedServiceRequest(response);
+}
+
+/**
+ * Record that the provider has arrived at the service address
+ * Only the first arrival is kept, so repeat calls return the request unchanged
+ */
+export async function markProviderArrived(
+  serviceRequestId: string,
+  arrivedAt: Date = new Date(),
 ): Promise<ServiceRequest> {
-  return apiPut<ServiceRequest>(`/customer/serviceRequests/${serviceRequestId}/cancel`, {
-    cancellationReason,
+  const response = await apiPut<unknown>(`/customer/serviceRequests/${serviceRequestId}/arrived`, {
+    arrivedAt: arrivedAt.toISOString(),
   });
+  return parseCommittedServiceRequest(response);
 }
 
 /**
@@ -143,8 +423,16 @@ export async function findServiceRequestByConsultationId(
 export const serviceRequestsApi = {
   getById: getServiceRequestById,
   getAll: getServiceRequests,
+  getPage: getServiceRequestsPage,
   create: createServiceRequest,
   updateStatus: updateServiceRequestStatus,
   cancel: cancelServiceRequest,
+  updateOccurrence,
+  updateRecurrence,
+  reschedule: rescheduleServiceRequest,
+  respondToReschedule,
+  createStatusLink,
+  broadcast: broadcastServiceRequest,
+  markArrived: markProviderArrived,
   findByConsultationId: findServiceRequestByConsultationId,
 };
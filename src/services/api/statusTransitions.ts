@@ -0,0 +1,46 @@
+/**
+ * Status Transitions
+ * Client-side check of the service lifecycle before a status change is sent,
+ * so illegal changes fail fast instead of round-tripping to the backend.
+ */
+
+import type {ServiceRequestStatus} from '../../types/common';
+import {canTransitionStatus, type LifecycleActor} from '../../types/serviceLifecycle';
+import {InvalidTransitionError, isConnectivityError} from './apiErrors';
+
+export interface StatusTransitionContext {
+  // Status the caller last saw; loaded from the backend when omitted
+  from?: ServiceRequestStatus;
+  // Defaults to 'customer' - this is the customer app
+  actor?: LifecycleActor;
+}
+
+/**
+ * Throw InvalidTransitionError if the change is not allowed
+ * When the current status cannot be loaded because the device is offline
+ * the check is skipped and left to the backend
+ */
+export async function assertStatusTransition(
+  to: ServiceRequestStatus,
+  context: StatusTransitionContext,
+  loadCurrentStatus: () => Promise<ServiceRequestStatus | undefined>,
+): Promise<void> {
+  const {actor = 'customer'} = context;
+  let from = context.from;
+
+  if (!from) {
+    try {
+      from = await loadCurrentStatus();
+    } catch (error) {
+      if (isConnectivityError(error)) {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  if (from && !canTransitionStatus(from, to, actor)) {
+    console.warn(`⚠️ Rejected status change ${from} → ${to} by ${actor}`);
+    throw new InvalidTransitionError(from, to, actor);
+  }
+}
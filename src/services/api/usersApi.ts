@@ -3,11 +3,14 @@
  * Handles all user operations via backend API
  */
 
-import {apiGet, apiPut} from './apiClient';
+import {apiGet, apiPut, type RequestOptions} from './apiClient';
+import {NotFoundError} from './apiErrors';
+import {boolean, date, entity, literal, number, object, optional, parse, string} from './schema';
 
 export interface User {
+  // Same value as id - kept for callers written against raw documents
   _id?: string;
-  id?: string;
+  id: string;
   name?: string;
   email?: string;
   phone?: string;
@@ -23,7 +26,7 @@ export interface User {
     city?: string;
     state?: string;
     pincode?: string;
-    updatedAt?: string | Date;
+    updatedAt?: Date;
   };
   homeAddress?: {
     address?: string;
@@ -40,18 +43,54 @@ export interface User {
   profileImage?: string;
   gender?: string;
   bloodGroup?: string;
-  createdAt?: string | Date;
-  updatedAt?: string | Date;
+  createdAt?: Date;
+  updatedAt?: Date;
 }
 
+const postalAddressShape = {
+  address: optional(string),
+  city: optional(string),
+  state: optional(string),
+  pincode: optional(string),
+};
+
+const userSchema = entity<User>({
+  name: optional(string),
+  email: optional(string),
+  phone: optional(string),
+  phoneNumber: optional(string),
+  phoneVerified: optional(boolean),
+  secondaryPhone: optional(string),
+  secondaryPhoneVerified: optional(boolean),
+  role: optional(literal('customer', 'provider', 'admin')),
+  location: optional(
+    object<NonNullable<User['location']>>({
+      ...postalAddressShape,
+      latitude: optional(number),
+      longitude: optional(number),
+      updatedAt: optional(date),
+    }),
+  ),
+  homeAddress: optional(object<NonNullable<User['homeAddress']>>(postalAddressShape)),
+  officeAddress: optional(object<NonNullable<User['officeAddress']>>(postalAddressShape)),
+  profileImage: optional(string),
+  gender: optional(string),
+  bloodGroup: optional(string),
+  createdAt: optional(date),
+  updatedAt: optional(date),
+});
+
+const parseUser = (value: unknown): User => parse(userSchema, value, 'User');
+
 /**
  * Get current user profile
  */
-export async function getMe(): Promise<User | null> {
+export async function getMe(options?: Pick<RequestOptions, 'signal'>): Promise<User | null> {
   try {
-    return await apiGet<User>('/users/me');
-  } catch (error: any) {
-    if (error.message?.includes('not found') || error.message?.includes('404')) {
+    const response = await apiGet<unknown>('/users/me', options);
+    return parseUser(response);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
       return null;
     }
     throw error;
@@ -62,7 +101,8 @@ export async function getMe(): Promise<User | null> {
  * Update current user profile
  */
 export async function updateMe(updates: Partial<User>): Promise<User> {
-  return apiPut<User>('/users/me', updates);
+  const response = await apiPut<unknown>('/users/me', updates);
+  return parseUser(response);
 }
 
 /**
@@ -70,9 +110,10 @@ export async function updateMe(updates: Partial<User>): Promise<User> {
  */
 export async function getUserById(userId: string): Promise<User | null> {
   try {
-    return await apiGet<User>(`/users/${userId}`);
-  } catch (error: any) {
-    if (error.message?.includes('not found') || error.message?.includes('404')) {
+    const response = await apiGet<unknown>(`/users/${userId}`);
+    return parseUser(response);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
       return null;
     }
     throw error;
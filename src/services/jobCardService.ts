@@ -7,51 +7,15 @@
 import database from '@react-native-firebase/database';
 import auth from '@react-native-firebase/auth';
 import pushNotificationService from './pushNotificationService';
-import {jobCardsApi, type JobCard as JobCardApi} from './api/jobCardsApi';
-
-export interface JobCard {
-  id?: string;
-  providerId: string;
-  providerName: string;
-  providerAddress: {
-    type: 'home' | 'office';
-    address: string;
-    city?: string;
-    state?: string;
-    pincode: string;
-    latitude?: number;
-    longitude?: number;
-  };
-  customerId: string;
-  customerName: string;
-  customerPhone: string;
-  customerAddress: {
-    address: string;
-    city?: string;
-    state?: string;
-    pincode: string;
-    latitude?: number;
-    longitude?: number;
-  };
-  serviceType: string;
-  problem?: string;
-  consultationId?: string;
-  bookingId?: string;
-  status: 'pending' | 'accepted' | 'in-progress' | 'completed' | 'cancelled';
-  taskPIN?: string;
-  pinGeneratedAt?: Date;
-  scheduledTime?: Date;
-  jobCardPdfUrl?: string;
-  serviceAmount?: number;
-  materialsUsed?: Array<{
-    description: string;
-    quantity?: number;
-    unitPrice?: number;
-    total?: number;
-  }>;
-  createdAt: Date;
-  updatedAt: Date;
-}
+import {jobCardsApi, type JobCardFilters} from './api/jobCardsApi';
+import type {PaginatedResult} from './api/apiClient';
+import {ApiError} from './api/apiErrors';
+import {RequestQueuedError} from './api/offlineQueue';
+import type {JobCard} from '../types/domain';
+
+export type {JobCard};
+
+export type JobCardPageFilters = Omit<JobCardFilters, 'customerId' | 'providerId'>;
 
 /**
  * Get job card by ID
@@ -59,20 +23,8 @@ export interface JobCard {
  */
 export const getJobCardById = async (jobCardId: string): Promise<JobCard | null> => {
   try {
-    const jobCard = await jobCardsApi.getById(jobCardId);
-    if (!jobCard) {
-      return null;
-    }
-
-    // Convert API response to app format
-    return {
-      id: jobCard._id || jobCard.id,
-      ...jobCard,
-      createdAt: jobCard.createdAt instanceof Date ? jobCard.createdAt : new Date(jobCard.createdAt),
-      updatedAt: jobCard.updatedAt instanceof Date ? jobCard.updatedAt : new Date(jobCard.updatedAt),
-      scheduledTime: jobCard.scheduledTime ? (jobCard.scheduledTime instanceof Date ? jobCard.scheduledTime : new Date(jobCard.scheduledTime)) : undefined,
-      pinGeneratedAt: jobCard.pinGeneratedAt ? (jobCard.pinGeneratedAt instanceof Date ? jobCard.pinGeneratedAt : new Date(jobCard.pinGeneratedAt)) : undefined,
-    } as JobCard;
+    // Already normalised by the API layer
+    return await jobCardsApi.getById(jobCardId);
   } catch (error) {
     console.error('Error fetching job card:', error);
     return null;
@@ -85,19 +37,31 @@ export const getJobCardById = async (jobCardId: string): Promise<JobCard | null>
  */
 export const getCustomerJobCards = async (customerId: string): Promise<JobCard[]> => {
   try {
-    const jobCards = await jobCardsApi.getCustomerJobCards(customerId);
-
-    // Convert API response to app format - include all statuses (including completed)
-    return jobCards.map((jobCard: JobCardApi) => ({
-      id: jobCard._id || jobCard.id,
-      ...jobCard,
-      createdAt: jobCard.createdAt instanceof Date ? jobCard.createdAt : new Date(jobCard.createdAt),
-      updatedAt: jobCard.updatedAt instanceof Date ? jobCard.updatedAt : new Date(jobCard.updatedAt),
-      scheduledTime: jobCard.scheduledTime ? (jobCard.scheduledTime instanceof Date ? jobCard.scheduledTime : new Date(jobCard.scheduledTime)) : undefined,
-      pinGeneratedAt: jobCard.pinGeneratedAt ? (jobCard.pinGeneratedAt instanceof Date ? jobCard.pinGeneratedAt : new Date(jobCard.pinGeneratedAt)) : undefined,
-    })) as JobCard[];
+    // Include all statuses (including completed)
+    return await jobCardsApi.getCustomerJobCards(customerId);
   } catch (error: any) {
     console.error('Error fetching customer job cards:', error);
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new Error(`Failed to fetch job cards: ${error.message || 'Unknown error'}`);
+  }
+};
+
+/**
+ * Get one page of the customer's job cards
+ * Uses backend API with server-side status, service type and date filters
+ */
+export const getCustomerJobCardsPage = async (
+  filters: JobCardPageFilters = {},
+): Promise<PaginatedResult<JobCard>> => {
+  try {
+    return await jobCardsApi.getCustomerJobCardsPage(filters);
+  } catch (error: any) {
+    console.error('Error fetching customer job cards page:', error);
+    if (error instanceof ApiError) {
+      throw error;
+    }
     throw new Error(`Failed to fetch job cards: ${error.message || 'Unknown error'}`);
   }
 };
@@ -129,7 +93,7 @@ export const cancelTaskWithReason = async (
     const serviceType = jobCard.serviceType || 'service';
 
     // Update job card via backend API
-    await jobCardsApi.cancel(jobCardId, cancellationReason);
+    await jobCardsApi.cancel(jobCardId, cancellationReason, {from: jobCard.status});
 
     // Update Realtime Database for real-time status (Firebase - keep for real-time)
     try {
@@ -162,6 +126,9 @@ export const cancelTaskWithReason = async (
     }
   } catch (error: any) {
     console.error('Error cancelling task:', error);
+    if (error instanceof ApiError) {
+      throw error;
+    }
     throw new Error(error.message || 'Failed to cancel task');
   }
 };
@@ -193,19 +160,25 @@ export const subscribeToJobCardStatus = (
 /**
  * Verify task completion (customer side)
  * Uses backend API
- * Note: The backend should handle customer verification when status is set to 'completed'
+ * Also added as the 'verified' step of the job's progress log
  */
 export const verifyTaskCompletion = async (jobCardId: string): Promise<void> => {
   try {
-    // For now, we just verify by confirming the job card is completed
-    // Backend can track customer verification separately if needed
     const jobCard = await jobCardsApi.getById(jobCardId);
     if (!jobCard || jobCard.status !== 'completed') {
       throw new Error('Job card is not completed');
     }
-    // Backend will handle customer verification logic
   } catch (error) {
     console.error('Error verifying task completion:', error);
     throw new Error('Failed to verify task completion');
   }
+
+  // The completed card is the verification - a missing progress step is only logged
+  try {
+    await jobCardsApi.addEvent(jobCardId, {type: 'verified', actor: 'customer'});
+  } catch (eventError) {
+    if (!(eventError instanceof RequestQueuedError)) {
+      console.warn('⚠️ Could not add verification to job progress:', eventError);
+    }
+  }
 };
@@ -0,0 +1,309 @@
+/**
+ * Media Upload Service
+ * Shared upload path for customer photos (service requests and reviews).
+ * Photos are downscaled and recompressed by the picker, stripped of their
+ * EXIF metadata (GPS position, device) and uploaded to Firebase Storage
+ * with progress, retries and cancellation.
+ */
+
+import storage, {type FirebaseStorageTypes} from '@react-native-firebase/storage';
+import NetInfo from '@react-native-community/netinfo';
+import RNFS from 'react-native-fs';
+import type {ImageLibraryOptions} from 'react-native-image-picker';
+import {FIREBASE_STORAGE_EMULATOR_HOST} from '@env';
+import {CancelledError, NetworkError, UploadFailedError} from './api/apiErrors';
+import {generateId} from '../utils/helpers';
+
+/**
+ * Picker options for photos that will be uploaded
+ * The picker does the resizing and recompression natively
+ */
+export const MEDIA_PICKER_OPTIONS: ImageLibraryOptions = {
+  mediaType: 'photo',
+  maxWidth: 1600,
+  maxHeight: 1600,
+  quality: 0.7,
+  includeExtra: false,
+};
+
+const MAX_ATTEMPTS = 4;
+const BASE_RETRY_DELAY_MS = 2000;
+
+// Storage error codes worth another attempt
+const RETRYABLE_CODES = ['storage/unknown', 'storage/retry-limit-exceeded'];
+
+export interface UploadedMedia {
+  url: string;
+  // Object path in the bucket, e.g. review_photos/<jobCardId>/<id>.jpg
+  path: string;
+}
+
+export interface UploadOptions {
+  // Bucket folder the file goes into
+  folder: string;
+  // Fraction uploaded, 0 to 1
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+let emulatorConnected = false;
+
+/**
+ * Storage instance, pointed at the local emulator in development builds
+ * when FIREBASE_STORAGE_EMULATOR_HOST (e.g. 10.0.2.2:9199) is set
+ */
+function getStorage(): FirebaseStorageTypes.Module {
+  if (__DEV__ && FIREBASE_STORAGE_EMULATOR_HOST && !emulatorConnected) {
+    const [host, port] = FIREBASE_STORAGE_EMULATOR_HOST.split(':');
+    storage().useEmulator(host, Number(port) || 9199);
+    emulatorConnected = true;
+    console.log('🧪 Using Firebase Storage emulator at', FIREBASE_STORAGE_EMULATOR_HOST);
+  }
+  return storage();
+}
+
+/**
+ * Whether a photo still needs uploading (local file rather than a download URL)
+ */
+export function isLocalMedia(uri: string): boolean {
+  return !/^https?:\/\//.test(uri);
+}
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_LOOKUP = new Uint8Array(128);
+for (let i = 0; i < BASE64_CHARS.length; i++) {
+  BASE64_LOOKUP[BASE64_CHARS.charCodeAt(i)] = i;
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let byteIndex = 0;
+  for (let i = 0; i < clean.length; i += 4) {
+    const chunk =
+      (BASE64_LOOKUP[clean.charCodeAt(i)] << 18) |
+      (BASE64_LOOKUP[clean.charCodeAt(i + 1)] << 12) |
+      (BASE64_LOOKUP[clean.charCodeAt(i + 2)] << 6) |
+      BASE64_LOOKUP[clean.charCodeAt(i + 3)];
+    bytes[byteIndex++] = (chunk >> 16) & 255;
+    if (i + 2 < clean.length) {
+      bytes[byteIndex++] = (chunk >> 8) & 255;
+    }
+    if (i + 3 < clean.length) {
+      bytes[byteIndex++] = chunk & 255;
+    }
+  }
+  return bytes.subarray(0, byteIndex);
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  const parts: string[] = [];
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    parts.push(
+      BASE64_CHARS[(chunk >> 18) & 63] +
+        BASE64_CHARS[(chunk >> 12) & 63] +
+        (i + 1 < bytes.length ? BASE64_CHARS[(chunk >> 6) & 63] : '=') +
+        (i + 2 < bytes.length ? BASE64_CHARS[chunk & 63] : '='),
+    );
+  }
+  return parts.join('');
+}
+
+/**
+ * Drop the APP1 (EXIF, XMP) and APP13 (IPTC) segments of a JPEG
+ * Returns null when the bytes are not a JPEG we can walk
+ */
+function stripJpegMetadata(bytes: Uint8Array): Uint8Array | null {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    return null;
+  }
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      return null;
+    }
+    const marker = bytes[offset + 1];
+    // Start of scan - everything after it is image data
+    if (marker === 0xda) {
+      kept.push(bytes.subarray(offset));
+      break;
+    }
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (marker !== 0xe1 && marker !== 0xed) {
+      kept.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  const stripped = new Uint8Array(kept.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  kept.forEach(part => {
+    stripped.set(part, position);
+    position += part.length;
+  });
+  return stripped;
+}
+
+/**
+ * Copy a picked photo to the cache without its metadata
+ * Falls back to the original file when it cannot be rewritten
+ */
+async function prepareImage(uri: string): Promise<{path: string; temporary: boolean}> {
+  const sourcePath = uri.replace(/^file:\/\//, '');
+  try {
+    const stripped = stripJpegMetadata(base64ToBytes(await RNFS.readFile(sourcePath, 'base64')));
+    if (!stripped) {
+      return {path: sourcePath, temporary: false};
+    }
+    const path = `${RNFS.CachesDirectoryPath}/upload_${generateId()}.jpg`;
+    await RNFS.writeFile(path, bytesToBase64(stripped), 'base64');
+    return {path, temporary: true};
+  } catch (error) {
+    console.warn('Could not strip photo metadata, uploading original:', error);
+    return {path: sourcePath, temporary: false};
+  }
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError('Upload was cancelled.'));
+    };
+    signal?.addEventListener('abort', onAbort);
+  });
+
+/**
+ * Run one storage upload task
+ * The task is paused while the device is offline and resumes where it
+ * stopped once connectivity returns
+ */
+async function runUploadTask(
+  reference: FirebaseStorageTypes.Reference,
+  path: string,
+  {onProgress, signal}: Pick<UploadOptions, 'onProgress' | 'signal'>,
+): Promise<void> {
+  const task = reference.putFile(path, {
+    contentType: 'image/jpeg',
+    cacheControl: 'public, max-age=31536000',
+  });
+
+  const unsubscribeProgress = task.on('state_changed', snapshot => {
+    if (snapshot.totalBytes > 0) {
+      onProgress?.(snapshot.bytesTransferred / snapshot.totalBytes);
+    }
+  });
+  const unsubscribeNetInfo = NetInfo.addEventListener(state => {
+    if (state.isConnected === false) {
+      task.pause();
+    } else if (state.isConnected) {
+      task.resume();
+    }
+  });
+  const onAbort = () => {
+    task.cancel();
+  };
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    await task;
+  } finally {
+    unsubscribeProgress();
+    unsubscribeNetInfo();
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Upload one photo and return its download URL
+ * Retries reuse the same object path, so a flaky connection never leaves
+ * duplicate files behind
+ */
+export async function uploadMedia(uri: string, options: UploadOptions): Promise<UploadedMedia> {
+  const {folder, onProgress, signal} = options;
+  if (signal?.aborted) {
+    throw new CancelledError('Upload was cancelled.');
+  }
+
+  const prepared = await prepareImage(uri);
+  const objectPath = `${folder}/${generateId()}.jpg`;
+  const reference = getStorage().ref(objectPath);
+
+  try {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await runUploadTask(reference, prepared.path, {onProgress, signal});
+        const url = await reference.getDownloadURL();
+        onProgress?.(1);
+        console.log('📤 Uploaded photo to', objectPath);
+        return {url, path: objectPath};
+      } catch (error: any) {
+        if (signal?.aborted || error?.code === 'storage/cancelled') {
+          throw new CancelledError('Upload was cancelled.');
+        }
+        const retryable = RETRYABLE_CODES.includes(error?.code);
+        if (!retryable || attempt >= MAX_ATTEMPTS) {
+          console.error(`Upload of ${objectPath} failed after ${attempt} attempt(s):`, error);
+          throw retryable ? new NetworkError() : new UploadFailedError(error?.message);
+        }
+        console.warn(`⚠️ Upload attempt ${attempt} failed, retrying:`, error?.code);
+        await wait(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1), signal);
+      }
+    }
+  } finally {
+    if (prepared.temporary) {
+      RNFS.unlink(prepared.path).catch(() => {});
+    }
+  }
+}
+
+/**
+ * Upload several photos in parallel, keeping their order
+ * Photos that are already uploaded are passed through; when one upload
+ * fails the others are cancelled
+ */
+export async function uploadMediaBatch(
+  uris: string[],
+  options: Omit<UploadOptions, 'onProgress'> & {
+    onProgress?: (index: number, progress: number) => void;
+  },
+): Promise<string[]> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', onAbort);
+
+  try {
+    return await Promise.all(
+      uris.map(async (uri, index) => {
+        if (!isLocalMedia(uri)) {
+          return uri;
+        }
+        try {
+          const uploaded = await uploadMedia(uri, {
+            folder: options.folder,
+            signal: controller.signal,
+            onProgress: progress => options.onProgress?.(index, progress),
+          });
+          return uploaded.url;
+        } catch (error) {
+          controller.abort();
+          throw error;
+        }
+      }),
+    );
+  } finally {
+    options.signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+export const mediaUploadService = {
+  upload: uploadMedia,
+  uploadBatch: uploadMediaBatch,
+  isLocal: isLocalMedia,
+};
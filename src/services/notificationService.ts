@@ -302,6 +302,25 @@ class NotificationService {
     });
   }
 
+  /**
+   * Show a service notification right away, for events the app detects itself
+   */
+  showServiceNotification(title: string, message: string, data: Record<string, any> = {}) {
+    PushNotification.localNotification({
+      channelId: 'service_requests',
+      title,
+      message,
+      playSound: true,
+      soundName: 'hooter.wav',
+      userInfo: {type: 'service', ...data},
+      priority: 'high',
+      importance: 'high',
+      autoCancel: true,
+      largeIcon: 'ic_launcher',
+      smallIcon: 'ic_notification',
+    });
+  }
+
   cancelNotification(id: string) {
     PushNotification.cancelLocalNotification(id);
   }
@@ -59,16 +59,73 @@ export const formatDistance = (distanceKm: number): string => {
   return `${distanceKm.toFixed(1)}km`;
 };
 
+// Assumed speed for local travel until the provider's own speed is known
+const AVERAGE_SPEED_KMH = 30;
+
 /**
  * Calculate estimated time of arrival (ETA) in minutes
- * Assumes average speed of 30 km/h for local travel
+ * Uses the given speed, or an average of 30 km/h for local travel
  */
-export const calculateETA = (distanceKm: number): number => {
-  const averageSpeedKmh = 30; // 30 km/h average speed
-  const timeHours = distanceKm / averageSpeedKmh;
+export const calculateETA = (distanceKm: number, speedKmh: number = AVERAGE_SPEED_KMH): number => {
+  const timeHours = distanceKm / speedKmh;
   return Math.ceil(timeHours * 60); // Convert to minutes
 };
 
+// A location older than this no longer shows where the provider is
+export const LOCATION_STALE_MS = 2 * 60 * 1000;
+
+export const isLocationStale = (updatedAt: number, now: number = Date.now()): boolean =>
+  now - updatedAt > LOCATION_STALE_MS;
+
+// Weight of the newest movement in the smoothed speed
+const SPEED_SMOOTHING = 0.3;
+// Updates closer together than this are too noisy to measure speed from;
+// callers keep measuring from the same point until this much time has passed
+export const MIN_SPEED_SAMPLE_MS = 5000;
+// Faster than any local trip - a GPS jump rather than movement
+const MAX_PLAUSIBLE_SPEED_KMH = 120;
+
+/**
+ * Fold the movement between two location updates into a smoothed speed (km/h)
+ * Returns the previous speed unchanged when the step cannot be trusted
+ */
+export const updateSmoothedSpeed = (
+  previousSpeedKmh: number | null,
+  from: ProviderLocation,
+  to: ProviderLocation,
+): number | null => {
+  const elapsedMs = to.updatedAt - from.updatedAt;
+  if (elapsedMs < MIN_SPEED_SAMPLE_MS) {
+    return previousSpeedKmh;
+  }
+  const speedKmh =
+    calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude) / (elapsedMs / 3600000);
+  if (speedKmh > MAX_PLAUSIBLE_SPEED_KMH) {
+    return previousSpeedKmh;
+  }
+  return previousSpeedKmh === null
+    ? speedKmh
+    : SPEED_SMOOTHING * speedKmh + (1 - SPEED_SMOOTHING) * previousSpeedKmh;
+};
+
+// The provider has arrived once they stay within ARRIVAL_RADIUS_M of the
+// service address for ARRIVAL_DWELL_MS
+export const ARRIVAL_RADIUS_M = 100;
+export const ARRIVAL_DWELL_MS = 60 * 1000;
+// Once inside, the provider only leaves again beyond this multiple of the
+// radius, so GPS jitter at the edge does not restart the dwell
+const ARRIVAL_EXIT_FACTOR = 1.5;
+
+/**
+ * Whether a provider this far from the address is inside the arrival geofence
+ * wasInside applies the wider exit radius (hysteresis)
+ */
+export const isWithinArrivalGeofence = (
+  distanceKm: number,
+  wasInside: boolean,
+  radiusMeters: number = ARRIVAL_RADIUS_M,
+): boolean => distanceKm * 1000 <= (wasInside ? radiusMeters * ARRIVAL_EXIT_FACTOR : radiusMeters);
+
 /**
  * Set provider online status
  */
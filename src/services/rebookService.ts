@@ -0,0 +1,81 @@
+/**
+ * Rebook Service
+ * Turns a past job into a booking draft for the same category, answers and
+ * address, and checks whether the provider who did it can be booked again
+ */
+
+import {serviceRequestsApi} from './api/serviceRequestsApi';
+import {providersApi, type Provider} from './api/providersApi';
+import type {BookingDraft} from '../store';
+import type {JobCard} from '../types/domain';
+
+export interface RebookPlan {
+  draft: Omit<BookingDraft, 'updatedAt' | 'userId'>;
+  // Set when the previous provider can be booked directly
+  provider: Provider | null;
+  // The job had a provider who cannot take new requests right now
+  providerUnavailable: boolean;
+}
+
+const offersServiceType = (provider: Provider, serviceType: string) => {
+  const categories = provider.serviceCategories?.length
+    ? provider.serviceCategories
+    : [provider.specialization || provider.specialty].filter((name): name is string => !!name);
+  return categories.includes(serviceType);
+};
+
+/**
+ * The previous provider, if they are still approved, online and offer the
+ * category - anything else means the request goes to everyone instead
+ */
+const loadBookableProvider = async (providerId: string, serviceType: string): Promise<Provider | null> => {
+  try {
+    const provider = await providersApi.getById(providerId);
+    if (
+      provider &&
+      provider.approvalStatus === 'approved' &&
+      provider.isOnline !== false &&
+      offersServiceType(provider, serviceType)
+    ) {
+      return provider;
+    }
+    return null;
+  } catch (error) {
+    console.warn('⚠️ Could not load previous provider for rebooking:', providerId, error);
+    return null;
+  }
+};
+
+/**
+ * Build the draft and provider preference for booking a past job again
+ * Falls back to the job card's own details when the original request
+ * cannot be loaded
+ */
+export const planRebooking = async (jobCard: JobCard): Promise<RebookPlan> => {
+  const serviceRequestId = jobCard.consultationId || jobCard.bookingId;
+
+  const [serviceRequest, provider] = await Promise.all([
+    serviceRequestId
+      ? serviceRequestsApi.getById(serviceRequestId).catch(error => {
+          console.warn('⚠️ Could not load original service request for rebooking:', serviceRequestId, error);
+          return null;
+        })
+      : Promise.resolve(null),
+    jobCard.providerId ? loadBookableProvider(jobCard.providerId, jobCard.serviceType) : Promise.resolve(null),
+  ]);
+
+  return {
+    draft: {
+      serviceType: jobCard.serviceType,
+      questionnaireAnswers: serviceRequest?.questionnaireAnswers || {},
+      problem: serviceRequest?.problem || jobCard.problem || '',
+      address: serviceRequest?.customerAddress || jobCard.customerAddress || null,
+      urgency: 'immediate',
+      recurrence: null,
+      onBehalfOf: null,
+      photos: [],
+    },
+    provider,
+    providerUnavailable: !!jobCard.providerId && !provider,
+  };
+};
@@ -0,0 +1,119 @@
+/**
+ * Reschedule Service
+ * Moves scheduled bookings to a new time and tells both sides about it
+ * through push notifications and the WebSocket server
+ */
+
+import {serviceRequestsApi} from './api/serviceRequestsApi';
+import pushNotificationService from './pushNotificationService';
+import WebSocketService, {type ScheduleChangedEvent} from './websocketService';
+import type {ServiceRequest} from '../types/domain';
+
+const formatTime = (date: Date) => date.toLocaleString();
+
+const NOTIFICATION_TEXT: Record<
+  ScheduleChangedEvent['status'],
+  {title: string; provider: (request: ServiceRequest, time: string) => string; customer: (request: ServiceRequest, time: string) => string}
+> = {
+  rescheduled: {
+    title: 'Service Rescheduled',
+    provider: (request, time) => `${request.customerName} moved the ${request.serviceType} service to ${time}`,
+    customer: (request, time) => `Your ${request.serviceType} service is now scheduled for ${time}`,
+  },
+  proposed: {
+    title: 'New Time Requested',
+    provider: (request, time) => `${request.customerName} asked to move the ${request.serviceType} service to ${time}`,
+    customer: (request, time) => `Waiting for the provider to confirm ${time} for your ${request.serviceType} service`,
+  },
+  accepted: {
+    title: 'New Time Confirmed',
+    provider: (request, time) => `${request.customerName} accepted ${time} for the ${request.serviceType} service`,
+    customer: (request, time) => `Your ${request.serviceType} service is now scheduled for ${time}`,
+  },
+  declined: {
+    title: 'New Time Declined',
+    // Also sent when the customer withdraws their own proposal
+    provider: request => `${request.customerName} kept the original time for the ${request.serviceType} service`,
+    customer: request => `Your ${request.serviceType} service keeps its original time`,
+  },
+};
+
+/**
+ * Push and WebSocket notifications for a schedule change
+ * Failures are only logged - the change itself already went through
+ */
+const notifyScheduleChange = async (
+  request: ServiceRequest,
+  status: ScheduleChangedEvent['status'],
+  scheduledTime: Date,
+): Promise<void> => {
+  const text = NOTIFICATION_TEXT[status];
+  const time = formatTime(scheduledTime);
+  const data = {
+    type: 'service' as const,
+    consultationId: request.id,
+    status,
+    scheduledTime: scheduledTime.toISOString(),
+  };
+
+  try {
+    await Promise.all([
+      request.providerId
+        ? pushNotificationService.sendToProvider(request.providerId, {
+            ...data,
+            title: text.title,
+            body: text.provider(request, time),
+          })
+        : Promise.resolve(),
+      pushNotificationService.sendToUser(request.customerId, {
+        ...data,
+        title: text.title,
+        body: text.customer(request, time),
+      }),
+      WebSocketService.emitScheduleChange(
+        {providerId: request.providerId, customerId: request.customerId},
+        {
+          consultationId: request.id,
+          status,
+          scheduledTime: scheduledTime.toISOString(),
+          changedBy: 'customer',
+        },
+      ),
+    ]);
+    console.log(`📅 Schedule change (${status}) sent for service request:`, request.id);
+  } catch (error) {
+    console.error('Error sending schedule change notifications:', error);
+  }
+};
+
+/**
+ * Move a scheduled request to a new time
+ * Resolves with the updated request - check pendingReschedule to see
+ * whether the provider still has to confirm the time
+ * Throws SlotUnavailableError when the provider cannot take the new time
+ */
+export const rescheduleRequest = async (
+  request: ServiceRequest,
+  scheduledTime: Date,
+): Promise<ServiceRequest> => {
+  const updated = await serviceRequestsApi.reschedule(request.id, scheduledTime);
+  const proposed = updated.pendingReschedule?.proposedBy === 'customer';
+  await notifyScheduleChange(updated, proposed ? 'proposed' : 'rescheduled', scheduledTime);
+  return updated;
+};
+
+/**
+ * Accept or decline the new time proposed on a request
+ */
+export const respondToRescheduleProposal = async (
+  request: ServiceRequest,
+  accept: boolean,
+): Promise<ServiceRequest> => {
+  const proposal = request.pendingReschedule;
+  if (!proposal) {
+    return request;
+  }
+  const updated = await serviceRequestsApi.respondToReschedule(request.id, proposal.id, accept);
+  await notifyScheduleChange(updated, accept ? 'accepted' : 'declined', proposal.scheduledTime);
+  return updated;
+};
@@ -7,24 +7,13 @@
  */
 
 import auth from '@react-native-firebase/auth';
-import {reviewsApi, type Review as ReviewApi} from './api/reviewsApi';
+import {reviewsApi} from './api/reviewsApi';
 import {jobCardsApi} from './api/jobCardsApi';
+import {RequestQueuedError} from './api/offlineQueue';
+import {ApiError} from './api/apiErrors';
+import type {Review} from '../types/domain';
 
-export interface Review {
-  id?: string;
-  jobCardId: string;
-  serviceRequestId?: string; // consultationId for backward compatibility
-  customerId: string;
-  customerName: string;
-  providerId: string;
-  providerName: string;
-  serviceType: string;
-  rating: number; // 1-5 stars
-  comment?: string;
-  photos?: string[]; // Optional photos
-  createdAt: Date;
-  updatedAt?: Date;
-}
+export type {Review};
 
 /**
  * Create a review for a completed job
@@ -87,9 +76,25 @@ export const createReview = async (
     }
 
     const review = await reviewsApi.create(reviewData);
-    return review._id || review.id || '';
+
+    // The review itself is saved - a missing progress step is only logged
+    try {
+      await jobCardsApi.addEvent(jobCardId, {type: 'reviewed', actor: 'customer'});
+    } catch (eventError) {
+      if (!(eventError instanceof RequestQueuedError)) {
+        console.warn('⚠️ Could not add review to job progress:', eventError);
+      }
+    }
+    return review.id;
   } catch (error: any) {
+    // Saved for later delivery - let the caller tell the user
+    if (error instanceof RequestQueuedError) {
+      throw error;
+    }
     console.error('Error creating review:', error);
+    if (error instanceof ApiError) {
+      throw error;
+    }
     throw new Error(error.message || 'Failed to create review');
   }
 };
@@ -104,15 +109,13 @@ export const getProviderReviews = async (
   try {
     const reviews = await reviewsApi.getProviderReviews(providerId);
 
-    // Convert API response to app format
-    return reviews.map((review: ReviewApi) => ({
-      id: review._id || review.id,
-      ...review,
-      createdAt: review.createdAt instanceof Date ? review.createdAt : new Date(review.createdAt),
-      updatedAt: review.updatedAt ? (review.updatedAt instanceof Date ? review.updatedAt : new Date(review.updatedAt)) : undefined,
-    })) as Review[];
+    // Already normalised by the API layer (Date fields, single id)
+    return reviews;
   } catch (error: any) {
     console.error('Error fetching provider reviews:', error);
+    if (error instanceof ApiError) {
+      throw error;
+    }
     throw new Error(`Failed to fetch reviews: ${error.message || 'Unknown error'}`);
   }
 };
@@ -127,15 +130,13 @@ export const getCustomerReviews = async (
   try {
     const reviews = await reviewsApi.getCustomerReviews(customerId);
 
-    // Convert API response to app format
-    return reviews.map((review: ReviewApi) => ({
-      id: review._id || review.id,
-      ...review,
-      createdAt: review.createdAt instanceof Date ? review.createdAt : new Date(review.createdAt),
-      updatedAt: review.updatedAt ? (review.updatedAt instanceof Date ? review.updatedAt : new Date(review.updatedAt)) : undefined,
-    })) as Review[];
+    // Already normalised by the API layer (Date fields, single id)
+    return reviews;
   } catch (error: any) {
     console.error('Error fetching customer reviews:', error);
+    if (error instanceof ApiError) {
+      throw error;
+    }
     throw new Error(`Failed to fetch reviews: ${error.message || 'Unknown error'}`);
   }
 };
@@ -153,13 +154,8 @@ export const getJobCardReview = async (
       return null;
     }
 
-    // Convert API response to app format
-    return {
-      id: review._id || review.id,
-      ...review,
-      createdAt: review.createdAt instanceof Date ? review.createdAt : new Date(review.createdAt),
-      updatedAt: review.updatedAt ? (review.updatedAt instanceof Date ? review.updatedAt : new Date(review.updatedAt)) : undefined,
-    } as Review;
+    // Already normalised by the API layer (Date fields, single id)
+    return review;
   } catch (error) {
     console.error('Error fetching job card review:', error);
     return null;
@@ -4,19 +4,14 @@
  * Uses HomeServicesBackend API for all database operations
  */
 
-import {serviceCategoriesApi, type ServiceCategory as ServiceCategoryApi} from './api/serviceCategoriesApi';
+import {
+  serviceCategoriesApi,
+  type QuestionnaireQuestion,
+  type ServiceCategory as ServiceCategoryApi,
+} from './api/serviceCategoriesApi';
+import type {RateCard} from '../types/domain';
 
-export interface QuestionnaireQuestion {
-  id: string;
-  question: string; // English question (backward compatibility)
-  questionHi?: string; // Hindi question (optional)
-  type: 'text' | 'number' | 'select' | 'multiselect' | 'boolean';
-  options?: string[]; // English options for select and multiselect types (backward compatibility)
-  optionsHi?: string[]; // Hindi options for select and multiselect types (optional)
-  required: boolean;
-  placeholder?: string; // English placeholder (backward compatibility)
-  placeholderHi?: string; // Hindi placeholder (optional)
-}
+export type {QuestionnaireQuestion, QuestionCondition, QuestionType} from './api/serviceCategoriesApi';
 
 export interface ServiceCategory {
   id: string;
@@ -29,7 +24,9 @@ export interface ServiceCategory {
   isActive: boolean;
   order: number; // Display order
   questionnaire?: QuestionnaireQuestion[]; // Questions for this service category
+  rateCard?: RateCard; // Prices for the upfront estimate
   requiresVehicle?: boolean; // For driver/transport services
+  quotesEnabled?: boolean; // Bigger jobs - customers can collect quotes first
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -67,6 +64,7 @@ export const DEFAULT_SERVICE_CATEGORIES: Omit<ServiceCategory, 'id' | 'createdAt
     descriptionHi: 'पेशेवर बढ़ईगीरी और लकड़ी के काम की सेवाएं',
     isActive: true,
     order: 3,
+    quotesEnabled: true,
   },
   {
     name: 'AC Repair',
@@ -97,6 +95,7 @@ export const DEFAULT_SERVICE_CATEGORIES: Omit<ServiceCategory, 'id' | 'createdAt
     descriptionHi: 'आंतरिक और बाहरी पेंटिंग सेवाएं',
     isActive: true,
     order: 6,
+    quotesEnabled: true,
   },
   {
     name: 'Cleaning Service',
@@ -140,57 +139,73 @@ export const DEFAULT_SERVICE_CATEGORIES: Omit<ServiceCategory, 'id' | 'createdAt
   },
 ];
 
+const getDefaultCategories = (): ServiceCategory[] =>
+  DEFAULT_SERVICE_CATEGORIES.map((cat, index) => ({
+    ...cat,
+    id: `default_${index}`,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  }));
+
 /**
- * Fetch all active service categories
- * Uses backend API
+ * Convert API categories to app format, falling back to the defaults when empty
  */
-export const fetchServiceCategories = async (): Promise<ServiceCategory[]> => {
-  try {
-    const categories = await serviceCategoriesApi.getAll();
+const toAppCategories = (categories: ServiceCategoryApi[]): ServiceCategory[] => {
+  // Filter active categories if needed (backend should handle this)
+  const activeCategories = categories
+    .filter((cat: ServiceCategoryApi) => cat.isActive !== false)
+    .map((cat: ServiceCategoryApi) => {
+      // Map API fields to app format
+      return {
+        id: cat.id,
+        name: cat.name,
+        nameHi: (cat as any).nameHi || (cat as any).nameHindi,
+        icon: cat.icon || 'build',
+        color: cat.color || '#3498db',
+        description: cat.description,
+        descriptionHi: cat.descriptionHi || (cat as any).descriptionHindi,
+        isActive: cat.isActive !== false,
+        order: cat.order || 0,
+        questionnaire: cat.questionnaire || [],
+        rateCard: cat.rateCard,
+        requiresVehicle: cat.requiresVehicle || false,
+        quotesEnabled: cat.quotesEnabled || false,
+        createdAt: cat.createdAt || new Date(),
+        updatedAt: cat.updatedAt,
+      } as ServiceCategory;
+    });
 
-    // Convert API response to app format
-    // Filter active categories if needed (backend should handle this)
-    const activeCategories = categories
-      .filter((cat: ServiceCategoryApi) => cat.isActive !== false)
-      .map((cat: ServiceCategoryApi) => {
-        // Map API fields to app format
-        return {
-          id: cat._id || cat.id || '',
-          name: cat.name,
-          nameHi: (cat as any).nameHi || (cat as any).nameHindi,
-          icon: cat.icon || 'build',
-          color: cat.color || '#3498db',
-          description: cat.description,
-          descriptionHi: cat.descriptionHi || (cat as any).descriptionHindi,
-          isActive: cat.isActive !== false,
-          order: cat.order || 0,
-          questionnaire: cat.questionnaire || [],
-          requiresVehicle: cat.requiresVehicle || false,
-          createdAt: cat.createdAt ? (cat.createdAt instanceof Date ? cat.createdAt : new Date(cat.createdAt)) : new Date(),
-          updatedAt: cat.updatedAt ? (cat.updatedAt instanceof Date ? cat.updatedAt : new Date(cat.updatedAt)) : undefined,
-        } as ServiceCategory;
-      });
+  // If no categories from API, return defaults as fallback
+  if (activeCategories.length === 0) {
+    return getDefaultCategories();
+  }
 
-    // If no categories from API, return defaults as fallback
-    if (activeCategories.length === 0) {
-      return DEFAULT_SERVICE_CATEGORIES.map((cat, index) => ({
-        ...cat,
-        id: `default_${index}`,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      }));
-    }
+  return activeCategories;
+};
 
-    return activeCategories;
+/**
+ * Fetch all active service categories
+ * Uses backend API through the API cache: cached categories are returned
+ * immediately and `onUpdate` receives the refreshed list if it changed.
+ * Pass `forceRefresh` on pull-to-refresh.
+ */
+export const fetchServiceCategories = async (
+  options: {
+    forceRefresh?: boolean;
+    onUpdate?: (categories: ServiceCategory[]) => void;
+  } = {},
+): Promise<ServiceCategory[]> => {
+  const {forceRefresh, onUpdate} = options;
+  try {
+    const categories = await serviceCategoriesApi.getAll({
+      forceRefresh,
+      onUpdate: onUpdate && (updated => onUpdate(toAppCategories(updated))),
+    });
+    return toAppCategories(categories);
   } catch (error) {
     console.error('Error fetching service categories:', error);
-    // Return defaults on error as fallback
-    return DEFAULT_SERVICE_CATEGORIES.map((cat, index) => ({
-      ...cat,
-      id: `default_${index}`,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    }));
+    // Return defaults on error as fallback (only reached with no cached copy)
+    return getDefaultCategories();
   }
 };
 
@@ -233,7 +248,7 @@ export const getServiceCategoryByName = async (
 
     // Convert API response to app format
     return {
-      id: category._id || category.id || '',
+      id: category.id,
       name: category.name,
       nameHi: (category as any).nameHi || (category as any).nameHindi,
       icon: category.icon || 'build',
@@ -242,8 +257,8 @@ export const getServiceCategoryByName = async (
       descriptionHi: category.descriptionHi || (category as any).descriptionHindi,
       isActive: (category as any).isActive !== false,
       order: 0,
-      createdAt: category.createdAt ? (category.createdAt instanceof Date ? category.createdAt : new Date(category.createdAt)) : new Date(),
-      updatedAt: category.updatedAt ? (category.updatedAt instanceof Date ? category.updatedAt : new Date(category.updatedAt)) : undefined,
+      createdAt: category.createdAt || new Date(),
+      updatedAt: category.updatedAt,
     } as ServiceCategory;
   } catch (error) {
     console.error('Error fetching service category:', error);
@@ -4,14 +4,57 @@
  */
 
 import io, { Socket } from 'socket.io-client';
+import auth from '@react-native-firebase/auth';
 
 // Using production Cloud Run server for both dev and prod
 const SOCKET_URL = 'https://websocket-server-425944993130.us-central1.run.app'; // GCP Cloud Run (Free Tier)
 
+// A server that has not answered a start-matching call by then is treated as unavailable
+const START_MATCHING_TIMEOUT_MS = 10000;
+
+export interface ScheduleChangedEvent {
+  consultationId: string;
+  // rescheduled / accepted: the time now booked; proposed: the time asked for
+  status: 'rescheduled' | 'proposed' | 'accepted' | 'declined';
+  scheduledTime?: string;
+  changedBy: 'customer' | 'provider';
+}
+
+export interface MatchingProgressEvent {
+  consultationId: string;
+  // targeted: the best-ranked provider nearby; radius: everyone within radiusKm;
+  // broadcast: all online providers in the category; exhausted: nobody accepted
+  stage: 'targeted' | 'radius' | 'broadcast' | 'exhausted';
+  radiusKm?: number;
+  // Providers the request has been offered to so far
+  providerCount: number;
+  nextStageAt?: string;
+}
+
+// Overrides for the server's matching timeouts and radius rings
+export interface MatchingConfig {
+  targetedOfferMs?: number;
+  ringRadiiKm?: number[];
+  ringTimeoutMs?: number;
+  broadcastTimeoutMs?: number;
+}
+
+export interface StartMatchingParams {
+  serviceRequestId: string;
+  customerId: string;
+  serviceType: string;
+  customerLocation?: {latitude: number; longitude: number};
+  // Sent to each provider as the 'new-booking' event
+  bookingData: any;
+  config?: MatchingConfig;
+}
+
 class WebSocketService {
   private socket: Socket | null = null;
   private isConnected: boolean = false;
   private serviceCompletedCallbacks: Array<(data: {jobCardId: string; consultationId: string; providerName: string; serviceType: string}) => void> = [];
+  private scheduleChangedCallbacks: Array<(data: ScheduleChangedEvent) => void> = [];
+  private matchingProgressCallbacks: Array<(data: MatchingProgressEvent) => void> = [];
 
   /**
    * Set up service completion listener
@@ -61,14 +104,62 @@ class WebSocketService {
     console.log('✅ [WEBSOCKET] Service-completed listener set up successfully');
   }
 
+  /**
+   * Set up schedule change listener (new or proposed times from the provider)
+   */
+  private setupScheduleChangedListener(): void {
+    if (!this.socket) {
+      return;
+    }
+
+    // Remove existing listener to avoid duplicates
+    this.socket.off('schedule-changed');
+
+    this.socket.on('schedule-changed', (data: ScheduleChangedEvent) => {
+      console.log('📬 [WEBSOCKET] Schedule change received:', data);
+      this.scheduleChangedCallbacks.forEach(callback => {
+        try {
+          callback(data);
+        } catch (error: any) {
+          console.error('❌ [WEBSOCKET] Error in schedule changed callback:', error.message);
+        }
+      });
+    });
+  }
+
+  /**
+   * Set up matching progress listener (server-side provider search)
+   */
+  private setupMatchingProgressListener(): void {
+    if (!this.socket) {
+      return;
+    }
+
+    // Remove existing listener to avoid duplicates
+    this.socket.off('matching-progress');
+
+    this.socket.on('matching-progress', (data: MatchingProgressEvent) => {
+      console.log('📬 [WEBSOCKET] Matching progress received:', data);
+      this.matchingProgressCallbacks.forEach(callback => {
+        try {
+          callback(data);
+        } catch (error: any) {
+          console.error('❌ [WEBSOCKET] Error in matching progress callback:', error.message);
+        }
+      });
+    });
+  }
+
   /**
    * Initialize WebSocket connection
    */
   connect(): void {
     if (this.socket?.connected) {
       console.log('WebSocket already connected');
-      // Set up listener even if already connected
+      // Set up listeners even if already connected
       this.setupServiceCompletedListener();
+      this.setupScheduleChangedListener();
+      this.setupMatchingProgressListener();
       return;
     }
 
@@ -101,8 +192,10 @@ class WebSocketService {
         });
         this.isConnected = true;
         
-        // Set up service completion listener
+        // Set up service completion, schedule change and matching progress listeners
         this.setupServiceCompletedListener();
+        this.setupScheduleChangedListener();
+        this.setupMatchingProgressListener();
       });
 
       socket.on('disconnect', () => {
@@ -120,6 +213,8 @@ class WebSocketService {
         console.log('✅ [WEBSOCKET] WebSocket reconnected');
         this.isConnected = true;
         this.setupServiceCompletedListener();
+        this.setupScheduleChangedListener();
+        this.setupMatchingProgressListener();
       });
       
       // Don't setup listener here - wait for 'connect' event
@@ -206,6 +301,133 @@ class WebSocketService {
     };
   }
 
+  /**
+   * Register a callback for schedule changes of the customer's bookings
+   */
+  onScheduleChanged(callback: (data: ScheduleChangedEvent) => void): () => void {
+    this.scheduleChangedCallbacks.push(callback);
+
+    // Ensure listener is set up if socket is already connected
+    if (this.socket?.connected) {
+      this.setupScheduleChangedListener();
+    }
+
+    return () => {
+      const index = this.scheduleChangedCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.scheduleChangedCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Register a callback for matching progress of the customer's pending requests
+   */
+  onMatchingProgress(callback: (data: MatchingProgressEvent) => void): () => void {
+    this.matchingProgressCallbacks.push(callback);
+
+    // Ensure listener is set up if socket is already connected
+    if (this.socket?.connected) {
+      this.setupMatchingProgressListener();
+    }
+
+    return () => {
+      const index = this.matchingProgressCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.matchingProgressCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * JSON headers with the signed-in user's ID token, for endpoints that
+   * check who is calling
+   */
+  private async getAuthHeaders(): Promise<Record<string, string>> {
+    const headers: Record<string, string> = {'Content-Type': 'application/json'};
+    const token = await auth().currentUser?.getIdToken();
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+    return headers;
+  }
+
+  /**
+   * Hand a pending request to the server's matching escalation
+   * Returns false when the server could not start it or did not answer within
+   * START_MATCHING_TIMEOUT_MS, so the caller can notify providers itself
+   */
+  async startMatching(params: StartMatchingParams): Promise<boolean> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), START_MATCHING_TIMEOUT_MS);
+    try {
+      const response = await fetch(`${SOCKET_URL}/start-matching`, {
+        method: 'POST',
+        headers: await this.getAuthHeaders(),
+        body: JSON.stringify(params),
+        signal: controller.signal,
+      });
+
+      const result = await response.json();
+
+      if (!result.success) {
+        console.error('Failed to start matching:', result.error);
+      }
+      return !!result.success;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        console.error(`Starting matching timed out after ${START_MATCHING_TIMEOUT_MS}ms`);
+      } else {
+        console.error('Error starting matching:', error);
+      }
+      return false;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Stop the matching escalation for a request
+   */
+  async stopMatching(serviceRequestId: string): Promise<void> {
+    try {
+      await fetch(`${SOCKET_URL}/stop-matching`, {
+        method: 'POST',
+        headers: await this.getAuthHeaders(),
+        body: JSON.stringify({serviceRequestId}),
+      });
+    } catch (error) {
+      console.error('Error stopping matching:', error);
+    }
+  }
+
+  /**
+   * Emit a schedule change to the provider and/or the customer
+   */
+  async emitScheduleChange(
+    recipients: {providerId?: string; customerId?: string},
+    scheduleData: ScheduleChangedEvent,
+  ): Promise<void> {
+    try {
+      const response = await fetch(`${SOCKET_URL}/emit-schedule-change`, {
+        method: 'POST',
+        headers: await this.getAuthHeaders(),
+        body: JSON.stringify({
+          ...recipients,
+          scheduleData,
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!result.success) {
+        console.error('Failed to emit schedule change:', result.error);
+      }
+    } catch (error) {
+      console.error('Error emitting schedule change:', error);
+    }
+  }
+
   /**
    * Emit a new booking event to notify the provider
    */
@@ -0,0 +1,82 @@
+import {beforeEach, describe, expect, it, jest} from '@jest/globals';
+import {clearLegacyState, migrateStoreState, readLegacyState, STORE_VERSION} from '../migrations';
+
+const mockStorage = new Map<string, string>();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  __esModule: true,
+  default: {
+    multiGet: async (keys: string[]) => keys.map(key => [key, mockStorage.get(key) ?? null]),
+    multiRemove: async (keys: string[]) => {
+      keys.forEach(key => mockStorage.delete(key));
+    },
+  },
+}));
+
+describe('migrateStoreState', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('converts the hand-written keys of version 0', () => {
+    const legacy = {
+      theme: 'true',
+      language: 'hi',
+      currentUser: JSON.stringify({id: 'user-a'}),
+      serviceRequests: JSON.stringify([{id: 'request-1'}]),
+    };
+
+    expect(migrateStoreState(legacy, 0)).toEqual({
+      isDarkMode: true,
+      language: 'hi',
+      currentUser: {id: 'user-a'},
+      serviceRequests: [{id: 'request-1'}],
+      notifications: [],
+    });
+  });
+
+  it('falls back to defaults for unreadable legacy values', () => {
+    expect(migrateStoreState({theme: '{broken', language: 'fr', notifications: 'null'}, 0)).toEqual({
+      isDarkMode: false,
+      language: 'en',
+      currentUser: null,
+      serviceRequests: [],
+      notifications: [],
+    });
+  });
+
+  it('leaves state saved at the current version untouched', () => {
+    const state = {isDarkMode: true};
+    expect(migrateStoreState(state, STORE_VERSION)).toBe(state);
+  });
+});
+
+describe('legacy state', () => {
+  beforeEach(() => {
+    mockStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('reads nothing for a fresh install', async () => {
+    await expect(readLegacyState()).resolves.toBeNull();
+  });
+
+  it('reads the hand-written keys as a version 0 entry and clears them afterwards', async () => {
+    mockStorage.set('theme', 'true');
+    mockStorage.set('language', 'hi');
+    mockStorage.set('unrelated', 'kept');
+
+    const stored = await readLegacyState();
+    expect(JSON.parse(stored || '')).toEqual({state: {theme: 'true', language: 'hi'}, version: 0});
+
+    await clearLegacyState();
+    expect([...mockStorage.keys()]).toEqual(['unrelated']);
+  });
+
+  it('does not clear keys it has not read', async () => {
+    mockStorage.set('theme', 'true');
+
+    await clearLegacyState();
+    expect(mockStorage.has('theme')).toBe(true);
+  });
+});
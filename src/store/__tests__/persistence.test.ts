@@ -0,0 +1,81 @@
+import {describe, expect, it, jest} from '@jest/globals';
+import {partializeSlices, reviveDate, reviveSlices, type SlicePersistence} from '../persistence';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+interface TestState {
+  theme: string;
+  draft: string;
+  savedAt?: Date;
+  transient: number;
+}
+
+const preferences: SlicePersistence<TestState> = {keys: ['theme']};
+const drafts: SlicePersistence<TestState> = {
+  keys: ['draft', 'savedAt'],
+  revive: persisted => ({...persisted, savedAt: reviveDate(persisted.savedAt)}),
+};
+
+describe('partializeSlices', () => {
+  it('keeps only the keys the slices persist', () => {
+    const state: TestState = {theme: 'dark', draft: 'text', transient: 3};
+
+    expect(partializeSlices(state, [preferences, drafts])).toEqual({
+      theme: 'dark',
+      draft: 'text',
+      savedAt: undefined,
+    });
+  });
+});
+
+describe('reviveSlices', () => {
+  it('revives each slice from its own keys', () => {
+    const stored = JSON.parse(
+      JSON.stringify({theme: 'dark', draft: 'text', savedAt: new Date('2026-03-02T10:00:00Z'), other: 1}),
+    );
+
+    expect(reviveSlices<TestState>(stored, [preferences, drafts])).toEqual({
+      theme: 'dark',
+      draft: 'text',
+      savedAt: new Date('2026-03-02T10:00:00Z'),
+    });
+  });
+
+  it('keeps the defaults of a slice that fails to revive', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const failing: SlicePersistence<TestState> = {
+      keys: ['draft'],
+      revive: () => {
+        throw new Error('Corrupt');
+      },
+    };
+
+    expect(reviveSlices<TestState>({theme: 'dark', draft: 'text'}, [preferences, failing])).toEqual({
+      theme: 'dark',
+    });
+  });
+
+  it('ignores stored values that are not objects', () => {
+    expect(reviveSlices(null, [preferences])).toEqual({});
+    expect(reviveSlices('corrupt', [preferences])).toEqual({});
+  });
+});
+
+describe('reviveDate', () => {
+  it('accepts ISO strings, epochs and dates', () => {
+    const date = new Date('2026-03-02T10:00:00Z');
+
+    expect(reviveDate(date.toISOString())).toEqual(date);
+    expect(reviveDate(date.getTime())).toEqual(date);
+    expect(reviveDate(date)).toEqual(date);
+  });
+
+  it('returns undefined for invalid values', () => {
+    expect(reviveDate('not a date')).toBeUndefined();
+    expect(reviveDate(null)).toBeUndefined();
+    expect(reviveDate({})).toBeUndefined();
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Store Migrations
+ * Upgrades persisted store state saved by older app versions.
+ * Bump STORE_VERSION and add a step whenever a persisted shape changes
+ * (e.g. AppNotification), so existing installs are converted instead of
+ * loading data the new code cannot read.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export const STORE_VERSION = 1;
+
+// Keys the store wrote by hand before it used the persist middleware
+const LEGACY_KEYS = ['theme', 'language', 'currentUser', 'serviceRequests', 'notifications'];
+
+let legacyStateRead = false;
+
+/**
+ * Read the hand-written keys of older installs as a version 0 entry
+ */
+export async function readLegacyState(): Promise<string | null> {
+  const entries = await AsyncStorage.multiGet(LEGACY_KEYS);
+  const legacy: Record<string, string> = {};
+  entries.forEach(([key, value]) => {
+    if (value !== null) {
+      legacy[key] = value;
+    }
+  });
+  if (Object.keys(legacy).length === 0) {
+    return null;
+  }
+  legacyStateRead = true;
+  return JSON.stringify({state: legacy, version: 0});
+}
+
+/**
+ * Remove the hand-written keys once their state has been migrated and saved
+ */
+export async function clearLegacyState(): Promise<void> {
+  if (!legacyStateRead) {
+    return;
+  }
+  legacyStateRead = false;
+  try {
+    await AsyncStorage.multiRemove(LEGACY_KEYS);
+    console.log('🧹 Removed legacy store keys');
+  } catch (error) {
+    console.error('Error removing legacy store keys:', error);
+  }
+}
+
+function parseLegacyValue<T>(value: unknown, fallback: T): T {
+  if (typeof value !== 'string') {
+    return fallback;
+  }
+  try {
+    return JSON.parse(value) ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+type Migration = (state: any) => any;
+
+/**
+ * migrations[n] upgrades state saved at version n - 1 to version n
+ */
+const migrations: Record<number, Migration> = {
+  // Version 0: one AsyncStorage key per value, each JSON-encoded except language
+  1: legacy => ({
+    isDarkMode: parseLegacyValue(legacy?.theme, false),
+    language: legacy?.language === 'hi' ? 'hi' : 'en',
+    currentUser: parseLegacyValue(legacy?.currentUser, null),
+    serviceRequests: parseLegacyValue(legacy?.serviceRequests, []),
+    notifications: parseLegacyValue(legacy?.notifications, []),
+  }),
+};
+
+/**
+ * Run every migration step between the stored version and STORE_VERSION
+ */
+export function migrateStoreState(persisted: unknown, fromVersion: number): unknown {
+  let state = persisted;
+  for (let version = fromVersion + 1; version <= STORE_VERSION; version++) {
+    const migration = migrations[version];
+    if (migration) {
+      console.log(`🔄 Migrating persisted store to version ${version}`);
+      state = migration(state);
+    }
+  }
+  return state;
+}
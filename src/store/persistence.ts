@@ -0,0 +1,86 @@
+/**
+ * Store Persistence
+ * Each slice declares which of its keys survive a restart and how to revive
+ * them after JSON. The store combines the declarations into a single
+ * versioned AsyncStorage entry (see migrations.ts for older entries).
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type {StateStorage} from 'zustand/middleware';
+import {readLegacyState} from './migrations';
+
+export const STORE_STORAGE_KEY = '@app_store';
+
+export interface SlicePersistence<S> {
+  // Keys written to storage - everything else resets on restart
+  keys: readonly (keyof S)[];
+  // Rebuild values JSON cannot represent (e.g. Dates) and drop invalid ones
+  revive?: (persisted: Partial<S>) => Partial<S>;
+}
+
+/**
+ * AsyncStorage, falling back to the hand-written keys of older installs
+ */
+export const storeStorage: StateStorage = {
+  getItem: async name => (await AsyncStorage.getItem(name)) ?? readLegacyState(),
+  setItem: (name, value) => AsyncStorage.setItem(name, value),
+  removeItem: name => AsyncStorage.removeItem(name),
+};
+
+/**
+ * Pick the persisted keys of every slice
+ */
+export function partializeSlices<S extends object>(
+  state: S,
+  slices: SlicePersistence<any>[],
+): Partial<S> {
+  const persisted: Record<string, unknown> = {};
+  slices.forEach(slice => {
+    slice.keys.forEach(key => {
+      persisted[key as string] = (state as Record<string, unknown>)[key as string];
+    });
+  });
+  return persisted as Partial<S>;
+}
+
+/**
+ * Revive stored state slice by slice
+ * A slice that fails to revive keeps its defaults instead of crashing the app
+ */
+export function reviveSlices<S extends object>(
+  persisted: unknown,
+  slices: SlicePersistence<any>[],
+): Partial<S> {
+  if (!persisted || typeof persisted !== 'object') {
+    return {};
+  }
+  const stored = persisted as Record<string, unknown>;
+  const revived: Record<string, unknown> = {};
+
+  slices.forEach(slice => {
+    const sliceState: Record<string, unknown> = {};
+    slice.keys.forEach(key => {
+      if (stored[key as string] !== undefined) {
+        sliceState[key as string] = stored[key as string];
+      }
+    });
+    try {
+      Object.assign(revived, slice.revive ? slice.revive(sliceState) : sliceState);
+    } catch (error) {
+      console.error('Error restoring persisted state for', slice.keys, error);
+    }
+  });
+
+  return revived as Partial<S>;
+}
+
+/**
+ * Date from a persisted ISO string or epoch, or undefined when invalid
+ */
+export function reviveDate(value: unknown): Date | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number' && !(value instanceof Date)) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
@@ -0,0 +1,132 @@
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import {
+  createDraftsSlice,
+  draftsPersistence,
+  isOwnBookingDraft,
+  type BookingDraft,
+  type DraftsSlice,
+} from '../draftsSlice';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+const NOW = new Date('2026-03-02T10:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+const draftFields: Omit<BookingDraft, 'updatedAt' | 'userId'> = {
+  serviceType: 'Plumbing',
+  questionnaireAnswers: {leak: true},
+  problem: 'Kitchen tap leaking',
+  address: null,
+  urgency: 'scheduled',
+  recurrence: null,
+  photos: [],
+};
+
+// Minimal store holding the drafts slice and the signed-in user
+const createStore = (currentUser: {id: string} | null) => {
+  let state: any = {currentUser};
+  const set = (partial: object) => {
+    state = {...state, ...partial};
+  };
+  state = {...state, ...createDraftsSlice(set as any, () => state, {} as any)};
+  return () => state as DraftsSlice;
+};
+
+describe('drafts slice', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({now: NOW});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('saves a draft per category with its owner', () => {
+    const getState = createStore({id: 'user-a'});
+
+    getState().saveBookingDraft(draftFields);
+    getState().saveBookingDraft({...draftFields, serviceType: 'Electrical'});
+
+    expect(Object.keys(getState().bookingDrafts)).toEqual(['Plumbing', 'Electrical']);
+    expect(getState().bookingDrafts.Plumbing).toMatchObject({userId: 'user-a', updatedAt: NOW});
+  });
+
+  it('records drafts started before logging in without an owner', () => {
+    const getState = createStore(null);
+
+    getState().saveBookingDraft(draftFields);
+
+    expect(getState().bookingDrafts.Plumbing.userId).toBeNull();
+  });
+
+  it('clears one category or every draft', () => {
+    const getState = createStore({id: 'user-a'});
+    getState().saveBookingDraft(draftFields);
+    getState().saveBookingDraft({...draftFields, serviceType: 'Electrical'});
+
+    getState().clearBookingDraft('Plumbing');
+    expect(Object.keys(getState().bookingDrafts)).toEqual(['Electrical']);
+
+    getState().clearBookingDrafts();
+    expect(getState().bookingDrafts).toEqual({});
+  });
+});
+
+describe('isOwnBookingDraft', () => {
+  const draft = (userId: string | null): BookingDraft => ({...draftFields, userId, updatedAt: NOW});
+
+  it('offers the signed-in user their own drafts and ones started before login', () => {
+    expect(isOwnBookingDraft(draft('user-a'), 'user-a')).toBe(true);
+    expect(isOwnBookingDraft(draft(null), 'user-a')).toBe(true);
+  });
+
+  it('never offers another account\'s draft', () => {
+    expect(isOwnBookingDraft(draft('user-b'), 'user-a')).toBe(false);
+    expect(isOwnBookingDraft(draft('user-b'), null)).toBe(false);
+    expect(isOwnBookingDraft(undefined, 'user-a')).toBe(false);
+  });
+});
+
+describe('draftsPersistence.revive', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({now: NOW});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const stored = (overrides: object) =>
+    JSON.parse(JSON.stringify({...draftFields, userId: 'user-a', updatedAt: NOW, ...overrides}));
+
+  it('restores dates and fills in missing fields', () => {
+    const endDate = new Date('2026-06-01T00:00:00Z');
+    const {bookingDrafts} = draftsPersistence.revive!({
+      bookingDrafts: {
+        Plumbing: stored({photos: undefined, recurrence: {frequency: 'weekly', endDate}}),
+      },
+    });
+
+    expect(bookingDrafts?.Plumbing).toMatchObject({
+      updatedAt: NOW,
+      photos: [],
+      recurrence: {frequency: 'weekly', endDate},
+    });
+  });
+
+  it('drops expired, invalid and ownerless legacy drafts', () => {
+    const {bookingDrafts} = draftsPersistence.revive!({
+      bookingDrafts: {
+        Plumbing: stored({updatedAt: new Date(NOW.getTime() - 8 * DAY)}),
+        Electrical: stored({serviceType: 'Electrical', updatedAt: 'not a date'}),
+        Painting: stored({serviceType: 'Painting', userId: undefined}),
+        Cleaning: stored({serviceType: 'Cleaning', userId: null}),
+      },
+    });
+
+    expect(Object.keys(bookingDrafts || {})).toEqual(['Cleaning']);
+  });
+});
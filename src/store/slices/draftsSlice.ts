@@ -0,0 +1,107 @@
+/**
+ * Drafts Slice
+ * Unfinished booking forms, one per service category, so a booking
+ * survives the app being killed or a trip through Login
+ */
+
+import type {OnBehalfContact, RecurrenceRule} from '../../types/domain';
+import type {UserLocation} from '../../types/common';
+import {reviveDate, type SlicePersistence} from '../persistence';
+import type {StoreSlice} from '../types';
+
+export interface BookingDraft {
+  serviceType: string;
+  questionnaireAnswers: Record<string, any>;
+  problem: string;
+  address: UserLocation | null;
+  urgency: 'immediate' | 'scheduled';
+  // A held slot expires, so only the recurrence pattern is kept
+  recurrence: Omit<RecurrenceRule, 'startDate' | 'exceptions'> | null;
+  onBehalfOf?: OnBehalfContact | null;
+  photos: string[];
+  // Who started it; null when it was started before logging in
+  userId: string | null;
+  updatedAt: Date;
+}
+
+// Drafts untouched for longer than this are dropped on restart
+const DRAFT_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface DraftsSlice {
+  // Keyed by service category name
+  bookingDrafts: Record<string, BookingDraft>;
+  saveBookingDraft: (draft: Omit<BookingDraft, 'updatedAt' | 'userId'>) => void;
+  clearBookingDraft: (serviceType: string) => void;
+  // Drop every draft, e.g. on logout
+  clearBookingDrafts: () => void;
+}
+
+/**
+ * Whether the signed-in user (if any) may resume a draft - drafts another
+ * account left on this device are never offered
+ */
+export const isOwnBookingDraft = (draft: BookingDraft | undefined, userId: string | null | undefined) =>
+  !!draft && (draft.userId === null || draft.userId === userId);
+
+export const createDraftsSlice: StoreSlice<DraftsSlice> = (set, get) => ({
+  bookingDrafts: {},
+
+  saveBookingDraft: (draft: Omit<BookingDraft, 'updatedAt' | 'userId'>) => {
+    set({
+      bookingDrafts: {
+        ...get().bookingDrafts,
+        [draft.serviceType]: {...draft, userId: get().currentUser?.id ?? null, updatedAt: new Date()},
+      },
+    });
+  },
+
+  clearBookingDraft: (serviceType: string) => {
+    if (!get().bookingDrafts[serviceType]) {
+      return;
+    }
+    const {[serviceType]: _removed, ...rest} = get().bookingDrafts;
+    set({bookingDrafts: rest});
+  },
+
+  clearBookingDrafts: () => set({bookingDrafts: {}}),
+});
+
+/**
+ * Restore Date fields, dropping invalid and expired drafts
+ * Drafts saved before their owner was recorded are dropped too, as they
+ * cannot be told apart from another account's
+ */
+function reviveBookingDraft(value: any): BookingDraft | null {
+  const updatedAt = reviveDate(value?.updatedAt);
+  if (!updatedAt || typeof value.serviceType !== 'string') {
+    return null;
+  }
+  if (value.userId !== null && typeof value.userId !== 'string') {
+    return null;
+  }
+  if (Date.now() - updatedAt.getTime() > DRAFT_MAX_AGE_MS) {
+    return null;
+  }
+  return {
+    ...value,
+    questionnaireAnswers: value.questionnaireAnswers || {},
+    problem: typeof value.problem === 'string' ? value.problem : '',
+    photos: Array.isArray(value.photos) ? value.photos : [],
+    recurrence: value.recurrence ? {...value.recurrence, endDate: reviveDate(value.recurrence.endDate)} : null,
+    updatedAt,
+  };
+}
+
+export const draftsPersistence: SlicePersistence<DraftsSlice> = {
+  keys: ['bookingDrafts'],
+  revive: ({bookingDrafts}) => {
+    const revived: Record<string, BookingDraft> = {};
+    Object.values(bookingDrafts || {}).forEach(value => {
+      const draft = reviveBookingDraft(value);
+      if (draft) {
+        revived[draft.serviceType] = draft;
+      }
+    });
+    return {bookingDrafts: revived};
+  },
+};
@@ -0,0 +1,25 @@
+/**
+ * Location Slice
+ * Pincode used to find providers near the user
+ */
+
+import type {SlicePersistence} from '../persistence';
+import type {StoreSlice} from '../types';
+
+export interface LocationSlice {
+  currentPincode: string | null;
+  setCurrentPincode: (pincode: string | null) => void;
+}
+
+export const createLocationSlice: StoreSlice<LocationSlice> = set => ({
+  currentPincode: null,
+
+  setCurrentPincode: (pincode: string | null) => set({currentPincode: pincode}),
+});
+
+export const locationPersistence: SlicePersistence<LocationSlice> = {
+  keys: ['currentPincode'],
+  revive: ({currentPincode}) => ({
+    currentPincode: typeof currentPincode === 'string' ? currentPincode : null,
+  }),
+};
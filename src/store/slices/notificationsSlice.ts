@@ -0,0 +1,115 @@
+/**
+ * Notifications Slice
+ * In-app notification inbox, shared by every user signed in on the device
+ */
+
+import {reviveDate, type SlicePersistence} from '../persistence';
+import type {StoreSlice} from '../types';
+
+export interface AppNotification {
+  id: string;
+  title: string;
+  message: string;
+  type: 'consultation' | 'reminder' | 'system';
+  consultationId?: string;
+  userId: string; // User ID who should receive this notification (customerId or providerId)
+  read: boolean;
+  createdAt: Date;
+}
+
+const NOTIFICATION_TYPES: AppNotification['type'][] = ['consultation', 'reminder', 'system'];
+
+const MAX_NOTIFICATIONS = 100;
+
+export interface NotificationsSlice {
+  notifications: AppNotification[];
+  addNotification: (notification: AppNotification) => void;
+  markNotificationAsRead: (id: string) => void;
+  markAllNotificationsAsRead: (userId?: string) => void;
+  deleteNotification: (id: string) => void;
+  clearAllNotifications: (userId?: string) => void;
+  getUnreadCount: (userId?: string) => number;
+  getUserNotifications: (userId: string) => AppNotification[];
+}
+
+export const createNotificationsSlice: StoreSlice<NotificationsSlice> = (set, get) => ({
+  notifications: [],
+
+  addNotification: (notification: AppNotification) => {
+    // Keep last 100
+    set({notifications: [notification, ...get().notifications].slice(0, MAX_NOTIFICATIONS)});
+  },
+
+  markNotificationAsRead: (id: string) => {
+    set({
+      notifications: get().notifications.map(n => (n.id === id ? {...n, read: true} : n)),
+    });
+  },
+
+  markAllNotificationsAsRead: (userId?: string) => {
+    const notifications = get().notifications.map(n => {
+      if (userId && n.userId !== userId) return n;
+      return {...n, read: true};
+    });
+    set({notifications});
+  },
+
+  deleteNotification: (id: string) => {
+    set({notifications: get().notifications.filter(n => n.id !== id)});
+  },
+
+  clearAllNotifications: (userId?: string) => {
+    set({
+      notifications: userId ? get().notifications.filter(n => n.userId !== userId) : [],
+    });
+  },
+
+  getUnreadCount: (userId?: string) => {
+    const notifications = userId
+      ? get().notifications.filter(n => n.userId === userId)
+      : get().notifications;
+    return notifications.filter(n => !n.read).length;
+  },
+
+  getUserNotifications: (userId: string) => {
+    return get().notifications
+      .filter(n => n.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  },
+});
+
+/**
+ * Rebuild a stored notification, or null if it cannot be shown
+ * Tolerates fields added or removed by other app versions
+ */
+function reviveNotification(value: any): AppNotification | null {
+  if (!value || typeof value.id !== 'string' || typeof value.userId !== 'string') {
+    return null;
+  }
+  const createdAt = reviveDate(value.createdAt);
+  if (!createdAt) {
+    return null;
+  }
+  return {
+    id: value.id,
+    title: String(value.title ?? ''),
+    message: String(value.message ?? ''),
+    type: NOTIFICATION_TYPES.includes(value.type) ? value.type : 'system',
+    consultationId: typeof value.consultationId === 'string' ? value.consultationId : undefined,
+    userId: value.userId,
+    read: value.read === true,
+    createdAt,
+  };
+}
+
+export const notificationsPersistence: SlicePersistence<NotificationsSlice> = {
+  keys: ['notifications'],
+  revive: ({notifications}) => ({
+    notifications: Array.isArray(notifications)
+      ? notifications
+          .map(reviveNotification)
+          .filter((notification): notification is AppNotification => notification !== null)
+          .slice(0, MAX_NOTIFICATIONS)
+      : [],
+  }),
+};
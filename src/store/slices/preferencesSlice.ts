@@ -0,0 +1,41 @@
+/**
+ * Preferences Slice
+ * Theme and language chosen by the user
+ */
+
+import {changeLanguage} from '../../i18n';
+import type {SlicePersistence} from '../persistence';
+import type {StoreSlice} from '../types';
+
+export type AppLanguage = 'en' | 'hi';
+
+export interface PreferencesSlice {
+  // Theme
+  isDarkMode: boolean;
+  toggleTheme: () => void;
+
+  // Language
+  language: AppLanguage;
+  setLanguage: (language: AppLanguage) => Promise<void>;
+}
+
+export const createPreferencesSlice: StoreSlice<PreferencesSlice> = (set, get) => ({
+  isDarkMode: false,
+  language: 'en',
+
+  toggleTheme: () => set({isDarkMode: !get().isDarkMode}),
+
+  setLanguage: async (language: AppLanguage) => {
+    set({language});
+    // Change i18n language
+    await changeLanguage(language);
+  },
+});
+
+export const preferencesPersistence: SlicePersistence<PreferencesSlice> = {
+  keys: ['isDarkMode', 'language'],
+  revive: ({isDarkMode, language}) => ({
+    isDarkMode: isDarkMode === true,
+    language: language === 'hi' ? 'hi' : 'en',
+  }),
+};
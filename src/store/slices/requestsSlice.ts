@@ -0,0 +1,92 @@
+/**
+ * Requests Slice
+ * The customer's service requests and the one being tracked right now
+ */
+
+import type {RecurrenceRule, ServiceRequest} from '../../types/domain';
+import {reviveDate, type SlicePersistence} from '../persistence';
+import type {StoreSlice} from '../types';
+
+export interface RequestsSlice {
+  serviceRequests: ServiceRequest[];
+  setServiceRequests: (serviceRequests: ServiceRequest[]) => void;
+  addServiceRequest: (serviceRequest: ServiceRequest) => void;
+  updateServiceRequest: (id: string, updates: Partial<ServiceRequest>) => void;
+  activeServiceRequest: ServiceRequest | null;
+  setActiveServiceRequest: (serviceRequest: ServiceRequest | null) => void;
+}
+
+export const createRequestsSlice: StoreSlice<RequestsSlice> = (set, get) => ({
+  serviceRequests: [],
+  activeServiceRequest: null,
+
+  setServiceRequests: (serviceRequests: ServiceRequest[]) => set({serviceRequests}),
+
+  addServiceRequest: (serviceRequest: ServiceRequest) => {
+    set({serviceRequests: [...get().serviceRequests, serviceRequest]});
+  },
+
+  updateServiceRequest: (id: string, updates: Partial<ServiceRequest>) => {
+    const isMatch = (sr: ServiceRequest) => sr.id === id || sr._id === id;
+    const activeServiceRequest = get().activeServiceRequest;
+    set({
+      serviceRequests: get().serviceRequests.map(sr => (isMatch(sr) ? {...sr, ...updates} : sr)),
+      activeServiceRequest:
+        activeServiceRequest && isMatch(activeServiceRequest)
+          ? {...activeServiceRequest, ...updates}
+          : activeServiceRequest,
+    });
+  },
+
+  setActiveServiceRequest: (serviceRequest: ServiceRequest | null) => {
+    set({activeServiceRequest: serviceRequest});
+  },
+});
+
+function reviveRecurrence(value: any): RecurrenceRule | undefined {
+  const startDate = reviveDate(value?.startDate);
+  if (!startDate) {
+    return undefined;
+  }
+  return {
+    ...value,
+    startDate,
+    endDate: reviveDate(value.endDate),
+    exceptions: Array.isArray(value.exceptions)
+      ? value.exceptions.map((exception: any) => ({
+          ...exception,
+          occurrenceDate: reviveDate(exception.occurrenceDate),
+          scheduledTime: reviveDate(exception.scheduledTime),
+        }))
+      : undefined,
+  };
+}
+
+/**
+ * Restore Date fields, dropping requests saved without an id
+ */
+function reviveServiceRequest(value: any): ServiceRequest | null {
+  if (!value || typeof value.id !== 'string') {
+    return null;
+  }
+  return {
+    ...value,
+    createdAt: reviveDate(value.createdAt) ?? new Date(0),
+    updatedAt: reviveDate(value.updatedAt) ?? new Date(0),
+    scheduledTime: reviveDate(value.scheduledTime),
+    occurrenceDate: reviveDate(value.occurrenceDate),
+    recurrence: reviveRecurrence(value.recurrence),
+  };
+}
+
+export const requestsPersistence: SlicePersistence<RequestsSlice> = {
+  keys: ['serviceRequests', 'activeServiceRequest'],
+  revive: ({serviceRequests, activeServiceRequest}) => ({
+    serviceRequests: Array.isArray(serviceRequests)
+      ? serviceRequests
+          .map(reviveServiceRequest)
+          .filter((request): request is ServiceRequest => request !== null)
+      : [],
+    activeServiceRequest: reviveServiceRequest(activeServiceRequest),
+  }),
+};
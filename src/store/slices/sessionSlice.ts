@@ -0,0 +1,54 @@
+/**
+ * Session Slice
+ * Signed-in user, where to go after logging in and global loading state
+ */
+
+import type {User} from '../../services/api/usersApi';
+import type {SlicePersistence} from '../persistence';
+import type {StoreSlice} from '../types';
+
+/**
+ * Screen to open after logging in
+ * userId is set when the redirect was saved from a signed-in session;
+ * it is dropped if a different account logs in
+ */
+export interface LoginRedirect {
+  route: string;
+  params?: any;
+  userId?: string;
+}
+
+export interface SessionSlice {
+  // User
+  currentUser: User | null;
+  setCurrentUser: (user: User | null) => void;
+
+  // Redirect after login
+  redirectAfterLogin: LoginRedirect | null;
+  setRedirectAfterLogin: (redirect: LoginRedirect | null) => void;
+
+  // Loading states
+  isLoading: boolean;
+  setIsLoading: (loading: boolean) => void;
+}
+
+export const createSessionSlice: StoreSlice<SessionSlice> = set => ({
+  currentUser: null,
+  redirectAfterLogin: null,
+  isLoading: false,
+
+  setCurrentUser: (user: User | null) => set({currentUser: user}),
+
+  setRedirectAfterLogin: (redirect: LoginRedirect | null) => {
+    set({redirectAfterLogin: redirect});
+  },
+
+  setIsLoading: (loading: boolean) => set({isLoading: loading}),
+});
+
+export const sessionPersistence: SlicePersistence<SessionSlice> = {
+  keys: ['currentUser'],
+  revive: ({currentUser}) => ({
+    currentUser: currentUser && typeof currentUser.id === 'string' ? currentUser : null,
+  }),
+};
@@ -0,0 +1,28 @@
+/**
+ * Store Types
+ * The app store is the combination of its slices
+ */
+
+import type {StateCreator} from 'zustand';
+import type {SessionSlice} from './slices/sessionSlice';
+import type {PreferencesSlice} from './slices/preferencesSlice';
+import type {RequestsSlice} from './slices/requestsSlice';
+import type {NotificationsSlice} from './slices/notificationsSlice';
+import type {LocationSlice} from './slices/locationSlice';
+import type {DraftsSlice} from './slices/draftsSlice';
+
+export interface AppState
+  extends SessionSlice,
+    PreferencesSlice,
+    RequestsSlice,
+    NotificationsSlice,
+    LocationSlice,
+    DraftsSlice {
+  // Hydration
+  hydrate: () => Promise<void>;
+}
+
+/**
+ * Creator for one slice, with access to the whole store through get()
+ */
+export type StoreSlice<T> = StateCreator<AppState, [['zustand/persist', unknown]], [], T>;
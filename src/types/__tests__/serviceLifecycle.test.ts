@@ -0,0 +1,100 @@
+import {describe, expect, it} from '@jest/globals';
+import {
+  canReschedule,
+  canTransitionStatus,
+  getAvailableActions,
+  getTransition,
+  getTransitionEffects,
+  isFinalStatus,
+} from '../serviceLifecycle';
+
+describe('canTransitionStatus', () => {
+  it('follows the normal path of a job', () => {
+    expect(canTransitionStatus('pending', 'accepted', 'provider')).toBe(true);
+    expect(canTransitionStatus('accepted', 'in-progress', 'provider')).toBe(true);
+    expect(canTransitionStatus('in-progress', 'completed', 'provider')).toBe(true);
+    expect(canTransitionStatus('in-progress', 'completed', 'customer')).toBe(true);
+  });
+
+  it('does not skip steps', () => {
+    expect(canTransitionStatus('pending', 'in-progress')).toBe(false);
+    expect(canTransitionStatus('pending', 'completed')).toBe(false);
+    expect(canTransitionStatus('accepted', 'completed')).toBe(false);
+  });
+
+  it('only lets the provider start the work', () => {
+    expect(canTransitionStatus('accepted', 'in-progress', 'customer')).toBe(false);
+  });
+
+  it('stops the customer cancelling once work has started', () => {
+    expect(canTransitionStatus('pending', 'cancelled', 'customer')).toBe(true);
+    expect(canTransitionStatus('accepted', 'cancelled', 'customer')).toBe(true);
+    expect(canTransitionStatus('in-progress', 'cancelled', 'customer')).toBe(false);
+    expect(canTransitionStatus('in-progress', 'cancelled', 'provider')).toBe(true);
+  });
+
+  it('checks whether anyone may make the change when no actor is given', () => {
+    expect(canTransitionStatus('in-progress', 'cancelled')).toBe(true);
+  });
+
+  it('never leaves a final status', () => {
+    expect(canTransitionStatus('completed', 'cancelled')).toBe(false);
+    expect(canTransitionStatus('cancelled', 'pending')).toBe(false);
+  });
+});
+
+describe('getAvailableActions', () => {
+  it('offers the customer their actions on a pending request', () => {
+    expect(getAvailableActions('pending', 'customer')).toEqual(['acceptQuote', 'cancel', 'reRequest']);
+  });
+
+  it('offers the provider accept on a pending request', () => {
+    expect(getAvailableActions('pending', 'provider')).toEqual(['accept']);
+  });
+
+  it('offers nothing on a completed service', () => {
+    expect(getAvailableActions('completed', 'customer')).toEqual([]);
+    expect(getAvailableActions('completed', 'provider')).toEqual([]);
+  });
+});
+
+describe('getTransition', () => {
+  it('finds the transition for an action from a status', () => {
+    expect(getTransition('start', 'accepted')?.to).toBe('in-progress');
+  });
+
+  it('returns null when the action is not possible', () => {
+    expect(getTransition('start', 'pending')).toBeNull();
+  });
+});
+
+describe('getTransitionEffects', () => {
+  it('creates a job card when a provider accepts', () => {
+    expect(getTransitionEffects('accept', 'pending')).toContain('createJobCard');
+  });
+
+  it('broadcasts again when a request is re-requested', () => {
+    expect(getTransitionEffects('reRequest', 'pending')).toEqual(['stopMatching', 'broadcastToProviders']);
+  });
+
+  it('has no effects when the action is not allowed', () => {
+    expect(getTransitionEffects('complete', 'pending')).toEqual([]);
+  });
+});
+
+describe('canReschedule', () => {
+  it('allows moving a service until work starts', () => {
+    expect(canReschedule('pending')).toBe(true);
+    expect(canReschedule('accepted')).toBe(true);
+    expect(canReschedule('in-progress')).toBe(false);
+  });
+});
+
+describe('isFinalStatus', () => {
+  it('treats completed and cancelled as final', () => {
+    expect(isFinalStatus('completed')).toBe(true);
+    expect(isFinalStatus('cancelled')).toBe(true);
+    expect(isFinalStatus('pending')).toBe(false);
+    expect(isFinalStatus('in-progress')).toBe(false);
+  });
+});
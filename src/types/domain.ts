@@ -0,0 +1,497 @@
+/**
+ * Domain Model
+ * Canonical shapes for the service booking domain shared by the API layer,
+ * the service layer and screens, plus helpers for linking, status
+ * normalisation and display formatting.
+ * Values of these types have already been parsed by the API layer
+ * (see services/api/schema.ts): dates are Date objects and `id` is always set.
+ */
+
+import type {ServiceRequestStatus} from './common';
+
+export type {ServiceRequestStatus};
+// Allowed status changes live in the lifecycle state machine
+export {canTransitionStatus, isFinalStatus} from './serviceLifecycle';
+
+export interface Address {
+  address: string;
+  city?: string;
+  state?: string;
+  pincode: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface ProviderAddress extends Address {
+  type: 'home' | 'office';
+}
+
+export interface MaterialUsed {
+  description: string;
+  quantity?: number;
+  unitPrice?: number;
+  total?: number;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'interval';
+
+/**
+ * Change to a single occurrence of a recurring booking
+ * `occurrenceDate` is the occurrence's original slot and identifies it
+ */
+export interface OccurrenceException {
+  occurrenceDate: Date;
+  action: 'skipped' | 'rescheduled' | 'cancelled';
+  scheduledTime?: Date; // new slot when rescheduled
+}
+
+/**
+ * Repeat rule of a recurring booking
+ * Ends at endDate or after occurrenceCount visits, whichever comes first;
+ * with neither the series repeats until cancelled
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  startDate: Date; // first visit, including the time of day
+  weekdays?: number[]; // 'weekly' only: 0 = Sunday ... 6 = Saturday
+  intervalDays?: number; // 'interval' only: days between visits
+  endDate?: Date;
+  occurrenceCount?: number;
+  exceptions?: OccurrenceException[];
+}
+
+/**
+ * Charge added when a questionnaire answer matches
+ * number questions: `amount` per unit of the answer;
+ * boolean questions: `amount` when answered yes;
+ * select and multiselect questions: `amount` when `option` is chosen
+ */
+export interface AnswerCharge {
+  questionId: string;
+  option?: string; // English option text
+  amount: number;
+}
+
+/**
+ * Prices of a service category, used for the upfront estimate (in rupees)
+ */
+export interface RateCard {
+  baseVisitCharge: number;
+  answerCharges?: AnswerCharge[];
+  immediateSurcharge?: number;
+  // Applied when the visit starts between startHour and endHour (local time, may wrap midnight)
+  nightSurcharge?: {amount: number; startHour: number; endHour: number};
+  // Spread of the estimated range around the computed price, e.g. 0.15 for ±15%
+  variance?: number;
+}
+
+export interface PriceEstimateLine {
+  type: 'base' | 'answer' | 'immediate' | 'night';
+  questionId?: string; // 'answer' lines only
+  amount: number;
+}
+
+/**
+ * Estimated price range shown before booking
+ * Stored on the request so it can be compared with the final bill
+ */
+export interface PriceEstimate {
+  min: number;
+  max: number;
+  lines: PriceEstimateLine[];
+  estimatedAt: Date;
+}
+
+export type ContactRelationship =
+  | 'parent'
+  | 'spouse'
+  | 'child'
+  | 'sibling'
+  | 'relative'
+  | 'friend'
+  | 'other';
+
+/**
+ * Person a service is booked for when the customer books on their behalf
+ * Providers call this contact and hand the PIN over to them; the booker
+ * (customerId) still receives every status notification
+ */
+export interface OnBehalfContact {
+  name: string;
+  phone: string;
+  relationship: ContactRelationship;
+}
+
+/**
+ * Read-only status page for a request, shared with the on-behalf contact
+ */
+export interface StatusLink {
+  url: string;
+  expiresAt: Date;
+}
+
+// 'quotes': invited providers send offers and the customer picks one
+export type BookingMode = 'instant' | 'quotes';
+
+export type QuoteStatus = 'submitted' | 'accepted' | 'rejected' | 'withdrawn';
+
+/**
+ * A provider's offer for a request booked in quotes mode
+ */
+export interface Quote {
+  id: string;
+  serviceRequestId: string;
+  providerId: string;
+  providerName: string;
+  providerRating?: number;
+  price: number;
+  // When the provider can be there
+  eta: Date;
+  note?: string;
+  status: QuoteStatus;
+  createdAt: Date;
+}
+
+export type ScheduleChangeActor = 'customer' | 'provider';
+
+/**
+ * One move of a scheduled request to a new time, kept as its history
+ */
+export interface ScheduleChange {
+  previousTime: Date;
+  scheduledTime: Date;
+  changedBy: ScheduleChangeActor;
+  changedAt: Date;
+  reason?: string;
+}
+
+/**
+ * A new time one side asked for, waiting for the other side to accept it
+ */
+export interface RescheduleProposal {
+  id: string;
+  scheduledTime: Date;
+  proposedBy: ScheduleChangeActor;
+  proposedAt: Date;
+  reason?: string;
+}
+
+export type ServiceEventType =
+  | 'requested'
+  | 'offered'
+  | 'accepted'
+  | 'en-route'
+  | 'arrived'
+  // The provider entered the customer's PIN and began work
+  | 'started'
+  | 'materials-added'
+  | 'completed'
+  // The customer confirmed the work was done
+  | 'verified'
+  | 'reviewed';
+
+export type ServiceEventActor = 'customer' | 'provider' | 'system';
+
+/**
+ * One step in a job's progress, as recorded by whoever took it
+ */
+export interface ServiceEvent {
+  type: ServiceEventType;
+  actor: ServiceEventActor;
+  at: Date;
+  note?: string;
+}
+
+/**
+ * A customer's request for a service, before and after a provider accepts it
+ * Provider details are copied onto the request when it is accepted
+ */
+export interface ServiceRequest {
+  // Same value as id - kept for callers written against raw documents
+  _id?: string;
+  id: string;
+  customerId: string;
+  customerName: string;
+  customerPhone: string;
+  customerAddress: Address;
+  serviceType: string;
+  problem?: string;
+  status: ServiceRequestStatus;
+  urgency?: 'immediate' | 'scheduled';
+  scheduledTime?: Date;
+  providerId?: string;
+  providerName?: string;
+  providerPhone?: string;
+  providerEmail?: string;
+  providerSpecialization?: string;
+  providerRating?: number;
+  providerImage?: string;
+  providerAddress?: any;
+  consultationId?: string;
+  questionnaireAnswers?: any;
+  photos?: string[];
+  cancellationReason?: string;
+  priceEstimate?: PriceEstimate;
+  onBehalfOf?: OnBehalfContact;
+  // Booked with one chosen provider - only they are notified until
+  // targetExpiresAt; cleared once the request is broadcast to everyone
+  targetProviderId?: string;
+  targetProviderName?: string;
+  targetExpiresAt?: Date;
+  bookingMode?: BookingMode;
+  // Providers invited to quote; set in quotes mode only
+  quoteProviderIds?: string[];
+  acceptedQuoteId?: string;
+  // Every earlier scheduledTime, oldest first
+  scheduleHistory?: ScheduleChange[];
+  pendingReschedule?: RescheduleProposal;
+  // When the provider was first detected at the service address
+  arrivedAt?: Date;
+  // Set on the request that defines a recurring series
+  recurrence?: RecurrenceRule;
+  // Set on the requests booked for each occurrence of a series
+  seriesId?: string;
+  occurrenceDate?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * The provider's work order for an accepted request
+ * Linked to its request through consultationId (or bookingId on older cards)
+ */
+export interface JobCard {
+  // Same value as id - kept for callers written against raw documents
+  _id?: string;
+  id: string;
+  providerId: string;
+  providerName: string;
+  providerPhone?: string;
+  providerAddress: ProviderAddress;
+  customerId: string;
+  customerName: string;
+  customerPhone: string;
+  customerAddress: Address;
+  serviceType: string;
+  problem?: string;
+  consultationId?: string;
+  bookingId?: string;
+  status: ServiceRequestStatus;
+  taskPIN?: string;
+  // Issued when the provider accepts; they enter it to start work
+  pinGeneratedAt?: Date;
+  // When the PIN was verified and work began
+  startedAt?: Date;
+  completedAt?: Date;
+  scheduledTime?: Date;
+  cancellationReason?: string;
+  jobCardPdfUrl?: string;
+  serviceAmount?: number;
+  materialsUsed?: MaterialUsed[];
+  // Copied from the request so the bill can be compared with it
+  priceEstimate?: PriceEstimate;
+  // Copied from the request - the person the provider deals with on site
+  onBehalfOf?: OnBehalfContact;
+  // Copied from the request when it belongs to a recurring series
+  seriesId?: string;
+  occurrenceDate?: Date;
+  // Progress log, oldest first - starts with the request's own events,
+  // copied over when the card is created
+  events?: ServiceEvent[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ProviderLocationFields {
+  latitude?: number;
+  longitude?: number;
+  address?: string;
+  city?: string;
+  state?: string;
+  pincode?: string;
+}
+
+export interface Provider {
+  // Same value as id - kept for callers written against raw documents
+  _id?: string;
+  id: string;
+  name?: string;
+  displayName?: string;
+  email?: string;
+  phoneNumber?: string;
+  // Older profiles store the number here instead of phoneNumber
+  phone?: string;
+  specialization?: string;
+  // Older profiles store the specialization here
+  specialty?: string;
+  serviceCategories?: string[];
+  experience?: number;
+  serviceFee?: number;
+  approvalStatus?: 'pending' | 'approved' | 'rejected';
+  verified?: boolean;
+  rating?: number;
+  totalReviews?: number;
+  totalConsultations?: number;
+  profileImage?: string;
+  address?: string | Partial<Address>;
+  isOnline?: boolean;
+  location?: ProviderLocationFields;
+  currentLocation?: ProviderLocationFields & {
+    updatedAt?: number; // epoch milliseconds
+  };
+  photos?: string[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface Review {
+  // Same value as id - kept for callers written against raw documents
+  _id?: string;
+  id: string;
+  jobCardId: string;
+  serviceRequestId?: string; // consultationId for backward compatibility
+  customerId: string;
+  customerName: string;
+  providerId: string;
+  providerName: string;
+  serviceType: string;
+  rating: number; // 1-5 stars
+  comment?: string;
+  photos?: string[];
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Bookable time window for a service category in a pincode
+ * Computed by the backend from provider working hours and the
+ * scheduled job cards they are already committed to
+ */
+export interface AvailabilitySlot {
+  id: string;
+  start: Date;
+  end: Date;
+  availableProviders: number; // 0 when every provider is busy
+}
+
+/**
+ * Temporary reservation of a slot while the booking form is submitted
+ */
+export interface SlotHold {
+  id: string;
+  slotId: string;
+  start: Date;
+  end: Date;
+  expiresAt: Date;
+}
+
+// -----------------------------
+// Linking
+// -----------------------------
+
+/**
+ * Check whether a job card was created for the given service request
+ * Some older job cards reuse the request id as their own id
+ */
+export const isJobCardForRequest = (
+  jobCard: Pick<JobCard, 'id' | 'consultationId' | 'bookingId'>,
+  request: string | Pick<ServiceRequest, 'id' | 'consultationId'>,
+): boolean => {
+  const requestIds =
+    typeof request === 'string'
+      ? [request]
+      : [request.id, request.consultationId].filter((id): id is string => !!id);
+  return requestIds.some(
+    requestId =>
+      jobCard.consultationId === requestId ||
+      jobCard.bookingId === requestId ||
+      jobCard.id === requestId,
+  );
+};
+
+/**
+ * Find the job card created for a service request
+ */
+export const findJobCardForRequest = <T extends Pick<JobCard, 'id' | 'consultationId' | 'bookingId'>>(
+  jobCards: T[],
+  request: string | Pick<ServiceRequest, 'id' | 'consultationId'>,
+): T | null => jobCards.find(jobCard => isJobCardForRequest(jobCard, request)) || null;
+
+/**
+ * Build a provider profile from the details copied onto an accepted request
+ * Returns null when the request has no provider or no copied details
+ */
+export const getProviderFromRequest = (request: ServiceRequest): Provider | null => {
+  if (!request.providerId || !(request.providerName || request.providerPhone)) {
+    return null;
+  }
+  return {
+    id: request.providerId,
+    name: request.providerName,
+    phoneNumber: request.providerPhone,
+    phone: request.providerPhone,
+    email: request.providerEmail,
+    specialization: request.providerSpecialization,
+    specialty: request.providerSpecialization,
+    rating: request.providerRating || 0,
+    profileImage: request.providerImage,
+    address: request.providerAddress,
+  };
+};
+
+// -----------------------------
+// Status
+// -----------------------------
+
+/**
+ * Map legacy and free-form status strings onto the domain statuses
+ * Unknown values are treated as pending
+ */
+export const normalizeServiceStatus = (status?: string | null): ServiceRequestStatus => {
+  const lowerStatus = status?.toLowerCase().trim() || '';
+
+  if (['completed', 'done', 'finished'].includes(lowerStatus)) {
+    return 'completed';
+  }
+  if (['in-progress', 'in progress', 'inprogress', 'active', 'ongoing', 'started'].includes(lowerStatus)) {
+    return 'in-progress';
+  }
+  if (['accepted', 'confirmed', 'assigned', 'provider-accepted'].includes(lowerStatus)) {
+    return 'accepted';
+  }
+  if (['cancelled', 'canceled'].includes(lowerStatus)) {
+    return 'cancelled';
+  }
+  return 'pending';
+};
+
+// -----------------------------
+// Display formatting
+// -----------------------------
+
+/**
+ * Single-line address, e.g. "12 MG Road, Bengaluru, Karnataka - 560001"
+ * Accepts the plain strings some older documents store
+ */
+export const formatAddress = (address?: string | Partial<Address> | null): string => {
+  if (!address) {
+    return '';
+  }
+  if (typeof address === 'string') {
+    return address;
+  }
+  const line = [address.address, address.city, address.state].filter(Boolean).join(', ');
+  if (!address.pincode) {
+    return line;
+  }
+  return line ? `${line} - ${address.pincode}` : address.pincode;
+};
+
+export const getProviderDisplayName = (
+  provider?: Pick<Provider, 'name' | 'displayName'> | null,
+  fallback: string = 'Provider',
+): string => provider?.name || provider?.displayName || fallback;
+
+export const getProviderPhone = (
+  provider?: Pick<Provider, 'phoneNumber' | 'phone'> | null,
+): string | undefined => provider?.phoneNumber || provider?.phone || undefined;
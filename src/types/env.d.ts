@@ -11,4 +11,10 @@ declare module '@env' {
   // Payment Server URLs
   export const PAYMENT_API_URL_DEV: string;
   export const PAYMENT_API_URL_PROD: string;
+
+  // Google Maps key for Android (also read by the Android build)
+  export const GOOGLE_MAPS_API_KEY: string | undefined;
+
+  // Firebase emulators (development builds only), e.g. 10.0.2.2:9199
+  export const FIREBASE_STORAGE_EMULATOR_HOST: string | undefined;
 }
@@ -0,0 +1,170 @@
+/**
+ * Service Lifecycle
+ * State machine for service requests and their job cards: which status
+ * changes are allowed, who may trigger each one and what follows from it.
+ * Screens derive their available actions from it and the API layer checks
+ * it before sending a status change.
+ */
+
+import type {ServiceRequestStatus} from './common';
+
+export type LifecycleActor = 'customer' | 'provider' | 'system';
+
+export type LifecycleAction =
+  | 'accept'
+  | 'acceptQuote'
+  | 'start'
+  | 'complete'
+  | 'cancel'
+  | 'reRequest'
+  | 'expire';
+
+/**
+ * Follow-up work triggered by a transition
+ * The app runs the effects it is responsible for; the backend runs the rest
+ */
+export type LifecycleEffect =
+  | 'createJobCard'
+  | 'notifyCustomer'
+  | 'notifyOtherParty'
+  | 'broadcastToProviders'
+  | 'stopMatching'
+  | 'startLocationTracking'
+  | 'stopLocationTracking'
+  | 'requestReview';
+
+export interface LifecycleTransition {
+  action: LifecycleAction;
+  from: ServiceRequestStatus;
+  to: ServiceRequestStatus;
+  actors: readonly LifecycleActor[];
+  effects: readonly LifecycleEffect[];
+}
+
+export const SERVICE_LIFECYCLE: readonly LifecycleTransition[] = [
+  {
+    action: 'accept',
+    from: 'pending',
+    to: 'accepted',
+    actors: ['provider'],
+    effects: ['createJobCard', 'notifyCustomer', 'startLocationTracking', 'stopMatching'],
+  },
+  {
+    // Quotes mode - the customer picks one of the providers' offers
+    action: 'acceptQuote',
+    from: 'pending',
+    to: 'accepted',
+    actors: ['customer'],
+    effects: ['createJobCard', 'notifyOtherParty', 'startLocationTracking', 'stopMatching'],
+  },
+  {
+    action: 'start',
+    from: 'accepted',
+    to: 'in-progress',
+    actors: ['provider'],
+    effects: ['notifyCustomer', 'stopLocationTracking'],
+  },
+  {
+    // The provider finishes the job and the customer confirms it
+    action: 'complete',
+    from: 'in-progress',
+    to: 'completed',
+    actors: ['provider', 'customer'],
+    effects: ['notifyOtherParty', 'requestReview'],
+  },
+  {
+    action: 'cancel',
+    from: 'pending',
+    to: 'cancelled',
+    actors: ['customer'],
+    effects: ['stopMatching'],
+  },
+  {
+    // Replaces a request nobody picked up with a fresh broadcast
+    action: 'reRequest',
+    from: 'pending',
+    to: 'cancelled',
+    actors: ['customer'],
+    effects: ['stopMatching', 'broadcastToProviders'],
+  },
+  {
+    // No provider accepted in time
+    action: 'expire',
+    from: 'pending',
+    to: 'cancelled',
+    actors: ['system'],
+    effects: ['notifyCustomer', 'stopMatching'],
+  },
+  {
+    action: 'cancel',
+    from: 'accepted',
+    to: 'cancelled',
+    actors: ['customer', 'provider'],
+    effects: ['notifyOtherParty', 'stopLocationTracking'],
+  },
+  {
+    // Once work has started only the provider can call it off
+    action: 'cancel',
+    from: 'in-progress',
+    to: 'cancelled',
+    actors: ['provider', 'system'],
+    effects: ['notifyOtherParty'],
+  },
+];
+
+/**
+ * Find the transition for an action from the given status
+ * Returns null when the action is not possible from that status
+ */
+export const getTransition = (
+  action: LifecycleAction,
+  from: ServiceRequestStatus,
+): LifecycleTransition | null =>
+  SERVICE_LIFECYCLE.find(transition => transition.action === action && transition.from === from) || null;
+
+/**
+ * Check whether `actor` may move a service from one status to another
+ * Without an actor, checks whether anyone may
+ */
+export const canTransitionStatus = (
+  from: ServiceRequestStatus,
+  to: ServiceRequestStatus,
+  actor?: LifecycleActor,
+): boolean =>
+  SERVICE_LIFECYCLE.some(
+    transition =>
+      transition.from === from &&
+      transition.to === to &&
+      (!actor || transition.actors.includes(actor)),
+  );
+
+/**
+ * Actions `actor` can take on a service in the given status
+ */
+export const getAvailableActions = (
+  status: ServiceRequestStatus,
+  actor: LifecycleActor,
+): LifecycleAction[] =>
+  SERVICE_LIFECYCLE.filter(
+    transition => transition.from === status && transition.actors.includes(actor),
+  ).map(transition => transition.action);
+
+/**
+ * Effects of taking `action` from the given status (empty when not allowed)
+ */
+export const getTransitionEffects = (
+  action: LifecycleAction,
+  from: ServiceRequestStatus,
+): readonly LifecycleEffect[] => getTransition(action, from)?.effects || [];
+
+/**
+ * A scheduled service can be moved to another time until work starts
+ */
+export const canReschedule = (status: ServiceRequestStatus): boolean =>
+  status === 'pending' || status === 'accepted';
+
+/**
+ * Completed and cancelled services never change again
+ */
+export const isFinalStatus = (status: ServiceRequestStatus): boolean =>
+  !SERVICE_LIFECYCLE.some(transition => transition.from === status);
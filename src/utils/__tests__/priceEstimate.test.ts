@@ -0,0 +1,152 @@
+import {describe, expect, it, jest} from '@jest/globals';
+import {compareWithEstimate, estimatePrice, getBillTotal} from '../priceEstimate';
+import type {RateCard} from '../../types/domain';
+import type {QuestionnaireQuestion} from '../../services/serviceCategoriesService';
+
+jest.mock('../../i18n', () => ({
+  __esModule: true,
+  default: {t: (key: string) => key, language: 'en'},
+}));
+
+const questionnaire: QuestionnaireQuestion[] = [
+  {id: 'taps', question: 'How many taps?', type: 'number', required: false},
+  {id: 'urgentPart', question: 'Need a spare part?', type: 'boolean', required: false},
+  {id: 'room', question: 'Which room?', type: 'select', required: false},
+  {
+    id: 'extras',
+    question: 'Anything else?',
+    type: 'multiselect',
+    required: false,
+    showIf: {questionId: 'urgentPart', equals: true},
+  },
+];
+
+const rateCard: RateCard = {
+  baseVisitCharge: 200,
+  answerCharges: [
+    {questionId: 'taps', amount: 50},
+    {questionId: 'urgentPart', amount: 100},
+    {questionId: 'room', option: 'Kitchen', amount: 80},
+    {questionId: 'extras', option: 'Cleaning', amount: 40},
+    {questionId: 'extras', option: 'Sealing', amount: 60},
+  ],
+  immediateSurcharge: 100,
+  nightSurcharge: {amount: 150, startHour: 22, endHour: 6},
+  variance: 0,
+};
+
+// Midday, so no night surcharge unless a test asks for one
+const noon = new Date(2024, 0, 1, 12, 0);
+
+describe('estimatePrice', () => {
+  it('returns null without a rate card', () => {
+    expect(estimatePrice(undefined, questionnaire, {answers: {}, urgency: 'scheduled'}, noon)).toBeNull();
+  });
+
+  it('charges the base visit and priced answers', () => {
+    const estimate = estimatePrice(
+      rateCard,
+      questionnaire,
+      {answers: {taps: '3', room: 'Kitchen'}, urgency: 'scheduled', scheduledTime: noon},
+      noon,
+    );
+
+    expect(estimate?.lines).toEqual([
+      {type: 'base', amount: 200},
+      {type: 'answer', questionId: 'taps', amount: 150},
+      {type: 'answer', questionId: 'room', amount: 80},
+    ]);
+    expect(estimate?.min).toBe(430);
+    expect(estimate?.max).toBe(430);
+  });
+
+  it('adds every chosen multiselect option', () => {
+    const estimate = estimatePrice(
+      rateCard,
+      questionnaire,
+      {answers: {urgentPart: true, extras: ['Cleaning', 'Sealing']}, urgency: 'scheduled', scheduledTime: noon},
+      noon,
+    );
+
+    expect(estimate?.lines).toContainEqual({type: 'answer', questionId: 'extras', amount: 100});
+  });
+
+  it('does not charge answers to hidden questions', () => {
+    const estimate = estimatePrice(
+      rateCard,
+      questionnaire,
+      {answers: {urgentPart: false, extras: ['Cleaning']}, urgency: 'scheduled', scheduledTime: noon},
+      noon,
+    );
+
+    expect(estimate?.lines).toEqual([{type: 'base', amount: 200}]);
+  });
+
+  it('adds the immediate surcharge for immediate bookings', () => {
+    const estimate = estimatePrice(rateCard, questionnaire, {answers: {}, urgency: 'immediate'}, noon);
+
+    expect(estimate?.lines).toContainEqual({type: 'immediate', amount: 100});
+  });
+
+  it('adds the night surcharge on both sides of midnight', () => {
+    const estimateAt = (scheduledTime: Date) =>
+      estimatePrice(rateCard, questionnaire, {answers: {}, urgency: 'scheduled', scheduledTime}, noon);
+
+    expect(estimateAt(new Date(2024, 0, 1, 23, 0))?.lines).toContainEqual({type: 'night', amount: 150});
+    expect(estimateAt(new Date(2024, 0, 2, 5, 30))?.lines).toContainEqual({type: 'night', amount: 150});
+    expect(estimateAt(new Date(2024, 0, 2, 6, 0))?.lines).not.toContainEqual({type: 'night', amount: 150});
+  });
+
+  it('uses the current time for immediate bookings at night', () => {
+    const estimate = estimatePrice(
+      rateCard,
+      questionnaire,
+      {answers: {}, urgency: 'immediate', scheduledTime: noon},
+      new Date(2024, 0, 1, 23, 0),
+    );
+
+    expect(estimate?.lines).toContainEqual({type: 'night', amount: 150});
+  });
+
+  it('widens the range by the default variance and rounds to tens', () => {
+    const estimate = estimatePrice(
+      {baseVisitCharge: 333},
+      [],
+      {answers: {}, urgency: 'scheduled', scheduledTime: noon},
+      noon,
+    );
+
+    // 333 ± 15% = 283.05 to 382.95
+    expect(estimate?.min).toBe(280);
+    expect(estimate?.max).toBe(390);
+  });
+});
+
+describe('getBillTotal', () => {
+  it('prefers the recorded total', () => {
+    expect(getBillTotal({totalAmount: 900, serviceAmount: 500})).toBe(900);
+  });
+
+  it('adds the materials to the service fee', () => {
+    expect(
+      getBillTotal({
+        serviceAmount: 500,
+        materialsUsed: [
+          {description: 'Washer', quantity: 2, unitPrice: 20, total: 40},
+          {description: 'Tape', quantity: 1, unitPrice: 60, total: 60},
+        ],
+      }),
+    ).toBe(600);
+  });
+});
+
+describe('compareWithEstimate', () => {
+  const estimate = {min: 400, max: 500, lines: [], estimatedAt: noon};
+
+  it('places the bill relative to the range', () => {
+    expect(compareWithEstimate(estimate, 350)).toBe('below');
+    expect(compareWithEstimate(estimate, 400)).toBe('within');
+    expect(compareWithEstimate(estimate, 500)).toBe('within');
+    expect(compareWithEstimate(estimate, 550)).toBe('above');
+  });
+});
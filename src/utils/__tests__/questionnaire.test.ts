@@ -0,0 +1,106 @@
+import {describe, expect, it, jest} from '@jest/globals';
+import {getSubmittableAnswers, getVisibleQuestions, hasAnswer, isQuestionVisible} from '../questionnaire';
+import type {QuestionnaireQuestion} from '../../services/serviceCategoriesService';
+
+jest.mock('../../i18n', () => ({
+  __esModule: true,
+  default: {t: (key: string) => key, language: 'en'},
+}));
+
+const question = (id: string, fields: Partial<QuestionnaireQuestion> = {}): QuestionnaireQuestion => ({
+  id,
+  question: id,
+  type: 'text',
+  required: false,
+  ...fields,
+});
+
+const questions: QuestionnaireQuestion[] = [
+  question('leak', {type: 'boolean'}),
+  question('leakLocation', {type: 'select', showIf: {questionId: 'leak', equals: true}}),
+  question('pipeSize', {showIf: {questionId: 'leakLocation', oneOf: ['Kitchen', 'Bathroom']}}),
+  question('taps', {type: 'number'}),
+  question('extraTaps', {showIf: {questionId: 'taps', equals: 3}}),
+];
+
+const visibleIds = (answers: Record<string, any>) =>
+  getVisibleQuestions(questions, answers).map(q => q.id);
+
+describe('hasAnswer', () => {
+  it('treats empty values as unanswered', () => {
+    expect(hasAnswer(undefined)).toBe(false);
+    expect(hasAnswer('')).toBe(false);
+    expect(hasAnswer([])).toBe(false);
+    expect(hasAnswer({value: undefined})).toBe(false);
+  });
+
+  it('counts false and zero as answers', () => {
+    expect(hasAnswer(false)).toBe(true);
+    expect(hasAnswer(0)).toBe(true);
+    expect(hasAnswer({value: false})).toBe(true);
+  });
+});
+
+describe('getVisibleQuestions', () => {
+  it('hides conditional questions until their condition matches', () => {
+    expect(visibleIds({})).toEqual(['leak', 'taps']);
+    expect(visibleIds({leak: false})).toEqual(['leak', 'taps']);
+    expect(visibleIds({leak: true})).toEqual(['leak', 'leakLocation', 'taps']);
+  });
+
+  it('matches oneOf conditions', () => {
+    expect(visibleIds({leak: true, leakLocation: 'Kitchen'})).toContain('pipeSize');
+    expect(visibleIds({leak: true, leakLocation: 'Garden'})).not.toContain('pipeSize');
+  });
+
+  it('hides a question when the question it depends on is hidden', () => {
+    expect(visibleIds({leak: false, leakLocation: 'Kitchen'})).not.toContain('pipeSize');
+  });
+
+  it('compares number answers typed in as text', () => {
+    expect(visibleIds({taps: '3'})).toContain('extraTaps');
+    expect(visibleIds({taps: '4'})).not.toContain('extraTaps');
+  });
+
+  it('uses the value of yes/no answers with details', () => {
+    const withDetails = [
+      question('damage', {type: 'yesNoDetails'}),
+      question('photos', {type: 'photo', showIf: {questionId: 'damage', equals: true}}),
+    ];
+
+    expect(
+      getVisibleQuestions(withDetails, {damage: {value: true, details: 'Cracked tile'}}).map(q => q.id),
+    ).toEqual(['damage', 'photos']);
+  });
+
+  it('matches oneOf conditions within multiselect answers', () => {
+    const multiselect = [
+      question('rooms', {type: 'multiselect'}),
+      question('balcony', {showIf: {questionId: 'rooms', oneOf: ['Balcony']}}),
+    ];
+
+    expect(getVisibleQuestions(multiselect, {rooms: ['Kitchen', 'Balcony']}).map(q => q.id)).toEqual([
+      'rooms',
+      'balcony',
+    ]);
+  });
+});
+
+describe('isQuestionVisible', () => {
+  it('hides questions that depend on each other', () => {
+    const cyclic = [
+      question('a', {showIf: {questionId: 'b', equals: 'yes'}}),
+      question('b', {showIf: {questionId: 'a', equals: 'yes'}}),
+    ];
+
+    expect(isQuestionVisible(cyclic[0], cyclic, {a: 'yes', b: 'yes'})).toBe(false);
+  });
+});
+
+describe('getSubmittableAnswers', () => {
+  it('drops answers to hidden questions and empty answers', () => {
+    expect(getSubmittableAnswers(questions, {leak: false, leakLocation: 'Kitchen', taps: ''})).toEqual({
+      leak: false,
+    });
+  });
+});
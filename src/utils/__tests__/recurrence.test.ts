@@ -0,0 +1,167 @@
+import {describe, expect, it, jest} from '@jest/globals';
+import {generateOccurrences, getNextOccurrence, validateRecurrenceRule} from '../recurrence';
+import type {RecurrenceRule} from '../../types/domain';
+
+jest.mock('../../i18n', () => ({
+  __esModule: true,
+  default: {t: (key: string) => key, language: 'en'},
+}));
+
+// Monday 1 January 2024, 10:00 local time
+const start = new Date(2024, 0, 1, 10, 0);
+
+const visitDates = (rule: RecurrenceRule, options?: {from?: Date; limit?: number}) =>
+  generateOccurrences(rule, options).map(occurrence => occurrence.scheduledTime.toDateString());
+
+describe('generateOccurrences', () => {
+  it('expands a daily rule from the start date', () => {
+    const occurrences = generateOccurrences({frequency: 'daily', startDate: start}, {limit: 3});
+
+    expect(occurrences.map(occurrence => occurrence.scheduledTime)).toEqual([
+      new Date(2024, 0, 1, 10, 0),
+      new Date(2024, 0, 2, 10, 0),
+      new Date(2024, 0, 3, 10, 0),
+    ]);
+    expect(occurrences.map(occurrence => occurrence.index)).toEqual([0, 1, 2]);
+    expect(occurrences.every(occurrence => occurrence.status === 'scheduled')).toBe(true);
+  });
+
+  it('visits only the chosen weekdays of a weekly rule', () => {
+    const rule: RecurrenceRule = {frequency: 'weekly', startDate: start, weekdays: [1, 4]};
+
+    expect(visitDates(rule, {limit: 4})).toEqual([
+      new Date(2024, 0, 1).toDateString(),
+      new Date(2024, 0, 4).toDateString(),
+      new Date(2024, 0, 8).toDateString(),
+      new Date(2024, 0, 11).toDateString(),
+    ]);
+  });
+
+  it('repeats a weekly rule without weekdays on the start date weekday', () => {
+    const rule: RecurrenceRule = {frequency: 'weekly', startDate: start};
+
+    expect(visitDates(rule, {limit: 2})).toEqual([
+      new Date(2024, 0, 1).toDateString(),
+      new Date(2024, 0, 8).toDateString(),
+    ]);
+  });
+
+  it('spaces interval visits by the interval', () => {
+    const rule: RecurrenceRule = {frequency: 'interval', startDate: start, intervalDays: 10};
+
+    expect(visitDates(rule, {limit: 3})).toEqual([
+      new Date(2024, 0, 1).toDateString(),
+      new Date(2024, 0, 11).toDateString(),
+      new Date(2024, 0, 21).toDateString(),
+    ]);
+  });
+
+  it('clamps monthly visits to the last day of shorter months', () => {
+    const rule: RecurrenceRule = {frequency: 'monthly', startDate: new Date(2024, 0, 31, 10, 0)};
+
+    expect(visitDates(rule, {limit: 3})).toEqual([
+      new Date(2024, 0, 31).toDateString(),
+      new Date(2024, 1, 29).toDateString(),
+      new Date(2024, 2, 31).toDateString(),
+    ]);
+  });
+
+  it('includes visits later on the end date', () => {
+    const rule: RecurrenceRule = {
+      frequency: 'daily',
+      startDate: start,
+      endDate: new Date(2024, 0, 3, 0, 0),
+    };
+
+    expect(visitDates(rule, {limit: 10})).toEqual([
+      new Date(2024, 0, 1).toDateString(),
+      new Date(2024, 0, 2).toDateString(),
+      new Date(2024, 0, 3).toDateString(),
+    ]);
+  });
+
+  it('stops after the occurrence count', () => {
+    const rule: RecurrenceRule = {frequency: 'daily', startDate: start, occurrenceCount: 4};
+
+    expect(generateOccurrences(rule, {limit: 10})).toHaveLength(4);
+  });
+
+  it('counts earlier visits towards the occurrence count when starting later', () => {
+    const rule: RecurrenceRule = {frequency: 'daily', startDate: start, occurrenceCount: 4};
+    const occurrences = generateOccurrences(rule, {from: new Date(2024, 0, 3), limit: 10});
+
+    expect(occurrences.map(occurrence => occurrence.index)).toEqual([2, 3]);
+  });
+
+  it('applies skipped and rescheduled exceptions', () => {
+    const movedTo = new Date(2024, 0, 2, 16, 0);
+    const rule: RecurrenceRule = {
+      frequency: 'daily',
+      startDate: start,
+      exceptions: [
+        {occurrenceDate: new Date(2024, 0, 1, 10, 0), action: 'skipped'},
+        {occurrenceDate: new Date(2024, 0, 2, 10, 0), action: 'rescheduled', scheduledTime: movedTo},
+      ],
+    };
+    const [skipped, rescheduled, regular] = generateOccurrences(rule, {limit: 3});
+
+    expect(skipped.status).toBe('skipped');
+    expect(rescheduled.status).toBe('rescheduled');
+    expect(rescheduled.occurrenceDate).toEqual(new Date(2024, 0, 2, 10, 0));
+    expect(rescheduled.scheduledTime).toEqual(movedTo);
+    expect(regular.status).toBe('scheduled');
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('passes over skipped and cancelled visits', () => {
+    const rule: RecurrenceRule = {
+      frequency: 'daily',
+      startDate: start,
+      exceptions: [
+        {occurrenceDate: new Date(2024, 0, 2, 10, 0), action: 'skipped'},
+        {occurrenceDate: new Date(2024, 0, 3, 10, 0), action: 'cancelled'},
+      ],
+    };
+
+    expect(getNextOccurrence(rule, new Date(2024, 0, 1, 12, 0))?.scheduledTime).toEqual(
+      new Date(2024, 0, 4, 10, 0),
+    );
+  });
+
+  it('returns null once the series is over', () => {
+    const rule: RecurrenceRule = {frequency: 'daily', startDate: start, occurrenceCount: 2};
+
+    expect(getNextOccurrence(rule, new Date(2024, 1, 1))).toBeNull();
+  });
+});
+
+describe('validateRecurrenceRule', () => {
+  it('accepts a complete rule', () => {
+    expect(validateRecurrenceRule({frequency: 'weekly', startDate: start, weekdays: [1]})).toBeNull();
+  });
+
+  it('requires weekdays on weekly rules', () => {
+    expect(validateRecurrenceRule({frequency: 'weekly', startDate: start, weekdays: []})).toBe(
+      'recurrence.noWeekdays',
+    );
+  });
+
+  it('requires an interval of at least two days', () => {
+    expect(validateRecurrenceRule({frequency: 'interval', startDate: start, intervalDays: 1})).toBe(
+      'recurrence.invalidInterval',
+    );
+  });
+
+  it('rejects an end date before the start date', () => {
+    expect(
+      validateRecurrenceRule({frequency: 'daily', startDate: start, endDate: new Date(2023, 11, 31)}),
+    ).toBe('recurrence.endBeforeStart');
+  });
+
+  it('requires at least two visits', () => {
+    expect(validateRecurrenceRule({frequency: 'daily', startDate: start, occurrenceCount: 1})).toBe(
+      'recurrence.invalidCount',
+    );
+  });
+});
@@ -0,0 +1,108 @@
+import {describe, expect, it} from '@jest/globals';
+import {buildServiceTimeline} from '../serviceTimeline';
+import type {JobCard, ServiceRequest} from '../../types/domain';
+
+const address = {address: '12 MG Road', city: 'Bengaluru', pincode: '560001'};
+const at = (minute: number) => new Date(Date.UTC(2026, 2, 2, 10, minute));
+
+const request = (overrides: Partial<ServiceRequest> = {}): ServiceRequest => ({
+  id: 'request-1',
+  customerId: 'customer-1',
+  customerName: 'Asha',
+  customerPhone: '+919800000000',
+  customerAddress: address,
+  serviceType: 'Plumbing',
+  status: 'accepted',
+  createdAt: at(0),
+  updatedAt: at(0),
+  ...overrides,
+});
+
+const jobCard = (overrides: Partial<JobCard> = {}): JobCard => ({
+  id: 'card-1',
+  providerId: 'provider-1',
+  providerName: 'Ravi',
+  providerAddress: {...address, type: 'home'},
+  customerId: 'customer-1',
+  customerName: 'Asha',
+  customerPhone: '+919800000000',
+  customerAddress: address,
+  serviceType: 'Plumbing',
+  consultationId: 'request-1',
+  status: 'accepted',
+  createdAt: at(5),
+  updatedAt: at(5),
+  ...overrides,
+});
+
+const steps = (events: ReturnType<typeof buildServiceTimeline>) =>
+  events.map(event => [event.type, event.at.getUTCMinutes()]);
+
+describe('buildServiceTimeline', () => {
+  it('derives the steps of jobs without a progress log', () => {
+    const timeline = buildServiceTimeline(
+      request({arrivedAt: at(20)}),
+      jobCard({status: 'completed', startedAt: at(25), completedAt: at(50), pinGeneratedAt: at(5)}),
+    );
+
+    expect(steps(timeline)).toEqual([
+      ['requested', 0],
+      ['accepted', 5],
+      ['arrived', 20],
+      ['started', 25],
+      ['completed', 50],
+    ]);
+  });
+
+  it('dates completion from the last update when completedAt is missing', () => {
+    const timeline = buildServiceTimeline(null, jobCard({status: 'completed', updatedAt: at(45)}));
+
+    expect(steps(timeline)).toEqual([
+      ['accepted', 5],
+      ['completed', 45],
+    ]);
+  });
+
+  it('only has the request before a provider accepts', () => {
+    expect(steps(buildServiceTimeline(request({status: 'pending'}), null))).toEqual([['requested', 0]]);
+    expect(buildServiceTimeline(null, null)).toEqual([]);
+  });
+
+  it('prefers recorded events and keeps repeated ones', () => {
+    const timeline = buildServiceTimeline(
+      request(),
+      jobCard({
+        startedAt: at(25),
+        events: [
+          {type: 'requested', actor: 'customer', at: at(1)},
+          {type: 'accepted', actor: 'provider', at: at(6)},
+          {type: 'materials-added', actor: 'provider', at: at(30), note: 'Washer'},
+          {type: 'materials-added', actor: 'provider', at: at(35), note: 'Tap'},
+        ],
+      }),
+    );
+
+    expect(steps(timeline)).toEqual([
+      ['requested', 1],
+      ['accepted', 6],
+      ['started', 25],
+      ['materials-added', 30],
+      ['materials-added', 35],
+    ]);
+  });
+
+  it('orders steps with the same timestamp by their usual sequence', () => {
+    const timeline = buildServiceTimeline(
+      null,
+      jobCard({
+        events: [
+          {type: 'started', actor: 'provider', at: at(20)},
+          {type: 'arrived', actor: 'system', at: at(20)},
+          {type: 'en-route', actor: 'provider', at: at(10)},
+        ],
+      }),
+    );
+
+    expect(timeline.map(event => event.type)).toEqual(['accepted', 'en-route', 'arrived', 'started']);
+  });
+});
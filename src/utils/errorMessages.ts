@@ -0,0 +1,66 @@
+/**
+ * Error message helpers
+ * Maps API errors to localized copy from the `errors` i18n namespace
+ */
+
+import i18n from '../i18n';
+import {
+  ApiError,
+  InvalidTransitionError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  ServerError,
+  SlotUnavailableError,
+  TimeoutError,
+  UnauthorizedError,
+  UploadFailedError,
+  ValidationError,
+} from '../services/api/apiErrors';
+
+/**
+ * Get a user-facing message for an error
+ * API errors use localized copy; `fallbackKey` is used for API errors
+ * without a specific message and for errors without a message
+ */
+export const getErrorMessage = (error: unknown, fallbackKey: string = 'errors.generic'): string => {
+  if (error instanceof NetworkError) {
+    return i18n.t('errors.network');
+  }
+  if (error instanceof TimeoutError) {
+    return i18n.t('errors.timeout');
+  }
+  if (error instanceof UnauthorizedError) {
+    return i18n.t('errors.unauthorized');
+  }
+  if (error instanceof NotFoundError) {
+    return i18n.t('errors.notFound');
+  }
+  if (error instanceof RateLimitedError) {
+    return error.retryAfter
+      ? i18n.t('errors.rateLimitedRetry', {seconds: error.retryAfter})
+      : i18n.t('errors.rateLimited');
+  }
+  if (error instanceof ValidationError) {
+    const fieldMessages = Object.values(error.fieldErrors);
+    return fieldMessages.length > 0
+      ? `${i18n.t('errors.validation')}\n\n${fieldMessages.map(message => `• ${message}`).join('\n')}`
+      : i18n.t('errors.validation');
+  }
+  if (error instanceof InvalidTransitionError) {
+    return i18n.t('errors.invalidTransition');
+  }
+  if (error instanceof SlotUnavailableError) {
+    return i18n.t('errors.slotUnavailable');
+  }
+  if (error instanceof UploadFailedError) {
+    return i18n.t('errors.uploadFailed');
+  }
+  if (error instanceof ServerError) {
+    return i18n.t('errors.serverError');
+  }
+  if (error instanceof ApiError) {
+    return i18n.t(fallbackKey);
+  }
+  return (error as any)?.message || i18n.t(fallbackKey);
+};
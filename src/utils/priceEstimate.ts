@@ -0,0 +1,132 @@
+/**
+ * Price estimate helpers
+ * Turns a category's rate card and the customer's questionnaire answers
+ * into the price range shown before booking
+ */
+
+import type {MaterialUsed, PriceEstimate, PriceEstimateLine, RateCard} from '../types/domain';
+import type {QuestionnaireQuestion} from '../services/serviceCategoriesService';
+import {getVisibleQuestions} from './questionnaire';
+
+const DEFAULT_VARIANCE = 0.15;
+
+// Estimates are shown in round figures
+const ROUND_TO = 10;
+
+interface EstimateInput {
+  answers: Record<string, any>;
+  urgency: 'immediate' | 'scheduled';
+  // Visit time for scheduled bookings; immediate bookings use the current time
+  scheduledTime?: Date | null;
+}
+
+function isNightHour(hour: number, startHour: number, endHour: number): boolean {
+  return startHour <= endHour
+    ? hour >= startHour && hour < endHour
+    : hour >= startHour || hour < endHour;
+}
+
+/**
+ * Charge for one question's answer, or 0 when the answer has no price
+ */
+function getAnswerAmount(rateCard: RateCard, question: QuestionnaireQuestion, answer: any): number {
+  const charges = (rateCard.answerCharges || []).filter(charge => charge.questionId === question.id);
+  if (charges.length === 0 || answer === undefined || answer === null || answer === '') {
+    return 0;
+  }
+
+  switch (question.type) {
+    case 'number':
+    case 'range': {
+      const units = Number(answer);
+      return isNaN(units) || units <= 0 ? 0 : charges[0].amount * units;
+    }
+    case 'boolean':
+      return answer === true ? charges[0].amount : 0;
+    case 'yesNoDetails':
+      return answer.value === true ? charges[0].amount : 0;
+    case 'select':
+      return charges.find(charge => charge.option === answer)?.amount || 0;
+    case 'multiselect': {
+      const selected: string[] = Array.isArray(answer) ? answer : [];
+      return charges
+        .filter(charge => charge.option !== undefined && selected.includes(charge.option))
+        .reduce((sum, charge) => sum + charge.amount, 0);
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Estimate the price of a request
+ * Returns null when the category has no rate card
+ */
+export function estimatePrice(
+  rateCard: RateCard | undefined,
+  questionnaire: QuestionnaireQuestion[],
+  {answers, urgency, scheduledTime}: EstimateInput,
+  now: Date = new Date(),
+): PriceEstimate | null {
+  if (!rateCard) {
+    return null;
+  }
+
+  const lines: PriceEstimateLine[] = [{type: 'base', amount: rateCard.baseVisitCharge}];
+
+  // Answers to questions hidden by their conditions are not charged
+  getVisibleQuestions(questionnaire, answers).forEach(question => {
+    const amount = getAnswerAmount(rateCard, question, answers[question.id]);
+    if (amount > 0) {
+      lines.push({type: 'answer', questionId: question.id, amount});
+    }
+  });
+
+  if (urgency === 'immediate' && rateCard.immediateSurcharge) {
+    lines.push({type: 'immediate', amount: rateCard.immediateSurcharge});
+  }
+
+  const visitTime = urgency === 'immediate' ? now : scheduledTime;
+  const night = rateCard.nightSurcharge;
+  if (night && visitTime && isNightHour(visitTime.getHours(), night.startHour, night.endHour)) {
+    lines.push({type: 'night', amount: night.amount});
+  }
+
+  const total = lines.reduce((sum, line) => sum + line.amount, 0);
+  const variance = rateCard.variance ?? DEFAULT_VARIANCE;
+
+  return {
+    min: Math.floor((total * (1 - variance)) / ROUND_TO) * ROUND_TO,
+    max: Math.ceil((total * (1 + variance)) / ROUND_TO) * ROUND_TO,
+    lines,
+    estimatedAt: now,
+  };
+}
+
+/**
+ * Final bill of a job: the recorded total, or the service fee plus materials
+ */
+export function getBillTotal(bill: {
+  totalAmount?: number;
+  serviceAmount?: number;
+  materialsUsed?: MaterialUsed[];
+}): number {
+  if (bill.totalAmount) {
+    return bill.totalAmount;
+  }
+  const materials = (bill.materialsUsed || []).reduce((sum, material) => sum + (material.total || 0), 0);
+  return (bill.serviceAmount || 0) + materials;
+}
+
+/**
+ * Where the final bill landed relative to the estimate
+ */
+export function compareWithEstimate(
+  estimate: PriceEstimate,
+  billTotal: number,
+): 'below' | 'within' | 'above' {
+  if (billTotal < estimate.min) {
+    return 'below';
+  }
+  return billTotal > estimate.max ? 'above' : 'within';
+}
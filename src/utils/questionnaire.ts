@@ -0,0 +1,233 @@
+/**
+ * Questionnaire helpers
+ * Conditional visibility and validation for service category questionnaires
+ */
+
+import i18n from '../i18n';
+import type {QuestionnaireQuestion} from '../services/serviceCategoriesService';
+
+export type QuestionnaireAnswers = Record<string, any>;
+
+// Answer of a 'yesNoDetails' question
+export interface YesNoDetailsAnswer {
+  value: boolean;
+  details?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Date answers are stored as local calendar dates, e.g. "2024-03-15"
+ */
+export function toDateAnswer(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function parseDateAnswer(answer: string): Date | null {
+  const [year, month, day] = String(answer).split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Whether an answer counts as given
+ */
+export function hasAnswer(answer: any): boolean {
+  if (answer === undefined || answer === null || answer === '') {
+    return false;
+  }
+  if (Array.isArray(answer)) {
+    return answer.length > 0;
+  }
+  if (typeof answer === 'object' && 'value' in answer) {
+    return typeof answer.value === 'boolean';
+  }
+  return true;
+}
+
+/**
+ * Value used when another question's condition refers to this answer
+ */
+function getComparableAnswer(answer: any): any {
+  if (answer && typeof answer === 'object' && !Array.isArray(answer) && 'value' in answer) {
+    return answer.value;
+  }
+  return answer;
+}
+
+/**
+ * Whether a question is shown for the current answers
+ * A question is hidden when the question it depends on is hidden itself
+ */
+export function isQuestionVisible(
+  question: QuestionnaireQuestion,
+  questions: QuestionnaireQuestion[],
+  answers: QuestionnaireAnswers,
+  seen: Set<string> = new Set(),
+): boolean {
+  const condition = question.showIf;
+  if (!condition) {
+    return true;
+  }
+  // Guard against questions that depend on each other
+  if (seen.has(question.id)) {
+    return false;
+  }
+  seen.add(question.id);
+
+  const parent = questions.find(q => q.id === condition.questionId);
+  if (parent && !isQuestionVisible(parent, questions, answers, seen)) {
+    return false;
+  }
+
+  const answer = getComparableAnswer(answers[condition.questionId]);
+  if (!hasAnswer(answer)) {
+    return false;
+  }
+  if (condition.oneOf) {
+    const values = Array.isArray(answer) ? answer : [answer];
+    return values.some(value => condition.oneOf!.includes(String(value)));
+  }
+  if (condition.equals !== undefined) {
+    // Number answers are typed in as text, so compare as strings
+    const expected = String(condition.equals);
+    return Array.isArray(answer)
+      ? answer.some(value => String(value) === expected)
+      : String(answer) === expected;
+  }
+  return true;
+}
+
+export function getVisibleQuestions(
+  questions: QuestionnaireQuestion[],
+  answers: QuestionnaireAnswers,
+): QuestionnaireQuestion[] {
+  return questions.filter(question => isQuestionVisible(question, questions, answers));
+}
+
+/**
+ * Answers to the visible questions only
+ * Answers left behind by questions that have since been hidden are not submitted
+ */
+export function getSubmittableAnswers(
+  questions: QuestionnaireQuestion[],
+  answers: QuestionnaireAnswers,
+): QuestionnaireAnswers {
+  const submittable: QuestionnaireAnswers = {};
+  getVisibleQuestions(questions, answers).forEach(question => {
+    if (hasAnswer(answers[question.id])) {
+      submittable[question.id] = answers[question.id];
+    }
+  });
+  return submittable;
+}
+
+function getPatternMessage(question: QuestionnaireQuestion): string {
+  if (i18n.language === 'hi' && question.patternMessageHi) {
+    return question.patternMessageHi;
+  }
+  return question.patternMessage || i18n.t('questionnaire.invalidFormat');
+}
+
+/**
+ * Check one answer against the question's rules
+ * Returns a localized message, or null when the answer is valid
+ */
+export function validateAnswer(question: QuestionnaireQuestion, answer: any): string | null {
+  if (!hasAnswer(answer)) {
+    return question.required ? i18n.t('questionnaire.required') : null;
+  }
+
+  const {min, max} = question;
+  switch (question.type) {
+    case 'number':
+    case 'range': {
+      const value = Number(answer);
+      if (isNaN(value)) {
+        return i18n.t('questionnaire.invalidNumber');
+      }
+      if (min !== undefined && value < min) {
+        return i18n.t('questionnaire.minValue', {min});
+      }
+      if (max !== undefined && value > max) {
+        return i18n.t('questionnaire.maxValue', {max});
+      }
+      return null;
+    }
+    case 'text': {
+      const text = String(answer).trim();
+      if (min !== undefined && text.length < min) {
+        return i18n.t('questionnaire.minLength', {count: min});
+      }
+      if (max !== undefined && text.length > max) {
+        return i18n.t('questionnaire.maxLength', {count: max});
+      }
+      if (question.pattern) {
+        try {
+          if (!new RegExp(`^(?:${question.pattern})$`).test(text)) {
+            return getPatternMessage(question);
+          }
+        } catch {
+          console.warn(`Invalid pattern on question ${question.id}:`, question.pattern);
+        }
+      }
+      return null;
+    }
+    case 'multiselect':
+    case 'photo': {
+      const count = Array.isArray(answer) ? answer.length : 0;
+      if (min !== undefined && count < min) {
+        return i18n.t('questionnaire.minSelections', {count: min});
+      }
+      if (max !== undefined && count > max) {
+        return i18n.t('questionnaire.maxSelections', {count: max});
+      }
+      return null;
+    }
+    case 'date': {
+      const date = parseDateAnswer(answer);
+      if (!date) {
+        return i18n.t('questionnaire.invalidDate');
+      }
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      const days = Math.round((date.getTime() - today.getTime()) / DAY_MS);
+      if (min !== undefined && days < min) {
+        return i18n.t('questionnaire.dateTooEarly');
+      }
+      if (max !== undefined && days > max) {
+        return i18n.t('questionnaire.dateTooLate');
+      }
+      return null;
+    }
+    case 'yesNoDetails': {
+      const {value, details} = answer as YesNoDetailsAnswer;
+      if (value && question.required && !details?.trim()) {
+        return i18n.t('questionnaire.detailsRequired');
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate every visible question
+ * Returns messages keyed by question id; empty when all answers are valid
+ */
+export function validateAnswers(
+  questions: QuestionnaireQuestion[],
+  answers: QuestionnaireAnswers,
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  getVisibleQuestions(questions, answers).forEach(question => {
+    const error = validateAnswer(question, answers[question.id]);
+    if (error) {
+      errors[question.id] = error;
+    }
+  });
+  return errors;
+}
@@ -0,0 +1,197 @@
+/**
+ * Recurrence helpers
+ * Expands a recurring booking's rule into its occurrences, applying the
+ * per-occurrence exceptions (skipped, rescheduled, cancelled)
+ */
+
+import i18n from '../i18n';
+import type {OccurrenceException, RecurrenceRule} from '../types/domain';
+
+export interface Occurrence {
+  // Original slot - identifies the occurrence even after it is rescheduled
+  occurrenceDate: Date;
+  // When the visit actually happens
+  scheduledTime: Date;
+  // Position in the series, counting from 0
+  index: number;
+  status: 'scheduled' | OccurrenceException['action'];
+}
+
+// Stop expanding open-ended or sparse rules after this many days
+const MAX_SERIES_DAYS = 2 * 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Same day of the month `months` later, clamped to the month's last day
+ */
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(date.getDate(), lastDay));
+  return result;
+}
+
+/**
+ * Nth slot of the rule, or null when the rule has no such slot
+ * Weekly rules are handled separately as they can have several slots a week
+ */
+function getSlot(rule: RecurrenceRule, n: number): Date | null {
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(rule.startDate, n);
+    case 'interval':
+      return addDays(rule.startDate, n * Math.max(1, rule.intervalDays || 1));
+    case 'monthly':
+      return addMonths(rule.startDate, n);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Every slot of the rule in order, up to the end of the series
+ */
+function* generateSlots(rule: RecurrenceRule): Generator<Date> {
+  const horizon = rule.startDate.getTime() + MAX_SERIES_DAYS * DAY_MS;
+  // The end date includes visits later that day
+  const endOfSeries = rule.endDate
+    ? new Date(rule.endDate.getFullYear(), rule.endDate.getMonth(), rule.endDate.getDate(), 23, 59, 59)
+    : null;
+  const isPastEnd = (slot: Date) =>
+    slot.getTime() > horizon || (endOfSeries !== null && slot > endOfSeries);
+
+  if (rule.frequency === 'weekly') {
+    const weekdays = rule.weekdays?.length ? rule.weekdays : [rule.startDate.getDay()];
+    for (let day = 0; ; day++) {
+      const slot = addDays(rule.startDate, day);
+      if (isPastEnd(slot)) {
+        return;
+      }
+      if (weekdays.includes(slot.getDay())) {
+        yield slot;
+      }
+    }
+  }
+
+  for (let n = 0; ; n++) {
+    const slot = getSlot(rule, n);
+    if (!slot || isPastEnd(slot)) {
+      return;
+    }
+    yield slot;
+  }
+}
+
+/**
+ * Expand a rule into occurrences
+ * Returns up to `limit` occurrences whose visit is at or after `from`
+ * (default: all of them, from the first)
+ */
+export function generateOccurrences(
+  rule: RecurrenceRule,
+  {from, limit = 10}: {from?: Date; limit?: number} = {},
+): Occurrence[] {
+  const exceptions = new Map(
+    (rule.exceptions || []).map(exception => [exception.occurrenceDate.getTime(), exception]),
+  );
+  const occurrences: Occurrence[] = [];
+  let index = 0;
+
+  for (const slot of generateSlots(rule)) {
+    if (rule.occurrenceCount && index >= rule.occurrenceCount) {
+      break;
+    }
+    const exception = exceptions.get(slot.getTime());
+    const scheduledTime =
+      exception?.action === 'rescheduled' && exception.scheduledTime ? exception.scheduledTime : slot;
+
+    if (!from || scheduledTime >= from) {
+      occurrences.push({
+        occurrenceDate: slot,
+        scheduledTime,
+        index,
+        status: exception?.action || 'scheduled',
+      });
+      if (occurrences.length >= limit) {
+        break;
+      }
+    }
+    index++;
+  }
+
+  return occurrences;
+}
+
+/**
+ * Next visit that has not been skipped or cancelled, or null when the series is over
+ */
+export function getNextOccurrence(rule: RecurrenceRule, from: Date = new Date()): Occurrence | null {
+  return (
+    generateOccurrences(rule, {from, limit: 50}).find(
+      occurrence => occurrence.status === 'scheduled' || occurrence.status === 'rescheduled',
+    ) || null
+  );
+}
+
+/**
+ * Check a rule before it is submitted
+ * Returns the i18n key of the problem, or null when the rule is valid
+ */
+export function validateRecurrenceRule(rule: RecurrenceRule): string | null {
+  if (rule.frequency === 'weekly' && !rule.weekdays?.length) {
+    return 'recurrence.noWeekdays';
+  }
+  if (rule.frequency === 'interval' && (!rule.intervalDays || rule.intervalDays < 2)) {
+    return 'recurrence.invalidInterval';
+  }
+  if (rule.endDate && rule.endDate < rule.startDate) {
+    return 'recurrence.endBeforeStart';
+  }
+  if (rule.occurrenceCount !== undefined && rule.occurrenceCount < 2) {
+    return 'recurrence.invalidCount';
+  }
+  return null;
+}
+
+/**
+ * Short description, e.g. "Weekly on Mon, Thu · 8 visits"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  let description: string;
+  switch (rule.frequency) {
+    case 'daily':
+      description = i18n.t('recurrence.everyDay');
+      break;
+    case 'weekly': {
+      const weekdays = (rule.weekdays?.length ? rule.weekdays : [rule.startDate.getDay()])
+        .slice()
+        .sort((a, b) => a - b)
+        .map(day => i18n.t(`recurrence.weekdayShort${day}`))
+        .join(', ');
+      description = i18n.t('recurrence.weeklyOn', {days: weekdays});
+      break;
+    }
+    case 'monthly':
+      description = i18n.t('recurrence.monthlyOn', {day: rule.startDate.getDate()});
+      break;
+    default:
+      description = i18n.t('recurrence.everyNDays', {count: rule.intervalDays || 1});
+  }
+
+  if (rule.occurrenceCount) {
+    return `${description} · ${i18n.t('recurrence.visitCount', {count: rule.occurrenceCount})}`;
+  }
+  if (rule.endDate) {
+    return `${description} · ${i18n.t('recurrence.until', {date: rule.endDate.toLocaleDateString()})}`;
+  }
+  return description;
+}
@@ -0,0 +1,71 @@
+/**
+ * Service timeline helpers
+ * Puts together a job's progress log for display, filling in the steps that
+ * older jobs only have timestamps for
+ */
+
+import type {JobCard, ServiceEvent, ServiceEventType, ServiceRequest} from '../types/domain';
+
+// The order steps normally happen in; also breaks ties between equal timestamps
+export const SERVICE_EVENT_ORDER: ServiceEventType[] = [
+  'requested',
+  'offered',
+  'accepted',
+  'en-route',
+  'arrived',
+  'started',
+  'materials-added',
+  'completed',
+  'verified',
+  'reviewed',
+];
+
+/**
+ * Steps known only from the request and job card fields, for jobs created
+ * before the progress log was recorded
+ */
+function deriveEvents(serviceRequest: ServiceRequest | null, jobCard: JobCard | null): ServiceEvent[] {
+  const derived: ServiceEvent[] = [];
+  const requestedAt = serviceRequest?.createdAt;
+  if (requestedAt) {
+    derived.push({type: 'requested', actor: 'customer', at: requestedAt});
+  }
+  if (jobCard) {
+    derived.push({type: 'accepted', actor: 'provider', at: jobCard.createdAt});
+  }
+  if (serviceRequest?.arrivedAt) {
+    derived.push({type: 'arrived', actor: 'system', at: serviceRequest.arrivedAt});
+  }
+  // Not pinGeneratedAt - the PIN is issued on accept, long before it is verified
+  if (jobCard?.startedAt) {
+    derived.push({type: 'started', actor: 'provider', at: jobCard.startedAt});
+  }
+  if (jobCard?.status === 'completed') {
+    // Cards without completedAt were last updated when they were completed
+    derived.push({type: 'completed', actor: 'provider', at: jobCard.completedAt || jobCard.updatedAt});
+  }
+  return derived;
+}
+
+/**
+ * The job's progress, oldest first
+ * Recorded events win over derived ones of the same type; repeatable steps
+ * (e.g. materials added) are all kept
+ */
+export function buildServiceTimeline(
+  serviceRequest: ServiceRequest | null,
+  jobCard: JobCard | null,
+): ServiceEvent[] {
+  const recorded = jobCard?.events || [];
+  const recordedTypes = new Set(recorded.map(event => event.type));
+  const events = [
+    ...recorded,
+    ...deriveEvents(serviceRequest, jobCard).filter(event => !recordedTypes.has(event.type)),
+  ];
+
+  return events.sort(
+    (a, b) =>
+      a.at.getTime() - b.at.getTime() ||
+      SERVICE_EVENT_ORDER.indexOf(a.type) - SERVICE_EVENT_ORDER.indexOf(b.type),
+  );
+}